@@ -0,0 +1,68 @@
+import { sql } from "kysely";
+import { getDb } from "../db/database.js";
+import type { DataSourceAuthError } from "../lib/errors.js";
+
+/**
+ * Why a data source stopped working, stored under `config.connectionIssue`
+ */
+export interface ConnectionIssue {
+  reason: string;
+  message: string;
+  detectedAt: string;
+}
+
+export function getConnectionIssue(config: Record<string, unknown>): ConnectionIssue | null {
+  const issue = config.connectionIssue as Partial<ConnectionIssue> | undefined;
+  if (!issue || typeof issue.reason !== "string" || typeof issue.detectedAt !== "string") {
+    return null;
+  }
+  return { reason: issue.reason, message: issue.message ?? "", detectedAt: issue.detectedAt };
+}
+
+/**
+ * Whether a source stopped working on its own, as opposed to being
+ * disconnected by the user
+ */
+export function needsReconnect(dataSource: {
+  status: string;
+  config: Record<string, unknown>;
+}): boolean {
+  return dataSource.status !== "active" && getConnectionIssue(dataSource.config) !== null;
+}
+
+/**
+ * Move an active data source to the error's status and record why. Returns
+ * false if the source was already marked (or is gone).
+ */
+export async function markConnectionFailed(
+  dataSourceId: string,
+  error: DataSourceAuthError
+): Promise<boolean> {
+  const db = getDb();
+  const issue: ConnectionIssue = {
+    reason: error.reason,
+    message: error.message,
+    detectedAt: new Date().toISOString(),
+  };
+  const patch = JSON.stringify({ connectionIssue: issue });
+
+  const result = await db
+    .updateTable("data_sources")
+    .set({
+      status: error.status,
+      config: sql<Record<string, unknown>>`config || ${patch}::jsonb`,
+      updated_at: new Date(),
+    })
+    .where("id", "=", dataSourceId)
+    .where("status", "=", "active")
+    .executeTakeFirst();
+
+  return result.numUpdatedRows > 0n;
+}
+
+/**
+ * Config expression that drops a previously recorded connection issue
+ */
+export function clearConnectionIssue() {
+  return sql<Record<string, unknown>>`config - 'connectionIssue'`;
+}
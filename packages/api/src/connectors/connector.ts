@@ -0,0 +1,96 @@
+import type { GA4Section, GoogleAdsSection, RankingsSection } from "@agency-reports/shared";
+import type { DataSourceType } from "../db/types.js";
+import type { OAuthState } from "./google-auth.js";
+
+export interface DateRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
+/**
+ * Per-source sections of a snapshot. Each connector owns exactly one key.
+ */
+export interface SnapshotSections {
+  ga4?: GA4Section;
+  googleAds?: GoogleAdsSection;
+  rankings?: RankingsSection;
+}
+
+export type SectionKey = keyof SnapshotSections;
+
+export interface ConnectorDataSource {
+  id: string;
+  clientId: string;
+  externalAccountId: string | null;
+  externalAccountName: string | null;
+  config: Record<string, unknown>;
+}
+
+export interface ConnectorPeriod {
+  clientId: string;
+  snapshotDate: string;
+  /** Storage key of the snapshot being generated */
+  snapshotKey: string;
+  current: DateRange;
+  previous: DateRange;
+  /** The current range shifted back one year */
+  yearAgo: DateRange;
+  /** Sections of the client's most recent earlier snapshot, if any */
+  previousSnapshot: SnapshotSections | null;
+  /** Sections of a stored snapshot covering exactly `yearAgo`, if any */
+  yearAgoSnapshot: SnapshotSections | null;
+}
+
+export interface ConnectorAccount {
+  id: string;
+  name: string;
+  currencyCode?: string | null;
+}
+
+export type ConnectRequest =
+  | { kind: "oauth"; state: OAuthState }
+  | {
+      kind: "api_key";
+      apiKey: string;
+      accountId?: string;
+      client: { id: string; primaryDomain: string | null };
+    };
+
+export type ConnectResult =
+  | { kind: "redirect"; url: string }
+  | {
+      kind: "credentials";
+      credentials: Record<string, unknown>;
+      externalAccountId: string | null;
+      externalAccountName: string | null;
+      config: Record<string, unknown>;
+    };
+
+/** "already_revoked" when the provider reports the credentials were no longer valid */
+export type RevokeOutcome = "revoked" | "already_revoked";
+
+export interface Connector<K extends SectionKey = SectionKey> {
+  type: DataSourceType;
+  authType: "oauth" | "api_key";
+  sectionKey: K;
+  /** Start an OAuth flow or validate API-key credentials */
+  connect(request: ConnectRequest): Promise<ConnectResult>;
+  /** Accounts/properties the connected credentials can report on */
+  listAccounts(dataSource: ConnectorDataSource): Promise<ConnectorAccount[]>;
+  /**
+   * Cheap authenticated call confirming the stored credentials still work.
+   * Throws DataSourceAuthError when they were rejected.
+   */
+  checkConnection(dataSource: ConnectorDataSource): Promise<void>;
+  /** Revoke the stored credentials with the provider; omitted when there is nothing to revoke */
+  revoke?(dataSource: ConnectorDataSource): Promise<RevokeOutcome>;
+  /** Fetch this source's snapshot section, or null if the source isn't configured yet */
+  fetch(
+    dataSource: ConnectorDataSource,
+    period: ConnectorPeriod
+  ): Promise<NonNullable<SnapshotSections[K]> | null>;
+  /** Headline numbers merged into snapshots.metrics_summary */
+  summarize(section: NonNullable<SnapshotSections[K]>): Record<string, number>;
+}
+
+export type AnyConnector = { [K in SectionKey]: Connector<K> }[SectionKey];
@@ -0,0 +1,242 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { DataSourceAuthError } from "../lib/errors.js";
+import { requestGoogleAdsAccounts, requestGoogleAdsMetrics } from "./google-ads.connector.js";
+
+interface StubResponse {
+  status: number;
+  body: unknown;
+}
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  developerToken: string | undefined;
+  body: { query?: string; pageToken?: string } | null;
+}
+
+// Stands in for the Google Ads REST API; each test routes requests to responses
+let server: Server;
+let respond: (request: RecordedRequest) => StubResponse;
+let requests: RecordedRequest[];
+
+async function readBody(request: IncomingMessage): Promise<RecordedRequest["body"]> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : null;
+}
+
+const dateRange = { startDate: "2024-03-01", endDate: "2024-03-31" };
+
+describe("Google Ads connector", () => {
+  before(async () => {
+    server = createServer(async (request, response) => {
+      const recorded: RecordedRequest = {
+        method: request.method ?? "",
+        url: request.url ?? "",
+        authorization: request.headers.authorization,
+        developerToken: request.headers["developer-token"] as string | undefined,
+        body: await readBody(request),
+      };
+      requests.push(recorded);
+
+      const { status, body } = respond(recorded);
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    const { port } = server.address() as AddressInfo;
+    process.env.GOOGLE_ADS_API_URL = `http://127.0.0.1:${port}/v18/`;
+    process.env.GOOGLE_ADS_DEVELOPER_TOKEN = "dev-token";
+  });
+
+  after(async () => {
+    delete process.env.GOOGLE_ADS_API_URL;
+    delete process.env.GOOGLE_ADS_DEVELOPER_TOKEN;
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  describe("requestGoogleAdsMetrics", () => {
+    it("follows pages, converts micros and totals campaigns split across rows", async () => {
+      respond = ({ body }) => {
+        if (body?.query?.includes("FROM campaign")) {
+          return body.pageToken === "page-2"
+            ? {
+                status: 200,
+                body: {
+                  results: [
+                    {
+                      campaign: { id: "1", name: "Brand" },
+                      metrics: {
+                        impressions: "500",
+                        clicks: "50",
+                        conversions: 5,
+                        costMicros: "25000000",
+                      },
+                    },
+                  ],
+                },
+              }
+            : {
+                status: 200,
+                body: {
+                  results: [
+                    {
+                      campaign: { id: "1", name: "Brand" },
+                      metrics: {
+                        impressions: "1500",
+                        clicks: "150",
+                        conversions: 15,
+                        costMicros: "75000000",
+                      },
+                    },
+                    {
+                      campaign: { id: "2", name: "Generic" },
+                      metrics: {
+                        impressions: "1000",
+                        clicks: "20",
+                        conversions: 0,
+                        costMicros: "10500000",
+                      },
+                    },
+                  ],
+                  nextPageToken: "page-2",
+                },
+              };
+        }
+
+        return {
+          status: 200,
+          body: {
+            results: [
+              {
+                segments: { date: "2024-03-01" },
+                customer: { currencyCode: "EUR" },
+                metrics: {
+                  impressions: "3000",
+                  clicks: "220",
+                  conversions: 20,
+                  costMicros: "110500000",
+                },
+              },
+            ],
+          },
+        };
+      };
+
+      const metrics = await requestGoogleAdsMetrics("token-1", "1234567890", dateRange);
+
+      const campaignRequests = requests.filter((request) =>
+        request.body?.query?.includes("FROM campaign")
+      );
+      assert.equal(campaignRequests.length, 2);
+      assert.equal(campaignRequests[0]!.body!.pageToken, undefined);
+      assert.equal(campaignRequests[1]!.body!.pageToken, "page-2");
+      for (const request of requests) {
+        assert.equal(request.method, "POST");
+        assert.equal(request.url, "/v18/customers/1234567890/googleAds:search");
+        assert.equal(request.authorization, "Bearer token-1");
+        assert.equal(request.developerToken, "dev-token");
+        assert.ok(request.body?.query?.includes("'2024-03-01' AND '2024-03-31'"));
+      }
+
+      assert.deepEqual(metrics.campaigns, [
+        {
+          id: "1",
+          name: "Brand",
+          impressions: 2000,
+          clicks: 200,
+          ctr: 10,
+          cpc: 0.5,
+          conversions: 20,
+          conversionRate: 10,
+          spend: 100,
+          costPerConversion: 5,
+        },
+        {
+          id: "2",
+          name: "Generic",
+          impressions: 1000,
+          clicks: 20,
+          ctr: 2,
+          cpc: 0.525,
+          conversions: 0,
+          conversionRate: 0,
+          spend: 10.5,
+          costPerConversion: null,
+        },
+      ]);
+      assert.equal(metrics.impressions, 3000);
+      assert.equal(metrics.clicks, 220);
+      assert.equal(metrics.spend, 110.5);
+      assert.equal(metrics.currencyCode, "EUR");
+      assert.deepEqual(metrics.dailyMetrics, [
+        { date: "2024-03-01", impressions: 3000, clicks: 220, conversions: 20, spend: 110.5 },
+      ]);
+    });
+  });
+
+  describe("requestGoogleAdsAccounts", () => {
+    it("names queryable accounts and lists manager or disabled ones by ID", async () => {
+      respond = ({ url }) => {
+        if (url === "/v18/customers:listAccessibleCustomers") {
+          return {
+            status: 200,
+            body: { resourceNames: ["customers/111", "customers/222"] },
+          };
+        }
+        if (url.startsWith("/v18/customers/111/")) {
+          return {
+            status: 200,
+            body: { results: [{ customer: { descriptiveName: "Acme", currencyCode: "USD" } }] },
+          };
+        }
+        return {
+          status: 403,
+          body: { error: { status: "PERMISSION_DENIED", details: ["CUSTOMER_NOT_ENABLED"] } },
+        };
+      };
+
+      assert.deepEqual(await requestGoogleAdsAccounts("token-1"), [
+        { customerId: "111", descriptiveName: "Acme", currencyCode: "USD" },
+        { customerId: "222", descriptiveName: "222", currencyCode: null },
+      ]);
+    });
+
+    it("reports a revoked grant instead of listing accounts", async () => {
+      respond = ({ url }) =>
+        url === "/v18/customers:listAccessibleCustomers"
+          ? { status: 200, body: { resourceNames: ["customers/111"] } }
+          : { status: 401, body: { error: { status: "UNAUTHENTICATED" } } };
+
+      await assert.rejects(requestGoogleAdsAccounts("token-1"), (error: unknown) => {
+        assert.ok(error instanceof DataSourceAuthError);
+        assert.equal(error.status, "expired");
+        return true;
+      });
+    });
+
+    it("maps lost account access to a DataSourceAuthError", async () => {
+      respond = () => ({ status: 403, body: { error: { status: "PERMISSION_DENIED" } } });
+
+      await assert.rejects(requestGoogleAdsAccounts("token-1"), (error: unknown) => {
+        assert.ok(error instanceof DataSourceAuthError);
+        assert.equal(error.status, "disconnected");
+        return true;
+      });
+    });
+  });
+});
@@ -0,0 +1,377 @@
+import type { GoogleAdsMetrics } from "@agency-reports/shared";
+import type { Connector, DateRange } from "./connector.js";
+import { calculateChange } from "./google-analytics.connector.js";
+import {
+  connectWithGoogleOAuth,
+  getValidAccessToken,
+  revokeGoogleGrant,
+  toGoogleAccessError,
+} from "./google-auth.js";
+
+const DEFAULT_ADS_API_URL = "https://googleads.googleapis.com/v18";
+
+export interface GoogleAdsAccount {
+  customerId: string;
+  descriptiveName: string;
+  currencyCode: string | null;
+}
+
+interface GoogleAdsRow {
+  campaign?: { id?: string; name?: string };
+  customer?: { id?: string; descriptiveName?: string; currencyCode?: string };
+  segments?: { date?: string };
+  metrics?: {
+    impressions?: string | number;
+    clicks?: string | number;
+    conversions?: string | number;
+    costMicros?: string | number;
+  };
+}
+
+interface GoogleAdsSearchResponse {
+  results?: GoogleAdsRow[];
+  nextPageToken?: string;
+}
+
+/**
+ * Base URL of the Google Ads REST API. Overridable so the connector can be
+ * pointed at a local fake of the API.
+ */
+function getAdsApiUrl(): string {
+  return (process.env.GOOGLE_ADS_API_URL || DEFAULT_ADS_API_URL).replace(/\/$/, "");
+}
+
+class GoogleAdsApiError extends Error {
+  constructor(
+    public status: number,
+    public body: string
+  ) {
+    super(`Google Ads API error (${status}): ${body}`);
+  }
+}
+
+// Manager-only and disabled accounts are listed but can't be queried directly
+const UNQUERYABLE_ACCOUNT_ERROR = /CUSTOMER_NOT_ENABLED|REQUESTED_METRICS_FOR_MANAGER/;
+
+/**
+ * Turn a rejected grant or lost account access into a DataSourceAuthError
+ */
+function toAdsAccessError(error: unknown): unknown {
+  if (error instanceof GoogleAdsApiError) {
+    return toGoogleAccessError(error.status, error.body) ?? error;
+  }
+  return error;
+}
+
+function getDeveloperToken(): string {
+  const token = process.env.GOOGLE_ADS_DEVELOPER_TOKEN;
+  if (!token) {
+    throw new Error("GOOGLE_ADS_DEVELOPER_TOKEN must be configured");
+  }
+  return token;
+}
+
+async function adsRequest<T>(
+  accessToken: string,
+  endpoint: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${accessToken}`,
+    "developer-token": getDeveloperToken(),
+  };
+  if (process.env.GOOGLE_ADS_LOGIN_CUSTOMER_ID) {
+    headers["login-customer-id"] = process.env.GOOGLE_ADS_LOGIN_CUSTOMER_ID;
+  }
+  if (init.body !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  const response = await fetch(`${getAdsApiUrl()}${endpoint}`, {
+    method: init.method ?? "GET",
+    headers,
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new GoogleAdsApiError(response.status, await response.text());
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Run a GAQL query against a customer, following pagination
+ */
+async function searchAll(
+  accessToken: string,
+  customerId: string,
+  query: string
+): Promise<GoogleAdsRow[]> {
+  const rows: GoogleAdsRow[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await adsRequest<GoogleAdsSearchResponse>(
+      accessToken,
+      `/customers/${customerId}/googleAds:search`,
+      {
+        method: "POST",
+        body: pageToken ? { query, pageToken } : { query },
+      }
+    );
+    rows.push(...(response.results ?? []));
+    pageToken = response.nextPageToken || undefined;
+  } while (pageToken);
+
+  return rows;
+}
+
+/**
+ * List Google Ads customer accounts accessible to the authenticated user
+ */
+export async function listGoogleAdsAccounts(dataSourceId: string): Promise<GoogleAdsAccount[]> {
+  return requestGoogleAdsAccounts(await getValidAccessToken(dataSourceId));
+}
+
+/**
+ * List the customer accounts an access token can reach, with their names
+ */
+export async function requestGoogleAdsAccounts(accessToken: string): Promise<GoogleAdsAccount[]> {
+  try {
+    const response = await adsRequest<{ resourceNames?: string[] }>(
+      accessToken,
+      "/customers:listAccessibleCustomers"
+    );
+
+    const accounts: GoogleAdsAccount[] = [];
+
+    for (const resourceName of response.resourceNames ?? []) {
+      // Extract customer ID from resource name (format: customers/1234567890)
+      const customerId = resourceName.replace("customers/", "");
+
+      try {
+        const [row] = await searchAll(
+          accessToken,
+          customerId,
+          "SELECT customer.id, customer.descriptive_name, customer.currency_code FROM customer LIMIT 1"
+        );
+        accounts.push({
+          customerId,
+          descriptiveName: row?.customer?.descriptiveName || customerId,
+          currencyCode: row?.customer?.currencyCode ?? null,
+        });
+      } catch (error) {
+        if (!(error instanceof GoogleAdsApiError && UNQUERYABLE_ACCOUNT_ERROR.test(error.body))) {
+          throw error;
+        }
+        accounts.push({ customerId, descriptiveName: customerId, currencyCode: null });
+      }
+    }
+
+    return accounts;
+  } catch (error) {
+    throw toAdsAccessError(error);
+  }
+}
+
+/**
+ * Fetch Google Ads metrics for a date range, split by campaign
+ */
+export async function fetchGoogleAdsMetrics(
+  dataSourceId: string,
+  customerId: string,
+  dateRange: DateRange
+): Promise<GoogleAdsMetrics> {
+  return requestGoogleAdsMetrics(await getValidAccessToken(dataSourceId), customerId, dateRange);
+}
+
+/**
+ * Query a customer's metrics for a date range with an access token
+ */
+export async function requestGoogleAdsMetrics(
+  accessToken: string,
+  customerId: string,
+  dateRange: DateRange
+): Promise<GoogleAdsMetrics> {
+  const dateFilter = `segments.date BETWEEN '${dateRange.startDate}' AND '${dateRange.endDate}'`;
+
+  const [campaignRows, dailyRows] = await Promise.all([
+    searchAll(
+      accessToken,
+      customerId,
+      `SELECT campaign.id, campaign.name, metrics.impressions, metrics.clicks, ` +
+        `metrics.conversions, metrics.cost_micros FROM campaign WHERE ${dateFilter}`
+    ),
+    searchAll(
+      accessToken,
+      customerId,
+      `SELECT segments.date, customer.currency_code, metrics.impressions, metrics.clicks, ` +
+        `metrics.conversions, metrics.cost_micros FROM customer WHERE ${dateFilter} ` +
+        `ORDER BY segments.date`
+    ),
+  ]);
+
+  // Campaign rows may be split by segment, so aggregate by campaign ID
+  const campaignTotals = new Map<
+    string,
+    { name: string; impressions: number; clicks: number; conversions: number; spend: number }
+  >();
+  for (const row of campaignRows) {
+    const id = String(row.campaign?.id ?? "unknown");
+    const existing = campaignTotals.get(id) ?? {
+      name: row.campaign?.name ?? "Unknown",
+      impressions: 0,
+      clicks: 0,
+      conversions: 0,
+      spend: 0,
+    };
+    existing.impressions += toNumber(row.metrics?.impressions);
+    existing.clicks += toNumber(row.metrics?.clicks);
+    existing.conversions += toNumber(row.metrics?.conversions);
+    existing.spend += microsToUnits(row.metrics?.costMicros);
+    campaignTotals.set(id, existing);
+  }
+
+  const campaigns = Array.from(campaignTotals.entries())
+    .map(([id, totals]) => ({
+      id,
+      name: totals.name,
+      ...deriveRates(totals),
+      costPerConversion: totals.conversions > 0 ? totals.spend / totals.conversions : null,
+    }))
+    .sort((a, b) => b.clicks - a.clicks);
+
+  const dailyMetrics = dailyRows.map((row) => ({
+    date: row.segments?.date ?? "",
+    impressions: toNumber(row.metrics?.impressions),
+    clicks: toNumber(row.metrics?.clicks),
+    conversions: toNumber(row.metrics?.conversions),
+    spend: microsToUnits(row.metrics?.costMicros),
+  }));
+
+  const totals = campaigns.reduce(
+    (sum, campaign) => ({
+      impressions: sum.impressions + campaign.impressions,
+      clicks: sum.clicks + campaign.clicks,
+      conversions: sum.conversions + campaign.conversions,
+      spend: sum.spend + campaign.spend,
+    }),
+    { impressions: 0, clicks: 0, conversions: 0, spend: 0 }
+  );
+
+  return {
+    ...deriveRates(totals),
+    currencyCode: dailyRows[0]?.customer?.currencyCode ?? null,
+    dailyMetrics,
+    campaigns,
+  };
+}
+
+export const googleAdsConnector: Connector<"googleAds"> = {
+  type: "google_ads",
+  authType: "oauth",
+  sectionKey: "googleAds",
+
+  connect: connectWithGoogleOAuth,
+
+  revoke: (dataSource) => revokeGoogleGrant(dataSource.id),
+
+  async listAccounts(dataSource) {
+    const accounts = await listGoogleAdsAccounts(dataSource.id);
+    return accounts.map((account) => ({
+      id: account.customerId,
+      name: account.descriptiveName,
+      currencyCode: account.currencyCode,
+    }));
+  },
+
+  async checkConnection(dataSource) {
+    const accessToken = await getValidAccessToken(dataSource.id);
+
+    try {
+      if (dataSource.externalAccountId) {
+        await adsRequest(
+          accessToken,
+          `/customers/${dataSource.externalAccountId}/googleAds:search`,
+          {
+            method: "POST",
+            body: { query: "SELECT customer.id FROM customer LIMIT 1" },
+          }
+        );
+      } else {
+        await adsRequest(accessToken, "/customers:listAccessibleCustomers");
+      }
+    } catch (error) {
+      throw toAdsAccessError(error);
+    }
+  },
+
+  async fetch(dataSource, period) {
+    const customerId = dataSource.externalAccountId;
+    if (!customerId) {
+      return null;
+    }
+
+    const [currentAds, previousAds] = await Promise.all([
+      fetchGoogleAdsMetrics(dataSource.id, customerId, period.current),
+      fetchGoogleAdsMetrics(dataSource.id, customerId, period.previous),
+    ]);
+
+    return {
+      customerId,
+      accountName: dataSource.externalAccountName ?? customerId,
+      currencyCode: currentAds.currencyCode ?? previousAds.currencyCode,
+      current: currentAds,
+      previous: previousAds,
+      changes: {
+        impressions: calculateChange(currentAds.impressions, previousAds.impressions),
+        clicks: calculateChange(currentAds.clicks, previousAds.clicks),
+        ctr: calculateChange(currentAds.ctr, previousAds.ctr),
+        cpc: calculateChange(currentAds.cpc, previousAds.cpc),
+        conversions: calculateChange(currentAds.conversions, previousAds.conversions),
+        conversionRate: calculateChange(currentAds.conversionRate, previousAds.conversionRate),
+        spend: calculateChange(currentAds.spend, previousAds.spend),
+      },
+    };
+  },
+
+  summarize(section) {
+    return {
+      adClicks: section.current.clicks,
+      adConversions: section.current.conversions,
+      adSpend: section.current.spend,
+    };
+  },
+};
+
+/**
+ * Compute CTR, CPC and conversion rate from summed totals
+ */
+function deriveRates(totals: {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+}) {
+  return {
+    impressions: totals.impressions,
+    clicks: totals.clicks,
+    ctr: totals.impressions > 0 ? (totals.clicks / totals.impressions) * 100 : 0,
+    cpc: totals.clicks > 0 ? totals.spend / totals.clicks : 0,
+    conversions: totals.conversions,
+    conversionRate: totals.clicks > 0 ? (totals.conversions / totals.clicks) * 100 : 0,
+    spend: totals.spend,
+  };
+}
+
+function toNumber(value: string | number | undefined): number {
+  if (value === undefined) return 0;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+// Ads API reports cost in micros (millionths of the account currency)
+function microsToUnits(value: string | number | undefined): number {
+  return toNumber(value) / 1_000_000;
+}
@@ -1,61 +1,32 @@
-import { google } from "googleapis";
+import type { GA4Changes, GA4DailyMetric, GA4Metrics, GA4Section } from "@agency-reports/shared";
+import { google, type analyticsdata_v1beta } from "googleapis";
 import { saveGa4DebugPayload } from "../services/storage.service.js";
-import { getAuthenticatedClient } from "./google-auth.js";
+import type { Connector, DateRange } from "./connector.js";
+import {
+  connectWithGoogleOAuth,
+  getAuthenticatedClient,
+  revokeGoogleGrant,
+  toGoogleAccessError,
+} from "./google-auth.js";
+
+export type { DateRange } from "./connector.js";
 
 export interface GA4Property {
   propertyId: string;
   displayName: string;
 }
 
-export interface GA4Metrics {
-  sessions: number;
-  users: number;
-  newUsers: number;
-  pageviews: number;
-  avgSessionDuration: number;
-  bounceRate: number;
-  activeUsers: number;
-  engagementRate: number;
-  userEngagementDuration: number;
-  dailyMetrics: Array<{
-    date: string;
-    sessions: number;
-    users: number;
-    newUsers: number;
-    pageviews: number;
-    avgSessionDuration: number;
-    bounceRate: number;
-    activeUsers: number;
-    engagementRate: number;
-    userEngagementDuration: number;
-  }>;
-  topPages: Array<{
-    path: string;
-    views: number;
-  }>;
-  channels: Array<{
-    name: string;
-    sessions: number;
-    users: number;
-    percentage: number;
-  }>;
-  keyEvents: Array<{
-    name: string;
-    count: number;
-  }>;
-  keyEventBreakdowns: Array<{
-    name: string;
-    total: number;
-    channels: Array<{
-      name: string;
-      count: number;
-    }>;
-  }>;
+export interface GA4KeyEvent {
+  eventName: string;
+  countingMethod: string | null;
 }
 
-export interface DateRange {
-  startDate: string; // YYYY-MM-DD
-  endDate: string; // YYYY-MM-DD
+/**
+ * A key event chosen for a client's report, stored in data_sources.config.keyEvents
+ */
+export interface KeyEventSelection {
+  name: string;
+  label?: string;
 }
 
 /**
@@ -92,14 +63,70 @@ export async function listGA4Properties(dataSourceId: string): Promise<GA4Proper
   return properties;
 }
 
+/**
+ * List the key events configured on a GA4 property
+ */
+export async function listGA4KeyEvents(
+  dataSourceId: string,
+  propertyId: string
+): Promise<GA4KeyEvent[]> {
+  const auth = await getAuthenticatedClient(dataSourceId);
+  const analyticsAdmin = google.analyticsadmin({ version: "v1beta", auth });
+
+  const keyEvents: GA4KeyEvent[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await analyticsAdmin.properties.keyEvents.list({
+      parent: `properties/${propertyId}`,
+      pageSize: 200,
+      pageToken,
+    });
+
+    for (const keyEvent of response.data.keyEvents ?? []) {
+      if (keyEvent.eventName) {
+        keyEvents.push({
+          eventName: keyEvent.eventName,
+          countingMethod: keyEvent.countingMethod ?? null,
+        });
+      }
+    }
+
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+
+  return keyEvents.sort((a, b) => a.eventName.localeCompare(b.eventName));
+}
+
+/**
+ * Read the key event selection from a data source config, ignoring malformed entries
+ */
+export function getKeyEventSelection(config: Record<string, unknown>): KeyEventSelection[] {
+  if (!Array.isArray(config.keyEvents)) {
+    return [];
+  }
+
+  return config.keyEvents.flatMap((entry: unknown) => {
+    if (!entry || typeof entry !== "object") return [];
+    const { name, label } = entry as { name?: unknown; label?: unknown };
+    if (typeof name !== "string" || !name) return [];
+    return [typeof label === "string" && label ? { name, label } : { name }];
+  });
+}
+
 /**
  * Fetch GA4 metrics for a date range
+ *
+ * When `keyEventSelection` is empty the top key events by count are reported
+ * and the first four are broken down by channel. Otherwise only the selected
+ * events are queried, in selection order, and every one is broken down.
  */
 export async function fetchGA4Metrics(
   dataSourceId: string,
   propertyId: string,
   dateRange: DateRange,
-  debugContext?: { clientId: string; snapshotDate: string; label: string }
+  keyEventSelection: KeyEventSelection[] = [],
+  debugContext?: { clientId: string; snapshotKey: string; label: string }
 ): Promise<GA4Metrics> {
   const auth = await getAuthenticatedClient(dataSourceId);
   const analyticsData = google.analyticsdata({ version: "v1beta", auth });
@@ -126,26 +153,8 @@ export async function fetchGA4Metrics(
   const mainRow = mainMetricsResponse.data.rows?.[0];
   const mainValues = mainRow?.metricValues ?? [];
 
-  // Fetch daily metrics for sparklines and time series charts
-  const dailyMetricsResponse = await analyticsData.properties.runReport({
-    property: `properties/${propertyId}`,
-    requestBody: {
-      dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
-      dimensions: [{ name: "date" }],
-      metrics: [
-        { name: "sessions" },
-        { name: "totalUsers" },
-        { name: "newUsers" },
-        { name: "screenPageViews" },
-        { name: "averageSessionDuration" },
-        { name: "bounceRate" },
-        { name: "activeUsers" },
-        { name: "engagementRate" },
-        { name: "userEngagementDuration" },
-      ],
-      orderBys: [{ dimension: { dimensionName: "date" } }],
-    },
-  });
+  // Fetch daily metrics for sparklines, time series charts and anomaly checks
+  const dailyMetricsResponse = await runDailyMetricsReport(analyticsData, propertyId, dateRange);
 
   // Fetch channel breakdown
   const channelResponse = await analyticsData.properties.runReport({
@@ -183,7 +192,8 @@ export async function fetchGA4Metrics(
     },
   });
 
-  // Fetch key events (conversions)
+  // Fetch key events (conversions), limited to the client's selection if one is set
+  const hasSelection = keyEventSelection.length > 0;
   const keyEventsResponse = await analyticsData.properties.runReport({
     property: `properties/${propertyId}`,
     requestBody: {
@@ -191,13 +201,18 @@ export async function fetchGA4Metrics(
       dimensions: [{ name: "eventName" }],
       metrics: [{ name: "keyEvents" }],
       dimensionFilter: {
-        filter: {
-          fieldName: "eventName",
-          stringFilter: {
-            matchType: "FULL_REGEXP",
-            value: ".*", // Get all events, filter by keyEvents metric
-          },
-        },
+        filter: hasSelection
+          ? {
+              fieldName: "eventName",
+              inListFilter: { values: keyEventSelection.map((event) => event.name) },
+            }
+          : {
+              fieldName: "eventName",
+              stringFilter: {
+                matchType: "FULL_REGEXP",
+                value: ".*", // Get all events, filter by keyEvents metric
+              },
+            },
       },
       orderBys: [{ metric: { metricName: "keyEvents" }, desc: true }],
       limit: "20",
@@ -205,16 +220,23 @@ export async function fetchGA4Metrics(
   });
 
   const keyEventRows = keyEventsResponse.data.rows ?? [];
-  const keyEvents = keyEventRows
-    .filter((row) => parseFloat(row.metricValues?.[0]?.value ?? "0") > 0)
-    .map((row) => ({
-      name: row.dimensionValues?.[0]?.value ?? "Unknown",
-      count: parseFloat(row.metricValues?.[0]?.value ?? "0"),
-    }));
+  const keyEventCounts = keyEventRows.map((row) => ({
+    name: row.dimensionValues?.[0]?.value ?? "Unknown",
+    count: parseFloat(row.metricValues?.[0]?.value ?? "0"),
+  }));
+
+  // Selected events keep their chosen order and label, and are shown even with no hits
+  const keyEvents: GA4Metrics["keyEvents"] = hasSelection
+    ? keyEventSelection.map((event) => ({
+        name: event.name,
+        ...(event.label ? { label: event.label } : {}),
+        count: keyEventCounts.find((row) => row.name === event.name)?.count ?? 0,
+      }))
+    : keyEventCounts.filter((event) => event.count > 0);
 
-  const topKeyEvents = keyEvents.slice(0, Math.min(4, keyEvents.length));
+  const breakdownEvents = hasSelection ? keyEvents : keyEvents.slice(0, 4);
   const keyEventBreakdownResponses = await Promise.all(
-    topKeyEvents.map((event) =>
+    breakdownEvents.map((event) =>
       analyticsData.properties.runReport({
         property: `properties/${propertyId}`,
         requestBody: {
@@ -238,7 +260,7 @@ export async function fetchGA4Metrics(
   );
 
   const keyEventBreakdowns = keyEventBreakdownResponses.map((response, index) => {
-    const eventName = topKeyEvents[index]?.name ?? "Unknown";
+    const event = breakdownEvents[index];
     const rows = response.data.rows ?? [];
     const channels = rows
       .map((row) => ({
@@ -248,29 +270,14 @@ export async function fetchGA4Metrics(
       .filter((channel) => channel.count > 0);
     const total = channels.reduce((sum, channel) => sum + channel.count, 0);
     return {
-      name: eventName,
+      name: event?.name ?? "Unknown",
+      ...(event?.label ? { label: event.label } : {}),
       total,
       channels,
     };
   });
 
-  const dailyRows = dailyMetricsResponse.data.rows ?? [];
-  const dailyMetrics = dailyRows.map((row) => {
-    const metricValues = row.metricValues ?? [];
-    const dateValue = row.dimensionValues?.[0]?.value ?? "";
-    return {
-      date: formatGa4Date(dateValue),
-      sessions: parseFloat(metricValues[0]?.value ?? "0"),
-      users: parseFloat(metricValues[1]?.value ?? "0"),
-      newUsers: parseFloat(metricValues[2]?.value ?? "0"),
-      pageviews: parseFloat(metricValues[3]?.value ?? "0"),
-      avgSessionDuration: parseFloat(metricValues[4]?.value ?? "0"),
-      bounceRate: parseFloat(metricValues[5]?.value ?? "0") * 100,
-      activeUsers: parseFloat(metricValues[6]?.value ?? "0"),
-      engagementRate: parseFloat(metricValues[7]?.value ?? "0") * 100,
-      userEngagementDuration: parseFloat(metricValues[8]?.value ?? "0"),
-    };
-  });
+  const dailyMetrics = parseDailyMetrics(dailyMetricsResponse.data);
 
   const pageViewsRows = pageViewsResponse.data.rows ?? [];
   const topPages = pageViewsRows.map((row) => ({
@@ -279,7 +286,7 @@ export async function fetchGA4Metrics(
   }));
 
   if (process.env.GA4_DEBUG_CAPTURE === "true" && debugContext) {
-    await saveGa4DebugPayload(debugContext.clientId, debugContext.snapshotDate, debugContext.label, {
+    await saveGa4DebugPayload(debugContext.clientId, debugContext.snapshotKey, debugContext.label, {
       fetchedAt: new Date().toISOString(),
       propertyId,
       dateRange,
@@ -312,6 +319,71 @@ export async function fetchGA4Metrics(
   };
 }
 
+/**
+ * Fetch only the per-day GA4 metrics for a date range, oldest day first
+ */
+export async function fetchGA4DailyMetrics(
+  dataSourceId: string,
+  propertyId: string,
+  dateRange: DateRange
+): Promise<GA4DailyMetric[]> {
+  const auth = await getAuthenticatedClient(dataSourceId);
+  const analyticsData = google.analyticsdata({ version: "v1beta", auth });
+
+  const response = await runDailyMetricsReport(analyticsData, propertyId, dateRange);
+  return parseDailyMetrics(response.data);
+}
+
+type RunReportResponse = analyticsdata_v1beta.Schema$RunReportResponse;
+
+// Key events are counted across all key events, whatever the client's selection
+function runDailyMetricsReport(
+  analyticsData: analyticsdata_v1beta.Analyticsdata,
+  propertyId: string,
+  dateRange: DateRange
+): Promise<{ data: RunReportResponse }> {
+  return analyticsData.properties.runReport({
+    property: `properties/${propertyId}`,
+    requestBody: {
+      dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
+      dimensions: [{ name: "date" }],
+      metrics: [
+        { name: "sessions" },
+        { name: "totalUsers" },
+        { name: "newUsers" },
+        { name: "screenPageViews" },
+        { name: "averageSessionDuration" },
+        { name: "bounceRate" },
+        { name: "activeUsers" },
+        { name: "engagementRate" },
+        { name: "userEngagementDuration" },
+        { name: "keyEvents" },
+      ],
+      orderBys: [{ dimension: { dimensionName: "date" } }],
+    },
+  });
+}
+
+function parseDailyMetrics(data: RunReportResponse): GA4DailyMetric[] {
+  return (data.rows ?? []).map((row) => {
+    const metricValues = row.metricValues ?? [];
+    const dateValue = row.dimensionValues?.[0]?.value ?? "";
+    return {
+      date: formatGa4Date(dateValue),
+      sessions: parseFloat(metricValues[0]?.value ?? "0"),
+      users: parseFloat(metricValues[1]?.value ?? "0"),
+      newUsers: parseFloat(metricValues[2]?.value ?? "0"),
+      pageviews: parseFloat(metricValues[3]?.value ?? "0"),
+      avgSessionDuration: parseFloat(metricValues[4]?.value ?? "0"),
+      bounceRate: parseFloat(metricValues[5]?.value ?? "0") * 100,
+      activeUsers: parseFloat(metricValues[6]?.value ?? "0"),
+      engagementRate: parseFloat(metricValues[7]?.value ?? "0") * 100,
+      userEngagementDuration: parseFloat(metricValues[8]?.value ?? "0"),
+      keyEvents: parseFloat(metricValues[9]?.value ?? "0"),
+    };
+  });
+}
+
 /**
  * Calculate percentage change between two values
  */
@@ -323,30 +395,125 @@ export function calculateChange(current: number, previous: number): number {
 }
 
 /**
- * Get date range for a specific month
+ * Percentage change of each headline GA4 metric
  */
-export function getMonthDateRange(year: number, month: number): DateRange {
-  const startDate = new Date(year, month - 1, 1);
-  const endDate = new Date(year, month, 0); // Last day of month
-
+export function calculateGA4Changes(current: GA4Metrics, previous: GA4Metrics): GA4Changes {
   return {
-    startDate: formatDate(startDate),
-    endDate: formatDate(endDate),
+    sessions: calculateChange(current.sessions, previous.sessions),
+    users: calculateChange(current.users, previous.users),
+    newUsers: calculateChange(current.newUsers, previous.newUsers),
+    pageviews: calculateChange(current.pageviews, previous.pageviews),
+    avgSessionDuration: calculateChange(current.avgSessionDuration, previous.avgSessionDuration),
+    bounceRate: calculateChange(current.bounceRate, previous.bounceRate),
+    activeUsers: calculateChange(current.activeUsers, previous.activeUsers),
+    engagementRate: calculateChange(current.engagementRate, previous.engagementRate),
+    userEngagementDuration: calculateChange(
+      current.userEngagementDuration,
+      previous.userEngagementDuration
+    ),
   };
 }
 
-/**
- * Get previous month date range
- */
-export function getPreviousMonthDateRange(year: number, month: number): DateRange {
-  const prevMonth = month === 1 ? 12 : month - 1;
-  const prevYear = month === 1 ? year - 1 : year;
-  return getMonthDateRange(prevYear, prevMonth);
-}
+export const googleAnalyticsConnector: Connector<"ga4"> = {
+  type: "google_analytics",
+  authType: "oauth",
+  sectionKey: "ga4",
 
-function formatDate(date: Date): string {
-  return date.toISOString().split("T")[0]!;
-}
+  connect: connectWithGoogleOAuth,
+
+  revoke: (dataSource) => revokeGoogleGrant(dataSource.id),
+
+  async listAccounts(dataSource) {
+    const properties = await listGA4Properties(dataSource.id);
+    return properties.map((property) => ({
+      id: property.propertyId,
+      name: property.displayName,
+    }));
+  },
+
+  async checkConnection(dataSource) {
+    const auth = await getAuthenticatedClient(dataSource.id);
+    const analyticsAdmin = google.analyticsadmin({ version: "v1beta", auth });
+
+    try {
+      if (dataSource.externalAccountId) {
+        await analyticsAdmin.properties.get({ name: `properties/${dataSource.externalAccountId}` });
+      } else {
+        await analyticsAdmin.accountSummaries.list({ pageSize: 1 });
+      }
+    } catch (error) {
+      const status = (error as { response?: { status?: number } }).response?.status;
+      const detail = error instanceof Error ? error.message : String(error);
+      throw (status && toGoogleAccessError(status, detail)) || error;
+    }
+  },
+
+  async fetch(dataSource, period) {
+    const propertyId = dataSource.externalAccountId;
+    if (!propertyId) {
+      return null;
+    }
+
+    const keyEvents = getKeyEventSelection(dataSource.config);
+
+    const [currentMetrics, previousMetrics] = await Promise.all([
+      fetchGA4Metrics(dataSource.id, propertyId, period.current, keyEvents, {
+        clientId: period.clientId,
+        snapshotKey: period.snapshotKey,
+        label: "current",
+      }),
+      fetchGA4Metrics(dataSource.id, propertyId, period.previous, keyEvents, {
+        clientId: period.clientId,
+        snapshotKey: period.snapshotKey,
+        label: "previous",
+      }),
+    ]);
+
+    const section: GA4Section = {
+      propertyId,
+      propertyName: dataSource.externalAccountName ?? propertyId,
+      current: currentMetrics,
+      previous: previousMetrics,
+      changes: calculateGA4Changes(currentMetrics, previousMetrics),
+    };
+
+    // A previous_year comparison already is the year-over-year view
+    const comparesWithYearAgo =
+      period.previous.startDate === period.yearAgo.startDate &&
+      period.previous.endDate === period.yearAgo.endDate;
+
+    if (!comparesWithYearAgo) {
+      // Reuse a stored snapshot of the same property to avoid another API round trip
+      const stored = period.yearAgoSnapshot?.ga4;
+      const storedMetrics = stored?.propertyId === propertyId ? stored.current : undefined;
+      const yearAgoMetrics =
+        storedMetrics ??
+        (await fetchGA4Metrics(dataSource.id, propertyId, period.yearAgo, keyEvents, {
+          clientId: period.clientId,
+          snapshotKey: period.snapshotKey,
+          label: "year-ago",
+        }));
+
+      section.yearOverYear = {
+        periodStart: period.yearAgo.startDate,
+        periodEnd: period.yearAgo.endDate,
+        source: storedMetrics ? "snapshot" : "api",
+        metrics: yearAgoMetrics,
+        changes: calculateGA4Changes(currentMetrics, yearAgoMetrics),
+      };
+    }
+
+    return section;
+  },
+
+  summarize(section) {
+    return {
+      sessions: section.current.sessions,
+      users: section.current.users,
+      pageviews: section.current.pageviews,
+    };
+  },
+};
 
 function formatGa4Date(dateValue: string): string {
   if (!dateValue || dateValue.length !== 8) return dateValue;
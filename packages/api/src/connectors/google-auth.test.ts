@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { after, beforeEach, describe, it } from "node:test";
+import { getHttpClient, setHttpClient, type HttpClient } from "../lib/http-client.js";
+import { revokeGoogleToken } from "./google-auth.js";
+
+interface RecordedRequest {
+  url: string;
+  method: string | undefined;
+  body: string;
+}
+
+const originalClient = getHttpClient();
+let requests: RecordedRequest[];
+let nextResponse: Response;
+
+// Stands in for Google's revocation endpoint; each test sets the next response
+const fakeClient: HttpClient = async (url, init) => {
+  requests.push({ url, method: init?.method, body: String(init?.body) });
+  return nextResponse;
+};
+
+describe("revokeGoogleToken", () => {
+  beforeEach(() => {
+    requests = [];
+    setHttpClient(fakeClient);
+  });
+
+  after(() => {
+    setHttpClient(originalClient);
+  });
+
+  it("posts the token to Google and reports it revoked", async () => {
+    nextResponse = new Response("{}", { status: 200 });
+
+    assert.equal(await revokeGoogleToken("refresh-1"), "revoked");
+    assert.deepEqual(requests, [
+      { url: "https://oauth2.googleapis.com/revoke", method: "POST", body: "token=refresh-1" },
+    ]);
+  });
+
+  it("treats an invalid token as already revoked", async () => {
+    nextResponse = new Response(JSON.stringify({ error: "invalid_token" }), { status: 400 });
+
+    assert.equal(await revokeGoogleToken("refresh-1"), "already_revoked");
+  });
+
+  it("throws when Google fails, so the credentials are kept", async () => {
+    nextResponse = new Response("backend error", { status: 503 });
+
+    await assert.rejects(
+      revokeGoogleToken("refresh-1"),
+      /Google token revocation failed \(503\): backend error/
+    );
+  });
+});
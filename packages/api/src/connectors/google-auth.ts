@@ -2,6 +2,13 @@ import crypto from "crypto";
 import { google } from "googleapis";
 import { getDb } from "../db/database.js";
 import type { DataSourceType } from "../db/types.js";
+import { decryptCredentials, encryptCredentials } from "../lib/credentials.js";
+import { DataSourceAuthError, ValidationError } from "../lib/errors.js";
+import { getHttpClient } from "../lib/http-client.js";
+import type { ConnectRequest, ConnectResult, RevokeOutcome } from "./connector.js";
+import { markConnectionFailed } from "./connection-status.js";
+
+const GOOGLE_REVOKE_URL = "https://oauth2.googleapis.com/revoke";
 
 // OAuth2 scopes for Google Analytics
 const SCOPES = {
@@ -95,6 +102,16 @@ export function generateAuthUrl(state: OAuthState): string {
   return url;
 }
 
+/**
+ * Connector `connect` implementation shared by the Google OAuth sources
+ */
+export async function connectWithGoogleOAuth(request: ConnectRequest): Promise<ConnectResult> {
+  if (request.kind !== "oauth") {
+    throw new ValidationError("Google data sources must be connected through OAuth");
+  }
+  return { kind: "redirect", url: generateAuthUrl(request.state) };
+}
+
 /**
  * Exchange authorization code for tokens
  */
@@ -142,6 +159,106 @@ export async function refreshAccessToken(refreshToken: string): Promise<OAuthCre
   };
 }
 
+/**
+ * Revoke a data source's Google grant. Revoking the refresh token also
+ * invalidates every access token issued from it. Throws if Google could not
+ * be reached or refused for any reason other than the token being invalid.
+ */
+export async function revokeGoogleGrant(dataSourceId: string): Promise<RevokeOutcome> {
+  const db = getDb();
+
+  const dataSource = await db
+    .selectFrom("data_sources")
+    .select("credentials_encrypted")
+    .where("id", "=", dataSourceId)
+    .executeTakeFirst();
+
+  if (!dataSource?.credentials_encrypted) {
+    return "already_revoked";
+  }
+
+  const credentials = await decryptCredentials<OAuthCredentials>(dataSource.credentials_encrypted);
+  return revokeGoogleToken(credentials.refreshToken || credentials.accessToken);
+}
+
+/**
+ * Ask Google to revoke a refresh or access token
+ */
+export async function revokeGoogleToken(token: string): Promise<RevokeOutcome> {
+  const response = await getHttpClient()(GOOGLE_REVOKE_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ token }).toString(),
+  });
+
+  if (response.ok) {
+    return "revoked";
+  }
+
+  const body = await response.text();
+  // An expired or already revoked token leaves nothing to revoke
+  if (response.status === 400 && body.includes("invalid_token")) {
+    return "already_revoked";
+  }
+
+  throw new Error(`Google token revocation failed (${response.status}): ${body}`);
+}
+
+/**
+ * Turn a failed token refresh into a DataSourceAuthError when Google has
+ * rejected the grant itself (expired, revoked or the user changed their
+ * password). Network errors, 5xx and OAuth client misconfiguration come back
+ * unchanged since reconnecting the source would not fix them.
+ */
+export function classifyTokenRefreshError(error: unknown): unknown {
+  const data = (error as { response?: { data?: unknown } } | null)?.response?.data as
+    | { error?: unknown; error_description?: unknown }
+    | undefined;
+
+  if (data?.error === "invalid_grant") {
+    const description =
+      typeof data.error_description === "string" ? data.error_description : "Token rejected";
+    return new DataSourceAuthError(
+      `Google access has expired or was revoked (${description}). Reconnect the data source.`,
+      "expired",
+      "invalid_grant"
+    );
+  }
+
+  return error;
+}
+
+/**
+ * Classify a failed authenticated Google API call. A 401 means the token was
+ * revoked after it was issued; 403/404 means the grant no longer reaches the
+ * selected property or account. Project-level problems (API disabled,
+ * unapproved developer token) also come back as 403 but affect every source,
+ * so they are left as ordinary errors.
+ */
+export function toGoogleAccessError(status: number, detail: string): DataSourceAuthError | null {
+  if (/SERVICE_DISABLED|DEVELOPER_TOKEN/.test(detail)) {
+    return null;
+  }
+
+  if (status === 401) {
+    return new DataSourceAuthError(
+      `Google rejected the access token (${detail}). Reconnect the data source.`,
+      "expired",
+      "unauthorized"
+    );
+  }
+
+  if (status === 403 || status === 404) {
+    return new DataSourceAuthError(
+      `The connected Google account no longer has access (${detail}). Reconnect with an account that does.`,
+      "disconnected",
+      "access_denied"
+    );
+  }
+
+  return null;
+}
+
 /**
  * Get a valid access token for a data source, refreshing if needed
  */
@@ -159,11 +276,14 @@ export async function getValidAccessToken(dataSourceId: string): Promise<string>
   }
 
   if (dataSource.status !== "active") {
-    throw new Error("Data source is not active");
+    throw new DataSourceAuthError(
+      `Data source is ${dataSource.status}; reconnect it to continue`,
+      dataSource.status,
+      dataSource.status
+    );
   }
 
-  // Parse stored credentials (in production, these would be encrypted)
-  const credentials = JSON.parse(dataSource.credentials_encrypted) as OAuthCredentials;
+  const credentials = await decryptCredentials<OAuthCredentials>(dataSource.credentials_encrypted);
 
   // Check if token is expired or about to expire (5 min buffer)
   const now = new Date();
@@ -171,14 +291,22 @@ export async function getValidAccessToken(dataSourceId: string): Promise<string>
   const needsRefresh = expiresAt.getTime() - now.getTime() < 5 * 60 * 1000;
 
   if (needsRefresh) {
-    // Refresh the token
-    const newCredentials = await refreshAccessToken(credentials.refreshToken);
+    let newCredentials: OAuthCredentials;
+    try {
+      newCredentials = await refreshAccessToken(credentials.refreshToken);
+    } catch (error) {
+      const classified = classifyTokenRefreshError(error);
+      if (classified instanceof DataSourceAuthError) {
+        await markConnectionFailed(dataSourceId, classified);
+      }
+      throw classified;
+    }
 
     // Update stored credentials
     await db
       .updateTable("data_sources")
       .set({
-        credentials_encrypted: JSON.stringify(newCredentials),
+        credentials_encrypted: await encryptCredentials(newCredentials),
         expires_at: newCredentials.expiresAt,
         updated_at: new Date(),
       })
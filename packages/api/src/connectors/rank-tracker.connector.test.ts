@@ -0,0 +1,200 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { DataSourceAuthError } from "../lib/errors.js";
+import {
+  requestKeywordRankings,
+  verifyRankTrackerApiKey,
+  type KeywordQuery,
+} from "./rank-tracker.connector.js";
+
+interface StubResponse {
+  status: number;
+  body: unknown;
+}
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  body: unknown;
+}
+
+// Stands in for the rank tracking API; each test sets the next response
+let server: Server;
+let nextResponse: StubResponse;
+let requests: RecordedRequest[];
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : null;
+}
+
+const keywords: KeywordQuery[] = [
+  { keyword: "Seo Agency", engine: "google", location: "London", targetUrl: null },
+  { keyword: "local seo", engine: "google", location: null, targetUrl: null },
+  { keyword: "seo audit", engine: "bing", location: null, targetUrl: null },
+];
+
+describe("rank tracker connector", () => {
+  before(async () => {
+    server = createServer(async (request, response) => {
+      requests.push({
+        method: request.method ?? "",
+        url: request.url ?? "",
+        authorization: request.headers.authorization,
+        body: await readBody(request),
+      });
+      response.writeHead(nextResponse.status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(nextResponse.body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    const { port } = server.address() as AddressInfo;
+    process.env.RANK_TRACKER_API_URL = `http://127.0.0.1:${port}/v1/`;
+  });
+
+  after(async () => {
+    delete process.env.RANK_TRACKER_API_URL;
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  });
+
+  beforeEach(() => {
+    requests = [];
+    nextResponse = { status: 200, body: {} };
+  });
+
+  describe("verifyRankTrackerApiKey", () => {
+    it("accepts a key the account endpoint accepts", async () => {
+      assert.equal(await verifyRankTrackerApiKey("key-1"), true);
+      assert.deepEqual(requests[0], {
+        method: "GET",
+        url: "/v1/account",
+        authorization: "Bearer key-1",
+        body: null,
+      });
+    });
+
+    it("rejects a key the account endpoint refuses", async () => {
+      nextResponse = { status: 401, body: { error: "invalid key" } };
+      assert.equal(await verifyRankTrackerApiKey("bad-key"), false);
+    });
+  });
+
+  describe("requestKeywordRankings", () => {
+    it("sends the domain and keywords with the API key", async () => {
+      nextResponse = { status: 200, body: { results: [] } };
+      await requestKeywordRankings("key-1", "example.com", keywords.slice(0, 1));
+
+      assert.equal(requests.length, 1);
+      assert.equal(requests[0]!.method, "POST");
+      assert.equal(requests[0]!.url, "/v1/rankings");
+      assert.equal(requests[0]!.authorization, "Bearer key-1");
+      assert.deepEqual(requests[0]!.body, {
+        domain: "example.com",
+        keywords: [
+          { keyword: "Seo Agency", engine: "google", location: "London", targetUrl: null },
+        ],
+      });
+    });
+
+    it("matches results to keywords and computes the change from previous rankings", async () => {
+      nextResponse = {
+        status: 200,
+        body: {
+          results: [
+            // Keywords match case-insensitively, and results without an engine are Google's
+            { keyword: "seo agency", rank: 3, url: "https://example.com/", searchVolume: 880 },
+            { keyword: "local seo", engine: "google", rank: 0, url: null },
+            { keyword: "seo audit", engine: "google", rank: 7 },
+          ],
+        },
+      };
+
+      const rankings = await requestKeywordRankings("key-1", "example.com", keywords, [
+        {
+          keyword: "seo agency",
+          engine: "google",
+          location: "London",
+          currentRank: 5,
+          previousRank: null,
+          change: null,
+          url: null,
+          searchVolume: null,
+        },
+      ]);
+
+      assert.deepEqual(rankings, [
+        {
+          keyword: "Seo Agency",
+          engine: "google",
+          location: "London",
+          currentRank: 3,
+          previousRank: 5,
+          change: 2,
+          url: "https://example.com/",
+          searchVolume: 880,
+        },
+        {
+          // A rank of 0 means not ranking
+          keyword: "local seo",
+          engine: "google",
+          location: null,
+          currentRank: null,
+          previousRank: null,
+          change: null,
+          url: null,
+          searchVolume: null,
+        },
+        {
+          // Only a Google result came back for a Bing keyword
+          keyword: "seo audit",
+          engine: "bing",
+          location: null,
+          currentRank: null,
+          previousRank: null,
+          change: null,
+          url: null,
+          searchVolume: null,
+        },
+      ]);
+    });
+
+    it("maps a rejected key to a DataSourceAuthError", async () => {
+      for (const status of [401, 403]) {
+        nextResponse = { status, body: { error: "invalid key" } };
+
+        await assert.rejects(
+          requestKeywordRankings("bad-key", "example.com", keywords),
+          (error: unknown) => {
+            assert.ok(error instanceof DataSourceAuthError);
+            assert.equal(error.status, "disconnected");
+            assert.equal(error.reason, "invalid_api_key");
+            return true;
+          }
+        );
+      }
+    });
+
+    it("reports other API failures with the status and body", async () => {
+      nextResponse = { status: 503, body: { error: "maintenance" } };
+
+      await assert.rejects(
+        requestKeywordRankings("key-1", "example.com", keywords),
+        (error: unknown) => {
+          assert.ok(error instanceof Error);
+          assert.ok(!(error instanceof DataSourceAuthError));
+          assert.equal(error.message, 'Rank tracker API error (503): {"error":"maintenance"}');
+          return true;
+        }
+      );
+    });
+  });
+});
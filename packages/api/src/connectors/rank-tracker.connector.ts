@@ -0,0 +1,292 @@
+import type { KeywordRanking } from "@agency-reports/shared";
+import { getDb } from "../db/database.js";
+import { decryptCredentials } from "../lib/credentials.js";
+import { DataSourceAuthError, ValidationError } from "../lib/errors.js";
+import { getTrackedKeywords } from "../services/keyword.service.js";
+import { markConnectionFailed } from "./connection-status.js";
+import type { Connector } from "./connector.js";
+
+const DEFAULT_RANK_TRACKER_API_URL = "https://api.ranktracker.com/v1";
+
+export interface RankTrackerCredentials {
+  apiKey: string;
+}
+
+export interface KeywordQuery {
+  keyword: string;
+  engine: string;
+  location: string | null;
+  targetUrl: string | null;
+}
+
+interface RankTrackerResponse {
+  results?: Array<{
+    keyword?: string;
+    engine?: string;
+    location?: string | null;
+    rank?: number | null;
+    url?: string | null;
+    searchVolume?: number | null;
+  }>;
+}
+
+/**
+ * Base URL of the rank tracking API. Overridable so the connector can be
+ * pointed at a stubbed HTTP server.
+ */
+function getRankTrackerApiUrl(): string {
+  return (process.env.RANK_TRACKER_API_URL || DEFAULT_RANK_TRACKER_API_URL).replace(/\/$/, "");
+}
+
+/**
+ * Load the stored API key for a rank tracker data source
+ */
+export async function getRankTrackerApiKey(dataSourceId: string): Promise<string> {
+  const db = getDb();
+
+  const dataSource = await db
+    .selectFrom("data_sources")
+    .select(["credentials_encrypted", "status"])
+    .where("id", "=", dataSourceId)
+    .where("type", "=", "rank_tracker")
+    .executeTakeFirst();
+
+  if (!dataSource || !dataSource.credentials_encrypted) {
+    throw new Error("Data source not found or not connected");
+  }
+
+  if (dataSource.status !== "active") {
+    throw new DataSourceAuthError(
+      `Data source is ${dataSource.status}; reconnect it to continue`,
+      dataSource.status,
+      dataSource.status
+    );
+  }
+
+  const credentials = await decryptCredentials<RankTrackerCredentials>(
+    dataSource.credentials_encrypted
+  );
+  return credentials.apiKey;
+}
+
+/**
+ * Verify an API key with a lightweight account request
+ */
+export async function verifyRankTrackerApiKey(apiKey: string): Promise<boolean> {
+  const response = await fetch(`${getRankTrackerApiUrl()}/account`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+  });
+  return response.ok;
+}
+
+/**
+ * Error for a failed API response: a DataSourceAuthError when the key
+ * itself was rejected, so callers can mark the data source
+ */
+async function toRankTrackerError(response: Response): Promise<Error> {
+  if (response.status === 401 || response.status === 403) {
+    return new DataSourceAuthError(
+      "Rank tracker rejected the stored API key. Reconnect with a new key.",
+      "disconnected",
+      "invalid_api_key"
+    );
+  }
+
+  const detail = await response.text();
+  return new Error(`Rank tracker API error (${response.status}): ${detail}`);
+}
+
+/**
+ * Throw for a failed API response, marking the data source when the stored
+ * key itself was rejected
+ */
+async function assertRankTrackerResponse(dataSourceId: string, response: Response): Promise<void> {
+  if (response.ok) {
+    return;
+  }
+
+  const error = await toRankTrackerError(response);
+  if (error instanceof DataSourceAuthError) {
+    await markConnectionFailed(dataSourceId, error);
+  }
+  throw error;
+}
+
+/**
+ * Fetch current rankings for a domain's tracked keywords
+ *
+ * `previousRankings` come from the client's prior snapshot and are used to
+ * compute the change per keyword. A positive change means the keyword moved
+ * up (closer to position 1).
+ */
+export async function fetchKeywordRankings(
+  dataSourceId: string,
+  domain: string,
+  keywords: KeywordQuery[],
+  previousRankings: KeywordRanking[] = []
+): Promise<KeywordRanking[]> {
+  if (keywords.length === 0) {
+    return [];
+  }
+
+  const apiKey = await getRankTrackerApiKey(dataSourceId);
+
+  try {
+    return await requestKeywordRankings(apiKey, domain, keywords, previousRankings);
+  } catch (error) {
+    if (error instanceof DataSourceAuthError) {
+      await markConnectionFailed(dataSourceId, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Request rankings from the API with a given key. Throws a
+ * DataSourceAuthError when the key is rejected; marking the data source is
+ * left to the caller.
+ */
+export async function requestKeywordRankings(
+  apiKey: string,
+  domain: string,
+  keywords: KeywordQuery[],
+  previousRankings: KeywordRanking[] = []
+): Promise<KeywordRanking[]> {
+  const response = await fetch(`${getRankTrackerApiUrl()}/rankings`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      domain,
+      keywords: keywords.map((keyword) => ({
+        keyword: keyword.keyword,
+        engine: keyword.engine,
+        location: keyword.location,
+        targetUrl: keyword.targetUrl,
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw await toRankTrackerError(response);
+  }
+
+  const body = (await response.json()) as RankTrackerResponse;
+  const results = body.results ?? [];
+
+  const previousByKey = new Map(
+    previousRankings.map((ranking) => [rankingKey(ranking.keyword, ranking.engine), ranking])
+  );
+
+  return keywords.map((keyword) => {
+    const result = results.find(
+      (row) =>
+        row.keyword?.toLowerCase() === keyword.keyword.toLowerCase() &&
+        (row.engine ?? "google") === keyword.engine
+    );
+    const currentRank = normalizeRank(result?.rank);
+    const previousRank =
+      previousByKey.get(rankingKey(keyword.keyword, keyword.engine))?.currentRank ?? null;
+
+    return {
+      keyword: keyword.keyword,
+      engine: keyword.engine,
+      location: keyword.location,
+      currentRank,
+      previousRank,
+      change: currentRank !== null && previousRank !== null ? previousRank - currentRank : null,
+      url: result?.url ?? null,
+      searchVolume: typeof result?.searchVolume === "number" ? result.searchVolume : null,
+    };
+  });
+}
+
+export const rankTrackerConnector: Connector<"rankings"> = {
+  type: "rank_tracker",
+  authType: "api_key",
+  sectionKey: "rankings",
+
+  async connect(request) {
+    if (request.kind !== "api_key") {
+      throw new ValidationError("Rank tracker must be connected with an API key");
+    }
+
+    const domain = request.accountId || request.client.primaryDomain;
+    if (!domain) {
+      throw new ValidationError("A domain is required when the client has no primary domain");
+    }
+
+    const isValidKey = await verifyRankTrackerApiKey(request.apiKey);
+    if (!isValidKey) {
+      throw new ValidationError("Rank tracker rejected the API key");
+    }
+
+    return {
+      kind: "credentials",
+      credentials: { apiKey: request.apiKey },
+      externalAccountId: domain,
+      externalAccountName: domain,
+      config: { domain },
+    };
+  },
+
+  async listAccounts(dataSource) {
+    const domain = dataSource.externalAccountId;
+    return domain ? [{ id: domain, name: dataSource.externalAccountName ?? domain }] : [];
+  },
+
+  async checkConnection(dataSource) {
+    const apiKey = await getRankTrackerApiKey(dataSource.id);
+    const response = await fetch(`${getRankTrackerApiUrl()}/account`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+    await assertRankTrackerResponse(dataSource.id, response);
+  },
+
+  async fetch(dataSource, period) {
+    const domain = dataSource.externalAccountId;
+    if (!domain) {
+      return null;
+    }
+
+    const keywords = await getTrackedKeywords(dataSource.clientId);
+
+    return {
+      domain,
+      checkedAt: new Date().toISOString(),
+      keywords: await fetchKeywordRankings(
+        dataSource.id,
+        domain,
+        keywords.map((k) => ({
+          keyword: k.keyword,
+          engine: k.engine,
+          location: k.location,
+          targetUrl: k.targetUrl,
+        })),
+        period.previousSnapshot?.rankings?.keywords ?? []
+      ),
+    };
+  },
+
+  summarize(section) {
+    return {
+      keywordsTracked: section.keywords.length,
+      keywordsImproved: section.keywords.filter((k) => (k.change ?? 0) > 0).length,
+      keywordsDeclined: section.keywords.filter((k) => (k.change ?? 0) < 0).length,
+    };
+  },
+};
+
+function rankingKey(keyword: string, engine: string): string {
+  return `${engine}:${keyword.toLowerCase()}`;
+}
+
+// Providers report "not ranking" as null, 0 or a negative sentinel
+function normalizeRank(rank: number | null | undefined): number | null {
+  if (typeof rank !== "number" || isNaN(rank) || rank <= 0) {
+    return null;
+  }
+  return rank;
+}
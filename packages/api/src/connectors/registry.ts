@@ -0,0 +1,45 @@
+import type { DataSourceType } from "../db/types.js";
+import { ValidationError } from "../lib/errors.js";
+import type { AnyConnector } from "./connector.js";
+import { googleAdsConnector } from "./google-ads.connector.js";
+import { googleAnalyticsConnector } from "./google-analytics.connector.js";
+import { rankTrackerConnector } from "./rank-tracker.connector.js";
+
+const connectors = new Map<DataSourceType, AnyConnector>();
+
+/**
+ * Register a connector for a data source type
+ */
+export function registerConnector(connector: AnyConnector): void {
+  connectors.set(connector.type, connector);
+}
+
+/**
+ * Look up a connector by type, returning undefined for unknown types
+ */
+export function findConnector(type: string): AnyConnector | undefined {
+  return connectors.get(type as DataSourceType);
+}
+
+/**
+ * Look up a connector by type, throwing if none is registered
+ */
+export function getConnector(type: string): AnyConnector {
+  const connector = findConnector(type);
+  if (!connector) {
+    throw new ValidationError(`Unsupported data source type: ${type}`);
+  }
+  return connector;
+}
+
+/**
+ * List registered connectors, optionally filtered by auth type
+ */
+export function listConnectors(authType?: AnyConnector["authType"]): AnyConnector[] {
+  const all = Array.from(connectors.values());
+  return authType ? all.filter((connector) => connector.authType === authType) : all;
+}
+
+registerConnector(googleAnalyticsConnector);
+registerConnector(googleAdsConnector);
+registerConnector(rankTrackerConnector);
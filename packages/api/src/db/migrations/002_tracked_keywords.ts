@@ -0,0 +1,33 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Tracked keywords for rank tracking
+  await db.schema
+    .createTable("tracked_keywords")
+    .addColumn("id", "uuid", (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn("client_id", "uuid", (col) =>
+      col.references("clients.id").onDelete("cascade").notNull()
+    )
+    .addColumn("keyword", "varchar(500)", (col) => col.notNull())
+    .addColumn("engine", "varchar(50)", (col) => col.defaultTo("google").notNull())
+    .addColumn("target_url", "varchar(500)")
+    .addColumn("location", "varchar(255)")
+    .addColumn("created_at", "timestamptz", (col) =>
+      col.defaultTo(sql`NOW()`).notNull()
+    )
+    .addUniqueConstraint("unique_client_keyword_engine", ["client_id", "keyword", "engine"])
+    .execute();
+
+  await db.schema
+    .createIndex("idx_tracked_keywords_client_id")
+    .on("tracked_keywords")
+    .column("client_id")
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable("tracked_keywords").execute();
+}
@@ -0,0 +1,55 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Explicit report and comparison periods, so snapshots are no longer tied to a month
+  await db.schema
+    .alterTable("snapshots")
+    .addColumn("period_start", "date")
+    .addColumn("period_end", "date")
+    .addColumn("comparison_mode", "varchar(50)", (col) =>
+      col.defaultTo("previous_period").notNull()
+    )
+    .addColumn("comparison_start", "date")
+    .addColumn("comparison_end", "date")
+    .execute();
+
+  // Existing snapshots cover a calendar month compared with the month before
+  await sql`
+    UPDATE snapshots SET
+      period_start = snapshot_date,
+      period_end = (snapshot_date + INTERVAL '1 month' - INTERVAL '1 day')::date,
+      comparison_start = (snapshot_date - INTERVAL '1 month')::date,
+      comparison_end = (snapshot_date - INTERVAL '1 day')::date
+  `.execute(db);
+
+  await sql`
+    ALTER TABLE snapshots
+      ALTER COLUMN period_start SET NOT NULL,
+      ALTER COLUMN period_end SET NOT NULL,
+      ALTER COLUMN comparison_start SET NOT NULL,
+      ALTER COLUMN comparison_end SET NOT NULL
+  `.execute(db);
+
+  // Several snapshots may now start on the same day with different ranges or comparisons
+  await sql`ALTER TABLE snapshots DROP CONSTRAINT unique_client_snapshot_date`.execute(db);
+  await sql`ALTER TABLE snapshots ADD CONSTRAINT unique_client_snapshot_period UNIQUE (client_id, period_start, period_end, comparison_start, comparison_end)`.execute(
+    db
+  );
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`ALTER TABLE snapshots DROP CONSTRAINT unique_client_snapshot_period`.execute(db);
+  await sql`ALTER TABLE snapshots ADD CONSTRAINT unique_client_snapshot_date UNIQUE (client_id, snapshot_date)`.execute(
+    db
+  );
+
+  await db.schema
+    .alterTable("snapshots")
+    .dropColumn("period_start")
+    .dropColumn("period_end")
+    .dropColumn("comparison_mode")
+    .dropColumn("comparison_start")
+    .dropColumn("comparison_end")
+    .execute();
+}
@@ -0,0 +1,21 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // When a pending job becomes eligible to run; pushed forward on retry backoff
+  await db.schema
+    .alterTable("jobs")
+    .addColumn("run_at", "timestamptz", (col) => col.defaultTo(sql`NOW()`).notNull())
+    .execute();
+
+  await db.schema
+    .createIndex("idx_jobs_status_run_at")
+    .on("jobs")
+    .columns(["status", "run_at"])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropIndex("idx_jobs_status_run_at").execute();
+  await db.schema.alterTable("jobs").dropColumn("run_at").execute();
+}
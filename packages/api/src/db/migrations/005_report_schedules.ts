@@ -0,0 +1,50 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Recurring monthly report runs, evaluated in the client's timezone
+  await db.schema
+    .createTable("report_schedules")
+    .addColumn("id", "uuid", (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn("client_id", "uuid", (col) =>
+      col.references("clients.id").onDelete("cascade").notNull()
+    )
+    .addColumn("day_of_month", "integer", (col) => col.notNull())
+    .addColumn("time_of_day", "varchar(5)", (col) => col.notNull())
+    .addColumn("comparison_mode", "varchar(50)", (col) =>
+      col.defaultTo("previous_period").notNull()
+    )
+    .addColumn("enabled", "boolean", (col) => col.defaultTo(true).notNull())
+    .addColumn("next_run_at", "timestamptz", (col) => col.notNull())
+    .addColumn("last_run_at", "timestamptz")
+    .addColumn("last_job_id", "uuid", (col) =>
+      col.references("jobs.id").onDelete("set null")
+    )
+    .addColumn("created_at", "timestamptz", (col) =>
+      col.defaultTo(sql`NOW()`).notNull()
+    )
+    .addColumn("updated_at", "timestamptz", (col) =>
+      col.defaultTo(sql`NOW()`).notNull()
+    )
+    .addCheckConstraint("report_schedules_day_of_month_check", sql`day_of_month BETWEEN 1 AND 31`)
+    .execute();
+
+  await db.schema
+    .createIndex("idx_report_schedules_client_id")
+    .on("report_schedules")
+    .column("client_id")
+    .execute();
+
+  await db.schema
+    .createIndex("idx_report_schedules_next_run_at")
+    .on("report_schedules")
+    .column("next_run_at")
+    .where(sql.ref("enabled"), "=", true)
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable("report_schedules").execute();
+}
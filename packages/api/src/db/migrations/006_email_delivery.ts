@@ -0,0 +1,56 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Per-client overrides for the report email; NULL uses the default template
+  await db.schema
+    .alterTable("clients")
+    .addColumn("email_subject_template", "text")
+    .addColumn("email_body_template", "text")
+    .execute();
+
+  // One row per attempt to send a report email
+  await db.schema
+    .createTable("email_deliveries")
+    .addColumn("id", "uuid", (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn("client_id", "uuid", (col) =>
+      col.references("clients.id").onDelete("cascade").notNull()
+    )
+    .addColumn("snapshot_id", "uuid", (col) =>
+      col.references("snapshots.id").onDelete("set null")
+    )
+    .addColumn("job_id", "uuid", (col) => col.references("jobs.id").onDelete("set null"))
+    .addColumn("provider", "varchar(50)", (col) => col.notNull())
+    .addColumn("recipients", sql`text[]`, (col) => col.notNull())
+    .addColumn("subject", "text", (col) => col.notNull())
+    .addColumn("status", "varchar(50)", (col) => col.notNull())
+    .addColumn("provider_message_id", "varchar(255)")
+    .addColumn("error_message", "text")
+    .addColumn("created_at", "timestamptz", (col) =>
+      col.defaultTo(sql`NOW()`).notNull()
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("idx_email_deliveries_snapshot_id")
+    .on("email_deliveries")
+    .column("snapshot_id")
+    .execute();
+
+  await db.schema
+    .createIndex("idx_email_deliveries_client_id")
+    .on("email_deliveries")
+    .column("client_id")
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable("email_deliveries").execute();
+  await db.schema
+    .alterTable("clients")
+    .dropColumn("email_subject_template")
+    .dropColumn("email_body_template")
+    .execute();
+}
@@ -0,0 +1,32 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Entries outlive the clients they describe, so client_id has no foreign key
+  await db.schema
+    .createTable("audit_log")
+    .addColumn("id", "uuid", (col) =>
+      col.primaryKey().defaultTo(sql`gen_random_uuid()`)
+    )
+    .addColumn("user_id", "uuid", (col) => col.references("users.id").onDelete("set null"))
+    .addColumn("client_id", "uuid")
+    .addColumn("action", "varchar(100)", (col) => col.notNull())
+    .addColumn("target_type", "varchar(50)", (col) => col.notNull())
+    .addColumn("target_id", "uuid")
+    .addColumn("outcome", "varchar(20)", (col) => col.notNull())
+    .addColumn("details", "jsonb", (col) => col.defaultTo(sql`'{}'`).notNull())
+    .addColumn("created_at", "timestamptz", (col) =>
+      col.defaultTo(sql`NOW()`).notNull()
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("idx_audit_log_client_id")
+    .on("audit_log")
+    .columns(["client_id", "created_at"])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable("audit_log").execute();
+}
@@ -0,0 +1,26 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+// Paths were written as <STORAGE_PATH>/snapshots/<clientId>/..., so everything
+// from "snapshots/<uuid>/" onwards is the backend-neutral key
+const KEY_PATTERN = "^.*(snapshots/[0-9a-fA-F-]{36}/)";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    UPDATE snapshots
+    SET storage_path = regexp_replace(storage_path, ${KEY_PATTERN}, '\\1'),
+        pdf_storage_path = regexp_replace(pdf_storage_path, ${KEY_PATTERN}, '\\1')
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  // Only the filesystem backend used paths; rebuild them under STORAGE_PATH
+  const root = (process.env.STORAGE_PATH || "./storage").replace(/^\.\//, "").replace(/\/$/, "");
+
+  await sql`
+    UPDATE snapshots
+    SET storage_path = ${root} || '/' || storage_path,
+        pdf_storage_path = ${root} || '/' || pdf_storage_path
+    WHERE storage_path LIKE 'snapshots/%'
+  `.execute(db);
+}
@@ -0,0 +1,63 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Every generation or re-render of a snapshot is kept as an immutable revision
+  await db.schema
+    .createTable("snapshot_revisions")
+    .addColumn("id", "uuid", (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn("snapshot_id", "uuid", (col) =>
+      col.references("snapshots.id").onDelete("cascade").notNull()
+    )
+    .addColumn("revision_number", "integer", (col) => col.notNull())
+    .addColumn("storage_path", "varchar(500)", (col) => col.notNull())
+    // SHA-256 of the stored bytes; NULL for revisions migrated from before hashing
+    .addColumn("content_hash", "varchar(64)")
+    .addColumn("pdf_storage_path", "varchar(500)")
+    .addColumn("pdf_hash", "varchar(64)")
+    .addColumn("template_version", "varchar(50)", (col) => col.notNull())
+    .addColumn("metrics_summary", "jsonb", (col) => col.defaultTo(sql`'{}'`).notNull())
+    .addColumn("generated_at", "timestamptz", (col) => col.notNull())
+    .addColumn("created_by", "uuid", (col) => col.references("users.id").onDelete("set null"))
+    .addColumn("job_id", "uuid", (col) => col.references("jobs.id").onDelete("set null"))
+    .addColumn("created_at", "timestamptz", (col) => col.defaultTo(sql`NOW()`).notNull())
+    .addUniqueConstraint("unique_snapshot_revision_number", ["snapshot_id", "revision_number"])
+    .execute();
+
+  await db.schema
+    .alterTable("snapshots")
+    .addColumn("current_revision_id", "uuid", (col) =>
+      col.references("snapshot_revisions.id").onDelete("set null")
+    )
+    .execute();
+
+  await db.schema
+    .alterTable("email_deliveries")
+    .addColumn("revision_id", "uuid", (col) =>
+      col.references("snapshot_revisions.id").onDelete("set null")
+    )
+    .execute();
+
+  // Existing snapshots become revision 1
+  await sql`
+    INSERT INTO snapshot_revisions
+      (snapshot_id, revision_number, storage_path, pdf_storage_path, template_version,
+       metrics_summary, generated_at, created_at)
+    SELECT id, 1, storage_path, pdf_storage_path, template_version,
+       COALESCE(metrics_summary, '{}'), created_at, created_at
+    FROM snapshots
+  `.execute(db);
+
+  await sql`
+    UPDATE snapshots
+    SET current_revision_id = snapshot_revisions.id
+    FROM snapshot_revisions
+    WHERE snapshot_revisions.snapshot_id = snapshots.id
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.alterTable("email_deliveries").dropColumn("revision_id").execute();
+  await db.schema.alterTable("snapshots").dropColumn("current_revision_id").execute();
+  await db.schema.dropTable("snapshot_revisions").execute();
+}
@@ -0,0 +1,45 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Per-client retention in months; NULL uses SNAPSHOT_RETENTION_MONTHS
+  await db.schema.alterTable("clients").addColumn("retention_months", "integer").execute();
+
+  // Expired snapshots are trashed first and purged after the grace period
+  await db.schema.alterTable("snapshots").addColumn("trashed_at", "timestamptz").execute();
+
+  await db.schema
+    .createIndex("idx_snapshots_expires_at")
+    .on("snapshots")
+    .column("expires_at")
+    .where(sql.ref("trashed_at"), "is", null)
+    .execute();
+
+  await db.schema
+    .createIndex("idx_snapshots_trashed_at")
+    .on("snapshots")
+    .column("trashed_at")
+    .where(sql.ref("trashed_at"), "is not", null)
+    .execute();
+
+  // A trashed snapshot must not block regenerating the same period
+  await sql`ALTER TABLE snapshots DROP CONSTRAINT unique_client_snapshot_period`.execute(db);
+  await sql`
+    CREATE UNIQUE INDEX unique_client_snapshot_period
+    ON snapshots (client_id, period_start, period_end, comparison_start, comparison_end)
+    WHERE trashed_at IS NULL
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`DROP INDEX unique_client_snapshot_period`.execute(db);
+  await sql`DELETE FROM snapshots WHERE trashed_at IS NOT NULL`.execute(db);
+  await sql`ALTER TABLE snapshots ADD CONSTRAINT unique_client_snapshot_period UNIQUE (client_id, period_start, period_end, comparison_start, comparison_end)`.execute(
+    db
+  );
+
+  await db.schema.dropIndex("idx_snapshots_trashed_at").execute();
+  await db.schema.dropIndex("idx_snapshots_expires_at").execute();
+  await db.schema.alterTable("snapshots").dropColumn("trashed_at").execute();
+  await db.schema.alterTable("clients").dropColumn("retention_months").execute();
+}
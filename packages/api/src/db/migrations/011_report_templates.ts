@@ -0,0 +1,30 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Template ref ("<id>@<version>") used for new snapshots; NULL uses the default
+  await db.schema.alterTable("clients").addColumn("report_template", "varchar(50)").execute();
+
+  // Snapshots made before the template registry recorded only "1.0"
+  await sql`UPDATE snapshots SET template_version = 'standard@1.0' WHERE template_version = '1.0'`.execute(
+    db
+  );
+  await sql`UPDATE snapshot_revisions SET template_version = 'standard@1.0' WHERE template_version = '1.0'`.execute(
+    db
+  );
+  await sql`ALTER TABLE snapshots ALTER COLUMN template_version SET DEFAULT 'standard@1.0'`.execute(
+    db
+  );
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`ALTER TABLE snapshots ALTER COLUMN template_version SET DEFAULT '1.0'`.execute(db);
+  await sql`UPDATE snapshot_revisions SET template_version = '1.0' WHERE template_version = 'standard@1.0'`.execute(
+    db
+  );
+  await sql`UPDATE snapshots SET template_version = '1.0' WHERE template_version = 'standard@1.0'`.execute(
+    db
+  );
+
+  await db.schema.alterTable("clients").dropColumn("report_template").execute();
+}
@@ -0,0 +1,35 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Report branding for the whole agency (client_id NULL) or a single client;
+  // NULL fields inherit from the agency row, then the built-in defaults
+  await db.schema
+    .createTable("report_branding")
+    .addColumn("id", "uuid", (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn("client_id", "uuid", (col) => col.references("clients.id").onDelete("cascade"))
+    .addColumn("primary_color", "varchar(7)")
+    .addColumn("accent_color", "varchar(7)")
+    .addColumn("font_family", "varchar(20)")
+    .addColumn("footer_text", "varchar(500)")
+    .addColumn("cover_title", "varchar(200)")
+    .addColumn("cover_text", "text")
+    .addColumn("logo_storage_path", "varchar(500)")
+    .addColumn("logo_content_type", "varchar(50)")
+    .addColumn("created_at", "timestamptz", (col) => col.defaultTo(sql`NOW()`).notNull())
+    .addColumn("updated_at", "timestamptz", (col) => col.defaultTo(sql`NOW()`).notNull())
+    .execute();
+
+  await sql`
+    CREATE UNIQUE INDEX unique_client_branding ON report_branding (client_id)
+    WHERE client_id IS NOT NULL
+  `.execute(db);
+  await sql`
+    CREATE UNIQUE INDEX unique_agency_branding ON report_branding ((client_id IS NULL))
+    WHERE client_id IS NULL
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable("report_branding").execute();
+}
@@ -0,0 +1,17 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Locale reports are formatted in, e.g. "de-DE"
+  await db.schema
+    .alterTable("clients")
+    .addColumn("locale", "varchar(10)", (col) => col.notNull().defaultTo("en-US"))
+    .execute();
+
+  // ISO 4217 code for amounts without a currency of their own; NULL uses USD
+  await db.schema.alterTable("clients").addColumn("currency", "varchar(3)").execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.alterTable("clients").dropColumn("currency").execute();
+  await db.schema.alterTable("clients").dropColumn("locale").execute();
+}
@@ -0,0 +1,14 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Agency commentary (sanitized HTML per block) the revision is rendered with
+  await db.schema
+    .alterTable("snapshot_revisions")
+    .addColumn("commentary", "jsonb", (col) => col.defaultTo(sql`'{}'`).notNull())
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.alterTable("snapshot_revisions").dropColumn("commentary").execute();
+}
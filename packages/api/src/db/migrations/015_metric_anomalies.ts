@@ -0,0 +1,34 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Unusual days found in a client's daily GA4 metrics; one row per metric and
+  // day, so a day flagged by several checks is only alerted on once
+  await db.schema
+    .createTable("metric_anomalies")
+    .addColumn("id", "uuid", (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn("client_id", "uuid", (col) =>
+      col.references("clients.id").onDelete("cascade").notNull()
+    )
+    .addColumn("metric", "varchar(50)", (col) => col.notNull())
+    .addColumn("date", "date", (col) => col.notNull())
+    .addColumn("value", "double precision", (col) => col.notNull())
+    .addColumn("expected", "double precision", (col) => col.notNull())
+    .addColumn("score", "double precision", (col) => col.notNull())
+    .addColumn("direction", "varchar(10)", (col) => col.notNull())
+    .addColumn("job_id", "uuid", (col) => col.references("jobs.id").onDelete("set null"))
+    .addColumn("alerted_at", "timestamptz")
+    .addColumn("created_at", "timestamptz", (col) => col.defaultTo(sql`NOW()`).notNull())
+    .addUniqueConstraint("unique_client_metric_date", ["client_id", "metric", "date"])
+    .execute();
+
+  await db.schema
+    .createIndex("idx_metric_anomalies_client_date")
+    .on("metric_anomalies")
+    .columns(["client_id", "date"])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable("metric_anomalies").execute();
+}
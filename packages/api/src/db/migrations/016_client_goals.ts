@@ -0,0 +1,24 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // KPI targets agreed with a client; one per metric and goal period
+  await db.schema
+    .createTable("client_goals")
+    .addColumn("id", "uuid", (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn("client_id", "uuid", (col) =>
+      col.references("clients.id").onDelete("cascade").notNull()
+    )
+    .addColumn("metric", "varchar(100)", (col) => col.notNull())
+    .addColumn("period", "varchar(20)", (col) => col.notNull())
+    .addColumn("target_type", "varchar(20)", (col) => col.notNull())
+    .addColumn("target_value", "double precision", (col) => col.notNull())
+    .addColumn("created_at", "timestamptz", (col) => col.defaultTo(sql`NOW()`).notNull())
+    .addColumn("updated_at", "timestamptz", (col) => col.defaultTo(sql`NOW()`).notNull())
+    .addUniqueConstraint("unique_client_goal_metric_period", ["client_id", "metric", "period"])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable("client_goals").execute();
+}
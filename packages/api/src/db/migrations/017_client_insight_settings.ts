@@ -0,0 +1,14 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Highlight thresholds and phrasing overrides; {} uses the agency defaults
+  await db.schema
+    .alterTable("clients")
+    .addColumn("insight_settings", "jsonb", (col) => col.defaultTo(sql`'{}'`).notNull())
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.alterTable("clients").dropColumn("insight_settings").execute();
+}
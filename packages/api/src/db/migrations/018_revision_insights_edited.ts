@@ -0,0 +1,13 @@
+import type { Kysely } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Highlights were saved by hand; regenerating the snapshot keeps them
+  await db.schema
+    .alterTable("snapshot_revisions")
+    .addColumn("insights_edited", "boolean", (col) => col.defaultTo(false).notNull())
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.alterTable("snapshot_revisions").dropColumn("insights_edited").execute();
+}
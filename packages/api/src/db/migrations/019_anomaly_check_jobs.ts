@@ -0,0 +1,33 @@
+import type { Kysely } from "kysely";
+import { sql } from "kysely";
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Keep one queued or running anomaly check per client before enforcing it
+  await sql`
+    UPDATE jobs
+    SET status = 'cancelled', finished_at = NOW()
+    WHERE id IN (
+      SELECT id FROM (
+        SELECT id, ROW_NUMBER() OVER (
+          PARTITION BY client_id
+          ORDER BY status = 'running' DESC, created_at
+        ) AS position
+        FROM jobs
+        WHERE type = 'anomaly_check' AND status IN ('pending', 'running')
+      ) AS active
+      WHERE position > 1
+    )
+  `.execute(db);
+
+  // The daily check, an on-demand check and other API instances can't queue
+  // a second check for a client while one is waiting or running
+  await sql`
+    CREATE UNIQUE INDEX unique_active_anomaly_check
+    ON jobs (client_id)
+    WHERE type = 'anomaly_check' AND status IN ('pending', 'running')
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`DROP INDEX unique_active_anomaly_check`.execute(db);
+}
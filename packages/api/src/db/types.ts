@@ -1,10 +1,24 @@
+import type {
+  AnomalyDirection,
+  AnomalyMetric,
+  GoalPeriod,
+  GoalTargetType,
+  InsightSettings,
+  LogoContentType,
+  ReportFont,
+  ReportLocale,
+} from "@agency-reports/shared";
 import type { ColumnType, Generated, Insertable, Selectable, Updateable } from "kysely";
 
 // Enum types
 export type DataSourceType = "google_analytics" | "google_ads" | "rank_tracker";
 export type DataSourceStatus = "active" | "expired" | "disconnected";
-export type JobType = "snapshot" | "render" | "email" | "full_report";
-export type JobStatus = "pending" | "running" | "completed" | "failed";
+export type JobType = "snapshot" | "render" | "email" | "full_report" | "anomaly_check";
+export type JobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+export type ComparisonMode = "previous_period" | "previous_year" | "custom";
+export type EmailDeliveryStatus = "pending" | "sent" | "failed";
+export type AuditOutcome = "succeeded" | "failed";
+export type ScheduleComparisonMode = Exclude<ComparisonMode, "custom">;
 
 // Database column types
 export interface UsersTable {
@@ -23,6 +37,13 @@ export interface ClientsTable {
   primary_domain: string | null;
   timezone: ColumnType<string, string | undefined, string>;
   contact_emails: ColumnType<string[], string[] | undefined, string[]>;
+  email_subject_template: string | null;
+  email_body_template: string | null;
+  retention_months: ColumnType<number | null, number | null | undefined, number | null>;
+  report_template: ColumnType<string | null, string | null | undefined, string | null>;
+  locale: ColumnType<ReportLocale, ReportLocale | undefined, ReportLocale>;
+  currency: ColumnType<string | null, string | null | undefined, string | null>;
+  insight_settings: ColumnType<InsightSettings, InsightSettings | undefined, InsightSettings>;
   created_by: string;
   created_at: ColumnType<Date, Date | undefined, never>;
   updated_at: ColumnType<Date, Date | undefined, Date>;
@@ -51,39 +72,166 @@ export interface SnapshotsTable {
   id: Generated<string>;
   client_id: string;
   snapshot_date: Date;
+  period_start: Date;
+  period_end: Date;
+  comparison_mode: ColumnType<ComparisonMode, ComparisonMode | undefined, ComparisonMode>;
+  comparison_start: Date;
+  comparison_end: Date;
   template_version: ColumnType<string, string | undefined, string>;
   storage_path: string;
   pdf_storage_path: string | null;
   metrics_summary: ColumnType<Record<string, unknown>, Record<string, unknown> | undefined, Record<string, unknown>>;
   created_at: ColumnType<Date, Date | undefined, never>;
   expires_at: Date | null;
+  trashed_at: ColumnType<Date | null, Date | null | undefined, Date | null>;
+  current_revision_id: ColumnType<string | null, string | null | undefined, string | null>;
+}
+
+export interface SnapshotRevisionsTable {
+  id: Generated<string>;
+  snapshot_id: string;
+  revision_number: number;
+  storage_path: string;
+  content_hash: string | null; // NULL for revisions migrated from before hashing
+  pdf_storage_path: string | null;
+  pdf_hash: string | null;
+  template_version: string;
+  metrics_summary: ColumnType<Record<string, unknown>, Record<string, unknown> | undefined, never>;
+  // Updated in place only until the revision has a PDF
+  commentary: ColumnType<
+    Record<string, unknown>,
+    Record<string, unknown> | undefined,
+    Record<string, unknown>
+  >;
+  // The stored highlights were edited by hand rather than generated
+  insights_edited: ColumnType<boolean, boolean | undefined, never>;
+  generated_at: Date;
+  created_by: string | null;
+  job_id: string | null;
+  created_at: ColumnType<Date, Date | undefined, never>;
 }
 
 export interface JobsTable {
   id: Generated<string>;
   client_id: string;
   snapshot_id: string | null;
-  type: "snapshot" | "render" | "email" | "full_report";
-  status: ColumnType<
-    "pending" | "running" | "completed" | "failed",
-    "pending" | "running" | "completed" | "failed" | undefined,
-    "pending" | "running" | "completed" | "failed"
-  >;
+  type: JobType;
+  status: ColumnType<JobStatus, JobStatus | undefined, JobStatus>;
   started_at: Date | null;
   finished_at: Date | null;
   error_message: string | null;
   retry_count: ColumnType<number, number | undefined, number>;
   metadata: ColumnType<Record<string, unknown>, Record<string, unknown> | undefined, Record<string, unknown>>;
+  run_at: ColumnType<Date, Date | undefined, Date>;
+  created_at: ColumnType<Date, Date | undefined, never>;
+}
+
+export interface TrackedKeywordsTable {
+  id: Generated<string>;
+  client_id: string;
+  keyword: string;
+  engine: ColumnType<string, string | undefined, string>;
+  target_url: string | null;
+  location: string | null;
   created_at: ColumnType<Date, Date | undefined, never>;
 }
 
+export interface ReportSchedulesTable {
+  id: Generated<string>;
+  client_id: string;
+  day_of_month: number;
+  time_of_day: string; // HH:MM in the client's timezone
+  comparison_mode: ColumnType<ScheduleComparisonMode, ScheduleComparisonMode | undefined, ScheduleComparisonMode>;
+  enabled: ColumnType<boolean, boolean | undefined, boolean>;
+  next_run_at: Date;
+  last_run_at: Date | null;
+  last_job_id: string | null;
+  created_at: ColumnType<Date, Date | undefined, never>;
+  updated_at: ColumnType<Date, Date | undefined, Date>;
+}
+
+export interface EmailDeliveriesTable {
+  id: Generated<string>;
+  client_id: string;
+  snapshot_id: string | null;
+  job_id: string | null;
+  provider: string;
+  recipients: string[];
+  subject: string;
+  status: EmailDeliveryStatus;
+  provider_message_id: string | null;
+  error_message: string | null;
+  revision_id: ColumnType<string | null, string | null | undefined, never>;
+  created_at: ColumnType<Date, Date | undefined, never>;
+}
+
+export interface AuditLogTable {
+  id: Generated<string>;
+  user_id: string | null;
+  client_id: string | null;
+  action: string; // e.g. "data_source.revoke"
+  target_type: string;
+  target_id: string | null;
+  outcome: AuditOutcome;
+  details: ColumnType<Record<string, unknown>, Record<string, unknown> | undefined, never>;
+  created_at: ColumnType<Date, Date | undefined, never>;
+}
+
+export interface ReportBrandingTable {
+  id: Generated<string>;
+  client_id: string | null; // NULL for the agency-wide row
+  primary_color: string | null;
+  accent_color: string | null;
+  font_family: ReportFont | null;
+  footer_text: string | null;
+  cover_title: string | null;
+  cover_text: string | null;
+  logo_storage_path: string | null;
+  logo_content_type: LogoContentType | null;
+  created_at: ColumnType<Date, Date | undefined, never>;
+  updated_at: ColumnType<Date, Date | undefined, Date>;
+}
+
+export interface MetricAnomaliesTable {
+  id: Generated<string>;
+  client_id: string;
+  metric: AnomalyMetric;
+  date: ColumnType<Date, string, never>; // Day in the client's timezone
+  value: number;
+  expected: number;
+  score: number;
+  direction: AnomalyDirection;
+  job_id: string | null;
+  alerted_at: Date | null; // When the alert email covering it was sent
+  created_at: ColumnType<Date, Date | undefined, never>;
+}
+
+export interface ClientGoalsTable {
+  id: Generated<string>;
+  client_id: string;
+  metric: string; // Goal metric key, e.g. "ga4.sessions" or "ga4.keyEvents.form_submit"
+  period: GoalPeriod;
+  target_type: GoalTargetType;
+  target_value: number;
+  created_at: ColumnType<Date, Date | undefined, never>;
+  updated_at: ColumnType<Date, Date | undefined, Date>;
+}
+
 // Database schema
 export interface Database {
   users: UsersTable;
   clients: ClientsTable;
   data_sources: DataSourcesTable;
   snapshots: SnapshotsTable;
+  snapshot_revisions: SnapshotRevisionsTable;
   jobs: JobsTable;
+  tracked_keywords: TrackedKeywordsTable;
+  report_schedules: ReportSchedulesTable;
+  email_deliveries: EmailDeliveriesTable;
+  audit_log: AuditLogTable;
+  report_branding: ReportBrandingTable;
+  metric_anomalies: MetricAnomaliesTable;
+  client_goals: ClientGoalsTable;
 }
 
 // Helper types for each table
@@ -103,6 +251,29 @@ export type Snapshot = Selectable<SnapshotsTable>;
 export type NewSnapshot = Insertable<SnapshotsTable>;
 export type SnapshotUpdate = Updateable<SnapshotsTable>;
 
+export type SnapshotRevision = Selectable<SnapshotRevisionsTable>;
+export type NewSnapshotRevision = Insertable<SnapshotRevisionsTable>;
+
 export type Job = Selectable<JobsTable>;
 export type NewJob = Insertable<JobsTable>;
 export type JobUpdate = Updateable<JobsTable>;
+
+export type TrackedKeyword = Selectable<TrackedKeywordsTable>;
+export type NewTrackedKeyword = Insertable<TrackedKeywordsTable>;
+
+export type ReportSchedule = Selectable<ReportSchedulesTable>;
+export type NewReportSchedule = Insertable<ReportSchedulesTable>;
+export type ReportScheduleUpdate = Updateable<ReportSchedulesTable>;
+
+export type EmailDelivery = Selectable<EmailDeliveriesTable>;
+export type NewEmailDelivery = Insertable<EmailDeliveriesTable>;
+
+export type AuditLogEntry = Selectable<AuditLogTable>;
+export type NewAuditLogEntry = Insertable<AuditLogTable>;
+
+export type ReportBranding = Selectable<ReportBrandingTable>;
+
+export type MetricAnomalyRecord = Selectable<MetricAnomaliesTable>;
+export type NewMetricAnomalyRecord = Insertable<MetricAnomaliesTable>;
+
+export type ClientGoalRecord = Selectable<ClientGoalsTable>;
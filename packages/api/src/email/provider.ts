@@ -0,0 +1,27 @@
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailSendResult {
+  messageId: string | null;
+}
+
+/**
+ * Transport for outgoing mail. Implementations wrap one delivery service
+ * (SMTP, SendGrid, SES, ...) and throw when the service rejects a message.
+ */
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
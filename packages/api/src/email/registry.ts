@@ -0,0 +1,25 @@
+import type { EmailProvider } from "./provider.js";
+import { smtpProvider } from "./smtp.provider.js";
+
+const providers = new Map<string, EmailProvider>();
+
+/**
+ * Register an email provider under its name
+ */
+export function registerEmailProvider(provider: EmailProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * The provider selected by EMAIL_PROVIDER (defaults to SMTP)
+ */
+export function getEmailProvider(): EmailProvider {
+  const name = process.env.EMAIL_PROVIDER || "smtp";
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown email provider: ${name}`);
+  }
+  return provider;
+}
+
+registerEmailProvider(smtpProvider);
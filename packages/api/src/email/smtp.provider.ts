@@ -0,0 +1,42 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import type { EmailProvider } from "./provider.js";
+
+let transporter: Transporter | null = null;
+
+/**
+ * SMTP connection settings. The defaults match a local catch-all server such
+ * as Mailpit or MailHog listening on port 1025.
+ */
+function getTransporter(): Transporter {
+  if (!transporter) {
+    const user = process.env.SMTP_USER;
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || "localhost",
+      port: parseInt(process.env.SMTP_PORT || "1025", 10),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: user ? { user, pass: process.env.SMTP_PASSWORD ?? "" } : undefined,
+    });
+  }
+  return transporter;
+}
+
+export const smtpProvider: EmailProvider = {
+  name: "smtp",
+
+  async send(message) {
+    const info = await getTransporter().sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        contentType: attachment.contentType,
+      })),
+    });
+
+    return { messageId: info.messageId ?? null };
+  },
+};
@@ -0,0 +1,90 @@
+import type { FastifyBaseLogger } from "fastify";
+import { getDb } from "../db/database.js";
+import { startIntervalLoop } from "./interval-loop.js";
+
+const ANOMALY_CHECK_INTERVAL_MS = parseInt(process.env.ANOMALY_CHECK_INTERVAL_MS || "86400000", 10);
+
+export interface AnomalyChecker {
+  stop(): Promise<void>;
+}
+
+/**
+ * Queue an anomaly check for every client with an active Google Analytics
+ * property on an interval (daily by default)
+ */
+export function startAnomalyChecks(logger: FastifyBaseLogger): AnomalyChecker {
+  const loop = startIntervalLoop(ANOMALY_CHECK_INTERVAL_MS, async () => {
+    try {
+      const enqueued = await enqueueAnomalyChecks();
+      logger.info({ count: enqueued }, "Enqueued anomaly checks");
+    } catch (error) {
+      logger.error({ err: error }, "Failed to enqueue anomaly checks");
+    }
+  });
+
+  logger.info("Anomaly checks started");
+
+  return {
+    async stop() {
+      await loop.stop();
+      logger.info("Anomaly checks stopped");
+    },
+  };
+}
+
+/**
+ * Insert one anomaly_check job per eligible client. Clients with a check
+ * still queued, or one created within half an interval, are skipped so
+ * restarts and other API instances don't check the same client twice a day.
+ * A check queued between the lookup and the insert is left to the unique
+ * index on active checks.
+ */
+export async function enqueueAnomalyChecks(now = new Date()): Promise<number> {
+  const db = getDb();
+  const recentSince = new Date(now.getTime() - ANOMALY_CHECK_INTERVAL_MS / 2);
+
+  const clients = await db
+    .selectFrom("data_sources")
+    .select("client_id")
+    .distinct()
+    .where("type", "=", "google_analytics")
+    .where("status", "=", "active")
+    .where("external_account_id", "is not", null)
+    .where(({ exists, not, selectFrom }) =>
+      not(
+        exists(
+          selectFrom("jobs")
+            .select("jobs.id")
+            .whereRef("jobs.client_id", "=", "data_sources.client_id")
+            .where("jobs.type", "=", "anomaly_check")
+            .where((eb) =>
+              eb.or([
+                eb("jobs.status", "in", ["pending", "running"]),
+                eb("jobs.created_at", ">", recentSince),
+              ])
+            )
+        )
+      )
+    )
+    .execute();
+
+  if (clients.length === 0) {
+    return 0;
+  }
+
+  const inserted = await db
+    .insertInto("jobs")
+    .values(
+      clients.map((client) => ({
+        client_id: client.client_id,
+        type: "anomaly_check" as const,
+        status: "pending" as const,
+        metadata: {},
+      }))
+    )
+    .onConflict((oc) => oc.doNothing())
+    .returning("id")
+    .execute();
+
+  return inserted.length;
+}
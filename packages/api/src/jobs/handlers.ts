@@ -0,0 +1,162 @@
+import { getDb } from "../db/database.js";
+import type { Job, JobType } from "../db/types.js";
+import { ValidationError } from "../lib/errors.js";
+import { resolveSnapshotPeriod } from "../lib/periods.js";
+import { checkClientAnomalies } from "../services/anomaly.service.js";
+import { resolveReportBranding } from "../services/branding.service.js";
+import { getClientTimezone } from "../services/client.service.js";
+import { sendReportEmail } from "../services/email.service.js";
+import { enqueueJob, type ReportJobPayload } from "../services/job.service.js";
+import { renderReportPdf } from "../services/render.service.js";
+import {
+  findSnapshotByPeriod,
+  generateSnapshot,
+  getSnapshotData,
+  getSnapshotPeriod,
+} from "../services/snapshot.service.js";
+import {
+  attachRevisionPdf,
+  getSnapshotCommentary,
+} from "../services/snapshot-revision.service.js";
+import { objectExists } from "../services/storage.service.js";
+
+export interface JobResult {
+  snapshotId?: string;
+}
+
+/**
+ * Runs one attempt of a job on behalf of the user who owns the job's client
+ */
+export type JobHandler = (job: Job, userId: string) => Promise<JobResult>;
+
+/**
+ * Generate the snapshot described by the job payload
+ */
+async function runSnapshotJob(job: Job, userId: string): Promise<JobResult> {
+  const payload = getReportPayload(job);
+  const period = resolveSnapshotPeriod(
+    payload.period,
+    await getClientTimezone(job.client_id, userId)
+  );
+
+  const snapshot = await generateSnapshot(
+    job.client_id,
+    userId,
+    period,
+    payload.regenerate ?? false,
+    job.id
+  );
+
+  return { snapshotId: snapshot.id };
+}
+
+/**
+ * Render and store the PDF for the job's snapshot
+ */
+async function runRenderJob(job: Job, userId: string): Promise<JobResult> {
+  if (!job.snapshot_id) {
+    throw new ValidationError("Render job has no snapshot");
+  }
+
+  await renderSnapshotPdf(job.snapshot_id, userId, job.id);
+  return { snapshotId: job.snapshot_id };
+}
+
+/**
+ * Ensure a snapshot exists for the period, then render its PDF
+ */
+async function runFullReportJob(job: Job, userId: string): Promise<JobResult> {
+  const payload = getReportPayload(job);
+  const period = resolveSnapshotPeriod(
+    payload.period,
+    await getClientTimezone(job.client_id, userId)
+  );
+
+  let snapshotId: string;
+  const existing = await findSnapshotByPeriod(job.client_id, userId, period);
+  const hasStoredSnapshot = existing?.storage_path
+    ? await objectExists(existing.storage_path)
+    : false;
+
+  // Regenerating refetches data as well, so a snapshot taken mid-period is replaced
+  if (existing && hasStoredSnapshot && !payload.regenerate) {
+    snapshotId = existing.id;
+  } else {
+    const snapshot = await generateSnapshot(job.client_id, userId, period, !!existing, job.id);
+    snapshotId = snapshot.id;
+  }
+
+  await renderSnapshotPdf(snapshotId, userId, job.id);
+
+  // Delivery runs as its own job so a mail failure retries without re-rendering
+  if (payload.deliver) {
+    await enqueueJob(userId, { clientId: job.client_id, type: "email", snapshotId });
+  }
+
+  return { snapshotId };
+}
+
+/**
+ * Email the job's rendered snapshot PDF to the client's contacts
+ */
+async function runEmailJob(job: Job, userId: string): Promise<JobResult> {
+  if (!job.snapshot_id) {
+    throw new ValidationError("Email job has no snapshot");
+  }
+
+  await sendReportEmail(job.snapshot_id, userId, job.id);
+  return { snapshotId: job.snapshot_id };
+}
+
+/**
+ * Check the client's recent daily metrics for unusual days and alert on them
+ */
+async function runAnomalyCheckJob(job: Job, userId: string): Promise<JobResult> {
+  await checkClientAnomalies(job.client_id, userId, job.id);
+  return {};
+}
+
+export const jobHandlers: Partial<Record<JobType, JobHandler>> = {
+  snapshot: runSnapshotJob,
+  render: runRenderJob,
+  full_report: runFullReportJob,
+  email: runEmailJob,
+  anomaly_check: runAnomalyCheckJob,
+};
+
+async function renderSnapshotPdf(
+  snapshotId: string,
+  userId: string,
+  jobId: string
+): Promise<string | null> {
+  const db = getDb();
+
+  const snapshotData = await getSnapshotData(snapshotId, userId);
+  const branding = await resolveReportBranding(snapshotData.clientId);
+  const commentary = await getSnapshotCommentary(snapshotId, userId);
+  const pdfBuffer = await renderReportPdf(snapshotData, branding, commentary);
+
+  const snapshot = await db
+    .selectFrom("snapshots")
+    .selectAll()
+    .where("id", "=", snapshotId)
+    .executeTakeFirstOrThrow();
+
+  const updated = await attachRevisionPdf(
+    snapshotId,
+    getSnapshotPeriod(snapshot),
+    pdfBuffer,
+    userId,
+    jobId
+  );
+
+  return updated.pdf_storage_path;
+}
+
+function getReportPayload(job: Job): ReportJobPayload {
+  const payload = job.metadata as Partial<ReportJobPayload>;
+  if (!payload.period) {
+    throw new ValidationError(`${job.type} job has no report period`);
+  }
+  return payload as ReportJobPayload;
+}
@@ -0,0 +1,96 @@
+import type { FastifyBaseLogger } from "fastify";
+import { markConnectionFailed } from "../connectors/connection-status.js";
+import { findConnector } from "../connectors/registry.js";
+import { getDb } from "../db/database.js";
+import { DataSourceAuthError } from "../lib/errors.js";
+import { startIntervalLoop } from "./interval-loop.js";
+
+const HEALTH_CHECK_INTERVAL_MS = parseInt(
+  process.env.DATA_SOURCE_HEALTH_CHECK_INTERVAL_MS || "21600000",
+  10
+);
+
+export interface HealthChecker {
+  stop(): Promise<void>;
+}
+
+export interface HealthCheckResult {
+  checked: number;
+  failed: number;
+}
+
+/**
+ * Check every active data source's credentials on an interval (6h by
+ * default), so broken connections show up before the monthly run
+ */
+export function startHealthChecks(logger: FastifyBaseLogger): HealthChecker {
+  const loop = startIntervalLoop(HEALTH_CHECK_INTERVAL_MS, async (isRunning) => {
+    try {
+      const result = await checkDataSources(logger, isRunning);
+      logger.info(result, "Checked data source connections");
+    } catch (error) {
+      logger.error({ err: error }, "Data source health check failed");
+    }
+  });
+
+  logger.info("Data source health checks started");
+
+  return {
+    async stop() {
+      await loop.stop();
+      logger.info("Data source health checks stopped");
+    },
+  };
+}
+
+/**
+ * Make one cheap API call per active data source. Rejected credentials mark
+ * the source expired or disconnected; other errors are logged and left for
+ * the next pass since they are usually transient.
+ */
+export async function checkDataSources(
+  logger: FastifyBaseLogger,
+  shouldContinue: () => boolean = () => true
+): Promise<HealthCheckResult> {
+  const db = getDb();
+
+  const dataSources = await db
+    .selectFrom("data_sources")
+    .select(["id", "client_id", "type", "external_account_id", "external_account_name", "config"])
+    .where("status", "=", "active")
+    .execute();
+
+  const result: HealthCheckResult = { checked: 0, failed: 0 };
+
+  // One at a time keeps the check well under provider rate limits
+  for (const ds of dataSources) {
+    if (!shouldContinue()) break;
+
+    const connector = findConnector(ds.type);
+    if (!connector) continue;
+
+    result.checked++;
+    try {
+      await connector.checkConnection({
+        id: ds.id,
+        clientId: ds.client_id,
+        externalAccountId: ds.external_account_id,
+        externalAccountName: ds.external_account_name,
+        config: ds.config,
+      });
+    } catch (error) {
+      if (error instanceof DataSourceAuthError) {
+        result.failed++;
+        await markConnectionFailed(ds.id, error);
+        logger.warn(
+          { dataSourceId: ds.id, clientId: ds.client_id, reason: error.reason },
+          "Data source needs to be reconnected"
+        );
+      } else {
+        logger.warn({ err: error, dataSourceId: ds.id }, "Data source check failed");
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { startIntervalLoop } from "./interval-loop.js";
+
+// Long enough that a test waiting on it would time out
+const HOUR_MS = 3600_000;
+
+describe("startIntervalLoop", () => {
+  it("stops a waiting loop straight away", async () => {
+    let ticks = 0;
+    const loop = startIntervalLoop(HOUR_MS, async () => {
+      ticks++;
+    });
+
+    await new Promise((resolve) => setImmediate(resolve));
+    await loop.stop();
+    assert.equal(ticks, 1);
+  });
+
+  it("doesn't wait again when stopped during a tick", async () => {
+    let finishTick!: () => void;
+    let tickStarted!: () => void;
+    const started = new Promise<void>((resolve) => (tickStarted = resolve));
+
+    const loop = startIntervalLoop(HOUR_MS, async (isRunning) => {
+      tickStarted();
+      await new Promise<void>((resolve) => (finishTick = resolve));
+      assert.equal(isRunning(), false);
+    });
+
+    await started;
+    const stopped = loop.stop();
+    finishTick();
+    await stopped;
+  });
+
+  it("runs again without waiting when a tick asks to", async () => {
+    let ticks = 0;
+    const loop = startIntervalLoop(HOUR_MS, async () => ++ticks < 3);
+
+    while (ticks < 3) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    await loop.stop();
+    assert.equal(ticks, 3);
+  });
+});
@@ -0,0 +1,46 @@
+export interface IntervalLoop {
+  stop(): Promise<void>;
+}
+
+/**
+ * Run `tick` until stopped, waiting `intervalMs` after each run. A tick that
+ * returns true runs again straight away, e.g. while a queue has more work.
+ *
+ * stop() wakes a waiting loop and resolves once the current tick finishes.
+ * The loop checks for a stop before every wait, since stop() can only wake a
+ * loop that is already asleep. Ticks handle their own errors; `isRunning`
+ * lets long ones bail out early.
+ */
+export function startIntervalLoop(
+  intervalMs: number,
+  tick: (isRunning: () => boolean) => Promise<boolean | void>
+): IntervalLoop {
+  let isRunning = true;
+  let wake: (() => void) | null = null;
+
+  const loop = (async () => {
+    while (isRunning) {
+      const runAgain = await tick(() => isRunning);
+
+      if (!isRunning) break;
+      if (runAgain) continue;
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, intervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = null;
+    }
+  })();
+
+  return {
+    async stop() {
+      isRunning = false;
+      wake?.();
+      await loop;
+    },
+  };
+}
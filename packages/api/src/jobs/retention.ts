@@ -0,0 +1,42 @@
+import type { FastifyBaseLogger } from "fastify";
+import { sweepRetention } from "../services/retention.service.js";
+import { startIntervalLoop } from "./interval-loop.js";
+
+const RETENTION_SWEEP_INTERVAL_MS = parseInt(
+  process.env.RETENTION_SWEEP_INTERVAL_MS || "86400000",
+  10
+);
+
+export interface RetentionSweeper {
+  stop(): Promise<void>;
+}
+
+/**
+ * Trash expired snapshots and purge old trash on an interval (daily by
+ * default). With `dryRun` the sweeper only logs what it would remove.
+ */
+export function startRetentionSweeper(logger: FastifyBaseLogger, dryRun = false): RetentionSweeper {
+  const loop = startIntervalLoop(RETENTION_SWEEP_INTERVAL_MS, async (isRunning) => {
+    try {
+      const result = await sweepRetention({ dryRun, shouldContinue: isRunning });
+      for (const failure of result.failed) {
+        logger.warn(failure, "Snapshot retention failed");
+      }
+      logger.info(
+        dryRun ? result : { trashed: result.trashed.length, purged: result.purged.length },
+        dryRun ? "Retention dry run" : "Swept expired snapshots"
+      );
+    } catch (error) {
+      logger.error({ err: error }, "Retention sweep failed");
+    }
+  });
+
+  logger.info({ dryRun }, "Retention sweeper started");
+
+  return {
+    async stop() {
+      await loop.stop();
+      logger.info("Retention sweeper stopped");
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import type { FastifyBaseLogger } from "fastify";
+import { getDb } from "../db/database.js";
+import { getNextRunAt, getReportMonthForRun } from "../lib/schedules.js";
+import type { ReportJobPayload } from "../services/job.service.js";
+import { startIntervalLoop } from "./interval-loop.js";
+
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || "60000", 10);
+const SCHEDULE_BATCH_SIZE = 50;
+
+export interface Scheduler {
+  stop(): Promise<void>;
+}
+
+/**
+ * Check for due report schedules every minute until stopped
+ */
+export function startScheduler(logger: FastifyBaseLogger): Scheduler {
+  const loop = startIntervalLoop(SCHEDULER_INTERVAL_MS, async (isRunning) => {
+    try {
+      let enqueued: number;
+      do {
+        enqueued = await enqueueDueSchedules();
+        if (enqueued > 0) {
+          logger.info({ count: enqueued }, "Enqueued scheduled reports");
+        }
+      } while (enqueued === SCHEDULE_BATCH_SIZE && isRunning());
+    } catch (error) {
+      logger.error({ err: error }, "Scheduler failed to enqueue due reports");
+    }
+  });
+
+  logger.info("Report scheduler started");
+
+  return {
+    async stop() {
+      await loop.stop();
+      logger.info("Report scheduler stopped");
+    },
+  };
+}
+
+/**
+ * Enqueue a full_report job for each due schedule and advance it to its next
+ * run. Due rows are locked with SKIP LOCKED and advanced in the same
+ * transaction, so concurrent API instances never enqueue the same run twice.
+ * Runs missed while no instance was up collapse into a single run.
+ */
+export async function enqueueDueSchedules(now = new Date()): Promise<number> {
+  const db = getDb();
+
+  return db.transaction().execute(async (trx) => {
+    const dueSchedules = await trx
+      .selectFrom("report_schedules")
+      .selectAll()
+      .where("enabled", "=", true)
+      .where("next_run_at", "<=", now)
+      .orderBy("next_run_at")
+      .limit(SCHEDULE_BATCH_SIZE)
+      .forUpdate()
+      .skipLocked()
+      .execute();
+
+    if (dueSchedules.length === 0) {
+      return 0;
+    }
+
+    const clients = await trx
+      .selectFrom("clients")
+      .select(["id", "timezone"])
+      .where(
+        "id",
+        "in",
+        dueSchedules.map((schedule) => schedule.client_id)
+      )
+      .execute();
+    const timezoneByClient = new Map(clients.map((client) => [client.id, client.timezone]));
+
+    for (const schedule of dueSchedules) {
+      const timezone = timezoneByClient.get(schedule.client_id) ?? "UTC";
+
+      // Scheduled runs always fetch fresh data for the month that just ended
+      // and mail the result to the client's contacts
+      const payload: ReportJobPayload = {
+        period: {
+          month: getReportMonthForRun(schedule.next_run_at, timezone),
+          comparison: schedule.comparison_mode,
+        },
+        regenerate: true,
+        deliver: true,
+      };
+
+      const job = await trx
+        .insertInto("jobs")
+        .values({
+          client_id: schedule.client_id,
+          type: "full_report",
+          status: "pending",
+          metadata: { ...payload, scheduleId: schedule.id },
+        })
+        .returning("id")
+        .executeTakeFirstOrThrow();
+
+      await trx
+        .updateTable("report_schedules")
+        .set({
+          last_run_at: schedule.next_run_at,
+          last_job_id: job.id,
+          next_run_at: getNextRunAt(
+            {
+              dayOfMonth: schedule.day_of_month,
+              timeOfDay: schedule.time_of_day,
+              timezone,
+            },
+            now
+          ),
+          updated_at: now,
+        })
+        .where("id", "=", schedule.id)
+        .execute();
+    }
+
+    return dueSchedules.length;
+  });
+}
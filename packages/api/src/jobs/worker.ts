@@ -0,0 +1,204 @@
+import type { FastifyBaseLogger } from "fastify";
+import { getDb } from "../db/database.js";
+import type { Job, JobStatus } from "../db/types.js";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "../lib/errors.js";
+import { jobHandlers, type JobResult } from "./handlers.js";
+import { startIntervalLoop } from "./interval-loop.js";
+
+export const RETRY_CONFIG = {
+  maxAttempts: 3,
+  backoffMultiplier: 2,
+  initialDelayMs: 60_000, // 1 minute
+  maxDelayMs: 3600_000, // 1 hour
+};
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "5000", 10);
+
+// A job still running after this long is assumed to belong to a dead worker
+const JOB_TIMEOUT_MS = parseInt(process.env.JOB_TIMEOUT_MS || "900000", 10);
+
+export interface JobWorker {
+  stop(): Promise<void>;
+}
+
+/**
+ * Poll the jobs table and run pending jobs one at a time until stopped.
+ * Several API instances can run a worker; claims use SKIP LOCKED so each
+ * job is picked up by exactly one of them.
+ */
+export function startJobWorker(logger: FastifyBaseLogger): JobWorker {
+  const loop = startIntervalLoop(POLL_INTERVAL_MS, async () => {
+    try {
+      await requeueStaleJobs(logger);
+      const job = await claimNextJob();
+      if (job) {
+        await runJob(job, logger);
+        return true;
+      }
+    } catch (error) {
+      logger.error({ err: error }, "Job worker failed to process the queue");
+    }
+    return false;
+  });
+
+  logger.info("Job worker started");
+
+  return {
+    async stop() {
+      await loop.stop();
+      logger.info("Job worker stopped");
+    },
+  };
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    RETRY_CONFIG.initialDelayMs * Math.pow(RETRY_CONFIG.backoffMultiplier, attempts - 1),
+    RETRY_CONFIG.maxDelayMs
+  );
+}
+
+/**
+ * Atomically move the oldest due pending job to running
+ */
+async function claimNextJob(): Promise<Job | undefined> {
+  const db = getDb();
+
+  return db.transaction().execute(async (trx) => {
+    const next = await trx
+      .selectFrom("jobs")
+      .select("id")
+      .where("status", "=", "pending")
+      .where("run_at", "<=", new Date())
+      .orderBy("run_at")
+      .limit(1)
+      .forUpdate()
+      .skipLocked()
+      .executeTakeFirst();
+
+    if (!next) {
+      return undefined;
+    }
+
+    return trx
+      .updateTable("jobs")
+      .set({ status: "running", started_at: new Date(), finished_at: null })
+      .where("id", "=", next.id)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  });
+}
+
+async function runJob(job: Job, logger: FastifyBaseLogger): Promise<void> {
+  const log = logger.child({ jobId: job.id, jobType: job.type, attempt: job.retry_count + 1 });
+  const handler = jobHandlers[job.type];
+
+  try {
+    if (!handler) {
+      throw new ValidationError(`No handler registered for ${job.type} jobs`);
+    }
+
+    const userId = await getJobOwner(job);
+    const result = await handler(job, userId);
+    await completeJob(job, result);
+    log.info("Job completed");
+  } catch (error) {
+    const status = await failJob(job, error);
+    log.error(
+      { err: error },
+      status === "pending" ? "Job failed, retry scheduled" : "Job failed"
+    );
+  }
+}
+
+/**
+ * Jobs run with the permissions of the user who owns the client
+ */
+async function getJobOwner(job: Job): Promise<string> {
+  const db = getDb();
+
+  const client = await db
+    .selectFrom("clients")
+    .select("created_by")
+    .where("id", "=", job.client_id)
+    .executeTakeFirst();
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+
+  return client.created_by;
+}
+
+async function completeJob(job: Job, result: JobResult): Promise<void> {
+  const db = getDb();
+
+  await db
+    .updateTable("jobs")
+    .set({
+      status: "completed",
+      finished_at: new Date(),
+      error_message: null,
+      ...(result.snapshotId ? { snapshot_id: result.snapshotId } : {}),
+    })
+    .where("id", "=", job.id)
+    .where("status", "=", "running")
+    .where("started_at", "=", job.started_at)
+    .execute();
+}
+
+/**
+ * Record a failed attempt. Client errors (bad input, missing records) will not
+ * succeed on a retry, so they fail the job straight away. Conflicts are races
+ * with a concurrent change and are retried like server errors.
+ */
+async function failJob(job: Job, error: unknown): Promise<JobStatus> {
+  const db = getDb();
+  const attempts = job.retry_count + 1;
+  const message = error instanceof Error ? error.message : String(error);
+  const isPermanent =
+    error instanceof AppError && error.statusCode < 500 && !(error instanceof ConflictError);
+
+  const update =
+    isPermanent || attempts >= RETRY_CONFIG.maxAttempts
+      ? { status: "failed" as const, finished_at: new Date() }
+      : {
+          status: "pending" as const,
+          retry_count: attempts,
+          run_at: new Date(Date.now() + getRetryDelay(attempts)),
+        };
+
+  // The started_at check keeps a worker from overwriting a job that was
+  // already timed out and handed to another worker
+  await db
+    .updateTable("jobs")
+    .set({ ...update, error_message: message })
+    .where("id", "=", job.id)
+    .where("status", "=", "running")
+    .where("started_at", "=", job.started_at)
+    .execute();
+
+  return update.status;
+}
+
+/**
+ * Treat jobs left running by a crashed or stopped worker as failed attempts
+ */
+async function requeueStaleJobs(logger: FastifyBaseLogger): Promise<void> {
+  const db = getDb();
+
+  const staleJobs = await db
+    .selectFrom("jobs")
+    .selectAll()
+    .where("status", "=", "running")
+    .where("started_at", "<", new Date(Date.now() - JOB_TIMEOUT_MS))
+    .execute();
+
+  for (const job of staleJobs) {
+    const status = await failJob(job, new Error("Job timed out"));
+    logger.warn({ jobId: job.id, status }, "Recovered stale job");
+  }
+}
@@ -0,0 +1,77 @@
+import { sanitizeCommentaryHtml } from "@agency-reports/shared";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+describe("sanitizeCommentaryHtml", () => {
+  it("keeps allowed formatting and escapes stray markup characters", () => {
+    assert.equal(
+      sanitizeCommentaryHtml("<p>Sessions <strong>up</strong> & a < b</p><ul><li>One</li></ul>"),
+      "<p>Sessions <strong>up</strong> &amp; a &lt; b</p><ul><li>One</li></ul>"
+    );
+  });
+
+  it("drops script and style elements with their content", () => {
+    assert.equal(
+      sanitizeCommentaryHtml("<p>Hi<script>alert(1)</script> there</p>"),
+      "<p>Hi there</p>"
+    );
+    assert.equal(
+      sanitizeCommentaryHtml("<style>p { color: red }</style><p>Text</p>"),
+      "<p>Text</p>"
+    );
+  });
+
+  it("strips event handler attributes", () => {
+    assert.equal(
+      sanitizeCommentaryHtml('<p onclick="alert(1)" class="lead">Text</p>'),
+      "<p>Text</p>"
+    );
+    assert.equal(
+      sanitizeCommentaryHtml('<a href="https://example.com" onmouseover="alert(1)">Site</a>'),
+      '<a href="https://example.com" rel="noopener noreferrer">Site</a>'
+    );
+  });
+
+  it("removes javascript: and data: links", () => {
+    for (const href of [
+      "javascript:alert(1)",
+      "JaVaScRiPt:alert(1)",
+      " javascript:alert(1)",
+      "&#106;avascript:alert(1)",
+      "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+    ]) {
+      assert.equal(sanitizeCommentaryHtml(`<a href="${href}">Link</a>`), "<a>Link</a>");
+    }
+  });
+
+  it("drops everything after an unterminated comment", () => {
+    assert.equal(
+      sanitizeCommentaryHtml("<p>Before<!-- never closed <script>alert(1)</script>"),
+      "<p>Before</p>"
+    );
+  });
+
+  it("neutralises unterminated tags", () => {
+    assert.equal(sanitizeCommentaryHtml("<p>Before<script>alert(1)"), "<p>Before</p>");
+    assert.equal(
+      sanitizeCommentaryHtml('<p>Before</p><img src=x onerror="alert(1)"'),
+      '<p>Before</p>&lt;img src=x onerror="alert(1)"'
+    );
+    assert.equal(sanitizeCommentaryHtml("<b>Bold <em>text"), "<b>Bold <em>text</em></b>");
+  });
+
+  it("keeps entity-encoded quotes inside an href encoded", () => {
+    assert.equal(
+      sanitizeCommentaryHtml('<a href="https://example.com&quot; onclick=&quot;alert(1)">Site</a>'),
+      "<a>Site</a>"
+    );
+    assert.equal(
+      sanitizeCommentaryHtml('<a href="https://example.com/?q=&quot;x&#34;">Site</a>'),
+      '<a href="https://example.com/?q=&quot;x&#34;" rel="noopener noreferrer">Site</a>'
+    );
+    assert.equal(
+      sanitizeCommentaryHtml("<a href='https://example.com/?q=\"onclick=alert(1)'>Site</a>"),
+      "<a>Site</a>"
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { afterEach, before, describe, it } from "node:test";
+import {
+  CredentialIntegrityError,
+  decryptCredentials,
+  encryptCredentials,
+  getCredentialKeyId,
+} from "./credentials.js";
+import { EnvKeyProvider, setKeyProvider } from "./key-provider.js";
+
+const credentials = { apiKey: "secret-key" };
+
+describe("credentials", () => {
+  before(() => {
+    setKeyProvider(new EnvKeyProvider(`k1:${crypto.randomBytes(32).toString("base64")}`, "k1"));
+  });
+
+  afterEach(() => {
+    delete process.env.ALLOW_PLAINTEXT_CREDENTIALS;
+  });
+
+  it("round-trips credentials under the current key", async () => {
+    const stored = await encryptCredentials(credentials);
+
+    assert.equal(getCredentialKeyId(stored), "k1");
+    assert.deepEqual(await decryptCredentials(stored), credentials);
+  });
+
+  it("rejects altered ciphertext", async () => {
+    const parts = (await encryptCredentials(credentials)).split(":");
+    const ciphertext = Buffer.from(parts[5]!, "base64url");
+    ciphertext[0]! ^= 1;
+    parts[5] = ciphertext.toString("base64url");
+
+    await assert.rejects(decryptCredentials(parts.join(":")), CredentialIntegrityError);
+  });
+
+  it("rejects plaintext JSON unless it is explicitly allowed", async () => {
+    const plaintext = JSON.stringify({ apiKey: "attacker-key" });
+
+    await assert.rejects(decryptCredentials(plaintext), CredentialIntegrityError);
+    assert.deepEqual(await decryptCredentials(plaintext, { allowPlaintext: true }), {
+      apiKey: "attacker-key",
+    });
+
+    process.env.ALLOW_PLAINTEXT_CREDENTIALS = "true";
+    assert.deepEqual(await decryptCredentials(plaintext), { apiKey: "attacker-key" });
+  });
+});
@@ -0,0 +1,107 @@
+import crypto from "crypto";
+import { getKeyProvider } from "./key-provider.js";
+
+// Stored values look like enc1:<keyId>:<wrapped data key>:<iv>:<tag>:<ciphertext>
+const FORMAT_VERSION = "enc1";
+const IV_BYTES = 12;
+
+export class CredentialIntegrityError extends Error {
+  constructor(message = "Stored credentials failed integrity check") {
+    super(message);
+    this.name = "CredentialIntegrityError";
+  }
+}
+
+/**
+ * Envelope-encrypt credentials: a fresh AES-256-GCM data key per value,
+ * wrapped by the key provider's current key
+ */
+export async function encryptCredentials(credentials: object): Promise<string> {
+  const keyProvider = getKeyProvider();
+  const keyId = keyProvider.currentKeyId();
+  const dataKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(IV_BYTES);
+
+  const cipher = crypto.createCipheriv("aes-256-gcm", dataKey, iv);
+  cipher.setAAD(Buffer.from(`${FORMAT_VERSION}:${keyId}`));
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(credentials), "utf8"),
+    cipher.final(),
+  ]);
+  const wrappedKey = await keyProvider.wrapKey(keyId, dataKey);
+
+  return [
+    FORMAT_VERSION,
+    keyId,
+    wrappedKey.toString("base64url"),
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(":");
+}
+
+export interface DecryptOptions {
+  /**
+   * Accept legacy plaintext JSON. Off unless ALLOW_PLAINTEXT_CREDENTIALS=true,
+   * which is only meant for the window before credentials:reencrypt has run.
+   */
+  allowPlaintext?: boolean;
+}
+
+/**
+ * Decrypt stored credentials. Throws CredentialIntegrityError if the value was
+ * altered, cannot be decrypted with the referenced key, or is plaintext that
+ * isn't allowed.
+ */
+export async function decryptCredentials<T>(
+  stored: string,
+  { allowPlaintext = process.env.ALLOW_PLAINTEXT_CREDENTIALS === "true" }: DecryptOptions = {}
+): Promise<T> {
+  // Rows written before encryption hold plain JSON until re-encrypted
+  if (isLegacyPlaintext(stored)) {
+    if (!allowPlaintext) {
+      throw new CredentialIntegrityError(
+        "Stored credentials are not encrypted; run credentials:reencrypt"
+      );
+    }
+    return JSON.parse(stored) as T;
+  }
+
+  const parts = stored.split(":");
+  const [version, keyId, wrappedKey, iv, tag, ciphertext] = parts;
+  if (parts.length !== 6 || version !== FORMAT_VERSION || !keyId) {
+    throw new CredentialIntegrityError("Stored credentials have an unknown format");
+  }
+
+  try {
+    const dataKey = await getKeyProvider().unwrapKey(keyId, Buffer.from(wrappedKey!, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", dataKey, Buffer.from(iv!, "base64url"));
+    decipher.setAAD(Buffer.from(`${FORMAT_VERSION}:${keyId}`));
+    decipher.setAuthTag(Buffer.from(tag!, "base64url"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext!, "base64url")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString("utf8")) as T;
+  } catch (error) {
+    throw new CredentialIntegrityError(
+      `Stored credentials failed integrity check (key ${keyId}): ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Key id a stored value is encrypted under, or null for legacy plaintext
+ */
+export function getCredentialKeyId(stored: string): string | null {
+  if (isLegacyPlaintext(stored)) {
+    return null;
+  }
+  return stored.split(":")[1] ?? null;
+}
+
+function isLegacyPlaintext(stored: string): boolean {
+  return stored.trimStart().startsWith("{");
+}
@@ -38,3 +38,46 @@ export class ValidationError extends AppError {
     super(400, message, "VALIDATION_ERROR");
   }
 }
+
+/**
+ * A data source's credentials were rejected and it must be reconnected.
+ * `status` and `reason` are what gets recorded on the data source.
+ */
+export class DataSourceAuthError extends AppError {
+  constructor(
+    message: string,
+    public status: "expired" | "disconnected",
+    public reason: string
+  ) {
+    super(409, message, "DATA_SOURCE_AUTH_FAILED");
+  }
+}
+
+/**
+ * A provider couldn't revoke a data source's grant. The credentials are kept
+ * so the revocation can be retried.
+ */
+export class RevocationFailedError extends AppError {
+  constructor(message: string) {
+    super(502, message, "REVOCATION_FAILED");
+  }
+}
+
+/**
+ * An earlier attempt to send an email may or may not have gone out. Sending
+ * again could duplicate it, so someone has to check with the provider.
+ */
+export class EmailDeliveryUnknownError extends AppError {
+  constructor(message: string) {
+    super(422, message, "EMAIL_DELIVERY_UNKNOWN");
+  }
+}
+
+/**
+ * Stored or generated snapshot JSON doesn't match any supported schema version
+ */
+export class InvalidSnapshotError extends AppError {
+  constructor(message: string) {
+    super(422, message, "INVALID_SNAPSHOT");
+  }
+}
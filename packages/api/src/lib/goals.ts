@@ -0,0 +1,150 @@
+import {
+  getGoalKeyEvent,
+  getGoalMetricDefinition,
+  type GoalPeriod,
+  type GoalTargetType,
+  type SnapshotData,
+  type SnapshotGoal,
+} from "@agency-reports/shared";
+import type { DateRange } from "../connectors/connector.js";
+
+export interface GoalDefinition {
+  id: string;
+  metric: string;
+  period: GoalPeriod;
+  targetType: GoalTargetType;
+  targetValue: number;
+}
+
+const MONTHS_PER_PERIOD: Record<GoalPeriod, number> = {
+  monthly: 1,
+  quarterly: 3,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Measure each goal against a snapshot. Goals whose metric the snapshot has
+ * no data for (say, an Ads goal without a connected Ads account) are left out.
+ *
+ * Absolute targets for counts and amounts are scaled to the report period:
+ * a quarterly goal counts for a third in a monthly report, and ranges that
+ * aren't whole months are pro-rated by day. Growth targets are measured
+ * against the snapshot's comparison period.
+ */
+export function evaluateGoals(data: SnapshotData, goals: GoalDefinition[]): SnapshotGoal[] {
+  const evaluated: SnapshotGoal[] = [];
+
+  for (const goal of goals) {
+    const definition = getGoalMetricDefinition(goal.metric);
+    const actual = readGoalMetric(data, goal.metric, "current");
+    if (!definition || actual === null) continue;
+
+    let target: number;
+    if (goal.targetType === "growth") {
+      const baseline = readGoalMetric(data, goal.metric, "previous");
+      if (baseline === null) continue;
+      target = baseline * (1 + goal.targetValue / 100);
+    } else {
+      const isTotal = definition.kind === "count" || definition.kind === "currency";
+      target = isTotal
+        ? goal.targetValue *
+          getTargetScale(goal.period, { startDate: data.periodStart, endDate: data.periodEnd })
+        : goal.targetValue;
+    }
+
+    const met = definition.higherIsBetter ? actual >= target : actual <= target;
+    const ratio = definition.higherIsBetter ? divide(actual, target) : divide(target, actual);
+
+    evaluated.push({
+      goalId: goal.id,
+      metric: goal.metric,
+      period: goal.period,
+      targetType: goal.targetType,
+      targetValue: goal.targetValue,
+      target: round(target, 2),
+      actual,
+      // A zero target, or zero against a lower-is-better target, is met or not outright
+      attainment: round(ratio ?? (met ? 1 : 0), 3),
+      met,
+    });
+  }
+
+  return evaluated;
+}
+
+/**
+ * Goal totals merged into snapshots.metrics_summary, so client lists can
+ * flag who is off track without loading snapshot files. Attainment is the
+ * average progress with each goal capped at 100%.
+ */
+export function summarizeGoals(goals: SnapshotGoal[]): Record<string, number> {
+  if (goals.length === 0) return {};
+
+  const attainment =
+    goals.reduce((sum, goal) => sum + Math.min(goal.attainment, 1), 0) / goals.length;
+
+  return {
+    goalsTotal: goals.length,
+    goalsMet: goals.filter((goal) => goal.met).length,
+    goalAttainment: round(attainment, 3),
+  };
+}
+
+function readGoalMetric(
+  data: SnapshotData,
+  metric: string,
+  period: "current" | "previous"
+): number | null {
+  const eventName = getGoalKeyEvent(metric);
+  if (eventName) {
+    // GA4 leaves events that never fired out of the list
+    if (!data.ga4) return null;
+    return data.ga4[period].keyEvents.find((event) => event.name === eventName)?.count ?? 0;
+  }
+
+  const [section, key] = metric.split(".");
+  const metrics =
+    section === "ga4"
+      ? data.ga4?.[period]
+      : section === "googleAds"
+        ? data.googleAds?.[period]
+        : undefined;
+  const value = metrics?.[key as keyof typeof metrics];
+  return typeof value === "number" ? value : null;
+}
+
+function getTargetScale(period: GoalPeriod, range: DateRange): number {
+  const goalMonths = MONTHS_PER_PERIOD[period];
+  const [startYear, startMonth, startDay] = range.startDate.split("-").map(Number);
+  const [endYear, endMonth, endDay] = range.endDate.split("-").map(Number);
+
+  const coversWholeMonths =
+    startDay === 1 && endDay === new Date(Date.UTC(endYear!, endMonth!, 0)).getUTCDate();
+  if (coversWholeMonths) {
+    const months = (endYear! - startYear!) * 12 + endMonth! - startMonth! + 1;
+    return months / goalMonths;
+  }
+
+  // Pro-rate by day against the month or quarter the range starts in
+  const firstMonth = period === "quarterly" ? startMonth! - ((startMonth! - 1) % 3) : startMonth!;
+  const goalDays =
+    (Date.UTC(startYear!, firstMonth - 1 + goalMonths, 1) -
+      Date.UTC(startYear!, firstMonth - 1, 1)) /
+    DAY_MS;
+  const rangeDays =
+    (Date.UTC(endYear!, endMonth! - 1, endDay!) -
+      Date.UTC(startYear!, startMonth! - 1, startDay!)) /
+      DAY_MS +
+    1;
+  return rangeDays / goalDays;
+}
+
+function divide(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,18 @@
+/**
+ * Minimal fetch-compatible client for outbound calls that tests need to run
+ * offline
+ */
+export type HttpClient = (url: string, init?: RequestInit) => Promise<Response>;
+
+let client: HttpClient = (url, init) => fetch(url, init);
+
+export function getHttpClient(): HttpClient {
+  return client;
+}
+
+/**
+ * Swap the HTTP client, e.g. for a recording fake in tests
+ */
+export function setHttpClient(httpClient: HttpClient): void {
+  client = httpClient;
+}
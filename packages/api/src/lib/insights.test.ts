@@ -0,0 +1,59 @@
+import type { GA4Metrics, SnapshotData } from "@agency-reports/shared";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { generateInsights } from "./insights.js";
+
+function metrics(overrides: Partial<GA4Metrics>): GA4Metrics {
+  return {
+    sessions: 1000,
+    users: 800,
+    newUsers: 400,
+    pageviews: 3000,
+    avgSessionDuration: 60,
+    bounceRate: 0.4,
+    activeUsers: 800,
+    engagementRate: 0.6,
+    userEngagementDuration: 48000,
+    dailyMetrics: [],
+    topPages: [],
+    channels: [],
+    keyEvents: [],
+    keyEventBreakdowns: [],
+    ...overrides,
+  };
+}
+
+// Sessions up 20%, users up 5%; nothing else moved
+const data = {
+  locale: "en-US",
+  ga4: {
+    current: metrics({ sessions: 1200, users: 840 }),
+    previous: metrics({}),
+  },
+} as SnapshotData;
+
+describe("generateInsights", () => {
+  it("reports changes that clear the default thresholds", () => {
+    assert.deepEqual(generateInsights(data), [
+      { rule: "ga4.sessions", text: "Sessions up 20% to 1,200" },
+    ]);
+  });
+
+  it("applies a client's thresholds", () => {
+    const texts = generateInsights(data, { thresholds: { minChangePercent: 4 } }).map(
+      (insight) => insight.text
+    );
+    assert.deepEqual(texts, ["Sessions up 20% to 1,200", "Users up 5% to 840"]);
+
+    assert.deepEqual(generateInsights(data, { thresholds: { minSessions: 5000 } }), []);
+  });
+
+  it("applies a client's phrasing over the report language's", () => {
+    assert.deepEqual(
+      generateInsights(data, {
+        phrases: { metricUp: "{metric} grew by {change}", metrics: { sessions: "visits" } },
+      }),
+      [{ rule: "ga4.sessions", text: "Visits grew by 20%" }]
+    );
+  });
+});
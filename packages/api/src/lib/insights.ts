@@ -0,0 +1,378 @@
+import type {
+  GA4Metrics,
+  InsightSettings,
+  SnapshotData,
+  SnapshotInsight,
+} from "@agency-reports/shared";
+
+export interface InsightThresholds {
+  /** Smallest relative change in a count worth a bullet, in percent */
+  minChangePercent: number;
+  /** Smallest move in a rate metric, in percentage points */
+  minPointChange: number;
+  /** Sessions a metric, or a channel, needs in either period to be reported on */
+  minSessions: number;
+  /** Events a key event needs in either period to be reported on */
+  minEvents: number;
+  /** Smallest absolute change in a count; filters out big swings on small numbers */
+  minAbsoluteChange: number;
+  /** Most bullets kept, strongest first */
+  maxInsights: number;
+}
+
+/** Agency defaults, used for every threshold a client doesn't set itself */
+export const DEFAULT_INSIGHT_THRESHOLDS: InsightThresholds = {
+  minChangePercent: parseFloat(process.env.INSIGHT_MIN_CHANGE_PERCENT || "10"),
+  minPointChange: parseFloat(process.env.INSIGHT_MIN_POINT_CHANGE || "3"),
+  minSessions: parseInt(process.env.INSIGHT_MIN_SESSIONS || "100", 10),
+  minEvents: parseInt(process.env.INSIGHT_MIN_EVENTS || "10", 10),
+  minAbsoluteChange: parseInt(process.env.INSIGHT_MIN_ABSOLUTE_CHANGE || "20", 10),
+  maxInsights: parseInt(process.env.INSIGHT_MAX_INSIGHTS || "6", 10),
+};
+
+/**
+ * Sentence templates with {name} placeholders. Counts are filled in as
+ * {value}/{previous}, relative changes as {change} and traffic shares as
+ * {share}, all formatted for the snapshot's locale.
+ */
+export interface InsightPhrases {
+  metricUp: string;
+  metricDown: string;
+  rateUp: string;
+  rateDown: string;
+  channelUp: string;
+  channelDown: string;
+  channelNew: string;
+  keyEventUp: string;
+  keyEventDown: string;
+  keyEventNew: string;
+  metrics: Record<InsightMetric, string>;
+}
+
+type CountMetric = "sessions" | "users" | "newUsers" | "pageviews";
+type RateMetric = "engagementRate" | "bounceRate";
+type InsightMetric = CountMetric | RateMetric;
+
+const COUNT_METRICS: CountMetric[] = ["sessions", "users", "newUsers", "pageviews"];
+const RATE_METRICS: RateMetric[] = ["engagementRate", "bounceRate"];
+
+const FALLBACK_LANGUAGE = "en";
+
+/** Phrasing per report language; locales without their own fall back to English */
+export const INSIGHT_PHRASES: Record<string, InsightPhrases> = {
+  en: {
+    metricUp: "{metric} up {change} to {value}",
+    metricDown: "{metric} down {change} to {value}",
+    rateUp: "{metric} rose from {previous} to {value}",
+    rateDown: "{metric} fell from {previous} to {value}",
+    channelUp: "{channel} sessions up {change} and now {share} of traffic",
+    channelDown: "{channel} sessions down {change} and now {share} of traffic",
+    channelNew: "{channel} brought {value} sessions ({share} of traffic), up from none",
+    keyEventUp: "{event} up {change} to {value}",
+    keyEventDown: "{event} down {change} to {value}",
+    keyEventNew: "{event}: {value} recorded, up from none",
+    metrics: {
+      sessions: "Sessions",
+      users: "Users",
+      newUsers: "New users",
+      pageviews: "Page views",
+      engagementRate: "Engagement rate",
+      bounceRate: "Bounce rate",
+    },
+  },
+  de: {
+    metricUp: "{metric} um {change} auf {value} gestiegen",
+    metricDown: "{metric} um {change} auf {value} gesunken",
+    rateUp: "{metric} von {previous} auf {value} gestiegen",
+    rateDown: "{metric} von {previous} auf {value} gesunken",
+    channelUp: "Sitzungen über {channel} um {change} gestiegen, jetzt {share} des Traffics",
+    channelDown: "Sitzungen über {channel} um {change} gesunken, jetzt {share} des Traffics",
+    channelNew: "{channel} brachte {value} Sitzungen ({share} des Traffics), zuvor keine",
+    keyEventUp: "{event} um {change} auf {value} gestiegen",
+    keyEventDown: "{event} um {change} auf {value} gesunken",
+    keyEventNew: "{event}: {value} erfasst, zuvor keine",
+    metrics: {
+      sessions: "Sitzungen",
+      users: "Nutzer",
+      newUsers: "Neue Nutzer",
+      pageviews: "Seitenaufrufe",
+      engagementRate: "Interaktionsrate",
+      bounceRate: "Absprungrate",
+    },
+  },
+  fr: {
+    metricUp: "{metric} en hausse de {change}, à {value}",
+    metricDown: "{metric} en baisse de {change}, à {value}",
+    rateUp: "{metric} en hausse, de {previous} à {value}",
+    rateDown: "{metric} en baisse, de {previous} à {value}",
+    channelUp: "Sessions {channel} en hausse de {change}, soit {share} du trafic",
+    channelDown: "Sessions {channel} en baisse de {change}, soit {share} du trafic",
+    channelNew: "{channel} a généré {value} sessions ({share} du trafic), contre aucune auparavant",
+    keyEventUp: "{event} en hausse de {change}, à {value}",
+    keyEventDown: "{event} en baisse de {change}, à {value}",
+    keyEventNew: "{event} : {value} enregistrés, contre aucun auparavant",
+    metrics: {
+      sessions: "Sessions",
+      users: "Utilisateurs",
+      newUsers: "Nouveaux utilisateurs",
+      pageviews: "Pages vues",
+      engagementRate: "Taux d'engagement",
+      bounceRate: "Taux de rebond",
+    },
+  },
+  es: {
+    metricUp: "{metric}: aumento del {change}, hasta {value}",
+    metricDown: "{metric}: descenso del {change}, hasta {value}",
+    rateUp: "{metric}: subió del {previous} al {value}",
+    rateDown: "{metric}: bajó del {previous} al {value}",
+    channelUp: "Las sesiones de {channel} aumentaron un {change} y suponen el {share} del tráfico",
+    channelDown: "Las sesiones de {channel} bajaron un {change} y suponen el {share} del tráfico",
+    channelNew: "{channel} aportó {value} sesiones ({share} del tráfico), frente a ninguna antes",
+    keyEventUp: "{event}: aumento del {change}, hasta {value}",
+    keyEventDown: "{event}: descenso del {change}, hasta {value}",
+    keyEventNew: "{event}: {value} registrados, frente a ninguno antes",
+    metrics: {
+      sessions: "Sesiones",
+      users: "Usuarios",
+      newUsers: "Usuarios nuevos",
+      pageviews: "Páginas vistas",
+      engagementRate: "Tasa de interacción",
+      bounceRate: "Tasa de rebote",
+    },
+  },
+};
+
+/**
+ * A client's saved highlight settings: threshold overrides, and phrasing
+ * overrides for the snapshot's language
+ */
+export type InsightOptions = InsightSettings;
+
+interface Candidate {
+  rule: string;
+  text: string;
+  /** How far past its threshold the change is, weighted by volume */
+  score: number;
+}
+
+/**
+ * Plain-language bullets on the biggest moves in a snapshot's GA4 data:
+ * headline metrics, channel sessions and key events. Changes have to clear
+ * the thresholds on a large enough base to count; the strongest are kept.
+ */
+export function generateInsights(
+  data: SnapshotData,
+  options: InsightOptions = {}
+): SnapshotInsight[] {
+  if (!data.ga4) return [];
+
+  const thresholds = { ...DEFAULT_INSIGHT_THRESHOLDS, ...options.thresholds };
+  const language = data.locale.split("-")[0]!;
+  const base = INSIGHT_PHRASES[language] ?? INSIGHT_PHRASES[FALLBACK_LANGUAGE]!;
+  const phrases: InsightPhrases = {
+    ...base,
+    ...options.phrases,
+    metrics: { ...base.metrics, ...options.phrases?.metrics },
+  };
+  const format = createFormatter(data.locale);
+  const { current, previous } = data.ga4;
+
+  const candidates = [
+    ...metricInsights(current, previous, thresholds, phrases, format),
+    ...channelInsights(current, previous, thresholds, phrases, format),
+    ...keyEventInsights(current, previous, thresholds, phrases, format),
+  ];
+
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, thresholds.maxInsights)
+    .map(({ rule, text }) => ({ rule, text }));
+}
+
+function metricInsights(
+  current: GA4Metrics,
+  previous: GA4Metrics,
+  thresholds: InsightThresholds,
+  phrases: InsightPhrases,
+  format: Formatter
+): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const metric of COUNT_METRICS) {
+    const score = scoreCountChange(
+      current[metric],
+      previous[metric],
+      thresholds.minSessions,
+      thresholds
+    );
+    if (score === null) continue;
+
+    const up = current[metric] > previous[metric];
+    candidates.push({
+      rule: `ga4.${metric}`,
+      text: fill(up ? phrases.metricUp : phrases.metricDown, {
+        metric: phrases.metrics[metric],
+        change: format.percent(relativeChange(current[metric], previous[metric])),
+        value: format.number(current[metric]),
+      }),
+      score,
+    });
+  }
+
+  // Rates are compared in points, and only on enough sessions to be stable
+  if (Math.max(current.sessions, previous.sessions) >= thresholds.minSessions) {
+    for (const metric of RATE_METRICS) {
+      const points = current[metric] - previous[metric];
+      if (Math.abs(points) < thresholds.minPointChange) continue;
+
+      candidates.push({
+        rule: `ga4.${metric}`,
+        text: fill(points > 0 ? phrases.rateUp : phrases.rateDown, {
+          metric: phrases.metrics[metric],
+          previous: format.percent(previous[metric]),
+          value: format.percent(current[metric]),
+        }),
+        score: weigh(Math.abs(points) / thresholds.minPointChange, current.sessions),
+      });
+    }
+  }
+
+  return candidates;
+}
+
+function channelInsights(
+  current: GA4Metrics,
+  previous: GA4Metrics,
+  thresholds: InsightThresholds,
+  phrases: InsightPhrases,
+  format: Formatter
+): Candidate[] {
+  const previousByName = new Map(previous.channels.map((channel) => [channel.name, channel]));
+  const candidates: Candidate[] = [];
+
+  for (const channel of current.channels) {
+    const before = previousByName.get(channel.name)?.sessions ?? 0;
+    const score = scoreCountChange(channel.sessions, before, thresholds.minSessions, thresholds);
+    if (score === null) continue;
+
+    const phrase =
+      before === 0
+        ? phrases.channelNew
+        : channel.sessions > before
+          ? phrases.channelUp
+          : phrases.channelDown;
+    candidates.push({
+      rule: `ga4.channel.${channel.name}`,
+      text: fill(phrase, {
+        channel: channel.name,
+        change: format.percent(relativeChange(channel.sessions, before)),
+        value: format.number(channel.sessions),
+        share: format.percent(channel.percentage),
+      }),
+      score,
+    });
+  }
+
+  return candidates;
+}
+
+function keyEventInsights(
+  current: GA4Metrics,
+  previous: GA4Metrics,
+  thresholds: InsightThresholds,
+  phrases: InsightPhrases,
+  format: Formatter
+): Candidate[] {
+  const previousByName = new Map(previous.keyEvents.map((event) => [event.name, event]));
+  const candidates: Candidate[] = [];
+
+  for (const event of current.keyEvents) {
+    const before = previousByName.get(event.name)?.count ?? 0;
+    const score = scoreCountChange(event.count, before, thresholds.minEvents, {
+      ...thresholds,
+      // Key events are far fewer than sessions, so any change past the base counts
+      minAbsoluteChange: 1,
+    });
+    if (score === null) continue;
+
+    const phrase =
+      before === 0
+        ? phrases.keyEventNew
+        : event.count > before
+          ? phrases.keyEventUp
+          : phrases.keyEventDown;
+    candidates.push({
+      rule: `ga4.keyEvent.${event.name}`,
+      text: fill(phrase, {
+        event: event.label ?? formatEventName(event.name),
+        change: format.percent(relativeChange(event.count, before)),
+        value: format.number(event.count),
+      }),
+      score,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Score for a change in a count, or null when it isn't significant: too small
+ * a base, too small a relative change, or too few in absolute terms
+ */
+function scoreCountChange(
+  current: number,
+  previous: number,
+  minBase: number,
+  thresholds: InsightThresholds
+): number | null {
+  if (Math.max(current, previous) < minBase) return null;
+  if (Math.abs(current - previous) < thresholds.minAbsoluteChange) return null;
+
+  const change = relativeChange(current, previous);
+  if (change < thresholds.minChangePercent) return null;
+
+  return weigh(change / thresholds.minChangePercent, Math.max(current, previous));
+}
+
+// Bigger numbers make the same relative change more meaningful
+function weigh(strength: number, volume: number): number {
+  return strength * Math.log10(volume + 10);
+}
+
+/** Size of a change in percent; a rise from zero counts as 100% */
+function relativeChange(current: number, previous: number): number {
+  if (previous === 0) return current > 0 ? 100 : 0;
+  return (Math.abs(current - previous) / previous) * 100;
+}
+
+function fill(phrase: string, params: Record<string, string>): string {
+  const text = phrase.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? params[name]! : placeholder
+  );
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function formatEventName(name: string): string {
+  return name
+    .replace(/[_-]+/g, " ")
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+interface Formatter {
+  number: (value: number) => string;
+  /** A value already in percent, e.g. 23 for 23% */
+  percent: (value: number) => string;
+}
+
+function createFormatter(locale: string): Formatter {
+  const number = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 });
+  const percent = new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 0 });
+
+  return {
+    number: (value) => number.format(value),
+    percent: (value) => percent.format(value / 100),
+  };
+}
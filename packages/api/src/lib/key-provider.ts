@@ -0,0 +1,102 @@
+import crypto from "crypto";
+
+/**
+ * Holds the key-encryption keys that wrap per-value data keys. Only wrapped
+ * data keys leave the provider, so a KMS-backed implementation can keep its
+ * master keys out of process entirely.
+ */
+export interface KeyProvider {
+  /** Key id new values are encrypted under */
+  currentKeyId(): string;
+  wrapKey(keyId: string, dataKey: Buffer): Promise<Buffer>;
+  unwrapKey(keyId: string, wrappedKey: Buffer): Promise<Buffer>;
+}
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const WRAP_IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Master keys from the environment:
+ *
+ *   CREDENTIAL_KEYS=k1:<base64 32 bytes>,k2:<base64 32 bytes>
+ *   CREDENTIAL_KEY_ID=k2   (defaults to the last key listed)
+ *
+ * Old keys stay listed until `credentials:reencrypt` has moved every row off them.
+ */
+export class EnvKeyProvider implements KeyProvider {
+  private readonly keys = new Map<string, Buffer>();
+  private readonly activeKeyId: string;
+
+  constructor(keySpec = process.env.CREDENTIAL_KEYS, activeKeyId = process.env.CREDENTIAL_KEY_ID) {
+    if (!keySpec) {
+      throw new Error("CREDENTIAL_KEYS environment variable is required");
+    }
+
+    for (const entry of keySpec.split(",")) {
+      const [keyId, encoded] = entry.trim().split(":");
+      if (!keyId || !encoded || !KEY_ID_PATTERN.test(keyId)) {
+        throw new Error("CREDENTIAL_KEYS entries must look like <keyId>:<base64 key>");
+      }
+      const key = Buffer.from(encoded, "base64");
+      if (key.length !== 32) {
+        throw new Error(`Credential key ${keyId} must be 32 bytes`);
+      }
+      this.keys.set(keyId, key);
+    }
+
+    const keyId = activeKeyId || Array.from(this.keys.keys()).pop();
+    if (!keyId || !this.keys.has(keyId)) {
+      throw new Error(`Credential key ${keyId ?? ""} is not listed in CREDENTIAL_KEYS`);
+    }
+    this.activeKeyId = keyId;
+  }
+
+  currentKeyId(): string {
+    return this.activeKeyId;
+  }
+
+  async wrapKey(keyId: string, dataKey: Buffer): Promise<Buffer> {
+    const iv = crypto.randomBytes(WRAP_IV_BYTES);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.getKey(keyId), iv);
+    cipher.setAAD(Buffer.from(keyId));
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), wrapped]);
+  }
+
+  async unwrapKey(keyId: string, wrappedKey: Buffer): Promise<Buffer> {
+    const iv = wrappedKey.subarray(0, WRAP_IV_BYTES);
+    const tag = wrappedKey.subarray(WRAP_IV_BYTES, WRAP_IV_BYTES + TAG_BYTES);
+    const decipher = crypto.createDecipheriv("aes-256-gcm", this.getKey(keyId), iv);
+    decipher.setAAD(Buffer.from(keyId));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(wrappedKey.subarray(WRAP_IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]);
+  }
+
+  private getKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown credential key: ${keyId}`);
+    }
+    return key;
+  }
+}
+
+let provider: KeyProvider | null = null;
+
+export function getKeyProvider(): KeyProvider {
+  if (!provider) {
+    provider = new EnvKeyProvider();
+  }
+  return provider;
+}
+
+/**
+ * Swap the key provider, e.g. for a KMS-backed implementation
+ */
+export function setKeyProvider(keyProvider: KeyProvider): void {
+  provider = keyProvider;
+}
@@ -0,0 +1,182 @@
+import type { DateRange } from "../connectors/connector.js";
+import type { ComparisonMode } from "../db/types.js";
+import { ValidationError } from "./errors.js";
+import { getLocalDate } from "./schedules.js";
+
+export interface SnapshotPeriod {
+  current: DateRange;
+  comparison: DateRange;
+  comparisonMode: ComparisonMode;
+}
+
+export interface SnapshotPeriodInput {
+  month?: string; // YYYY-MM
+  startDate?: string;
+  endDate?: string;
+  comparison: ComparisonMode;
+  comparisonStartDate?: string;
+  comparisonEndDate?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get date range for a specific month
+ */
+export function getMonthDateRange(year: number, month: number): DateRange {
+  return {
+    startDate: formatDate(new Date(Date.UTC(year, month - 1, 1))),
+    endDate: formatDate(new Date(Date.UTC(year, month, 0))), // Last day of month
+  };
+}
+
+/**
+ * Get previous month date range
+ */
+export function getPreviousMonthDateRange(year: number, month: number): DateRange {
+  const prevMonth = month === 1 ? 12 : month - 1;
+  const prevYear = month === 1 ? year - 1 : year;
+  return getMonthDateRange(prevYear, prevMonth);
+}
+
+/**
+ * Turn a validated request into concrete report and comparison ranges
+ *
+ * "previous_period" compares with the range of equal length that ends the day
+ * before, except that a whole calendar month compares with the whole month
+ * before it. "previous_year" shifts the range back one year. Future periods
+ * are judged by today's date in the client's timezone.
+ */
+export function resolveSnapshotPeriod(
+  input: SnapshotPeriodInput,
+  timezone = "UTC"
+): SnapshotPeriod {
+  let current: DateRange;
+  if (input.month) {
+    const [year, month] = input.month.split("-").map(Number);
+    if (!month || month < 1 || month > 12) {
+      throw new ValidationError("Invalid month");
+    }
+    current = getMonthDateRange(year!, month);
+  } else {
+    current = { startDate: input.startDate!, endDate: input.endDate! };
+  }
+
+  assertValidRange(current, "Report period");
+
+  // Don't allow periods that haven't started yet
+  if (current.startDate > getLocalDate(new Date(), timezone)) {
+    throw new ValidationError("Cannot generate snapshot for future periods");
+  }
+
+  let comparison: DateRange;
+  switch (input.comparison) {
+    case "previous_year":
+      comparison = getYearAgoRange(current);
+      break;
+    case "custom":
+      comparison = {
+        startDate: input.comparisonStartDate!,
+        endDate: input.comparisonEndDate!,
+      };
+      assertValidRange(comparison, "Comparison period");
+      break;
+    default:
+      comparison = getPrecedingRange(current);
+  }
+
+  return { current, comparison, comparisonMode: input.comparison };
+}
+
+/**
+ * The same range one year earlier
+ */
+export function getYearAgoRange(range: DateRange): DateRange {
+  return {
+    startDate: shiftYears(range.startDate, -1),
+    endDate: shiftYears(range.endDate, -1),
+  };
+}
+
+/**
+ * Storage key for a snapshot's files. Monthly snapshots compared with the
+ * previous month keep the original YYYY-MM-01 key.
+ */
+export function getSnapshotKey(period: SnapshotPeriod): string {
+  const { current, comparison } = period;
+  const baseKey = `${current.startDate}_${current.endDate}`;
+
+  if (isCalendarMonth(current)) {
+    const [year, month] = current.startDate.split("-").map(Number);
+    const previous = getPreviousMonthDateRange(year!, month!);
+    if (isSameRange(comparison, previous)) {
+      return current.startDate;
+    }
+  } else if (isSameRange(comparison, getPrecedingRange(current))) {
+    return baseKey;
+  }
+
+  return `${baseKey}_vs_${comparison.startDate}_${comparison.endDate}`;
+}
+
+/**
+ * Whether a range covers exactly one calendar month
+ */
+export function isCalendarMonth(range: DateRange): boolean {
+  const [year, month, day] = range.startDate.split("-").map(Number);
+  return day === 1 && range.endDate === getMonthDateRange(year!, month!).endDate;
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0]!;
+}
+
+/**
+ * Move a YYYY-MM-DD date by a number of days
+ */
+export function shiftDays(dateStr: string, days: number): string {
+  return formatDate(new Date(parseDate(dateStr).getTime() + days * DAY_MS));
+}
+
+function getPrecedingRange(range: DateRange): DateRange {
+  if (isCalendarMonth(range)) {
+    const [year, month] = range.startDate.split("-").map(Number);
+    return getPreviousMonthDateRange(year!, month!);
+  }
+
+  const start = parseDate(range.startDate);
+  const end = parseDate(range.endDate);
+  const length = end.getTime() - start.getTime() + DAY_MS;
+
+  return {
+    startDate: formatDate(new Date(start.getTime() - length)),
+    endDate: formatDate(new Date(start.getTime() - DAY_MS)),
+  };
+}
+
+// Feb 29 maps to Feb 28 in a non-leap year
+function shiftYears(dateStr: string, years: number): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const targetYear = year! + years;
+  const lastDay = new Date(Date.UTC(targetYear, month!, 0)).getUTCDate();
+  return formatDate(new Date(Date.UTC(targetYear, month! - 1, Math.min(day!, lastDay))));
+}
+
+function assertValidRange(range: DateRange, label: string): void {
+  if (isNaN(parseDate(range.startDate).getTime()) || isNaN(parseDate(range.endDate).getTime())) {
+    throw new ValidationError(`${label} contains an invalid date`);
+  }
+  if (range.endDate < range.startDate) {
+    throw new ValidationError(`${label} must end on or after its start date`);
+  }
+}
+
+function isSameRange(a: DateRange, b: DateRange): boolean {
+  return a.startDate === b.startDate && a.endDate === b.endDate;
+}
+
+function parseDate(dateStr: string): Date {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  // Reject dates like 2025-02-30 that Date silently rolls over
+  return !isNaN(date.getTime()) && formatDate(date) === dateStr ? date : new Date(NaN);
+}
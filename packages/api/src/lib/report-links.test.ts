@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { UnauthorizedError } from "./errors.js";
+import {
+  createReportLink,
+  createStorageLink,
+  verifyReportLinkToken,
+  verifyStorageLinkToken,
+} from "./report-links.js";
+
+function tokenOf(link: string): string {
+  return link.slice(link.lastIndexOf("/") + 1);
+}
+
+describe("report links", () => {
+  before(() => {
+    process.env.REPORT_LINK_SECRET = "test-link-secret";
+  });
+
+  after(() => {
+    delete process.env.REPORT_LINK_SECRET;
+  });
+
+  it("verifies each token for its own purpose", () => {
+    assert.equal(verifyReportLinkToken(tokenOf(createReportLink("snapshot-1"))), "snapshot-1");
+    assert.equal(
+      verifyStorageLinkToken(tokenOf(createStorageLink("clients/c1/report.pdf", 60))),
+      "clients/c1/report.pdf"
+    );
+  });
+
+  it("rejects a storage token used as a report link, and the reverse", () => {
+    const storageToken = tokenOf(createStorageLink("clients/c1/report.pdf", 60));
+    const reportToken = tokenOf(createReportLink("snapshot-1"));
+
+    assert.throws(() => verifyReportLinkToken(storageToken), UnauthorizedError);
+    assert.throws(() => verifyStorageLinkToken(reportToken), UnauthorizedError);
+  });
+
+  it("rejects a token whose payload was changed", () => {
+    const [, signature] = tokenOf(createReportLink("snapshot-1")).split(".");
+    const forged = Buffer.from(
+      JSON.stringify({
+        purpose: "report",
+        snapshotId: "snapshot-2",
+        expiresAt: Date.now() + 60_000,
+      })
+    ).toString("base64url");
+
+    assert.throws(() => verifyReportLinkToken(`${forged}.${signature}`), UnauthorizedError);
+  });
+
+  it("rejects an expired token", () => {
+    assert.throws(
+      () => verifyStorageLinkToken(tokenOf(createStorageLink("clients/c1/report.pdf", -1))),
+      /Storage link has expired/
+    );
+  });
+});
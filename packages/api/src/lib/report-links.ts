@@ -0,0 +1,125 @@
+import crypto from "crypto";
+import { UnauthorizedError } from "./errors.js";
+
+// Emailed download links stay valid for 30 days
+const REPORT_LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** What a link grants; tokens for one purpose never verify as another */
+type LinkPurpose = "report" | "storage";
+
+interface LinkPayload {
+  purpose: LinkPurpose;
+  expiresAt: number;
+}
+
+interface ReportLinkPayload extends LinkPayload {
+  purpose: "report";
+  snapshotId: string;
+}
+
+interface StorageLinkPayload extends LinkPayload {
+  purpose: "storage";
+  key: string;
+}
+
+const LINK_LABELS: Record<LinkPurpose, string> = {
+  report: "report link",
+  storage: "storage link",
+};
+
+function getLinkSigningSecret(): string {
+  const secret = process.env.REPORT_LINK_SECRET ?? process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("REPORT_LINK_SECRET or JWT_SECRET must be configured");
+  }
+  return secret;
+}
+
+/**
+ * Separate HMAC key per purpose, derived from the configured secret so
+ * link signatures never share a key with each other or with JWTs
+ */
+function getSigningKey(purpose: LinkPurpose): Buffer {
+  return Buffer.from(
+    crypto.hkdfSync("sha256", getLinkSigningSecret(), "", `agency-reports:${purpose}-link`, 32)
+  );
+}
+
+function sign(purpose: LinkPurpose, payload: string): string {
+  return crypto.createHmac("sha256", getSigningKey(purpose)).update(payload).digest("base64url");
+}
+
+function getApiBaseUrl(): string {
+  return (process.env.API_PUBLIC_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+function createToken(payload: LinkPayload): string {
+  const encoded = Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+  return `${encoded}.${sign(payload.purpose, encoded)}`;
+}
+
+function verifyToken<T extends LinkPayload>(token: string, purpose: T["purpose"]): T {
+  const label = LINK_LABELS[purpose];
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) {
+    throw new UnauthorizedError(`Invalid ${label}`);
+  }
+
+  const signatureBuffer = Buffer.from(signature, "base64url");
+  const expectedBuffer = Buffer.from(sign(purpose, encoded), "base64url");
+  if (
+    signatureBuffer.length !== expectedBuffer.length ||
+    !crypto.timingSafeEqual(signatureBuffer, expectedBuffer)
+  ) {
+    throw new UnauthorizedError(`Invalid ${label}`);
+  }
+
+  const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8")) as T;
+  if (payload.purpose !== purpose) {
+    throw new UnauthorizedError(`Invalid ${label}`);
+  }
+  if (payload.expiresAt < Date.now()) {
+    throw new UnauthorizedError(`${label.charAt(0).toUpperCase()}${label.slice(1)} has expired`);
+  }
+
+  return payload;
+}
+
+/**
+ * Public URL that downloads a snapshot's PDF without logging in
+ */
+export function createReportLink(snapshotId: string): string {
+  const payload: ReportLinkPayload = {
+    purpose: "report",
+    snapshotId,
+    expiresAt: Date.now() + REPORT_LINK_TTL_MS,
+  };
+  return `${getApiBaseUrl()}/shared/reports/${createToken(payload)}`;
+}
+
+/**
+ * Check a report link token and return the snapshot it grants access to
+ */
+export function verifyReportLinkToken(token: string): string {
+  return verifyToken<ReportLinkPayload>(token, "report").snapshotId;
+}
+
+/**
+ * Signed API URL for one stored object, used by backends that cannot
+ * presign URLs themselves
+ */
+export function createStorageLink(key: string, expiresInSeconds: number): string {
+  const payload: StorageLinkPayload = {
+    purpose: "storage",
+    key,
+    expiresAt: Date.now() + expiresInSeconds * 1000,
+  };
+  return `${getApiBaseUrl()}/storage/${createToken(payload)}`;
+}
+
+/**
+ * Check a storage link token and return the object key it grants access to
+ */
+export function verifyStorageLinkToken(token: string): string {
+  return verifyToken<StorageLinkPayload>(token, "storage").key;
+}
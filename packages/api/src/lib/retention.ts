@@ -0,0 +1,22 @@
+/** Months a snapshot is kept when its client has no retention of its own */
+export const DEFAULT_RETENTION_MONTHS = parseInt(process.env.SNAPSHOT_RETENTION_MONTHS || "24", 10);
+
+/** Days an expired snapshot stays in the trash before it is purged */
+export const TRASH_GRACE_DAYS = parseInt(process.env.SNAPSHOT_TRASH_GRACE_DAYS || "30", 10);
+
+/**
+ * When a snapshot created at `createdAt` expires under a client's retention.
+ * Days past the end of the target month clamp to its last day, as in Postgres.
+ */
+export function getRetentionExpiry(createdAt: Date, retentionMonths: number | null): Date {
+  const expiresAt = new Date(createdAt);
+  const day = expiresAt.getUTCDate();
+  expiresAt.setUTCDate(1);
+  expiresAt.setUTCMonth(expiresAt.getUTCMonth() + (retentionMonths ?? DEFAULT_RETENTION_MONTHS));
+
+  const daysInMonth = new Date(
+    Date.UTC(expiresAt.getUTCFullYear(), expiresAt.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  expiresAt.setUTCDate(Math.min(day, daysInMonth));
+  return expiresAt;
+}
@@ -0,0 +1,124 @@
+export interface ScheduleTiming {
+  dayOfMonth: number; // 1-31, clamped to the last day of shorter months
+  timeOfDay: string; // HH:MM in the client's timezone
+  timezone: string;
+}
+
+/**
+ * Whether Intl recognises an IANA timezone name such as "Europe/London"
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first scheduled run strictly after `after`
+ */
+export function getNextRunAt(timing: ScheduleTiming, after: Date): Date {
+  const [hour, minute] = timing.timeOfDay.split(":").map(Number);
+  const local = getZonedParts(after, timing.timezone);
+
+  // This month's run may still be ahead; otherwise next month's always is
+  for (let offset = 0; offset < 2; offset++) {
+    const year = local.year + Math.floor((local.month - 1 + offset) / 12);
+    const month = ((local.month - 1 + offset) % 12) + 1;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const day = Math.min(timing.dayOfMonth, lastDay);
+
+    const runAt = zonedTimeToUtc(year, month, day, hour!, minute!, timing.timezone);
+    if (runAt > after) {
+      return runAt;
+    }
+  }
+
+  throw new Error("Unable to compute next run");
+}
+
+/**
+ * The calendar month (YYYY-MM) a run reports on: the month before the run's
+ * local date
+ */
+export function getReportMonthForRun(runAt: Date, timezone: string): string {
+  const { year, month } = getZonedParts(runAt, timezone);
+  const reportYear = month === 1 ? year - 1 : year;
+  const reportMonth = month === 1 ? 12 : month - 1;
+  return `${reportYear}-${String(reportMonth).padStart(2, "0")}`;
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) at an instant in a timezone
+ */
+export function getLocalDate(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Milliseconds the timezone is ahead of UTC at an instant
+function getTimeZoneOffset(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Wall-clock times skipped by a DST change resolve to the instant after the gap
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timezone);
+  const result = new Date(wallClock - getTimeZoneOffset(new Date(guess), timezone));
+
+  const parts = getZonedParts(result, timezone);
+  return parts.hour === hour && parts.minute === minute ? result : new Date(guess);
+}
@@ -1,4 +1,20 @@
+import {
+  currencyCodeSchema,
+  GOAL_PERIODS,
+  GOAL_TARGET_TYPES,
+  goalMetricSchema,
+  hexColorSchema,
+  insightSettingsSchema,
+  logoDataUrlSchema,
+  MAX_INSIGHTS,
+  MAX_LOGO_BYTES,
+  reportCommentarySchema,
+  reportFontSchema,
+  reportLocaleSchema,
+  snapshotInsightSchema,
+} from "@agency-reports/shared";
 import { z } from "zod";
+import { isValidTimeZone } from "./schedules.js";
 
 // Auth schemas
 export const registerSchema = z.object({
@@ -13,18 +29,223 @@ export const loginSchema = z.object({
 });
 
 // Client schemas
+const timezoneSchema = z.string().max(100).refine(isValidTimeZone, "Invalid timezone");
+const reportTemplateSchema = z
+  .string()
+  .max(50)
+  .regex(/^[a-z0-9-]+@[^@\s]+$/, "Report template must be a template ref like standard@1.0");
+
 export const createClientSchema = z.object({
   name: z.string().min(1, "Name is required").max(255),
   primaryDomain: z.string().max(255).optional(),
-  timezone: z.string().max(100).default("UTC"),
+  timezone: timezoneSchema.default("UTC"),
   contactEmails: z.array(z.string().email()).default([]),
+  retentionMonths: z.number().int().min(1).max(120).optional(),
+  reportTemplate: reportTemplateSchema.optional(),
+  locale: reportLocaleSchema.optional(),
+  currency: currencyCodeSchema.optional(),
+  insightSettings: insightSettingsSchema.optional(),
 });
 
 export const updateClientSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   primaryDomain: z.string().max(255).nullable().optional(),
-  timezone: z.string().max(100).optional(),
+  timezone: timezoneSchema.optional(),
   contactEmails: z.array(z.string().email()).optional(),
+  // Report email templates; null restores the default
+  emailSubjectTemplate: z.string().trim().min(1).max(255).nullable().optional(),
+  emailBodyTemplate: z.string().trim().min(1).max(5000).nullable().optional(),
+  // Months to keep snapshots before they are trashed; null restores the default
+  retentionMonths: z.number().int().min(1).max(120).nullable().optional(),
+  // Template for new snapshots; null restores the default
+  reportTemplate: reportTemplateSchema.nullable().optional(),
+  locale: reportLocaleSchema.optional(),
+  // Currency for amounts without one of their own; null restores USD
+  currency: currencyCodeSchema.nullable().optional(),
+  // Highlight thresholds and phrasing; {} restores the agency defaults
+  insightSettings: insightSettingsSchema.optional(),
+});
+
+// Data source schemas
+export const connectApiKeySchema = z.object({
+  type: z.string().min(1, "type is required"),
+  apiKey: z.string().min(1, "API key is required").max(500),
+  accountId: z.string().max(255).optional(),
+});
+
+export const keyEventSelectionSchema = z.object({
+  name: z.string().min(1, "Event name is required").max(40),
+  label: z.string().max(100).optional(),
+});
+
+export const updateKeyEventsSchema = z.object({
+  keyEvents: z
+    .array(keyEventSelectionSchema)
+    .max(8, "Select at most 8 key events")
+    .refine(
+      (events) => new Set(events.map((event) => event.name)).size === events.length,
+      "Each key event can only be selected once"
+    ),
+});
+
+// Snapshot period schemas
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+const snapshotPeriodFields = {
+  month: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/, "month must be in YYYY-MM format")
+    .optional(),
+  startDate: isoDateSchema.optional(),
+  endDate: isoDateSchema.optional(),
+  comparison: z.enum(["previous_period", "previous_year", "custom"]).default("previous_period"),
+  comparisonStartDate: isoDateSchema.optional(),
+  comparisonEndDate: isoDateSchema.optional(),
+};
+
+function refineSnapshotPeriod(
+  input: {
+    month?: string;
+    startDate?: string;
+    endDate?: string;
+    comparison: string;
+    comparisonStartDate?: string;
+    comparisonEndDate?: string;
+  },
+  ctx: z.RefinementCtx
+) {
+  const hasRange = !!input.startDate || !!input.endDate;
+  if (input.month && hasRange) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Provide either month or startDate and endDate, not both",
+    });
+  } else if (!input.month && !(input.startDate && input.endDate)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "month (YYYY-MM) or startDate and endDate are required",
+    });
+  }
+
+  if (input.comparison === "custom" && !(input.comparisonStartDate && input.comparisonEndDate)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "comparisonStartDate and comparisonEndDate are required for a custom comparison",
+    });
+  }
+}
+
+export const createSnapshotSchema = z
+  .object({ ...snapshotPeriodFields, regenerate: z.boolean().optional() })
+  .superRefine(refineSnapshotPeriod);
+
+// Query strings carry the same period fields as the snapshot body
+export const reportPeriodQuerySchema = z
+  .object({ ...snapshotPeriodFields, regenerate: z.enum(["true", "false"]).optional() })
+  .superRefine(refineSnapshotPeriod);
+
+// Commentary HTML is sanitized when saved; null clears a block
+export const updateCommentarySchema = reportCommentarySchema.partial();
+
+// The full list of highlights, in order; an empty list leaves the section out
+export const updateInsightsSchema = z.object({
+  insights: z
+    .array(snapshotInsightSchema)
+    .max(MAX_INSIGHTS, `A report can have at most ${MAX_INSIGHTS} highlights`),
+});
+
+// Report schedule schemas
+const scheduleFields = {
+  dayOfMonth: z
+    .number()
+    .int()
+    .min(1, "dayOfMonth must be between 1 and 31")
+    .max(31, "dayOfMonth must be between 1 and 31"),
+  timeOfDay: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "timeOfDay must be in HH:MM format"),
+  comparison: z.enum(["previous_period", "previous_year"]),
+  enabled: z.boolean(),
+};
+
+export const createScheduleSchema = z.object({
+  ...scheduleFields,
+  timeOfDay: scheduleFields.timeOfDay.default("06:00"),
+  comparison: scheduleFields.comparison.default("previous_period"),
+  enabled: scheduleFields.enabled.default(true),
+});
+
+export const updateScheduleSchema = z.object(scheduleFields).partial();
+
+// Goal schemas
+const goalTargetFields = {
+  targetType: z.enum(GOAL_TARGET_TYPES),
+  targetValue: z.number().finite("targetValue must be a number"),
+};
+
+/**
+ * Absolute targets can't be negative, and a growth target can't shrink a
+ * metric by 100% or more
+ */
+export function isValidGoalTarget(goal: { targetType: string; targetValue: number }): boolean {
+  return goal.targetType === "growth" ? goal.targetValue > -100 : goal.targetValue >= 0;
+}
+
+export const GOAL_TARGET_MESSAGE =
+  "Absolute targets must be zero or more and growth targets above -100%";
+
+export const createGoalSchema = z
+  .object({
+    metric: goalMetricSchema,
+    period: z.enum(GOAL_PERIODS).default("monthly"),
+    ...goalTargetFields,
+  })
+  .refine(isValidGoalTarget, GOAL_TARGET_MESSAGE);
+
+export const updateGoalSchema = z.object(goalTargetFields).partial();
+
+// Job schemas
+export const listJobsQuerySchema = z
+  .object({
+    clientId: z.string().uuid("clientId must be a UUID").optional(),
+    status: z.enum(["pending", "running", "completed", "failed", "cancelled"]).optional(),
+    type: z.enum(["snapshot", "render", "email", "full_report", "anomaly_check"]).optional(),
+    from: isoDateSchema.optional(),
+    to: isoDateSchema.optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be on or before to",
+  });
+
+// Branding schemas; null clears a field so it is inherited again
+export const updateBrandingSchema = z.object({
+  primaryColor: hexColorSchema.nullable().optional(),
+  accentColor: hexColorSchema.nullable().optional(),
+  fontFamily: reportFontSchema.nullable().optional(),
+  footerText: z.string().trim().min(1).max(500).nullable().optional(),
+  coverTitle: z.string().trim().min(1).max(200).nullable().optional(),
+  coverText: z.string().trim().min(1).max(2000).nullable().optional(),
+  logo: logoDataUrlSchema
+    .refine(
+      (logo) => Buffer.from(logo.slice(logo.indexOf(",") + 1), "base64").length <= MAX_LOGO_BYTES,
+      `Logo must be at most ${MAX_LOGO_BYTES / 1024} KB`
+    )
+    .nullable()
+    .optional(),
+});
+
+// Rank tracking schemas
+export const trackedKeywordSchema = z.object({
+  keyword: z.string().trim().min(1, "Keyword is required").max(500),
+  engine: z.enum(["google", "bing"]).default("google"),
+  location: z.string().max(255).nullable().optional(),
+  targetUrl: z.string().max(500).nullable().optional(),
+});
+
+export const updateKeywordsSchema = z.object({
+  keywords: z.array(trackedKeywordSchema).max(100, "A client can track at most 100 keywords"),
 });
 
 // Type exports
@@ -32,3 +253,16 @@ export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type CreateClientInput = z.infer<typeof createClientSchema>;
 export type UpdateClientInput = z.infer<typeof updateClientSchema>;
+export type ConnectApiKeyInput = z.infer<typeof connectApiKeySchema>;
+export type CreateSnapshotInput = z.infer<typeof createSnapshotSchema>;
+export type ReportPeriodQuery = z.infer<typeof reportPeriodQuerySchema>;
+export type UpdateCommentaryInput = z.infer<typeof updateCommentarySchema>;
+export type UpdateInsightsInput = z.infer<typeof updateInsightsSchema>;
+export type CreateScheduleInput = z.infer<typeof createScheduleSchema>;
+export type UpdateScheduleInput = z.infer<typeof updateScheduleSchema>;
+export type ListJobsQuery = z.infer<typeof listJobsQuerySchema>;
+export type CreateGoalInput = z.infer<typeof createGoalSchema>;
+export type UpdateGoalInput = z.infer<typeof updateGoalSchema>;
+export type UpdateKeyEventsInput = z.infer<typeof updateKeyEventsSchema>;
+export type TrackedKeywordInput = z.infer<typeof trackedKeywordSchema>;
+export type UpdateBrandingInput = z.infer<typeof updateBrandingSchema>;
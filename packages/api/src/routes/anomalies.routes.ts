@@ -0,0 +1,28 @@
+import type { FastifyInstance } from "fastify";
+import { listClientAnomalies } from "../services/anomaly.service.js";
+import { enqueueJob } from "../services/job.service.js";
+
+export async function anomalyRoutes(fastify: FastifyInstance) {
+  // All anomaly routes require authentication
+  fastify.addHook("onRequest", fastify.authenticate);
+
+  // GET /clients/:clientId/anomalies - Unusual days found in daily metrics
+  fastify.get<{
+    Params: { clientId: string };
+  }>("/clients/:clientId/anomalies", async (request) => {
+    const anomalies = await listClientAnomalies(request.params.clientId, request.userId);
+    return { anomalies };
+  });
+
+  // POST /clients/:clientId/anomalies/check - Queue an anomaly check now
+  fastify.post<{
+    Params: { clientId: string };
+  }>("/clients/:clientId/anomalies/check", async (request, reply) => {
+    const job = await enqueueJob(request.userId, {
+      clientId: request.params.clientId,
+      type: "anomaly_check",
+    });
+    reply.status(202);
+    return { job };
+  });
+}
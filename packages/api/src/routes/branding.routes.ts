@@ -0,0 +1,54 @@
+import type { FastifyInstance } from "fastify";
+import { ValidationError } from "../lib/errors.js";
+import { updateBrandingSchema } from "../lib/validation.js";
+import {
+  getBrandingSettings,
+  resolveReportBranding,
+  updateBrandingSettings,
+} from "../services/branding.service.js";
+
+export async function brandingRoutes(fastify: FastifyInstance) {
+  // All branding routes require authentication
+  fastify.addHook("onRequest", fastify.authenticate);
+
+  // GET /branding - Agency-wide report branding, with the values reports will use
+  fastify.get("/branding", async (request) => {
+    const [branding, effective] = await Promise.all([
+      getBrandingSettings(null, request.userId),
+      resolveReportBranding(null),
+    ]);
+    return { branding, effective };
+  });
+
+  // PUT /branding - Update agency-wide report branding
+  fastify.put("/branding", async (request) => {
+    const parsed = updateBrandingSchema.safeParse(request.body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+    }
+
+    const branding = await updateBrandingSettings(null, request.userId, parsed.data);
+    return { branding, effective: await resolveReportBranding(null) };
+  });
+
+  // GET /clients/:clientId/branding - A client's overrides, with the values its reports will use
+  fastify.get<{ Params: { clientId: string } }>("/clients/:clientId/branding", async (request) => {
+    const branding = await getBrandingSettings(request.params.clientId, request.userId);
+    return { branding, effective: await resolveReportBranding(request.params.clientId) };
+  });
+
+  // PUT /clients/:clientId/branding - Update a client's branding overrides
+  fastify.put<{ Params: { clientId: string } }>("/clients/:clientId/branding", async (request) => {
+    const parsed = updateBrandingSchema.safeParse(request.body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+    }
+
+    const branding = await updateBrandingSettings(
+      request.params.clientId,
+      request.userId,
+      parsed.data
+    );
+    return { branding, effective: await resolveReportBranding(request.params.clientId) };
+  });
+}
@@ -32,19 +32,10 @@ export async function clientRoutes(fastify: FastifyInstance) {
       throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
     }
 
-    const client = await createClient(parsed.data, request.userId);
+    const { id } = await createClient(parsed.data, request.userId);
 
     reply.status(201);
-    return {
-      client: {
-        id: client.id,
-        name: client.name,
-        primaryDomain: client.primary_domain,
-        timezone: client.timezone,
-        contactEmails: client.contact_emails,
-        createdAt: client.created_at,
-      },
-    };
+    return { client: await getClient(id, request.userId) };
   });
 
   // PUT /clients/:id - Update client
@@ -54,22 +45,15 @@ export async function clientRoutes(fastify: FastifyInstance) {
       throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
     }
 
-    const client = await updateClient(request.params.id, parsed.data, request.userId);
+    await updateClient(request.params.id, parsed.data, request.userId);
 
-    return {
-      client: {
-        id: client.id,
-        name: client.name,
-        primaryDomain: client.primary_domain,
-        timezone: client.timezone,
-        contactEmails: client.contact_emails,
-        updatedAt: client.updated_at,
-      },
-    };
+    // Same shape as GET, so callers see every setting that was saved
+    return { client: await getClient(request.params.id, request.userId) };
   });
 
   // DELETE /clients/:id - Delete client
   fastify.delete<{ Params: { id: string } }>("/clients/:id", async (request, reply) => {
+    // Provider grants are revoked first; if any can't be, the client is kept (502)
     await deleteClient(request.params.id, request.userId);
     reply.status(204);
   });
@@ -0,0 +1,60 @@
+import type { FastifyInstance } from "fastify";
+import { createGoal, deleteGoal, listGoals, updateGoal } from "../services/goal.service.js";
+import { createGoalSchema, updateGoalSchema } from "../lib/validation.js";
+import { ValidationError } from "../lib/errors.js";
+
+export async function goalRoutes(fastify: FastifyInstance) {
+  // All goal routes require authentication
+  fastify.addHook("onRequest", fastify.authenticate);
+
+  // GET /clients/:clientId/goals - List a client's KPI goals
+  fastify.get<{ Params: { clientId: string } }>("/clients/:clientId/goals", async (request) => {
+    const goals = await listGoals(request.params.clientId, request.userId);
+    return { goals };
+  });
+
+  // POST /clients/:clientId/goals - Add a monthly or quarterly goal for a metric
+  fastify.post<{ Params: { clientId: string } }>(
+    "/clients/:clientId/goals",
+    async (request, reply) => {
+      const parsed = createGoalSchema.safeParse(request.body);
+      if (!parsed.success) {
+        throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+      }
+
+      const goal = await createGoal(request.params.clientId, request.userId, parsed.data);
+
+      reply.status(201);
+      return { goal };
+    }
+  );
+
+  // PUT /clients/:clientId/goals/:id - Change a goal's target
+  fastify.put<{ Params: { clientId: string; id: string } }>(
+    "/clients/:clientId/goals/:id",
+    async (request) => {
+      const parsed = updateGoalSchema.safeParse(request.body);
+      if (!parsed.success) {
+        throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+      }
+
+      const goal = await updateGoal(
+        request.params.id,
+        request.params.clientId,
+        request.userId,
+        parsed.data
+      );
+
+      return { goal };
+    }
+  );
+
+  // DELETE /clients/:clientId/goals/:id - Delete a goal
+  fastify.delete<{ Params: { clientId: string; id: string } }>(
+    "/clients/:clientId/goals/:id",
+    async (request, reply) => {
+      await deleteGoal(request.params.id, request.params.clientId, request.userId);
+      reply.status(204);
+    }
+  );
+}
@@ -0,0 +1,44 @@
+import type { FastifyInstance } from "fastify";
+import { cancelJob, getJob, listJobs, retryJob } from "../services/job.service.js";
+import { listJobsQuerySchema } from "../lib/validation.js";
+import { ValidationError } from "../lib/errors.js";
+
+export async function jobRoutes(fastify: FastifyInstance) {
+  // All job routes require authentication
+  fastify.addHook("onRequest", fastify.authenticate);
+
+  // GET /jobs - List jobs, filtered by client, status, type and created date
+  fastify.get("/jobs", async (request) => {
+    const parsed = listJobsQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+    }
+
+    return listJobs(request.userId, parsed.data);
+  });
+
+  // GET /jobs/:id - Get job status, error details and metadata
+  fastify.get<{
+    Params: { id: string };
+  }>("/jobs/:id", async (request) => {
+    const job = await getJob(request.params.id, request.userId);
+    return { job };
+  });
+
+  // POST /jobs/:id/retry - Re-queue a failed or cancelled job
+  fastify.post<{
+    Params: { id: string };
+  }>("/jobs/:id/retry", async (request, reply) => {
+    const job = await retryJob(request.params.id, request.userId);
+    reply.status(202);
+    return { job };
+  });
+
+  // POST /jobs/:id/cancel - Cancel a job that has not started
+  fastify.post<{
+    Params: { id: string };
+  }>("/jobs/:id/cancel", async (request) => {
+    const job = await cancelJob(request.params.id, request.userId);
+    return { job };
+  });
+}
@@ -1,14 +1,22 @@
 import type { FastifyInstance } from "fastify";
-import { listGA4Properties } from "../connectors/google-analytics.connector.js";
+import { clearConnectionIssue, getConnectionIssue } from "../connectors/connection-status.js";
+import {
+  getKeyEventSelection,
+  listGA4KeyEvents,
+  listGA4Properties,
+} from "../connectors/google-analytics.connector.js";
 import {
   decodeState,
   exchangeCodeForTokens,
-  generateAuthUrl,
   type OAuthState,
 } from "../connectors/google-auth.js";
+import { findConnector, getConnector, listConnectors } from "../connectors/registry.js";
 import { getDb } from "../db/database.js";
 import type { DataSourceType } from "../db/types.js";
+import { encryptCredentials } from "../lib/credentials.js";
 import { NotFoundError, ValidationError } from "../lib/errors.js";
+import { connectApiKeySchema, updateKeyEventsSchema } from "../lib/validation.js";
+import { disconnectDataSource } from "../services/data-source.service.js";
 
 export async function oauthRoutes(fastify: FastifyInstance) {
   // GET /oauth/google/url - Generate OAuth consent URL
@@ -21,8 +29,10 @@ export async function oauthRoutes(fastify: FastifyInstance) {
       throw new ValidationError("clientId and type are required");
     }
 
-    if (type !== "google_analytics" && type !== "google_ads") {
-      throw new ValidationError("Invalid type. Must be google_analytics or google_ads");
+    const connector = findConnector(type);
+    if (!connector || connector.authType !== "oauth") {
+      const oauthTypes = listConnectors("oauth").map((c) => c.type);
+      throw new ValidationError(`Invalid type. Must be one of: ${oauthTypes.join(", ")}`);
     }
 
     // Verify client exists and belongs to user
@@ -44,9 +54,12 @@ export async function oauthRoutes(fastify: FastifyInstance) {
       userId: request.userId,
     };
 
-    const url = generateAuthUrl(state);
+    const result = await connector.connect({ kind: "oauth", state });
+    if (result.kind !== "redirect") {
+      throw new ValidationError(`${type} does not use an OAuth redirect`);
+    }
 
-    return { url };
+    return { url: result.url };
   });
 
   // GET /oauth/google/callback - Handle OAuth callback
@@ -74,7 +87,7 @@ export async function oauthRoutes(fastify: FastifyInstance) {
     }
 
     try {
-      if (parsedState.type !== "google_analytics" && parsedState.type !== "google_ads") {
+      if (findConnector(parsedState.type)?.authType !== "oauth") {
         return reply.redirect(`${frontendUrl}/oauth/error?error=invalid_type`);
       }
 
@@ -107,10 +120,11 @@ export async function oauthRoutes(fastify: FastifyInstance) {
         await db
           .updateTable("data_sources")
           .set({
-            credentials_encrypted: JSON.stringify(credentials),
+            credentials_encrypted: await encryptCredentials(credentials),
             connected_at: new Date(),
             expires_at: credentials.expiresAt,
             status: "active",
+            config: clearConnectionIssue(),
             updated_at: new Date(),
           })
           .where("id", "=", existing.id)
@@ -122,7 +136,7 @@ export async function oauthRoutes(fastify: FastifyInstance) {
           .values({
             client_id: parsedState.clientId,
             type: parsedState.type,
-            credentials_encrypted: JSON.stringify(credentials),
+            credentials_encrypted: await encryptCredentials(credentials),
             connected_at: new Date(),
             expires_at: credentials.expiresAt,
             status: "active",
@@ -183,6 +197,7 @@ export async function oauthRoutes(fastify: FastifyInstance) {
         externalAccountName: ds.external_account_name,
         connectedAt: ds.connected_at,
         status: ds.status,
+        connectionIssue: getConnectionIssue(ds.config),
         config: ds.config,
       })),
     };
@@ -223,6 +238,240 @@ export async function oauthRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // GET /clients/:clientId/data-sources/:id/key-events - List GA4 key events and selection
+  fastify.get<{
+    Params: { clientId: string; id: string };
+  }>(
+    "/clients/:clientId/data-sources/:id/key-events",
+    { preHandler: fastify.authenticate },
+    async (request) => {
+      const { clientId, id } = request.params;
+
+      const db = getDb();
+
+      // Verify client ownership and data source
+      const dataSource = await db
+        .selectFrom("data_sources")
+        .innerJoin("clients", "clients.id", "data_sources.client_id")
+        .select([
+          "data_sources.id",
+          "data_sources.type",
+          "data_sources.external_account_id",
+          "data_sources.config",
+        ])
+        .where("data_sources.id", "=", id)
+        .where("data_sources.client_id", "=", clientId)
+        .where("clients.created_by", "=", request.userId)
+        .executeTakeFirst();
+
+      if (!dataSource) {
+        throw new NotFoundError("Data source not found");
+      }
+
+      if (dataSource.type !== "google_analytics") {
+        throw new ValidationError("Key events are only available for Google Analytics");
+      }
+
+      if (!dataSource.external_account_id) {
+        throw new ValidationError("Select a GA4 property before choosing key events");
+      }
+
+      const keyEvents = await listGA4KeyEvents(id, dataSource.external_account_id);
+
+      return {
+        keyEvents,
+        selected: getKeyEventSelection(dataSource.config ?? {}),
+      };
+    }
+  );
+
+  // PUT /clients/:clientId/data-sources/:id/key-events - Choose the key events shown in reports
+  fastify.put<{
+    Params: { clientId: string; id: string };
+  }>(
+    "/clients/:clientId/data-sources/:id/key-events",
+    { preHandler: fastify.authenticate },
+    async (request) => {
+      const { clientId, id } = request.params;
+
+      const parsed = updateKeyEventsSchema.safeParse(request.body);
+      if (!parsed.success) {
+        throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+      }
+
+      const db = getDb();
+
+      // Verify client ownership and data source
+      const dataSource = await db
+        .selectFrom("data_sources")
+        .innerJoin("clients", "clients.id", "data_sources.client_id")
+        .select(["data_sources.id", "data_sources.type", "data_sources.config"])
+        .where("data_sources.id", "=", id)
+        .where("data_sources.client_id", "=", clientId)
+        .where("clients.created_by", "=", request.userId)
+        .executeTakeFirst();
+
+      if (!dataSource) {
+        throw new NotFoundError("Data source not found");
+      }
+
+      if (dataSource.type !== "google_analytics") {
+        throw new ValidationError("Key events are only available for Google Analytics");
+      }
+
+      // Blank labels fall back to the event name
+      const keyEvents = parsed.data.keyEvents.map((event) => {
+        const label = event.label?.trim();
+        return label ? { name: event.name, label } : { name: event.name };
+      });
+
+      await db
+        .updateTable("data_sources")
+        .set({
+          config: { ...(dataSource.config ?? {}), keyEvents },
+          updated_at: new Date(),
+        })
+        .where("id", "=", id)
+        .execute();
+
+      return { keyEvents };
+    }
+  );
+
+  // POST /clients/:clientId/data-sources/api-key - Connect an API-key data source
+  fastify.post<{
+    Params: { clientId: string };
+  }>(
+    "/clients/:clientId/data-sources/api-key",
+    { preHandler: fastify.authenticate },
+    async (request, reply) => {
+      const { clientId } = request.params;
+
+      const parsed = connectApiKeySchema.safeParse(request.body);
+      if (!parsed.success) {
+        throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+      }
+
+      const connector = findConnector(parsed.data.type);
+      if (!connector || connector.authType !== "api_key") {
+        const apiKeyTypes = listConnectors("api_key").map((c) => c.type);
+        throw new ValidationError(`Invalid type. Must be one of: ${apiKeyTypes.join(", ")}`);
+      }
+
+      const db = getDb();
+
+      // Verify client ownership
+      const client = await db
+        .selectFrom("clients")
+        .select(["id", "primary_domain"])
+        .where("id", "=", clientId)
+        .where("created_by", "=", request.userId)
+        .executeTakeFirst();
+
+      if (!client) {
+        throw new NotFoundError("Client not found");
+      }
+
+      const result = await connector.connect({
+        kind: "api_key",
+        apiKey: parsed.data.apiKey,
+        accountId: parsed.data.accountId,
+        client: { id: client.id, primaryDomain: client.primary_domain },
+      });
+
+      if (result.kind !== "credentials") {
+        throw new ValidationError(`${connector.type} must be connected through OAuth`);
+      }
+
+      const existing = await db
+        .selectFrom("data_sources")
+        .select("id")
+        .where("client_id", "=", clientId)
+        .where("type", "=", connector.type)
+        .executeTakeFirst();
+
+      if (existing) {
+        await db
+          .updateTable("data_sources")
+          .set({
+            external_account_id: result.externalAccountId,
+            external_account_name: result.externalAccountName,
+            credentials_encrypted: await encryptCredentials(result.credentials),
+            connected_at: new Date(),
+            status: "active",
+            config: result.config,
+            updated_at: new Date(),
+          })
+          .where("id", "=", existing.id)
+          .execute();
+      } else {
+        await db
+          .insertInto("data_sources")
+          .values({
+            client_id: clientId,
+            type: connector.type,
+            external_account_id: result.externalAccountId,
+            external_account_name: result.externalAccountName,
+            credentials_encrypted: await encryptCredentials(result.credentials),
+            connected_at: new Date(),
+            status: "active",
+            config: result.config,
+          })
+          .execute();
+      }
+
+      reply.status(existing ? 200 : 201);
+      return {
+        success: true,
+        externalAccountId: result.externalAccountId,
+        externalAccountName: result.externalAccountName,
+      };
+    }
+  );
+
+  // GET /clients/:clientId/data-sources/:id/accounts - List accounts for any connector
+  fastify.get<{
+    Params: { clientId: string; id: string };
+  }>(
+    "/clients/:clientId/data-sources/:id/accounts",
+    { preHandler: fastify.authenticate },
+    async (request) => {
+      const { clientId, id } = request.params;
+
+      const db = getDb();
+
+      // Verify client ownership and data source
+      const dataSource = await db
+        .selectFrom("data_sources")
+        .innerJoin("clients", "clients.id", "data_sources.client_id")
+        .select([
+          "data_sources.id",
+          "data_sources.type",
+          "data_sources.external_account_id",
+          "data_sources.external_account_name",
+          "data_sources.config",
+        ])
+        .where("data_sources.id", "=", id)
+        .where("data_sources.client_id", "=", clientId)
+        .where("clients.created_by", "=", request.userId)
+        .executeTakeFirst();
+
+      if (!dataSource) {
+        throw new NotFoundError("Data source not found");
+      }
+
+      const accounts = await getConnector(dataSource.type).listAccounts({
+        id: dataSource.id,
+        clientId,
+        externalAccountId: dataSource.external_account_id,
+        externalAccountName: dataSource.external_account_name,
+        config: dataSource.config ?? {},
+      });
+
+      return { accounts };
+    }
+  );
+
   // PUT /clients/:clientId/data-sources/:id - Update data source config (select property)
   fastify.put<{
     Params: { clientId: string; id: string };
@@ -254,6 +503,8 @@ export async function oauthRoutes(fastify: FastifyInstance) {
       }
 
       const config = (dataSource.config as Record<string, unknown>) ?? {};
+      // Key events belong to a property, so a new property starts with no selection
+      if (propertyId && propertyId !== config.propertyId) delete config.keyEvents;
       if (propertyId) config.propertyId = propertyId;
       if (propertyName) config.propertyName = propertyName;
 
@@ -278,26 +529,12 @@ export async function oauthRoutes(fastify: FastifyInstance) {
   }>(
     "/clients/:clientId/data-sources/:id",
     { preHandler: fastify.authenticate },
-    async (request, reply) => {
+    async (request) => {
       const { clientId, id } = request.params;
 
-      const db = getDb();
-
-      // Verify client ownership
-      const result = await db
-        .deleteFrom("data_sources")
-        .using("clients")
-        .whereRef("data_sources.client_id", "=", "clients.id")
-        .where("data_sources.id", "=", id)
-        .where("data_sources.client_id", "=", clientId)
-        .where("clients.created_by", "=", request.userId)
-        .executeTakeFirst();
-
-      if (result.numDeletedRows === 0n) {
-        throw new NotFoundError("Data source not found");
-      }
-
-      reply.status(204);
+      // A failed revocation is a 502 and leaves the source connected
+      const revocation = await disconnectDataSource(id, clientId, request.userId);
+      return { dataSource: { id, status: "disconnected" }, revocation };
     }
   );
 }
@@ -0,0 +1,34 @@
+import type { FastifyInstance } from "fastify";
+import { ValidationError } from "../lib/errors.js";
+import { updateKeywordsSchema } from "../lib/validation.js";
+import { listKeywords, replaceKeywords } from "../services/keyword.service.js";
+
+export async function rankTrackerRoutes(fastify: FastifyInstance) {
+  // All rank tracking routes require authentication
+  fastify.addHook("onRequest", fastify.authenticate);
+
+  // GET /clients/:clientId/keywords - List tracked keywords
+  fastify.get<{
+    Params: { clientId: string };
+  }>("/clients/:clientId/keywords", async (request) => {
+    const keywords = await listKeywords(request.params.clientId, request.userId);
+    return { keywords };
+  });
+
+  // PUT /clients/:clientId/keywords - Replace tracked keyword list
+  fastify.put<{
+    Params: { clientId: string };
+  }>("/clients/:clientId/keywords", async (request) => {
+    const parsed = updateKeywordsSchema.safeParse(request.body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+    }
+
+    const keywords = await replaceKeywords(
+      request.params.clientId,
+      request.userId,
+      parsed.data.keywords
+    );
+    return { keywords };
+  });
+}
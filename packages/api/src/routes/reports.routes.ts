@@ -1,18 +1,20 @@
 import type { FastifyInstance } from "fastify";
 import { getDb } from "../db/database.js";
 import { NotFoundError, ValidationError } from "../lib/errors.js";
-import { renderReportPdf, renderReportPreview } from "../services/render.service.js";
+import { getSnapshotKey, resolveSnapshotPeriod } from "../lib/periods.js";
+import { reportPeriodQuerySchema } from "../lib/validation.js";
+import { enqueueJob, type ReportJobPayload } from "../services/job.service.js";
+import { resolveReportBranding } from "../services/branding.service.js";
+import { getClientTimezone } from "../services/client.service.js";
+import { renderReportPreview } from "../services/render.service.js";
 import {
+  findSnapshotByPeriod,
   generateSnapshot,
   getSnapshotData,
-  type SnapshotData,
+  getSnapshotPeriod,
 } from "../services/snapshot.service.js";
-import {
-  fileExists,
-  loadPdfFile,
-  loadPdfFileFromPath,
-  savePdfFile,
-} from "../services/storage.service.js";
+import { getSnapshotCommentary } from "../services/snapshot-revision.service.js";
+import { objectExists, loadPdfFile, loadPdfFileFromKey } from "../services/storage.service.js";
 
 export async function reportRoutes(fastify: FastifyInstance) {
   // All report routes require authentication
@@ -20,56 +22,51 @@ export async function reportRoutes(fastify: FastifyInstance) {
 
   /**
    * GET /clients/:clientId/preview?month=YYYY-MM
+   * GET /clients/:clientId/preview?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&comparison=...
    * Get HTML preview of the report
    */
   fastify.get<{
     Params: { clientId: string };
-    Querystring: { month: string };
   }>("/clients/:clientId/preview", async (request, reply) => {
     const { clientId } = request.params;
-    const { month } = request.query;
 
-    if (!month || !/^\d{4}-\d{2}$/.test(month)) {
-      throw new ValidationError("month query parameter must be in YYYY-MM format");
+    const parsed = reportPeriodQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
     }
 
-    const [yearStr, monthStr] = month.split("-");
-    const year = parseInt(yearStr!, 10);
-    const monthNum = parseInt(monthStr!, 10);
+    const period = resolveSnapshotPeriod(
+      parsed.data,
+      await getClientTimezone(clientId, request.userId)
+    );
 
     // Try to get existing snapshot, or generate one
-    let snapshotData: SnapshotData;
+    let snapshotId: string;
 
-    const db = getDb();
-    const snapshotDate = `${year}-${String(monthNum).padStart(2, "0")}-01`;
-
-    const existing = await db
-      .selectFrom("snapshots")
-      .select(["snapshots.id", "snapshots.storage_path"])
-      .innerJoin("clients", "clients.id", "snapshots.client_id")
-      .where("snapshots.client_id", "=", clientId)
-      .where("snapshots.snapshot_date", "=", new Date(snapshotDate))
-      .where("clients.created_by", "=", request.userId)
-      .executeTakeFirst();
+    const existing = await findSnapshotByPeriod(clientId, request.userId, period);
 
     if (existing) {
       const hasStoredSnapshot = existing.storage_path
-        ? await fileExists(existing.storage_path)
+        ? await objectExists(existing.storage_path)
         : false;
       if (!hasStoredSnapshot) {
-        const snapshot = await generateSnapshot(clientId, request.userId, year, monthNum, true);
-        snapshotData = await getSnapshotData(snapshot.id, request.userId);
+        const snapshot = await generateSnapshot(clientId, request.userId, period, true);
+        snapshotId = snapshot.id;
       } else {
-        snapshotData = await getSnapshotData(existing.id, request.userId);
+        snapshotId = existing.id;
       }
     } else {
       // Generate snapshot on-the-fly for preview
-      const snapshot = await generateSnapshot(clientId, request.userId, year, monthNum);
-      snapshotData = await getSnapshotData(snapshot.id, request.userId);
+      const snapshot = await generateSnapshot(clientId, request.userId, period);
+      snapshotId = snapshot.id;
     }
 
+    const snapshotData = await getSnapshotData(snapshotId, request.userId);
+
     // Render HTML preview
-    const html = await renderReportPreview(snapshotData);
+    const branding = await resolveReportBranding(clientId);
+    const commentary = await getSnapshotCommentary(snapshotId, request.userId);
+    const html = await renderReportPreview(snapshotData, branding, commentary);
 
     reply.header("Content-Type", "text/html");
     return reply.send(html);
@@ -77,89 +74,46 @@ export async function reportRoutes(fastify: FastifyInstance) {
 
   /**
    * POST /clients/:clientId/reports?month=YYYY-MM
-   * Generate and save PDF report
+   * POST /clients/:clientId/reports?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&comparison=...
+   * Queue snapshot and PDF generation; poll GET /jobs/:id for the outcome
    */
   fastify.post<{
     Params: { clientId: string };
-    Querystring: { month: string; regenerate?: string };
   }>("/clients/:clientId/reports", async (request, reply) => {
     const { clientId } = request.params;
-    const { month, regenerate } = request.query;
 
-    if (!month || !/^\d{4}-\d{2}$/.test(month)) {
-      throw new ValidationError("month query parameter must be in YYYY-MM format");
+    const parsed = reportPeriodQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
     }
 
-    const [yearStr, monthStr] = month.split("-");
-    const year = parseInt(yearStr!, 10);
-    const monthNum = parseInt(monthStr!, 10);
-
+    const { regenerate, ...periodInput } = parsed.data;
+    const period = resolveSnapshotPeriod(
+      periodInput,
+      await getClientTimezone(clientId, request.userId)
+    );
     const shouldRegenerate = regenerate === "true";
-    const snapshotDate = `${year}-${String(monthNum).padStart(2, "0")}-01`;
 
-    const db = getDb();
-
-    // Check for existing snapshot
-    let snapshotId: string;
-    const existing = await db
-      .selectFrom("snapshots")
-      .select([
-        "snapshots.id as id",
-        "snapshots.storage_path",
-        "snapshots.pdf_storage_path",
-      ])
-      .innerJoin("clients", "clients.id", "snapshots.client_id")
-      .where("snapshots.client_id", "=", clientId)
-      .where("snapshots.snapshot_date", "=", new Date(snapshotDate))
-      .where("clients.created_by", "=", request.userId)
-      .executeTakeFirst();
-
-    if (existing) {
-      // If PDF already exists and not regenerating, return early
-      if (existing.pdf_storage_path && !shouldRegenerate) {
-        return {
-          message: "Report already exists",
-          snapshotId: existing.id,
-          pdfPath: existing.pdf_storage_path,
-        };
-      }
-      const hasStoredSnapshot = existing.storage_path
-        ? await fileExists(existing.storage_path)
-        : false;
-      if (!hasStoredSnapshot) {
-        const snapshot = await generateSnapshot(clientId, request.userId, year, monthNum, true);
-        snapshotId = snapshot.id;
-      } else {
-        snapshotId = existing.id;
-      }
-    } else {
-      // Generate new snapshot
-      const snapshot = await generateSnapshot(clientId, request.userId, year, monthNum);
-      snapshotId = snapshot.id;
+    // If PDF already exists and not regenerating, return early
+    const existing = await findSnapshotByPeriod(clientId, request.userId, period);
+    if (existing?.pdf_storage_path && !shouldRegenerate) {
+      return {
+        message: "Report already exists",
+        snapshotId: existing.id,
+        pdfPath: existing.pdf_storage_path,
+      };
     }
 
-    // Get snapshot data
-    const snapshotData = await getSnapshotData(snapshotId, request.userId);
+    const payload: ReportJobPayload = { period: periodInput, regenerate: shouldRegenerate };
+    const job = await enqueueJob(request.userId, {
+      clientId,
+      type: "full_report",
+      snapshotId: existing?.id ?? null,
+      metadata: { ...payload },
+    });
 
-    // Render PDF
-    const pdfBuffer = await renderReportPdf(snapshotData);
-
-    // Save PDF file
-    const pdfPath = await savePdfFile(clientId, snapshotDate, pdfBuffer);
-
-    // Update snapshot record with PDF path
-    await db
-      .updateTable("snapshots")
-      .set({ pdf_storage_path: pdfPath })
-      .where("id", "=", snapshotId)
-      .execute();
-
-    reply.status(201);
-    return {
-      message: "Report generated successfully",
-      snapshotId,
-      pdfPath,
-    };
+    reply.status(202);
+    return { job };
   });
 
   /**
@@ -176,14 +130,10 @@ export async function reportRoutes(fastify: FastifyInstance) {
     const snapshot = await db
       .selectFrom("snapshots")
       .innerJoin("clients", "clients.id", "snapshots.client_id")
-      .select([
-        "snapshots.id",
-        "snapshots.client_id",
-        "snapshots.snapshot_date",
-        "snapshots.pdf_storage_path",
-        "clients.name as client_name",
-      ])
+      .selectAll("snapshots")
+      .select("clients.name as client_name")
       .where("snapshots.id", "=", snapshotId)
+      .where("snapshots.trashed_at", "is", null)
       .where("clients.created_by", "=", request.userId)
       .executeTakeFirst();
 
@@ -195,18 +145,16 @@ export async function reportRoutes(fastify: FastifyInstance) {
       throw new NotFoundError("PDF not generated for this snapshot. Generate it first using POST /clients/:id/reports");
     }
 
+    const snapshotKey = getSnapshotKey(getSnapshotPeriod(snapshot));
+
     // Load PDF
     const pdfBuffer = snapshot.pdf_storage_path
-      ? await loadPdfFileFromPath(snapshot.pdf_storage_path)
-      : await loadPdfFile(
-          snapshot.client_id,
-          snapshot.snapshot_date.toISOString().split("T")[0]!
-        );
+      ? await loadPdfFileFromKey(snapshot.pdf_storage_path)
+      : await loadPdfFile(snapshot.client_id, snapshotKey);
 
     // Generate filename
-    const snapshotDate = snapshot.snapshot_date.toISOString().split("T")[0]!;
     const clientNameSlug = snapshot.client_name.toLowerCase().replace(/\s+/g, "-");
-    const filename = `${clientNameSlug}-report-${snapshotDate}.pdf`;
+    const filename = `${clientNameSlug}-report-${snapshotKey}.pdf`;
 
     reply.header("Content-Type", "application/pdf");
     reply.header("Content-Disposition", `attachment; filename="${filename}"`);
@@ -0,0 +1,65 @@
+import type { FastifyInstance } from "fastify";
+import {
+  listSchedules,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+} from "../services/schedule.service.js";
+import { createScheduleSchema, updateScheduleSchema } from "../lib/validation.js";
+import { ValidationError } from "../lib/errors.js";
+
+export async function scheduleRoutes(fastify: FastifyInstance) {
+  // All schedule routes require authentication
+  fastify.addHook("onRequest", fastify.authenticate);
+
+  // GET /clients/:clientId/schedules - List a client's report schedules
+  fastify.get<{ Params: { clientId: string } }>("/clients/:clientId/schedules", async (request) => {
+    const schedules = await listSchedules(request.params.clientId, request.userId);
+    return { schedules };
+  });
+
+  // POST /clients/:clientId/schedules - Create a monthly report schedule
+  fastify.post<{ Params: { clientId: string } }>(
+    "/clients/:clientId/schedules",
+    async (request, reply) => {
+      const parsed = createScheduleSchema.safeParse(request.body);
+      if (!parsed.success) {
+        throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+      }
+
+      const schedule = await createSchedule(request.params.clientId, request.userId, parsed.data);
+
+      reply.status(201);
+      return { schedule };
+    }
+  );
+
+  // PUT /clients/:clientId/schedules/:id - Update a schedule
+  fastify.put<{ Params: { clientId: string; id: string } }>(
+    "/clients/:clientId/schedules/:id",
+    async (request) => {
+      const parsed = updateScheduleSchema.safeParse(request.body);
+      if (!parsed.success) {
+        throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+      }
+
+      const schedule = await updateSchedule(
+        request.params.id,
+        request.params.clientId,
+        request.userId,
+        parsed.data
+      );
+
+      return { schedule };
+    }
+  );
+
+  // DELETE /clients/:clientId/schedules/:id - Delete a schedule
+  fastify.delete<{ Params: { clientId: string; id: string } }>(
+    "/clients/:clientId/schedules/:id",
+    async (request, reply) => {
+      await deleteSchedule(request.params.id, request.params.clientId, request.userId);
+      reply.status(204);
+    }
+  );
+}
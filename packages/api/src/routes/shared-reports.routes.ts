@@ -0,0 +1,39 @@
+import type { FastifyInstance } from "fastify";
+import { getDb } from "../db/database.js";
+import { NotFoundError } from "../lib/errors.js";
+import { verifyReportLinkToken } from "../lib/report-links.js";
+import { loadPdfFileFromKey } from "../services/storage.service.js";
+
+/**
+ * Unauthenticated downloads for report links sent by email. Access is granted
+ * by the signed token in the URL, not a user session.
+ */
+export async function sharedReportRoutes(fastify: FastifyInstance) {
+  // GET /shared/reports/:token - Download the PDF a report link points to
+  fastify.get<{
+    Params: { token: string };
+  }>("/shared/reports/:token", async (request, reply) => {
+    const snapshotId = verifyReportLinkToken(request.params.token);
+    const db = getDb();
+
+    const snapshot = await db
+      .selectFrom("snapshots")
+      .innerJoin("clients", "clients.id", "snapshots.client_id")
+      .select(["snapshots.pdf_storage_path", "clients.name as client_name"])
+      .where("snapshots.id", "=", snapshotId)
+      .where("snapshots.trashed_at", "is", null)
+      .executeTakeFirst();
+
+    if (!snapshot?.pdf_storage_path) {
+      throw new NotFoundError("Report not found");
+    }
+
+    const pdfBuffer = await loadPdfFileFromKey(snapshot.pdf_storage_path);
+    const clientNameSlug = snapshot.client_name.toLowerCase().replace(/\s+/g, "-");
+    const filename = `${clientNameSlug}-report.pdf`;
+
+    reply.header("Content-Type", "application/pdf");
+    reply.header("Content-Disposition", `inline; filename="${filename}"`);
+    return reply.send(pdfBuffer);
+  });
+}
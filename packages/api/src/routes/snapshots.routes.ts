@@ -1,55 +1,68 @@
 import type { FastifyInstance } from "fastify";
 import {
-  generateSnapshot,
+  findSnapshotByPeriod,
   listSnapshots,
   getSnapshot,
   getSnapshotData,
+  getSnapshotInsights,
   deleteSnapshot,
+  updateSnapshotInsights,
 } from "../services/snapshot.service.js";
 import { ValidationError } from "../lib/errors.js";
+import { resolveSnapshotPeriod } from "../lib/periods.js";
+import {
+  createSnapshotSchema,
+  updateCommentarySchema,
+  updateInsightsSchema,
+} from "../lib/validation.js";
+import { getClientTimezone } from "../services/client.service.js";
+import { enqueueJob, type ReportJobPayload } from "../services/job.service.js";
+import { listEmailDeliveries } from "../services/email.service.js";
+import {
+  getRevisionPdf,
+  getSnapshotCommentary,
+  listRevisions,
+  restoreRevision,
+  updateSnapshotCommentary,
+} from "../services/snapshot-revision.service.js";
 
 export async function snapshotRoutes(fastify: FastifyInstance) {
   // All snapshot routes require authentication
   fastify.addHook("onRequest", fastify.authenticate);
 
-  // POST /clients/:clientId/snapshots - Generate a snapshot
+  // POST /clients/:clientId/snapshots - Queue snapshot generation for a month or a date range
   fastify.post<{
     Params: { clientId: string };
-    Body: { month: string; regenerate?: boolean };
   }>("/clients/:clientId/snapshots", async (request, reply) => {
     const { clientId } = request.params;
-    const { month, regenerate } = request.body as { month: string; regenerate?: boolean };
 
-    // Validate month format (YYYY-MM)
-    if (!month || !/^\d{4}-\d{2}$/.test(month)) {
-      throw new ValidationError("month must be in YYYY-MM format");
+    const parsed = createSnapshotSchema.safeParse(request.body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
     }
 
-    const [yearStr, monthStr] = month.split("-");
-    const year = parseInt(yearStr!, 10);
-    const monthNum = parseInt(monthStr!, 10);
-
-    if (monthNum < 1 || monthNum > 12) {
-      throw new ValidationError("Invalid month");
-    }
+    const { regenerate = false, ...periodInput } = parsed.data;
+    const period = resolveSnapshotPeriod(
+      periodInput,
+      await getClientTimezone(clientId, request.userId)
+    );
 
-    // Don't allow future months
-    const now = new Date();
-    const requestedDate = new Date(year, monthNum - 1);
-    if (requestedDate > now) {
-      throw new ValidationError("Cannot generate snapshot for future months");
+    // Fail fast instead of queueing a job that can only fail
+    if (!regenerate && (await findSnapshotByPeriod(clientId, request.userId, period))) {
+      throw new ValidationError(
+        "Snapshot already exists for this period. Use regenerate=true to create a new revision."
+      );
     }
 
-    const snapshot = await generateSnapshot(
+    const payload: ReportJobPayload = { period: periodInput, regenerate };
+    const job = await enqueueJob(request.userId, {
       clientId,
-      request.userId,
-      year,
-      monthNum,
-      regenerate ?? false
-    );
+      type: "snapshot",
+      metadata: { ...payload },
+    });
 
-    reply.status(201);
-    return { snapshot };
+    reply.status(202);
+    return { job };
   });
 
   // GET /clients/:clientId/snapshots - List snapshots for a client
@@ -82,6 +95,118 @@ export async function snapshotRoutes(fastify: FastifyInstance) {
     return { data };
   });
 
+  // POST /snapshots/:id/email - Queue emailing the PDF to the client's contacts
+  fastify.post<{
+    Params: { id: string };
+  }>("/snapshots/:id/email", async (request, reply) => {
+    const snapshot = await getSnapshot(request.params.id, request.userId);
+    if (!snapshot.hasPdf) {
+      throw new ValidationError("Generate the report PDF before emailing it");
+    }
+
+    const job = await enqueueJob(request.userId, {
+      clientId: snapshot.clientId,
+      type: "email",
+      snapshotId: snapshot.id,
+    });
+
+    reply.status(202);
+    return { job };
+  });
+
+  // GET /snapshots/:id/deliveries - List email delivery attempts
+  fastify.get<{
+    Params: { id: string };
+  }>("/snapshots/:id/deliveries", async (request) => {
+    const deliveries = await listEmailDeliveries(request.params.id, request.userId);
+    return { deliveries };
+  });
+
+  // GET /snapshots/:id/revisions - List every generated revision, newest first
+  fastify.get<{
+    Params: { id: string };
+  }>("/snapshots/:id/revisions", async (request) => {
+    const revisions = await listRevisions(request.params.id, request.userId);
+    return { revisions };
+  });
+
+  // POST /snapshots/:id/revisions/:revisionId/restore - Make an earlier revision current
+  fastify.post<{
+    Params: { id: string; revisionId: string };
+  }>("/snapshots/:id/revisions/:revisionId/restore", async (request) => {
+    const { id, revisionId } = request.params;
+    await restoreRevision(id, revisionId, request.userId);
+    const snapshot = await getSnapshot(id, request.userId);
+    return { snapshot };
+  });
+
+  // GET /snapshots/:id/revisions/:revisionId/pdf - Download a revision's PDF as rendered
+  fastify.get<{
+    Params: { id: string; revisionId: string };
+  }>("/snapshots/:id/revisions/:revisionId/pdf", async (request, reply) => {
+    const { id, revisionId } = request.params;
+    const { revision, pdf } = await getRevisionPdf(id, revisionId, request.userId);
+
+    reply.header("Content-Type", "application/pdf");
+    reply.header(
+      "Content-Disposition",
+      `attachment; filename="report-revision-${revision.revision_number}.pdf"`
+    );
+    return reply.send(pdf);
+  });
+
+  // GET /snapshots/:id/commentary - Commentary on the current revision
+  fastify.get<{
+    Params: { id: string };
+  }>("/snapshots/:id/commentary", async (request) => {
+    const commentary = await getSnapshotCommentary(request.params.id, request.userId);
+    return { commentary };
+  });
+
+  // PUT /snapshots/:id/commentary - Edit commentary; a rendered revision is kept and a new one made
+  fastify.put<{
+    Params: { id: string };
+  }>("/snapshots/:id/commentary", async (request) => {
+    const parsed = updateCommentarySchema.safeParse(request.body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+    }
+
+    const { commentary } = await updateSnapshotCommentary(
+      request.params.id,
+      request.userId,
+      parsed.data
+    );
+    const snapshot = await getSnapshot(request.params.id, request.userId);
+    return { commentary, snapshot };
+  });
+
+  // GET /snapshots/:id/insights - Highlights in the report, and those the data suggests.
+  // `edited` is true once they were saved by hand; regenerating then keeps them
+  // instead of rebuilding them, until the suggested ones are saved again.
+  fastify.get<{
+    Params: { id: string };
+  }>("/snapshots/:id/insights", async (request) => {
+    return getSnapshotInsights(request.params.id, request.userId);
+  });
+
+  // PUT /snapshots/:id/insights - Replace the highlights; saved as a new revision
+  fastify.put<{
+    Params: { id: string };
+  }>("/snapshots/:id/insights", async (request) => {
+    const parsed = updateInsightsSchema.safeParse(request.body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.errors[0]?.message ?? "Validation failed");
+    }
+
+    const { snapshot, edited } = await updateSnapshotInsights(
+      request.params.id,
+      request.userId,
+      parsed.data
+    );
+    return { insights: parsed.data.insights, edited, snapshot };
+  });
+
   // DELETE /snapshots/:id - Delete snapshot
   fastify.delete<{
     Params: { id: string };
@@ -0,0 +1,29 @@
+import type { FastifyInstance } from "fastify";
+import { verifyStorageLinkToken } from "../lib/report-links.js";
+import { getStorageBackend } from "../storage/registry.js";
+
+const CONTENT_TYPES: Record<string, string> = {
+  json: "application/json",
+  pdf: "application/pdf",
+};
+
+/**
+ * Serves signed URLs for backends that cannot presign their own (local
+ * filesystem). Access is granted by the signed token, not a user session.
+ */
+export async function storageRoutes(fastify: FastifyInstance) {
+  // GET /storage/:token - Download the object a signed URL points to
+  fastify.get<{
+    Params: { token: string };
+  }>("/storage/:token", async (request, reply) => {
+    const key = verifyStorageLinkToken(request.params.token);
+    const body = await getStorageBackend().get(key);
+
+    const fileName = key.slice(key.lastIndexOf("/") + 1);
+    const extension = fileName.slice(fileName.lastIndexOf(".") + 1).toLowerCase();
+
+    reply.header("Content-Type", CONTENT_TYPES[extension] ?? "application/octet-stream");
+    reply.header("Content-Disposition", `inline; filename="${fileName}"`);
+    return reply.send(body);
+  });
+}
@@ -0,0 +1,16 @@
+import { DEFAULT_TEMPLATE_REF } from "@agency-reports/shared";
+import type { FastifyInstance } from "fastify";
+import { listReportTemplates } from "../services/render.service.js";
+
+export async function templateRoutes(fastify: FastifyInstance) {
+  fastify.addHook("onRequest", fastify.authenticate);
+
+  /**
+   * GET /templates
+   * List the report templates clients can be assigned
+   */
+  fastify.get("/templates", async () => {
+    const templates = await listReportTemplates();
+    return { templates, defaultTemplate: DEFAULT_TEMPLATE_REF };
+  });
+}
@@ -0,0 +1,88 @@
+import dotenv from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+import { closeDb, getDb } from "../db/database.js";
+import { decryptCredentials, encryptCredentials, getCredentialKeyId } from "../lib/credentials.js";
+import { getKeyProvider } from "../lib/key-provider.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Load environment variables from monorepo root
+dotenv.config({ path: path.join(__dirname, "../../../../.env") });
+
+/**
+ * Re-encrypt every stored credential under the current key (CREDENTIAL_KEY_ID),
+ * including legacy plaintext rows. Safe to re-run; rows already on the current
+ * key are skipped. Pass --dry-run to only report what would change.
+ *
+ * Plaintext rows are always accepted here, whatever ALLOW_PLAINTEXT_CREDENTIALS
+ * says, since converting them is what the script is for.
+ */
+async function reencryptCredentials() {
+  const dryRun = process.argv.includes("--dry-run");
+  const currentKeyId = getKeyProvider().currentKeyId();
+  const db = getDb();
+
+  const rows = await db
+    .selectFrom("data_sources")
+    .select(["id", "credentials_encrypted"])
+    .where("credentials_encrypted", "is not", null)
+    .execute();
+
+  let updated = 0;
+  let skipped = 0;
+  let changed = 0;
+  let failed = 0;
+
+  for (const row of rows) {
+    const stored = row.credentials_encrypted!;
+    const keyId = getCredentialKeyId(stored);
+
+    if (keyId === currentKeyId) {
+      skipped++;
+      continue;
+    }
+
+    try {
+      const credentials = await decryptCredentials<object>(stored, { allowPlaintext: true });
+      if (!dryRun) {
+        // Only replace the value we read, in case it changed concurrently
+        const result = await db
+          .updateTable("data_sources")
+          .set({ credentials_encrypted: await encryptCredentials(credentials) })
+          .where("id", "=", row.id)
+          .where("credentials_encrypted", "=", stored)
+          .executeTakeFirst();
+
+        if (result.numUpdatedRows === 0n) {
+          // Reconnected, disconnected or deleted since it was read; a re-run picks it up
+          console.log(`Skipped data source ${row.id}: credentials changed while re-encrypting`);
+          changed++;
+          continue;
+        }
+      }
+      console.log(
+        `${dryRun ? "Would re-encrypt" : "Re-encrypted"} data source ${row.id} (${keyId ?? "plaintext"} -> ${currentKeyId})`
+      );
+      updated++;
+    } catch (error) {
+      console.error(`Failed to re-encrypt data source ${row.id}:`, error);
+      failed++;
+    }
+  }
+
+  console.log(
+    `${dryRun ? "Dry run: " : ""}${updated} re-encrypted, ${skipped} already on ${currentKeyId}, ${changed} changed concurrently, ${failed} failed`
+  );
+
+  await closeDb();
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+reencryptCredentials().catch((error) => {
+  console.error("Re-encryption failed:", error);
+  process.exit(1);
+});
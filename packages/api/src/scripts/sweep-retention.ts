@@ -0,0 +1,48 @@
+import dotenv from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+import { closeDb } from "../db/database.js";
+import { sweepRetention } from "../services/retention.service.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Load environment variables from monorepo root
+dotenv.config({ path: path.join(__dirname, "../../../../.env") });
+
+/**
+ * Run one retention sweep: trash expired snapshots and purge trash older than
+ * the grace period. Pass --dry-run to only list what would be removed.
+ */
+async function runRetentionSweep() {
+  const dryRun = process.argv.includes("--dry-run");
+  const result = await sweepRetention({ dryRun });
+
+  for (const item of result.trashed) {
+    console.log(
+      `${dryRun ? "Would trash" : "Trashed"} snapshot ${item.snapshotId} (client ${item.clientId}, ${item.periodStart} to ${item.periodEnd}, ${item.files} files)`
+    );
+  }
+  for (const item of result.purged) {
+    console.log(
+      `${dryRun ? "Would purge" : "Purged"} snapshot ${item.snapshotId} (client ${item.clientId}, ${item.periodStart} to ${item.periodEnd}, ${item.files} files)`
+    );
+  }
+  for (const failure of result.failed) {
+    console.error(`Failed on snapshot ${failure.snapshotId}: ${failure.error}`);
+  }
+
+  console.log(
+    `${dryRun ? "Dry run: " : ""}${result.trashed.length} trashed, ${result.purged.length} purged, ${result.failed.length} failed`
+  );
+
+  await closeDb();
+
+  if (result.failed.length > 0) {
+    process.exit(1);
+  }
+}
+
+runRetentionSweep().catch((error) => {
+  console.error("Retention sweep failed:", error);
+  process.exit(1);
+});
@@ -10,6 +10,20 @@ import { clientRoutes } from "./routes/clients.routes.js";
 import { oauthRoutes } from "./routes/oauth.routes.js";
 import { snapshotRoutes } from "./routes/snapshots.routes.js";
 import { reportRoutes } from "./routes/reports.routes.js";
+import { rankTrackerRoutes } from "./routes/rank-tracker.routes.js";
+import { jobRoutes } from "./routes/jobs.routes.js";
+import { scheduleRoutes } from "./routes/schedules.routes.js";
+import { sharedReportRoutes } from "./routes/shared-reports.routes.js";
+import { storageRoutes } from "./routes/storage.routes.js";
+import { templateRoutes } from "./routes/templates.routes.js";
+import { brandingRoutes } from "./routes/branding.routes.js";
+import { anomalyRoutes } from "./routes/anomalies.routes.js";
+import { goalRoutes } from "./routes/goals.routes.js";
+import { startJobWorker, type JobWorker } from "./jobs/worker.js";
+import { startScheduler, type Scheduler } from "./jobs/scheduler.js";
+import { startHealthChecks, type HealthChecker } from "./jobs/health-check.js";
+import { startRetentionSweeper, type RetentionSweeper } from "./jobs/retention.js";
+import { startAnomalyChecks, type AnomalyChecker } from "./jobs/anomaly-check.js";
 import { AppError } from "./lib/errors.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -75,6 +89,15 @@ await server.register(clientRoutes);
 await server.register(oauthRoutes);
 await server.register(snapshotRoutes);
 await server.register(reportRoutes);
+await server.register(rankTrackerRoutes);
+await server.register(jobRoutes);
+await server.register(scheduleRoutes);
+await server.register(sharedReportRoutes);
+await server.register(storageRoutes);
+await server.register(templateRoutes);
+await server.register(brandingRoutes);
+await server.register(anomalyRoutes);
+await server.register(goalRoutes);
 
 // Health check endpoint
 server.get("/health", async () => {
@@ -92,9 +115,22 @@ server.get("/", async () => {
   return { name: "Agency Reports API", version: "0.1.0" };
 });
 
+// Background job worker, report scheduler, data source health checks,
+// retention sweeper and anomaly checks; each can be disabled per instance
+let jobWorker: JobWorker | null = null;
+let scheduler: Scheduler | null = null;
+let healthChecker: HealthChecker | null = null;
+let retentionSweeper: RetentionSweeper | null = null;
+let anomalyChecker: AnomalyChecker | null = null;
+
 // Graceful shutdown
 const shutdown = async () => {
   server.log.info("Shutting down server...");
+  await scheduler?.stop();
+  await healthChecker?.stop();
+  await retentionSweeper?.stop();
+  await anomalyChecker?.stop();
+  await jobWorker?.stop();
   await closeDb();
   await server.close();
   process.exit(0);
@@ -109,6 +145,25 @@ const start = async () => {
     const port = parseInt(process.env.PORT || "3000", 10);
     await server.listen({ port, host: "0.0.0.0" });
     server.log.info(`Server listening on port ${port}`);
+
+    if (process.env.JOB_WORKER_ENABLED !== "false") {
+      jobWorker = startJobWorker(server.log);
+    }
+    if (process.env.SCHEDULER_ENABLED !== "false") {
+      scheduler = startScheduler(server.log);
+    }
+    if (process.env.DATA_SOURCE_HEALTH_CHECK_ENABLED !== "false") {
+      healthChecker = startHealthChecks(server.log);
+    }
+    if (process.env.RETENTION_SWEEP_ENABLED !== "false") {
+      retentionSweeper = startRetentionSweeper(
+        server.log,
+        process.env.RETENTION_SWEEP_DRY_RUN === "true"
+      );
+    }
+    if (process.env.ANOMALY_CHECK_ENABLED !== "false") {
+      anomalyChecker = startAnomalyChecks(server.log);
+    }
   } catch (err) {
     server.log.error(err);
     process.exit(1);
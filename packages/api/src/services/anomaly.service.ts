@@ -0,0 +1,200 @@
+import {
+  DEFAULT_ANOMALY_OPTIONS,
+  detectDailyAnomalies,
+  type AnomalyDirection,
+  type AnomalyMetric,
+} from "@agency-reports/shared";
+import { sql } from "kysely";
+import { fetchGA4DailyMetrics } from "../connectors/google-analytics.connector.js";
+import { getDb } from "../db/database.js";
+import { EmailDeliveryUnknownError, NotFoundError, ValidationError } from "../lib/errors.js";
+import { shiftDays } from "../lib/periods.js";
+import { getLocalDate } from "../lib/schedules.js";
+import { sendAnomalyAlertEmail } from "./email.service.js";
+
+// Recent days each check looks at. Daily runs overlap, but a day is only
+// stored and alerted on once, and a week covers runs missed during downtime.
+const CHECK_DAYS = 7;
+
+export interface AnomalySummary {
+  id: string;
+  clientId: string;
+  metric: AnomalyMetric;
+  date: string;
+  value: number;
+  expected: number;
+  score: number;
+  direction: AnomalyDirection;
+  jobId: string | null;
+  alertedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface AnomalyCheckResult {
+  startDate: string;
+  endDate: string;
+  detected: number; // Newly found by this check
+  alerted: number;
+}
+
+/**
+ * Fetch recent daily GA4 metrics for a client, store unusual days and email
+ * the agency admin about any not alerted on yet. Today is left out since its
+ * numbers are still incomplete.
+ */
+export async function checkClientAnomalies(
+  clientId: string,
+  userId: string,
+  jobId: string | null = null
+): Promise<AnomalyCheckResult> {
+  const db = getDb();
+
+  const client = await db
+    .selectFrom("clients")
+    .innerJoin("users", "users.id", "clients.created_by")
+    .select(["clients.id", "clients.name", "clients.timezone", "users.email"])
+    .where("clients.id", "=", clientId)
+    .where("clients.created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+
+  const dataSource = await db
+    .selectFrom("data_sources")
+    .select(["id", "external_account_id"])
+    .where("client_id", "=", clientId)
+    .where("type", "=", "google_analytics")
+    .where("status", "=", "active")
+    .executeTakeFirst();
+
+  if (!dataSource?.external_account_id) {
+    throw new ValidationError("Client has no active Google Analytics property");
+  }
+
+  const endDate = shiftDays(getLocalDate(new Date(), client.timezone), -1);
+  const from = shiftDays(endDate, -(CHECK_DAYS - 1));
+  const startDate = shiftDays(from, -DEFAULT_ANOMALY_OPTIONS.window);
+
+  const dailyMetrics = await fetchGA4DailyMetrics(dataSource.id, dataSource.external_account_id, {
+    startDate,
+    endDate,
+  });
+  const anomalies = detectDailyAnomalies(dailyMetrics, { from });
+
+  let detected = 0;
+  if (anomalies.length > 0) {
+    const inserted = await db
+      .insertInto("metric_anomalies")
+      .values(
+        anomalies.map((anomaly) => ({
+          client_id: clientId,
+          metric: anomaly.metric,
+          date: anomaly.date,
+          value: anomaly.value,
+          expected: anomaly.expected,
+          score: anomaly.score,
+          direction: anomaly.direction,
+          job_id: jobId,
+        }))
+      )
+      .onConflict((oc) => oc.columns(["client_id", "metric", "date"]).doNothing())
+      .returning("id")
+      .execute();
+    detected = inserted.length;
+  }
+
+  // Claim the days not alerted on yet, including any left over from a check
+  // whose alert email failed, so an overlapping check can't send them again
+  const claimedAt = new Date();
+  const claimed = await db
+    .updateTable("metric_anomalies")
+    .set({ alerted_at: claimedAt })
+    .where("client_id", "=", clientId)
+    .where("alerted_at", "is", null)
+    .returning(["id", "metric", "value", "expected", "direction"])
+    .returning(sql<string>`to_char(date, 'YYYY-MM-DD')`.as("date"))
+    .execute();
+
+  const pending = claimed.sort(
+    (a, b) => a.date.localeCompare(b.date) || a.metric.localeCompare(b.metric)
+  );
+
+  if (pending.length > 0) {
+    try {
+      await sendAnomalyAlertEmail({
+        clientId,
+        clientName: client.name,
+        recipient: client.email,
+        anomalies: pending,
+        jobId,
+      });
+    } catch (error) {
+      // The email may have gone out; keep the claim rather than risk a second alert
+      if (error instanceof EmailDeliveryUnknownError) throw error;
+
+      // Release the claim so the next check alerts on these days
+      await db
+        .updateTable("metric_anomalies")
+        .set({ alerted_at: null })
+        .where(
+          "id",
+          "in",
+          pending.map((anomaly) => anomaly.id)
+        )
+        .where("alerted_at", "=", claimedAt)
+        .execute();
+      throw error;
+    }
+  }
+
+  return { startDate, endDate, detected, alerted: pending.length };
+}
+
+/**
+ * List a client's stored anomalies, most recent days first
+ */
+export async function listClientAnomalies(
+  clientId: string,
+  userId: string,
+  limit = 50
+): Promise<AnomalySummary[]> {
+  const db = getDb();
+
+  const client = await db
+    .selectFrom("clients")
+    .select("id")
+    .where("id", "=", clientId)
+    .where("created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+
+  const anomalies = await db
+    .selectFrom("metric_anomalies")
+    .selectAll()
+    // DATE columns come back as local-midnight Dates; keep the calendar day as stored
+    .select(sql<string>`to_char(date, 'YYYY-MM-DD')`.as("day"))
+    .where("client_id", "=", clientId)
+    .orderBy("date", "desc")
+    .orderBy("metric")
+    .limit(limit)
+    .execute();
+
+  return anomalies.map((anomaly) => ({
+    id: anomaly.id,
+    clientId: anomaly.client_id,
+    metric: anomaly.metric,
+    date: anomaly.day,
+    value: anomaly.value,
+    expected: anomaly.expected,
+    score: anomaly.score,
+    direction: anomaly.direction,
+    jobId: anomaly.job_id,
+    alertedAt: anomaly.alerted_at,
+    createdAt: anomaly.created_at,
+  }));
+}
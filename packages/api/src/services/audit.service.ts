@@ -0,0 +1,32 @@
+import { getDb } from "../db/database.js";
+import type { AuditOutcome } from "../db/types.js";
+
+export interface AuditEventInput {
+  userId: string | null;
+  clientId: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  outcome: AuditOutcome;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Append an entry to the audit log
+ */
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  const db = getDb();
+
+  await db
+    .insertInto("audit_log")
+    .values({
+      user_id: input.userId,
+      client_id: input.clientId,
+      action: input.action,
+      target_type: input.targetType,
+      target_id: input.targetId,
+      outcome: input.outcome,
+      details: input.details ?? {},
+    })
+    .execute();
+}
@@ -0,0 +1,185 @@
+import {
+  DEFAULT_BRANDING,
+  type BrandingSettings,
+  type LogoContentType,
+  type ReportBranding,
+} from "@agency-reports/shared";
+import { getDb } from "../db/database.js";
+import type { ReportBranding as ReportBrandingRow } from "../db/types.js";
+import { NotFoundError } from "../lib/errors.js";
+import type { UpdateBrandingInput } from "../lib/validation.js";
+import { deleteObjects, loadBrandingLogo, saveBrandingLogo } from "./storage.service.js";
+
+async function assertClientOwned(clientId: string, userId: string): Promise<void> {
+  const db = getDb();
+
+  const client = await db
+    .selectFrom("clients")
+    .select("id")
+    .where("id", "=", clientId)
+    .where("created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+}
+
+async function findBrandingRow(clientId: string | null): Promise<ReportBrandingRow | undefined> {
+  const db = getDb();
+
+  return db
+    .selectFrom("report_branding")
+    .selectAll()
+    .where("client_id", clientId === null ? "is" : "=", clientId)
+    .executeTakeFirst();
+}
+
+/**
+ * A stored logo as a data URL the renderer can inline; a logo missing from
+ * storage is treated as no logo rather than failing every report
+ */
+async function loadLogoDataUrl(row: ReportBrandingRow | undefined): Promise<string | null> {
+  if (!row?.logo_storage_path || !row.logo_content_type) {
+    return null;
+  }
+
+  try {
+    const body = await loadBrandingLogo(row.logo_storage_path);
+    return `data:${row.logo_content_type};base64,${body.toString("base64")}`;
+  } catch (error) {
+    if (error instanceof NotFoundError) return null;
+    throw error;
+  }
+}
+
+function decodeLogo(dataUrl: string): { contentType: LogoContentType; body: Buffer } {
+  const separator = dataUrl.indexOf(",");
+  return {
+    contentType: dataUrl.slice("data:".length, dataUrl.indexOf(";")) as LogoContentType,
+    body: Buffer.from(dataUrl.slice(separator + 1), "base64"),
+  };
+}
+
+async function toBrandingSettings(row: ReportBrandingRow | undefined): Promise<BrandingSettings> {
+  return {
+    primaryColor: row?.primary_color ?? null,
+    accentColor: row?.accent_color ?? null,
+    fontFamily: row?.font_family ?? null,
+    footerText: row?.footer_text ?? null,
+    coverTitle: row?.cover_title ?? null,
+    coverText: row?.cover_text ?? null,
+    logo: await loadLogoDataUrl(row),
+    updatedAt: row?.updated_at.toISOString() ?? null,
+  };
+}
+
+/**
+ * Branding saved for one client, or for the agency when `clientId` is null
+ */
+export async function getBrandingSettings(
+  clientId: string | null,
+  userId: string
+): Promise<BrandingSettings> {
+  if (clientId) {
+    await assertClientOwned(clientId, userId);
+  }
+
+  return toBrandingSettings(await findBrandingRow(clientId));
+}
+
+/**
+ * Update branding for one client, or for the agency when `clientId` is null.
+ * A replaced logo is deleted once the new one is saved.
+ */
+export async function updateBrandingSettings(
+  clientId: string | null,
+  userId: string,
+  input: UpdateBrandingInput
+): Promise<BrandingSettings> {
+  if (clientId) {
+    await assertClientOwned(clientId, userId);
+  }
+
+  const db = getDb();
+  const existing = await findBrandingRow(clientId);
+
+  const updateData: Record<string, unknown> = {
+    updated_at: new Date(),
+  };
+
+  if (input.primaryColor !== undefined) updateData.primary_color = input.primaryColor;
+  if (input.accentColor !== undefined) updateData.accent_color = input.accentColor;
+  if (input.fontFamily !== undefined) updateData.font_family = input.fontFamily;
+  if (input.footerText !== undefined) updateData.footer_text = input.footerText;
+  if (input.coverTitle !== undefined) updateData.cover_title = input.coverTitle;
+  if (input.coverText !== undefined) updateData.cover_text = input.coverText;
+
+  let replacedLogo: string | null = null;
+  if (input.logo !== undefined) {
+    replacedLogo = existing?.logo_storage_path ?? null;
+
+    if (input.logo === null) {
+      updateData.logo_storage_path = null;
+      updateData.logo_content_type = null;
+    } else {
+      const { contentType, body } = decodeLogo(input.logo);
+      updateData.logo_storage_path = await saveBrandingLogo(clientId, body, contentType);
+      updateData.logo_content_type = contentType;
+    }
+  }
+
+  const row = existing
+    ? await db
+        .updateTable("report_branding")
+        .set(updateData)
+        .where("id", "=", existing.id)
+        .returningAll()
+        .executeTakeFirstOrThrow()
+    : await db
+        .insertInto("report_branding")
+        .values({ ...updateData, client_id: clientId })
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+  if (replacedLogo) {
+    await deleteObjects([replacedLogo]);
+  }
+
+  return toBrandingSettings(row);
+}
+
+/**
+ * Branding to render a report with: the client's settings, then the
+ * agency's, then the defaults. With a null `clientId` only the agency's
+ * settings apply.
+ */
+export async function resolveReportBranding(clientId: string | null): Promise<ReportBranding> {
+  const db = getDb();
+
+  const rows = await db
+    .selectFrom("report_branding")
+    .selectAll()
+    .where((eb) =>
+      clientId === null
+        ? eb("client_id", "is", null)
+        : eb.or([eb("client_id", "is", null), eb("client_id", "=", clientId)])
+    )
+    .execute();
+
+  const agency = rows.find((row) => row.client_id === null);
+  const client = rows.find((row) => row.client_id !== null);
+
+  const pick = <T>(field: (row: ReportBrandingRow) => T | null): T | null =>
+    (client && field(client)) ?? (agency && field(agency)) ?? null;
+
+  return {
+    primaryColor: pick((row) => row.primary_color) ?? DEFAULT_BRANDING.primaryColor,
+    accentColor: pick((row) => row.accent_color) ?? DEFAULT_BRANDING.accentColor,
+    fontFamily: pick((row) => row.font_family) ?? DEFAULT_BRANDING.fontFamily,
+    footerText: pick((row) => row.footer_text) ?? DEFAULT_BRANDING.footerText,
+    coverTitle: pick((row) => row.cover_title) ?? DEFAULT_BRANDING.coverTitle,
+    coverText: pick((row) => row.cover_text) ?? DEFAULT_BRANDING.coverText,
+    logo: await loadLogoDataUrl(client?.logo_storage_path ? client : agency),
+  };
+}
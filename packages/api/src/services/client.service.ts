@@ -1,20 +1,65 @@
+import type { InsightSettings, ReportLocale } from "@agency-reports/shared";
+import { needsReconnect } from "../connectors/connection-status.js";
 import { getDb } from "../db/database.js";
 import type { Client } from "../db/types.js";
-import { NotFoundError } from "../lib/errors.js";
+import { NotFoundError, ValidationError } from "../lib/errors.js";
+import { revokeClientDataSources } from "./data-source.service.js";
+import { listReportTemplates } from "./render.service.js";
+import { applyClientRetention } from "./retention.service.js";
+import { getNextRuns, rescheduleClient } from "./schedule.service.js";
 import { deleteClientStorage } from "./storage.service.js";
 import type { CreateClientInput, UpdateClientInput } from "../lib/validation.js";
 
+export interface ClientDataSourceStatus {
+  type: string;
+  status: string;
+  needsReconnect: boolean;
+}
+
+/**
+ * Goal results recorded in a client's latest report
+ */
+export interface ClientGoalStatus {
+  total: number;
+  met: number;
+  attainment: number;
+}
+
 export interface ClientListItem {
   id: string;
   name: string;
   primaryDomain: string | null;
   timezone: string;
   contactEmails: string[];
-  dataSources: Array<{ type: string; status: string }>;
+  dataSources: ClientDataSourceStatus[];
   lastReportDate: string | null;
+  latestGoals: ClientGoalStatus | null;
+  nextRun: Date | null;
   createdAt: Date;
 }
 
+export interface ClientDetailItem extends ClientListItem {
+  emailSubjectTemplate: string | null;
+  emailBodyTemplate: string | null;
+  retentionMonths: number | null;
+  reportTemplate: string | null;
+  locale: ReportLocale;
+  currency: string | null;
+  insightSettings: InsightSettings;
+}
+
+/**
+ * Reject template refs the renderer doesn't have, so reports don't fail later
+ */
+async function checkReportTemplate(ref: string | null | undefined): Promise<void> {
+  if (!ref) return;
+
+  const templates = await listReportTemplates();
+  if (!templates.some((template) => template.ref === ref)) {
+    throw new ValidationError(`Report template "${ref}" is not available`);
+  }
+}
+
 function formatSnapshotDate(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, "0");
@@ -39,7 +84,7 @@ export async function listClients(userId: string): Promise<ClientListItem[]> {
     clientIds.length > 0
       ? await db
           .selectFrom("data_sources")
-          .select(["client_id", "type", "status"])
+          .select(["client_id", "type", "status", "config"])
           .where("client_id", "in", clientIds)
           .execute()
       : [];
@@ -49,24 +94,27 @@ export async function listClients(userId: string): Promise<ClientListItem[]> {
     clientIds.length > 0
       ? await db
           .selectFrom("snapshots")
-          .select(["client_id", "snapshot_date"])
+          .select(["client_id", "snapshot_date", "metrics_summary"])
           .where("client_id", "in", clientIds)
+          .where("trashed_at", "is", null)
           .orderBy("snapshot_date", "desc")
           .execute()
       : [];
 
   // Group data sources and snapshots by client
-  const dataSourcesByClient = new Map<string, Array<{ type: string; status: string }>>();
+  const dataSourcesByClient = new Map<string, ClientDataSourceStatus[]>();
   for (const ds of dataSources) {
     const existing = dataSourcesByClient.get(ds.client_id) ?? [];
-    existing.push({ type: ds.type, status: ds.status });
+    existing.push({ type: ds.type, status: ds.status, needsReconnect: needsReconnect(ds) });
     dataSourcesByClient.set(ds.client_id, existing);
   }
 
-  const latestSnapshotByClient = new Map<string, Date>();
+  const nextRunByClient = await getNextRuns(clientIds);
+
+  const latestSnapshotByClient = new Map<string, (typeof snapshots)[number]>();
   for (const snap of snapshots) {
     if (!latestSnapshotByClient.has(snap.client_id)) {
-      latestSnapshotByClient.set(snap.client_id, snap.snapshot_date);
+      latestSnapshotByClient.set(snap.client_id, snap);
     }
   }
 
@@ -78,13 +126,25 @@ export async function listClients(userId: string): Promise<ClientListItem[]> {
     contactEmails: client.contact_emails,
     dataSources: dataSourcesByClient.get(client.id) ?? [],
     lastReportDate: latestSnapshotByClient.get(client.id)
-      ? formatSnapshotDate(latestSnapshotByClient.get(client.id)!)
+      ? formatSnapshotDate(latestSnapshotByClient.get(client.id)!.snapshot_date)
       : null,
+    latestGoals: getGoalStatus(latestSnapshotByClient.get(client.id)?.metrics_summary),
+    nextRun: nextRunByClient.get(client.id) ?? null,
     createdAt: client.created_at,
   }));
 }
 
-export async function getClient(id: string, userId: string): Promise<ClientListItem> {
+function getGoalStatus(summary: Record<string, unknown> | undefined): ClientGoalStatus | null {
+  const { goalsTotal, goalsMet, goalAttainment } = summary ?? {};
+  if (typeof goalsTotal !== "number" || goalsTotal === 0) return null;
+  return {
+    total: goalsTotal,
+    met: typeof goalsMet === "number" ? goalsMet : 0,
+    attainment: typeof goalAttainment === "number" ? goalAttainment : 0,
+  };
+}
+
+export async function getClient(id: string, userId: string): Promise<ClientDetailItem> {
   const db = getDb();
 
   const client = await db
@@ -100,38 +160,76 @@ export async function getClient(id: string, userId: string): Promise<ClientListI
 
   const dataSources = await db
     .selectFrom("data_sources")
-    .select(["type", "status"])
+    .select(["type", "status", "config"])
     .where("client_id", "=", id)
     .execute();
 
   const latestSnapshot = await db
     .selectFrom("snapshots")
-    .select("snapshot_date")
+    .select(["snapshot_date", "metrics_summary"])
     .where("client_id", "=", id)
+    .where("trashed_at", "is", null)
     .orderBy("snapshot_date", "desc")
     .limit(1)
     .executeTakeFirst();
 
+  const nextRuns = await getNextRuns([id]);
+
   return {
     id: client.id,
     name: client.name,
     primaryDomain: client.primary_domain,
     timezone: client.timezone,
     contactEmails: client.contact_emails,
-    dataSources: dataSources.map((ds) => ({ type: ds.type, status: ds.status })),
+    dataSources: dataSources.map((ds) => ({
+      type: ds.type,
+      status: ds.status,
+      needsReconnect: needsReconnect(ds),
+    })),
     lastReportDate: latestSnapshot?.snapshot_date
       ? formatSnapshotDate(latestSnapshot.snapshot_date)
       : null,
+    latestGoals: getGoalStatus(latestSnapshot?.metrics_summary),
+    nextRun: nextRuns.get(id) ?? null,
     createdAt: client.created_at,
+    emailSubjectTemplate: client.email_subject_template,
+    emailBodyTemplate: client.email_body_template,
+    retentionMonths: client.retention_months,
+    reportTemplate: client.report_template,
+    locale: client.locale,
+    currency: client.currency,
+    insightSettings: client.insight_settings,
   };
 }
 
+/**
+ * A client's timezone, which report periods are resolved in
+ */
+export async function getClientTimezone(id: string, userId: string): Promise<string> {
+  const db = getDb();
+
+  const client = await db
+    .selectFrom("clients")
+    .select("timezone")
+    .where("id", "=", id)
+    .where("created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+
+  return client.timezone;
+}
+
 export async function createClient(
   input: CreateClientInput,
   userId: string
 ): Promise<Client> {
   const db = getDb();
 
+  await checkReportTemplate(input.reportTemplate);
+
   const client = await db
     .insertInto("clients")
     .values({
@@ -139,6 +237,11 @@ export async function createClient(
       primary_domain: input.primaryDomain ?? null,
       timezone: input.timezone,
       contact_emails: input.contactEmails,
+      retention_months: input.retentionMonths ?? null,
+      report_template: input.reportTemplate ?? null,
+      locale: input.locale,
+      currency: input.currency ?? null,
+      insight_settings: input.insightSettings,
       created_by: userId,
     })
     .returningAll()
@@ -157,7 +260,7 @@ export async function updateClient(
   // Check ownership
   const existing = await db
     .selectFrom("clients")
-    .select("id")
+    .select(["id", "timezone", "retention_months"])
     .where("id", "=", id)
     .where("created_by", "=", userId)
     .executeTakeFirst();
@@ -174,6 +277,20 @@ export async function updateClient(
   if (input.primaryDomain !== undefined) updateData.primary_domain = input.primaryDomain;
   if (input.timezone !== undefined) updateData.timezone = input.timezone;
   if (input.contactEmails !== undefined) updateData.contact_emails = input.contactEmails;
+  if (input.emailSubjectTemplate !== undefined) {
+    updateData.email_subject_template = input.emailSubjectTemplate;
+  }
+  if (input.emailBodyTemplate !== undefined) {
+    updateData.email_body_template = input.emailBodyTemplate;
+  }
+  if (input.retentionMonths !== undefined) updateData.retention_months = input.retentionMonths;
+  if (input.reportTemplate !== undefined) {
+    await checkReportTemplate(input.reportTemplate);
+    updateData.report_template = input.reportTemplate;
+  }
+  if (input.locale !== undefined) updateData.locale = input.locale;
+  if (input.currency !== undefined) updateData.currency = input.currency;
+  if (input.insightSettings !== undefined) updateData.insight_settings = input.insightSettings;
 
   const client = await db
     .updateTable("clients")
@@ -182,6 +299,15 @@ export async function updateClient(
     .returningAll()
     .executeTakeFirstOrThrow();
 
+  // Schedules run in the client's local time
+  if (client.timezone !== existing.timezone) {
+    await rescheduleClient(id, client.timezone);
+  }
+
+  if (client.retention_months !== existing.retention_months) {
+    await applyClientRetention(id, client.retention_months);
+  }
+
   return client;
 }
 
@@ -199,6 +325,8 @@ export async function deleteClient(id: string, userId: string): Promise<void> {
     throw new NotFoundError("Client not found");
   }
 
+  // Deleting the client cascades to its data sources, so revoke their grants first
+  await revokeClientDataSources(id, userId);
   await deleteClientStorage(id);
 
   await db
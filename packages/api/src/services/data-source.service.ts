@@ -0,0 +1,153 @@
+import { clearConnectionIssue } from "../connectors/connection-status.js";
+import type { RevokeOutcome } from "../connectors/connector.js";
+import { findConnector } from "../connectors/registry.js";
+import { getDb } from "../db/database.js";
+import type { DataSource } from "../db/types.js";
+import { NotFoundError, RevocationFailedError } from "../lib/errors.js";
+import { recordAuditEvent } from "./audit.service.js";
+
+export interface RevocationResult {
+  outcome: RevokeOutcome | "not_required" | "failed";
+  error?: string;
+}
+
+type RevocationTrigger = "disconnect" | "client_deleted";
+
+/**
+ * Revoke a data source's credentials with its provider and audit the attempt.
+ * Provider failures are recorded and returned rather than thrown; the caller
+ * must then keep the credentials, or the grant could never be revoked.
+ */
+async function revokeCredentials(
+  dataSource: DataSource,
+  userId: string,
+  trigger: RevocationTrigger
+): Promise<RevocationResult> {
+  const connector = findConnector(dataSource.type);
+  if (!connector?.revoke || !dataSource.credentials_encrypted) {
+    return { outcome: "not_required" };
+  }
+
+  const audit = {
+    userId,
+    clientId: dataSource.client_id,
+    action: "data_source.revoke",
+    targetType: "data_source",
+    targetId: dataSource.id,
+  };
+
+  try {
+    const outcome = await connector.revoke({
+      id: dataSource.id,
+      clientId: dataSource.client_id,
+      externalAccountId: dataSource.external_account_id,
+      externalAccountName: dataSource.external_account_name,
+      config: dataSource.config,
+    });
+
+    await recordAuditEvent({
+      ...audit,
+      outcome: "succeeded",
+      details: { type: dataSource.type, trigger, result: outcome },
+    });
+    return { outcome };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await recordAuditEvent({
+      ...audit,
+      outcome: "failed",
+      details: { type: dataSource.type, trigger, error: message },
+    });
+    return { outcome: "failed", error: message };
+  }
+}
+
+/**
+ * Wipe a data source's revoked credentials, keeping the row as
+ * `disconnected` so its account selection and history survive a reconnect
+ */
+async function clearCredentials(id: string): Promise<void> {
+  await getDb()
+    .updateTable("data_sources")
+    .set({
+      status: "disconnected",
+      credentials_encrypted: null,
+      expires_at: null,
+      config: clearConnectionIssue(),
+      updated_at: new Date(),
+    })
+    .where("id", "=", id)
+    .execute();
+}
+
+/**
+ * Revoke a data source's credentials and wipe them. If the provider can't
+ * revoke them, the source stays connected so disconnecting can be retried.
+ */
+export async function disconnectDataSource(
+  id: string,
+  clientId: string,
+  userId: string
+): Promise<RevocationResult> {
+  const db = getDb();
+
+  const dataSource = await db
+    .selectFrom("data_sources")
+    .innerJoin("clients", "clients.id", "data_sources.client_id")
+    .selectAll("data_sources")
+    .where("data_sources.id", "=", id)
+    .where("data_sources.client_id", "=", clientId)
+    .where("clients.created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!dataSource) {
+    throw new NotFoundError("Data source not found");
+  }
+
+  const revocation = await revokeCredentials(dataSource, userId, "disconnect");
+  if (revocation.outcome === "failed") {
+    throw new RevocationFailedError(
+      `Could not revoke access with the provider, so the data source is still connected; try again (${revocation.error})`
+    );
+  }
+
+  await clearCredentials(id);
+  return revocation;
+}
+
+/**
+ * Revoke every connected data source of a client that is about to be
+ * deleted, wiping each set of credentials once it is revoked. Throws if any
+ * could not be revoked, so the client is kept and deleting can be retried.
+ */
+export async function revokeClientDataSources(
+  clientId: string,
+  userId: string
+): Promise<RevocationResult[]> {
+  const db = getDb();
+
+  const dataSources = await db
+    .selectFrom("data_sources")
+    .selectAll()
+    .where("client_id", "=", clientId)
+    .where("credentials_encrypted", "is not", null)
+    .execute();
+
+  const results: RevocationResult[] = [];
+  for (const dataSource of dataSources) {
+    const result = await revokeCredentials(dataSource, userId, "client_deleted");
+    if (result.outcome !== "failed") {
+      await clearCredentials(dataSource.id);
+    }
+    results.push(result);
+  }
+
+  const failed = results.filter((result) => result.outcome === "failed");
+  if (failed.length > 0) {
+    throw new RevocationFailedError(
+      `Could not revoke access for ${failed.length} data source(s), so the client was not deleted; try again (${failed.map((result) => result.error).join("; ")})`
+    );
+  }
+
+  return results;
+}
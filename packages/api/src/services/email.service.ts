@@ -0,0 +1,323 @@
+import type { AnomalyMetric, MetricAnomaly } from "@agency-reports/shared";
+import { getDb } from "../db/database.js";
+import type { EmailDelivery, EmailDeliveryStatus, NewEmailDelivery } from "../db/types.js";
+import type { EmailMessage, EmailSendResult } from "../email/provider.js";
+import { getEmailProvider } from "../email/registry.js";
+import { EmailDeliveryUnknownError, NotFoundError, ValidationError } from "../lib/errors.js";
+import { isCalendarMonth } from "../lib/periods.js";
+import { createReportLink } from "../lib/report-links.js";
+import { getSnapshotPeriod } from "./snapshot.service.js";
+import { loadPdfFileFromKey } from "./storage.service.js";
+
+export const DEFAULT_EMAIL_SUBJECT_TEMPLATE = "{{clientName}} report: {{periodLabel}}";
+
+export const DEFAULT_EMAIL_BODY_TEMPLATE = `Hi,
+
+Your {{periodLabel}} report for {{clientName}} is attached.
+
+You can also download it here: {{reportUrl}}
+`;
+
+/**
+ * Placeholders available in subject and body templates, written as {{name}}
+ */
+export const EMAIL_TEMPLATE_VARIABLES = [
+  "clientName",
+  "periodLabel",
+  "periodStart",
+  "periodEnd",
+  "reportUrl",
+] as const;
+
+type EmailTemplateVariables = Record<(typeof EMAIL_TEMPLATE_VARIABLES)[number], string>;
+
+export interface EmailDeliverySummary {
+  id: string;
+  clientId: string;
+  snapshotId: string | null;
+  revisionId: string | null;
+  jobId: string | null;
+  provider: string;
+  recipients: string[];
+  subject: string;
+  status: EmailDeliveryStatus;
+  providerMessageId: string | null;
+  errorMessage: string | null;
+  createdAt: Date;
+}
+
+function toEmailDeliverySummary(delivery: EmailDelivery): EmailDeliverySummary {
+  return {
+    id: delivery.id,
+    clientId: delivery.client_id,
+    snapshotId: delivery.snapshot_id,
+    revisionId: delivery.revision_id,
+    jobId: delivery.job_id,
+    provider: delivery.provider,
+    recipients: delivery.recipients,
+    subject: delivery.subject,
+    status: delivery.status,
+    providerMessageId: delivery.provider_message_id,
+    errorMessage: delivery.error_message,
+    createdAt: delivery.created_at,
+  };
+}
+
+/**
+ * Replace {{name}} placeholders; unknown placeholders are left as written
+ */
+export function renderEmailTemplate(template: string, variables: EmailTemplateVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? variables[name as keyof EmailTemplateVariables] : match
+  );
+}
+
+/**
+ * Email a snapshot's PDF to the client's contact emails, recording the attempt
+ */
+export async function sendReportEmail(
+  snapshotId: string,
+  userId: string,
+  jobId: string | null = null
+): Promise<EmailDeliverySummary> {
+  const db = getDb();
+
+  const snapshot = await db
+    .selectFrom("snapshots")
+    .innerJoin("clients", "clients.id", "snapshots.client_id")
+    .selectAll("snapshots")
+    .select([
+      "clients.name as client_name",
+      "clients.contact_emails",
+      "clients.email_subject_template",
+      "clients.email_body_template",
+    ])
+    .where("snapshots.id", "=", snapshotId)
+    .where("snapshots.trashed_at", "is", null)
+    .where("clients.created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!snapshot) {
+    throw new NotFoundError("Snapshot not found");
+  }
+
+  if (!snapshot.pdf_storage_path) {
+    throw new ValidationError("Generate the report PDF before emailing it");
+  }
+
+  if (snapshot.contact_emails.length === 0) {
+    throw new ValidationError("Client has no contact emails");
+  }
+
+  const { current } = getSnapshotPeriod(snapshot);
+  const reportUrl = createReportLink(snapshot.id);
+  const variables: EmailTemplateVariables = {
+    clientName: snapshot.client_name,
+    periodLabel: formatPeriodLabel(current.startDate, current.endDate),
+    periodStart: current.startDate,
+    periodEnd: current.endDate,
+    reportUrl,
+  };
+
+  const subject = renderEmailTemplate(
+    snapshot.email_subject_template ?? DEFAULT_EMAIL_SUBJECT_TEMPLATE,
+    variables
+  );
+  let text = renderEmailTemplate(
+    snapshot.email_body_template ?? DEFAULT_EMAIL_BODY_TEMPLATE,
+    variables
+  );
+
+  // The download link is always included, even if a custom body leaves it out
+  if (!text.includes(reportUrl)) {
+    text = `${text.trimEnd()}\n\nDownload the report: ${reportUrl}\n`;
+  }
+
+  const pdfBuffer = await loadPdfFileFromKey(snapshot.pdf_storage_path);
+  const clientSlug = snapshot.client_name.toLowerCase().replace(/\s+/g, "-");
+
+  const delivery = await deliverEmail(
+    {
+      client_id: snapshot.client_id,
+      snapshot_id: snapshot.id,
+      revision_id: snapshot.current_revision_id,
+      job_id: jobId,
+    },
+    {
+      from: process.env.EMAIL_FROM || "Agency Reports <reports@localhost>",
+      to: snapshot.contact_emails,
+      subject,
+      text,
+      attachments: [
+        {
+          filename: `${clientSlug}-report-${current.startDate}.pdf`,
+          content: pdfBuffer,
+          contentType: "application/pdf",
+        },
+      ],
+    }
+  );
+  return toEmailDeliverySummary(delivery);
+}
+
+export interface AnomalyAlert {
+  clientId: string;
+  clientName: string;
+  recipient: string;
+  anomalies: Array<Pick<MetricAnomaly, "metric" | "date" | "value" | "expected" | "direction">>;
+  jobId: string | null;
+}
+
+const ANOMALY_METRIC_LABELS: Record<AnomalyMetric, string> = {
+  sessions: "Sessions",
+  users: "Users",
+  keyEvents: "Key events",
+};
+
+/**
+ * Tell the agency admin about unusual days in a client's metrics, recording
+ * the attempt. Alerts are not tied to a snapshot.
+ */
+export async function sendAnomalyAlertEmail(alert: AnomalyAlert): Promise<EmailDeliverySummary> {
+  const dayCount = alert.anomalies.length === 1 ? "1 day" : `${alert.anomalies.length} days`;
+  const subject = `${alert.clientName}: unusual activity on ${dayCount}`;
+
+  const lines = alert.anomalies.map((anomaly) => {
+    const date = new Date(`${anomaly.date}T00:00:00Z`).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+    const value = Math.round(anomaly.value).toLocaleString("en-US");
+    const expected = Math.round(anomaly.expected).toLocaleString("en-US");
+    return `- ${date}: ${ANOMALY_METRIC_LABELS[anomaly.metric]} ${anomaly.direction === "spike" ? "spiked" : "dropped"} to ${value} (usually around ${expected})`;
+  });
+  const text = `Hi,
+
+The daily check found unusual days in ${alert.clientName}'s Google Analytics data:
+
+${lines.join("\n")}
+
+Days are compared with the four weeks before them, in the client's timezone.
+`;
+
+  const delivery = await deliverEmail(
+    { client_id: alert.clientId, snapshot_id: null, revision_id: null, job_id: alert.jobId },
+    {
+      from: process.env.EMAIL_FROM || "Agency Reports <reports@localhost>",
+      to: [alert.recipient],
+      subject,
+      text,
+    }
+  );
+  return toEmailDeliverySummary(delivery);
+}
+
+/**
+ * Send a message through the configured provider, recording the attempt.
+ * The row is written as pending before sending and updated afterwards, so a
+ * failure to record the outcome can't mark a sent email as failed. A job
+ * retried after its email was sent finds the sent row and doesn't send
+ * again. A pending row left by an attempt that never finished means the
+ * outcome is unknown, so the job fails for someone to check the provider.
+ */
+async function deliverEmail(
+  target: Pick<NewEmailDelivery, "client_id" | "snapshot_id" | "revision_id" | "job_id">,
+  message: EmailMessage
+): Promise<EmailDelivery> {
+  const db = getDb();
+  const provider = getEmailProvider();
+
+  if (target.job_id) {
+    const previous = await db
+      .selectFrom("email_deliveries")
+      .selectAll()
+      .where("job_id", "=", target.job_id)
+      .where("status", "in", ["pending", "sent"])
+      .executeTakeFirst();
+
+    if (previous?.status === "sent") {
+      return previous;
+    }
+    if (previous) {
+      throw new EmailDeliveryUnknownError(
+        `Delivery outcome unknown: an earlier attempt to email ${previous.recipients.join(", ")} did not finish. Check the ${previous.provider} provider before sending again.`
+      );
+    }
+  }
+
+  const delivery = await db
+    .insertInto("email_deliveries")
+    .values({
+      ...target,
+      provider: provider.name,
+      recipients: message.to,
+      subject: message.subject,
+      status: "pending",
+      provider_message_id: null,
+      error_message: null,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  const update = (status: EmailDeliveryStatus, details: Partial<EmailDelivery>) =>
+    db
+      .updateTable("email_deliveries")
+      .set({
+        status,
+        provider_message_id: details.provider_message_id ?? null,
+        error_message: details.error_message ?? null,
+      })
+      .where("id", "=", delivery.id)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+  let result: EmailSendResult;
+  try {
+    result = await provider.send(message);
+  } catch (error) {
+    await update("failed", {
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  return update("sent", { provider_message_id: result.messageId });
+}
+
+/**
+ * List delivery attempts for a snapshot, newest first
+ */
+export async function listEmailDeliveries(
+  snapshotId: string,
+  userId: string
+): Promise<EmailDeliverySummary[]> {
+  const db = getDb();
+
+  const deliveries = await db
+    .selectFrom("email_deliveries")
+    .innerJoin("clients", "clients.id", "email_deliveries.client_id")
+    .selectAll("email_deliveries")
+    .where("email_deliveries.snapshot_id", "=", snapshotId)
+    .where("clients.created_by", "=", userId)
+    .orderBy("email_deliveries.created_at", "desc")
+    .execute();
+
+  return deliveries.map(toEmailDeliverySummary);
+}
+
+/**
+ * "March 2025" for whole calendar months, otherwise "Mar 10, 2025 – Mar 16, 2025"
+ */
+function formatPeriodLabel(startDate: string, endDate: string): string {
+  const format = (dateStr: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${dateStr}T00:00:00Z`).toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+
+  if (isCalendarMonth({ startDate, endDate })) {
+    return format(startDate, { year: "numeric", month: "long" });
+  }
+
+  const dayOptions: Intl.DateTimeFormatOptions = { year: "numeric", month: "short", day: "numeric" };
+  return `${format(startDate, dayOptions)} – ${format(endDate, dayOptions)}`;
+}
@@ -0,0 +1,190 @@
+import type { GoalPeriod, GoalTargetType } from "@agency-reports/shared";
+import { getDb } from "../db/database.js";
+import type { ClientGoalRecord } from "../db/types.js";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors.js";
+import type { GoalDefinition } from "../lib/goals.js";
+import {
+  GOAL_TARGET_MESSAGE,
+  isValidGoalTarget,
+  type CreateGoalInput,
+  type UpdateGoalInput,
+} from "../lib/validation.js";
+
+export interface GoalSummary {
+  id: string;
+  clientId: string;
+  metric: string;
+  period: GoalPeriod;
+  targetType: GoalTargetType;
+  targetValue: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toGoalSummary(goal: ClientGoalRecord): GoalSummary {
+  return {
+    id: goal.id,
+    clientId: goal.client_id,
+    metric: goal.metric,
+    period: goal.period,
+    targetType: goal.target_type,
+    targetValue: goal.target_value,
+    createdAt: goal.created_at,
+    updatedAt: goal.updated_at,
+  };
+}
+
+async function assertClientOwned(clientId: string, userId: string): Promise<void> {
+  const db = getDb();
+
+  const client = await db
+    .selectFrom("clients")
+    .select("id")
+    .where("id", "=", clientId)
+    .where("created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+}
+
+async function getOwnedGoal(id: string, clientId: string, userId: string) {
+  await assertClientOwned(clientId, userId);
+  const db = getDb();
+
+  const goal = await db
+    .selectFrom("client_goals")
+    .selectAll()
+    .where("id", "=", id)
+    .where("client_id", "=", clientId)
+    .executeTakeFirst();
+
+  if (!goal) {
+    throw new NotFoundError("Goal not found");
+  }
+
+  return goal;
+}
+
+/**
+ * List a client's goals
+ */
+export async function listGoals(clientId: string, userId: string): Promise<GoalSummary[]> {
+  await assertClientOwned(clientId, userId);
+  const db = getDb();
+
+  const goals = await db
+    .selectFrom("client_goals")
+    .selectAll()
+    .where("client_id", "=", clientId)
+    .orderBy("created_at")
+    .execute();
+
+  return goals.map(toGoalSummary);
+}
+
+/**
+ * Goals to measure a client's next snapshot against
+ */
+export async function getGoalDefinitions(clientId: string): Promise<GoalDefinition[]> {
+  const db = getDb();
+
+  const goals = await db
+    .selectFrom("client_goals")
+    .selectAll()
+    .where("client_id", "=", clientId)
+    .orderBy("created_at")
+    .execute();
+
+  return goals.map((goal) => ({
+    id: goal.id,
+    metric: goal.metric,
+    period: goal.period,
+    targetType: goal.target_type,
+    targetValue: goal.target_value,
+  }));
+}
+
+/**
+ * Add a goal; a client has at most one goal per metric and period
+ */
+export async function createGoal(
+  clientId: string,
+  userId: string,
+  input: CreateGoalInput
+): Promise<GoalSummary> {
+  await assertClientOwned(clientId, userId);
+  const db = getDb();
+
+  const existing = await db
+    .selectFrom("client_goals")
+    .select("id")
+    .where("client_id", "=", clientId)
+    .where("metric", "=", input.metric)
+    .where("period", "=", input.period)
+    .executeTakeFirst();
+
+  if (existing) {
+    throw new ConflictError(`The client already has a ${input.period} goal for this metric`);
+  }
+
+  const goal = await db
+    .insertInto("client_goals")
+    .values({
+      client_id: clientId,
+      metric: input.metric,
+      period: input.period,
+      target_type: input.targetType,
+      target_value: input.targetValue,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return toGoalSummary(goal);
+}
+
+/**
+ * Change a goal's target. Reports already generated keep the goals they
+ * were measured against until they are regenerated.
+ */
+export async function updateGoal(
+  id: string,
+  clientId: string,
+  userId: string,
+  input: UpdateGoalInput
+): Promise<GoalSummary> {
+  const goal = await getOwnedGoal(id, clientId, userId);
+  const db = getDb();
+
+  const target = {
+    targetType: input.targetType ?? goal.target_type,
+    targetValue: input.targetValue ?? goal.target_value,
+  };
+  if (!isValidGoalTarget(target)) {
+    throw new ValidationError(GOAL_TARGET_MESSAGE);
+  }
+
+  const updated = await db
+    .updateTable("client_goals")
+    .set({
+      target_type: target.targetType,
+      target_value: target.targetValue,
+      updated_at: new Date(),
+    })
+    .where("id", "=", id)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return toGoalSummary(updated);
+}
+
+/**
+ * Delete a goal
+ */
+export async function deleteGoal(id: string, clientId: string, userId: string): Promise<void> {
+  await getOwnedGoal(id, clientId, userId);
+  const db = getDb();
+
+  await db.deleteFrom("client_goals").where("id", "=", id).execute();
+}
@@ -0,0 +1,230 @@
+import { getDb } from "../db/database.js";
+import type { Job, JobStatus, JobType } from "../db/types.js";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors.js";
+import type { SnapshotPeriodInput } from "../lib/periods.js";
+import type { ListJobsQuery } from "../lib/validation.js";
+
+export interface JobSummary {
+  id: string;
+  clientId: string;
+  clientName?: string;
+  snapshotId: string | null;
+  type: JobType;
+  status: JobStatus;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  errorMessage: string | null;
+  retryCount: number;
+  metadata: Record<string, unknown>;
+  runAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Work description stored in `jobs.metadata` for snapshot and report jobs
+ */
+export interface ReportJobPayload {
+  period: SnapshotPeriodInput;
+  regenerate?: boolean;
+  deliver?: boolean; // Email the PDF to the client's contacts once rendered
+}
+
+export interface EnqueueJobInput {
+  clientId: string;
+  type: JobType;
+  snapshotId?: string | null;
+  metadata?: Record<string, unknown>;
+  runAt?: Date;
+}
+
+export function toJobSummary(job: Job): JobSummary {
+  return {
+    id: job.id,
+    clientId: job.client_id,
+    snapshotId: job.snapshot_id,
+    type: job.type,
+    status: job.status,
+    startedAt: job.started_at,
+    finishedAt: job.finished_at,
+    errorMessage: job.error_message,
+    retryCount: job.retry_count,
+    metadata: job.metadata,
+    runAt: job.run_at,
+    createdAt: job.created_at,
+  };
+}
+
+/**
+ * Turn a clash with the one-active-anomaly-check-per-client index into a 409
+ */
+function toActiveCheckConflict(error: unknown): unknown {
+  const { code, constraint } = error as { code?: string; constraint?: string };
+  return code === "23505" && constraint === "unique_active_anomaly_check"
+    ? new ConflictError("An anomaly check is already queued for this client")
+    : error;
+}
+
+/**
+ * Queue a job for the background worker, verifying the client belongs to the user
+ */
+export async function enqueueJob(userId: string, input: EnqueueJobInput): Promise<JobSummary> {
+  const db = getDb();
+
+  const client = await db
+    .selectFrom("clients")
+    .select("id")
+    .where("id", "=", input.clientId)
+    .where("created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+
+  try {
+    const job = await db
+      .insertInto("jobs")
+      .values({
+        client_id: input.clientId,
+        snapshot_id: input.snapshotId ?? null,
+        type: input.type,
+        status: "pending",
+        metadata: input.metadata ?? {},
+        run_at: input.runAt ?? new Date(),
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toJobSummary(job);
+  } catch (error) {
+    throw toActiveCheckConflict(error);
+  }
+}
+
+/**
+ * List the user's jobs, newest first
+ */
+export async function listJobs(
+  userId: string,
+  filters: ListJobsQuery
+): Promise<{ jobs: JobSummary[]; total: number }> {
+  const db = getDb();
+
+  let query = db
+    .selectFrom("jobs")
+    .innerJoin("clients", "clients.id", "jobs.client_id")
+    .where("clients.created_by", "=", userId);
+
+  if (filters.clientId) query = query.where("jobs.client_id", "=", filters.clientId);
+  if (filters.status) query = query.where("jobs.status", "=", filters.status);
+  if (filters.type) query = query.where("jobs.type", "=", filters.type);
+  if (filters.from) query = query.where("jobs.created_at", ">=", new Date(filters.from));
+  if (filters.to) {
+    // Include the whole final day
+    const end = new Date(filters.to);
+    end.setUTCDate(end.getUTCDate() + 1);
+    query = query.where("jobs.created_at", "<", end);
+  }
+
+  const [jobs, countResult] = await Promise.all([
+    query
+      .selectAll("jobs")
+      .select("clients.name as client_name")
+      .orderBy("jobs.created_at", "desc")
+      .limit(filters.limit)
+      .offset(filters.offset)
+      .execute(),
+    query.select(db.fn.count("jobs.id").as("count")).executeTakeFirst(),
+  ]);
+
+  return {
+    jobs: jobs.map((job) => ({ ...toJobSummary(job), clientName: job.client_name })),
+    total: Number(countResult?.count ?? 0),
+  };
+}
+
+/**
+ * Get a job with ownership check
+ */
+export async function getJob(id: string, userId: string): Promise<JobSummary> {
+  const job = await getOwnedJob(id, userId);
+  return { ...toJobSummary(job), clientName: job.client_name };
+}
+
+/**
+ * Put a failed or cancelled job back in the queue with a fresh set of attempts
+ */
+export async function retryJob(id: string, userId: string): Promise<JobSummary> {
+  const existing = await getOwnedJob(id, userId);
+  if (existing.status !== "failed" && existing.status !== "cancelled") {
+    throw new ValidationError("Only failed or cancelled jobs can be retried");
+  }
+
+  const db = getDb();
+  let job: Job | undefined;
+  try {
+    job = await db
+      .updateTable("jobs")
+      .set({
+        status: "pending",
+        retry_count: 0,
+        run_at: new Date(),
+        started_at: null,
+        finished_at: null,
+        error_message: null,
+      })
+      .where("id", "=", id)
+      .where("status", "=", existing.status)
+      .returningAll()
+      .executeTakeFirst();
+  } catch (error) {
+    throw toActiveCheckConflict(error);
+  }
+
+  if (!job) {
+    throw new ValidationError("Job changed status; refresh and try again");
+  }
+
+  return { ...toJobSummary(job), clientName: existing.client_name };
+}
+
+/**
+ * Cancel a job that has not started yet. Running jobs cannot be interrupted.
+ */
+export async function cancelJob(id: string, userId: string): Promise<JobSummary> {
+  const existing = await getOwnedJob(id, userId);
+  const db = getDb();
+
+  const job = await db
+    .updateTable("jobs")
+    .set({ status: "cancelled", finished_at: new Date() })
+    .where("id", "=", id)
+    .where("status", "=", "pending")
+    .returningAll()
+    .executeTakeFirst();
+
+  if (!job) {
+    throw new ValidationError("Only pending jobs can be cancelled");
+  }
+
+  return { ...toJobSummary(job), clientName: existing.client_name };
+}
+
+async function getOwnedJob(id: string, userId: string) {
+  const db = getDb();
+
+  const job = await db
+    .selectFrom("jobs")
+    .innerJoin("clients", "clients.id", "jobs.client_id")
+    .selectAll("jobs")
+    .select("clients.name as client_name")
+    .where("jobs.id", "=", id)
+    .where("clients.created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!job) {
+    throw new NotFoundError("Job not found");
+  }
+
+  return job;
+}
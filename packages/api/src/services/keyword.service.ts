@@ -0,0 +1,100 @@
+import { getDb } from "../db/database.js";
+import { NotFoundError } from "../lib/errors.js";
+import type { TrackedKeywordInput } from "../lib/validation.js";
+
+export interface TrackedKeywordItem {
+  id: string;
+  keyword: string;
+  engine: string;
+  location: string | null;
+  targetUrl: string | null;
+  createdAt: Date;
+}
+
+async function assertClientOwnership(clientId: string, userId: string): Promise<void> {
+  const db = getDb();
+  const client = await db
+    .selectFrom("clients")
+    .select("id")
+    .where("id", "=", clientId)
+    .where("created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+}
+
+/**
+ * List tracked keywords for a client (no ownership check, for internal use)
+ */
+export async function getTrackedKeywords(clientId: string): Promise<TrackedKeywordItem[]> {
+  const db = getDb();
+
+  const keywords = await db
+    .selectFrom("tracked_keywords")
+    .selectAll()
+    .where("client_id", "=", clientId)
+    .orderBy("created_at", "asc")
+    .orderBy("keyword", "asc")
+    .execute();
+
+  return keywords.map((k) => ({
+    id: k.id,
+    keyword: k.keyword,
+    engine: k.engine,
+    location: k.location,
+    targetUrl: k.target_url,
+    createdAt: k.created_at,
+  }));
+}
+
+/**
+ * List tracked keywords for a client
+ */
+export async function listKeywords(
+  clientId: string,
+  userId: string
+): Promise<TrackedKeywordItem[]> {
+  await assertClientOwnership(clientId, userId);
+  return getTrackedKeywords(clientId);
+}
+
+/**
+ * Replace the tracked keyword list for a client
+ */
+export async function replaceKeywords(
+  clientId: string,
+  userId: string,
+  keywords: TrackedKeywordInput[]
+): Promise<TrackedKeywordItem[]> {
+  await assertClientOwnership(clientId, userId);
+
+  // Drop duplicates (same keyword and engine) before hitting the unique constraint
+  const unique = new Map<string, TrackedKeywordInput>();
+  for (const keyword of keywords) {
+    unique.set(`${keyword.engine}:${keyword.keyword.toLowerCase()}`, keyword);
+  }
+
+  const db = getDb();
+  await db.transaction().execute(async (trx) => {
+    await trx.deleteFrom("tracked_keywords").where("client_id", "=", clientId).execute();
+
+    if (unique.size > 0) {
+      await trx
+        .insertInto("tracked_keywords")
+        .values(
+          Array.from(unique.values()).map((keyword) => ({
+            client_id: clientId,
+            keyword: keyword.keyword,
+            engine: keyword.engine,
+            location: keyword.location ?? null,
+            target_url: keyword.targetUrl ?? null,
+          }))
+        )
+        .execute();
+    }
+  });
+
+  return getTrackedKeywords(clientId);
+}
@@ -1,3 +1,4 @@
+import type { ReportBranding, ReportCommentary, ReportTemplate } from "@agency-reports/shared";
 import type { SnapshotData } from "./snapshot.service.js";
 
 const RENDERER_URL = process.env.RENDERER_URL || "http://localhost:3001";
@@ -5,13 +6,17 @@ const RENDERER_URL = process.env.RENDERER_URL || "http://localhost:3001";
 /**
  * Render a report from snapshot data
  */
-export async function renderReportPdf(data: SnapshotData): Promise<Buffer> {
+export async function renderReportPdf(
+  data: SnapshotData,
+  branding: ReportBranding,
+  commentary: ReportCommentary
+): Promise<Buffer> {
   const response = await fetch(`${RENDERER_URL}/render/report`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ data }),
+    body: JSON.stringify({ data, branding, commentary }),
   });
 
   if (!response.ok) {
@@ -26,13 +31,17 @@ export async function renderReportPdf(data: SnapshotData): Promise<Buffer> {
 /**
  * Render a report HTML preview from snapshot data
  */
-export async function renderReportPreview(data: SnapshotData): Promise<string> {
+export async function renderReportPreview(
+  data: SnapshotData,
+  branding: ReportBranding,
+  commentary: ReportCommentary
+): Promise<string> {
   const response = await fetch(`${RENDERER_URL}/render/preview`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ data }),
+    body: JSON.stringify({ data, branding, commentary }),
   });
 
   if (!response.ok) {
@@ -64,6 +73,21 @@ export async function renderHtmlToPdf(html: string): Promise<Buffer> {
   return Buffer.from(arrayBuffer);
 }
 
+/**
+ * List the report templates the renderer can use
+ */
+export async function listReportTemplates(): Promise<ReportTemplate[]> {
+  const response = await fetch(`${RENDERER_URL}/templates`);
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Renderer error: ${error}`);
+  }
+
+  const body = (await response.json()) as { templates: ReportTemplate[] };
+  return body.templates;
+}
+
 /**
  * Check if renderer service is healthy
  */
@@ -0,0 +1,216 @@
+import { sql } from "kysely";
+import { getDb } from "../db/database.js";
+import type { Snapshot } from "../db/types.js";
+import { getSnapshotKey } from "../lib/periods.js";
+import { DEFAULT_RETENTION_MONTHS, TRASH_GRACE_DAYS } from "../lib/retention.js";
+import { recordAuditEvent } from "./audit.service.js";
+import { getSnapshotPeriod } from "./snapshot.service.js";
+import {
+  copyToTrash,
+  deleteObjects,
+  getTrashedKey,
+  listSnapshotFiles,
+  listTrashedFiles,
+  purgeTrashedFiles,
+} from "./storage.service.js";
+
+export interface RetentionItem {
+  snapshotId: string;
+  clientId: string;
+  periodStart: string;
+  periodEnd: string;
+  files: number;
+}
+
+export interface RetentionFailure {
+  snapshotId: string;
+  error: string;
+}
+
+export interface RetentionSweepResult {
+  dryRun: boolean;
+  trashed: RetentionItem[];
+  purged: RetentionItem[];
+  failed: RetentionFailure[];
+}
+
+export interface RetentionSweepOptions {
+  dryRun?: boolean;
+  now?: Date;
+  shouldContinue?: () => boolean;
+}
+
+/**
+ * Recompute the expiry of a client's live snapshots after its retention changed
+ */
+export async function applyClientRetention(
+  clientId: string,
+  retentionMonths: number | null
+): Promise<void> {
+  const db = getDb();
+  const months = retentionMonths ?? DEFAULT_RETENTION_MONTHS;
+
+  await db
+    .updateTable("snapshots")
+    .set({ expires_at: sql<Date>`created_at + make_interval(months => ${months})` })
+    .where("client_id", "=", clientId)
+    .where("trashed_at", "is", null)
+    .execute();
+}
+
+/**
+ * Trash every snapshot past its expiry, then purge trashed snapshots whose
+ * grace period (SNAPSHOT_TRASH_GRACE_DAYS, 30 by default) has run out. A dry
+ * run reports the same items without changing anything.
+ */
+export async function sweepRetention(
+  options: RetentionSweepOptions = {}
+): Promise<RetentionSweepResult> {
+  const { dryRun = false, now = new Date(), shouldContinue = () => true } = options;
+  const db = getDb();
+  const result: RetentionSweepResult = { dryRun, trashed: [], purged: [], failed: [] };
+
+  const expired = await db
+    .selectFrom("snapshots")
+    .selectAll()
+    .where("trashed_at", "is", null)
+    .where("expires_at", "<=", now)
+    .orderBy("expires_at")
+    .execute();
+
+  for (const snapshot of expired) {
+    if (!shouldContinue()) return result;
+    try {
+      result.trashed.push(await trashSnapshot(snapshot, dryRun, now));
+    } catch (error) {
+      result.failed.push({ snapshotId: snapshot.id, error: toMessage(error) });
+    }
+  }
+
+  const purgeBefore = new Date(now.getTime() - TRASH_GRACE_DAYS * 24 * 60 * 60 * 1000);
+  const trashed = await db
+    .selectFrom("snapshots")
+    .selectAll()
+    .where("trashed_at", "<=", purgeBefore)
+    .orderBy("trashed_at")
+    .execute();
+
+  for (const snapshot of trashed) {
+    if (!shouldContinue()) return result;
+    try {
+      result.purged.push(await purgeSnapshot(snapshot, dryRun));
+    } catch (error) {
+      result.failed.push({ snapshotId: snapshot.id, error: toMessage(error) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Move a snapshot's files to the trash and hide the snapshot. Files are
+ * copied before the database points at them, and the originals removed
+ * only after, so a failure at any step leaves the snapshot readable.
+ */
+async function trashSnapshot(snapshot: Snapshot, dryRun: boolean, now: Date) {
+  const files = await listSnapshotFiles(
+    snapshot.client_id,
+    getSnapshotKey(getSnapshotPeriod(snapshot))
+  );
+  const item = toRetentionItem(snapshot, files.length);
+  if (dryRun) {
+    return item;
+  }
+
+  await copyToTrash(snapshot.client_id, snapshot.id, files);
+
+  const db = getDb();
+  const toTrashedKey = (key: string | null) =>
+    key === null ? null : getTrashedKey(snapshot.client_id, snapshot.id, key);
+
+  await db.transaction().execute(async (trx) => {
+    const revisions = await trx
+      .selectFrom("snapshot_revisions")
+      .select(["id", "storage_path", "pdf_storage_path"])
+      .where("snapshot_id", "=", snapshot.id)
+      .execute();
+
+    for (const revision of revisions) {
+      await trx
+        .updateTable("snapshot_revisions")
+        .set({
+          storage_path: getTrashedKey(snapshot.client_id, snapshot.id, revision.storage_path),
+          pdf_storage_path: toTrashedKey(revision.pdf_storage_path),
+        })
+        .where("id", "=", revision.id)
+        .execute();
+    }
+
+    await trx
+      .updateTable("snapshots")
+      .set({
+        trashed_at: now,
+        storage_path: getTrashedKey(snapshot.client_id, snapshot.id, snapshot.storage_path),
+        pdf_storage_path: toTrashedKey(snapshot.pdf_storage_path),
+      })
+      .where("id", "=", snapshot.id)
+      .execute();
+  });
+
+  await deleteObjects(files);
+
+  await recordAuditEvent({
+    userId: null,
+    clientId: snapshot.client_id,
+    action: "snapshot.trash",
+    targetType: "snapshot",
+    targetId: snapshot.id,
+    outcome: "succeeded",
+    details: { expiresAt: snapshot.expires_at, files: files.length },
+  });
+
+  return item;
+}
+
+/**
+ * Permanently delete a trashed snapshot's files and rows
+ */
+async function purgeSnapshot(snapshot: Snapshot, dryRun: boolean) {
+  const files = await listTrashedFiles(snapshot.client_id, snapshot.id);
+  const item = toRetentionItem(snapshot, files.length);
+  if (dryRun) {
+    return item;
+  }
+
+  await purgeTrashedFiles(snapshot.client_id, snapshot.id);
+
+  const db = getDb();
+  await db.deleteFrom("snapshots").where("id", "=", snapshot.id).execute();
+
+  await recordAuditEvent({
+    userId: null,
+    clientId: snapshot.client_id,
+    action: "snapshot.purge",
+    targetType: "snapshot",
+    targetId: snapshot.id,
+    outcome: "succeeded",
+    details: { trashedAt: snapshot.trashed_at, files: files.length },
+  });
+
+  return item;
+}
+
+function toRetentionItem(snapshot: Snapshot, files: number): RetentionItem {
+  const { current } = getSnapshotPeriod(snapshot);
+  return {
+    snapshotId: snapshot.id,
+    clientId: snapshot.client_id,
+    periodStart: current.startDate,
+    periodEnd: current.endDate,
+    files,
+  };
+}
+
+function toMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
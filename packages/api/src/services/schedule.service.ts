@@ -0,0 +1,209 @@
+import { getDb } from "../db/database.js";
+import type { ReportSchedule, ScheduleComparisonMode } from "../db/types.js";
+import { NotFoundError } from "../lib/errors.js";
+import { getNextRunAt } from "../lib/schedules.js";
+import type { CreateScheduleInput, UpdateScheduleInput } from "../lib/validation.js";
+
+export interface ScheduleSummary {
+  id: string;
+  clientId: string;
+  dayOfMonth: number;
+  timeOfDay: string;
+  timezone: string;
+  comparison: ScheduleComparisonMode;
+  enabled: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastJobId: string | null;
+  createdAt: Date;
+}
+
+function toScheduleSummary(schedule: ReportSchedule, timezone: string): ScheduleSummary {
+  return {
+    id: schedule.id,
+    clientId: schedule.client_id,
+    dayOfMonth: schedule.day_of_month,
+    timeOfDay: schedule.time_of_day,
+    timezone,
+    comparison: schedule.comparison_mode,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.enabled ? schedule.next_run_at : null,
+    lastRunAt: schedule.last_run_at,
+    lastJobId: schedule.last_job_id,
+    createdAt: schedule.created_at,
+  };
+}
+
+async function getOwnedClient(clientId: string, userId: string) {
+  const db = getDb();
+
+  const client = await db
+    .selectFrom("clients")
+    .select(["id", "timezone"])
+    .where("id", "=", clientId)
+    .where("created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+
+  return client;
+}
+
+async function getOwnedSchedule(id: string, clientId: string, userId: string) {
+  const client = await getOwnedClient(clientId, userId);
+  const db = getDb();
+
+  const schedule = await db
+    .selectFrom("report_schedules")
+    .selectAll()
+    .where("id", "=", id)
+    .where("client_id", "=", clientId)
+    .executeTakeFirst();
+
+  if (!schedule) {
+    throw new NotFoundError("Schedule not found");
+  }
+
+  return { client, schedule };
+}
+
+/**
+ * List a client's report schedules
+ */
+export async function listSchedules(clientId: string, userId: string): Promise<ScheduleSummary[]> {
+  const client = await getOwnedClient(clientId, userId);
+  const db = getDb();
+
+  const schedules = await db
+    .selectFrom("report_schedules")
+    .selectAll()
+    .where("client_id", "=", clientId)
+    .orderBy("created_at", "asc")
+    .execute();
+
+  return schedules.map((schedule) => toScheduleSummary(schedule, client.timezone));
+}
+
+/**
+ * Create a monthly report schedule for a client
+ */
+export async function createSchedule(
+  clientId: string,
+  userId: string,
+  input: CreateScheduleInput
+): Promise<ScheduleSummary> {
+  const client = await getOwnedClient(clientId, userId);
+  const db = getDb();
+
+  const schedule = await db
+    .insertInto("report_schedules")
+    .values({
+      client_id: clientId,
+      day_of_month: input.dayOfMonth,
+      time_of_day: input.timeOfDay,
+      comparison_mode: input.comparison,
+      enabled: input.enabled,
+      next_run_at: getNextRunAt({ ...input, timezone: client.timezone }, new Date()),
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return toScheduleSummary(schedule, client.timezone);
+}
+
+/**
+ * Update a schedule, recomputing its next run from now
+ */
+export async function updateSchedule(
+  id: string,
+  clientId: string,
+  userId: string,
+  input: UpdateScheduleInput
+): Promise<ScheduleSummary> {
+  const { client, schedule: existing } = await getOwnedSchedule(id, clientId, userId);
+  const db = getDb();
+
+  const dayOfMonth = input.dayOfMonth ?? existing.day_of_month;
+  const timeOfDay = input.timeOfDay ?? existing.time_of_day;
+
+  const schedule = await db
+    .updateTable("report_schedules")
+    .set({
+      day_of_month: dayOfMonth,
+      time_of_day: timeOfDay,
+      comparison_mode: input.comparison ?? existing.comparison_mode,
+      enabled: input.enabled ?? existing.enabled,
+      next_run_at: getNextRunAt({ dayOfMonth, timeOfDay, timezone: client.timezone }, new Date()),
+      updated_at: new Date(),
+    })
+    .where("id", "=", id)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  return toScheduleSummary(schedule, client.timezone);
+}
+
+/**
+ * Delete a schedule
+ */
+export async function deleteSchedule(id: string, clientId: string, userId: string): Promise<void> {
+  await getOwnedSchedule(id, clientId, userId);
+  const db = getDb();
+
+  await db.deleteFrom("report_schedules").where("id", "=", id).execute();
+}
+
+/**
+ * Recompute next runs after a client's timezone changes
+ */
+export async function rescheduleClient(clientId: string, timezone: string): Promise<void> {
+  const db = getDb();
+  const now = new Date();
+
+  const schedules = await db
+    .selectFrom("report_schedules")
+    .select(["id", "day_of_month", "time_of_day"])
+    .where("client_id", "=", clientId)
+    .execute();
+
+  for (const schedule of schedules) {
+    await db
+      .updateTable("report_schedules")
+      .set({
+        next_run_at: getNextRunAt(
+          { dayOfMonth: schedule.day_of_month, timeOfDay: schedule.time_of_day, timezone },
+          now
+        ),
+        updated_at: now,
+      })
+      .where("id", "=", schedule.id)
+      .execute();
+  }
+}
+
+/**
+ * Earliest upcoming run across each client's enabled schedules
+ */
+export async function getNextRuns(clientIds: string[]): Promise<Map<string, Date>> {
+  const nextRuns = new Map<string, Date>();
+  if (clientIds.length === 0) {
+    return nextRuns;
+  }
+
+  const db = getDb();
+  const rows = await db
+    .selectFrom("report_schedules")
+    .select(["client_id", (eb) => eb.fn.min("next_run_at").as("next_run_at")])
+    .where("client_id", "in", clientIds)
+    .where("enabled", "=", true)
+    .groupBy("client_id")
+    .execute();
+
+  for (const row of rows) {
+    nextRuns.set(row.client_id, new Date(row.next_run_at));
+  }
+
+  return nextRuns;
+}
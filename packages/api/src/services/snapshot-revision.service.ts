@@ -0,0 +1,374 @@
+import { parseReportCommentary, type ReportCommentary } from "@agency-reports/shared";
+import crypto from "crypto";
+import { sql, type Transaction } from "kysely";
+import { getDb } from "../db/database.js";
+import type { Database, Snapshot, SnapshotRevision } from "../db/types.js";
+import { NotFoundError, ValidationError } from "../lib/errors.js";
+import { getSnapshotKey, type SnapshotPeriod } from "../lib/periods.js";
+import type { UpdateCommentaryInput } from "../lib/validation.js";
+import { loadPdfFileFromKey, savePdfFile } from "./storage.service.js";
+
+export interface SnapshotRevisionSummary {
+  id: string;
+  snapshotId: string;
+  revisionNumber: number;
+  contentHash: string | null;
+  pdfHash: string | null;
+  hasPdf: boolean;
+  templateVersion: string;
+  insightsEdited: boolean;
+  generatedAt: Date;
+  createdBy: string | null;
+  createdByEmail: string | null;
+  jobId: string | null;
+  isCurrent: boolean;
+  createdAt: Date;
+}
+
+export interface NewRevisionInput {
+  id?: string;
+  storagePath: string;
+  contentHash: string | null;
+  pdfStoragePath?: string | null;
+  pdfHash?: string | null;
+  templateVersion: string;
+  metricsSummary: Record<string, unknown>;
+  commentary?: Record<string, unknown>;
+  insightsEdited?: boolean;
+  generatedAt: Date;
+  createdBy: string | null;
+  jobId: string | null;
+}
+
+function toRevisionSummary(
+  revision: SnapshotRevision & { created_by_email?: string | null },
+  currentRevisionId: string | null
+): SnapshotRevisionSummary {
+  return {
+    id: revision.id,
+    snapshotId: revision.snapshot_id,
+    revisionNumber: revision.revision_number,
+    contentHash: revision.content_hash,
+    pdfHash: revision.pdf_hash,
+    hasPdf: !!revision.pdf_storage_path,
+    templateVersion: revision.template_version,
+    insightsEdited: revision.insights_edited,
+    generatedAt: revision.generated_at,
+    createdBy: revision.created_by,
+    createdByEmail: revision.created_by_email ?? null,
+    jobId: revision.job_id,
+    isCurrent: revision.id === currentRevisionId,
+    createdAt: revision.created_at,
+  };
+}
+
+/**
+ * Insert the next revision of a snapshot. Numbers are assigned per snapshot;
+ * a concurrent insert loses on the unique constraint and can be retried.
+ */
+export async function insertRevision(
+  trx: Transaction<Database>,
+  snapshotId: string,
+  input: NewRevisionInput
+): Promise<SnapshotRevision> {
+  return trx
+    .insertInto("snapshot_revisions")
+    .values({
+      ...(input.id ? { id: input.id } : {}),
+      snapshot_id: snapshotId,
+      revision_number: sql<number>`(
+        SELECT COALESCE(MAX(revision_number), 0) + 1
+        FROM snapshot_revisions
+        WHERE snapshot_id = ${snapshotId}
+      )`,
+      storage_path: input.storagePath,
+      content_hash: input.contentHash,
+      pdf_storage_path: input.pdfStoragePath ?? null,
+      pdf_hash: input.pdfHash ?? null,
+      template_version: input.templateVersion,
+      metrics_summary: input.metricsSummary,
+      commentary: input.commentary ?? {},
+      insights_edited: input.insightsEdited ?? false,
+      generated_at: input.generatedAt,
+      created_by: input.createdBy,
+      job_id: input.jobId,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+}
+
+/**
+ * Point a snapshot at one of its revisions, copying the revision's storage
+ * keys and summary onto the snapshot row
+ */
+export async function setCurrentRevision(
+  trx: Transaction<Database>,
+  snapshotId: string,
+  revision: SnapshotRevision
+): Promise<Snapshot> {
+  return trx
+    .updateTable("snapshots")
+    .set({
+      current_revision_id: revision.id,
+      storage_path: revision.storage_path,
+      pdf_storage_path: revision.pdf_storage_path,
+      metrics_summary: revision.metrics_summary,
+      template_version: revision.template_version,
+    })
+    .where("id", "=", snapshotId)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+}
+
+/**
+ * Commentary on a snapshot's current revision, to carry over to a new revision
+ */
+export async function getCurrentCommentary(
+  trx: Transaction<Database>,
+  snapshotId: string
+): Promise<Record<string, unknown>> {
+  const revision = await trx
+    .selectFrom("snapshots")
+    .innerJoin("snapshot_revisions", "snapshot_revisions.id", "snapshots.current_revision_id")
+    .select("snapshot_revisions.commentary")
+    .where("snapshots.id", "=", snapshotId)
+    .executeTakeFirst();
+
+  return revision?.commentary ?? {};
+}
+
+/**
+ * Store a rendered PDF for the snapshot's current revision. The first render
+ * fills in the revision; rendering an already rendered revision creates a new
+ * revision over the same data, so a PDF that was sent is never replaced.
+ */
+export async function attachRevisionPdf(
+  snapshotId: string,
+  period: SnapshotPeriod,
+  pdfBuffer: Buffer,
+  userId: string,
+  jobId: string | null = null
+): Promise<Snapshot> {
+  const db = getDb();
+
+  return db.transaction().execute(async (trx) => {
+    // Lock the snapshot so concurrent renders pick distinct revisions
+    const snapshot = await trx
+      .selectFrom("snapshots")
+      .selectAll()
+      .where("id", "=", snapshotId)
+      .forUpdate()
+      .executeTakeFirstOrThrow();
+
+    const current = snapshot.current_revision_id
+      ? await trx
+          .selectFrom("snapshot_revisions")
+          .selectAll()
+          .where("id", "=", snapshot.current_revision_id)
+          .executeTakeFirst()
+      : undefined;
+
+    const snapshotKey = getSnapshotKey(period);
+
+    if (current && !current.pdf_storage_path) {
+      const stored = await savePdfFile(snapshot.client_id, snapshotKey, current.id, pdfBuffer);
+      const revision = await trx
+        .updateTable("snapshot_revisions")
+        .set({ pdf_storage_path: stored.key, pdf_hash: stored.contentHash })
+        .where("id", "=", current.id)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+      return setCurrentRevision(trx, snapshotId, revision);
+    }
+
+    const revisionId = crypto.randomUUID();
+    const stored = await savePdfFile(snapshot.client_id, snapshotKey, revisionId, pdfBuffer);
+    const revision = await insertRevision(trx, snapshotId, {
+      id: revisionId,
+      storagePath: current?.storage_path ?? snapshot.storage_path,
+      contentHash: current?.content_hash ?? null,
+      pdfStoragePath: stored.key,
+      pdfHash: stored.contentHash,
+      templateVersion: current?.template_version ?? snapshot.template_version,
+      metricsSummary: current?.metrics_summary ?? snapshot.metrics_summary,
+      commentary: current?.commentary,
+      insightsEdited: current?.insights_edited,
+      generatedAt: current?.generated_at ?? snapshot.created_at,
+      createdBy: userId,
+      jobId,
+    });
+    return setCurrentRevision(trx, snapshotId, revision);
+  });
+}
+
+async function getOwnedSnapshot(snapshotId: string, userId: string) {
+  const db = getDb();
+
+  const snapshot = await db
+    .selectFrom("snapshots")
+    .innerJoin("clients", "clients.id", "snapshots.client_id")
+    .selectAll("snapshots")
+    .where("snapshots.id", "=", snapshotId)
+    .where("snapshots.trashed_at", "is", null)
+    .where("clients.created_by", "=", userId)
+    .executeTakeFirst();
+
+  if (!snapshot) {
+    throw new NotFoundError("Snapshot not found");
+  }
+
+  return snapshot;
+}
+
+async function getOwnedRevision(snapshotId: string, revisionId: string, userId: string) {
+  const snapshot = await getOwnedSnapshot(snapshotId, userId);
+  const db = getDb();
+
+  const revision = await db
+    .selectFrom("snapshot_revisions")
+    .selectAll()
+    .where("id", "=", revisionId)
+    .where("snapshot_id", "=", snapshotId)
+    .executeTakeFirst();
+
+  if (!revision) {
+    throw new NotFoundError("Revision not found");
+  }
+
+  return { snapshot, revision };
+}
+
+/**
+ * List a snapshot's revisions, newest first
+ */
+export async function listRevisions(
+  snapshotId: string,
+  userId: string
+): Promise<SnapshotRevisionSummary[]> {
+  const snapshot = await getOwnedSnapshot(snapshotId, userId);
+  const db = getDb();
+
+  const revisions = await db
+    .selectFrom("snapshot_revisions")
+    .leftJoin("users", "users.id", "snapshot_revisions.created_by")
+    .selectAll("snapshot_revisions")
+    .select("users.email as created_by_email")
+    .where("snapshot_revisions.snapshot_id", "=", snapshotId)
+    .orderBy("snapshot_revisions.revision_number", "desc")
+    .execute();
+
+  return revisions.map((revision) => toRevisionSummary(revision, snapshot.current_revision_id));
+}
+
+/**
+ * Make an earlier revision current again. Nothing is deleted, so restoring
+ * can itself be undone.
+ */
+export async function restoreRevision(
+  snapshotId: string,
+  revisionId: string,
+  userId: string
+): Promise<Snapshot> {
+  const { snapshot, revision } = await getOwnedRevision(snapshotId, revisionId, userId);
+  if (snapshot.current_revision_id === revision.id) {
+    throw new ValidationError("Revision is already current");
+  }
+
+  const db = getDb();
+  return db.transaction().execute((trx) => setCurrentRevision(trx, snapshotId, revision));
+}
+
+/**
+ * Commentary the snapshot's current revision is rendered with
+ */
+export async function getSnapshotCommentary(
+  snapshotId: string,
+  userId: string
+): Promise<ReportCommentary> {
+  await getOwnedSnapshot(snapshotId, userId);
+  const db = getDb();
+
+  return db
+    .transaction()
+    .execute(async (trx) => parseReportCommentary(await getCurrentCommentary(trx, snapshotId)));
+}
+
+/**
+ * Update the commentary on a snapshot's current revision; blocks left out
+ * keep their text. Like re-rendering, editing a revision that already has a
+ * PDF creates a new revision over the same data, so a sent PDF always
+ * matches its revision.
+ */
+export async function updateSnapshotCommentary(
+  snapshotId: string,
+  userId: string,
+  input: UpdateCommentaryInput
+): Promise<{ commentary: ReportCommentary; revisionId: string }> {
+  await getOwnedSnapshot(snapshotId, userId);
+  const db = getDb();
+
+  return db.transaction().execute(async (trx) => {
+    const snapshot = await trx
+      .selectFrom("snapshots")
+      .selectAll()
+      .where("id", "=", snapshotId)
+      .forUpdate()
+      .executeTakeFirstOrThrow();
+
+    const current = snapshot.current_revision_id
+      ? await trx
+          .selectFrom("snapshot_revisions")
+          .selectAll()
+          .where("id", "=", snapshot.current_revision_id)
+          .executeTakeFirst()
+      : undefined;
+
+    if (!current) {
+      throw new ValidationError("Snapshot has no revision to comment on");
+    }
+
+    const commentary = parseReportCommentary({
+      ...parseReportCommentary(current.commentary),
+      ...input,
+    });
+
+    if (!current.pdf_storage_path) {
+      await trx
+        .updateTable("snapshot_revisions")
+        .set({ commentary })
+        .where("id", "=", current.id)
+        .execute();
+      return { commentary, revisionId: current.id };
+    }
+
+    const revision = await insertRevision(trx, snapshotId, {
+      storagePath: current.storage_path,
+      contentHash: current.content_hash,
+      templateVersion: current.template_version,
+      metricsSummary: current.metrics_summary,
+      commentary,
+      insightsEdited: current.insights_edited,
+      generatedAt: current.generated_at,
+      createdBy: userId,
+      jobId: null,
+    });
+    await setCurrentRevision(trx, snapshotId, revision);
+    return { commentary, revisionId: revision.id };
+  });
+}
+
+/**
+ * Load the PDF exactly as it was rendered for a revision
+ */
+export async function getRevisionPdf(
+  snapshotId: string,
+  revisionId: string,
+  userId: string
+): Promise<{ revision: SnapshotRevision; pdf: Buffer }> {
+  const { revision } = await getOwnedRevision(snapshotId, revisionId, userId);
+  if (!revision.pdf_storage_path) {
+    throw new NotFoundError("PDF not generated for this revision");
+  }
+
+  return { revision, pdf: await loadPdfFileFromKey(revision.pdf_storage_path) };
+}
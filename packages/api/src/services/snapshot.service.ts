@@ -1,58 +1,78 @@
 import {
-  calculateChange,
-  fetchGA4Metrics,
-  getMonthDateRange,
-  getPreviousMonthDateRange,
-  type GA4Metrics,
-} from "../connectors/google-analytics.connector.js";
+  DEFAULT_TEMPLATE_REF,
+  detectPeriodAnomalies,
+  parseSnapshotData,
+  SNAPSHOT_SCHEMA_VERSION,
+  SnapshotSchemaError,
+  validateSnapshotData,
+  type SnapshotData,
+  type SnapshotInsight,
+} from "@agency-reports/shared";
+import crypto from "crypto";
+import type {
+  Connector,
+  ConnectorDataSource,
+  ConnectorPeriod,
+  DateRange,
+  SectionKey,
+  SnapshotSections,
+} from "../connectors/connector.js";
+import { getConnectionIssue } from "../connectors/connection-status.js";
+import { findConnector } from "../connectors/registry.js";
 import { getDb } from "../db/database.js";
-import { NotFoundError, ValidationError } from "../lib/errors.js";
+import type { ComparisonMode, Snapshot } from "../db/types.js";
+import {
+  DataSourceAuthError,
+  InvalidSnapshotError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../lib/errors.js";
+import { evaluateGoals, summarizeGoals } from "../lib/goals.js";
+import { generateInsights } from "../lib/insights.js";
+import { getSnapshotKey, getYearAgoRange, type SnapshotPeriod } from "../lib/periods.js";
+import { getRetentionExpiry } from "../lib/retention.js";
+import type { UpdateInsightsInput } from "../lib/validation.js";
+import { getGoalDefinitions } from "./goal.service.js";
 import {
   deleteSnapshot as deleteSnapshotStorage,
   loadSnapshotData,
-  loadSnapshotDataFromPath,
+  loadSnapshotDataFromKey,
   saveSnapshotData,
 } from "./storage.service.js";
+import {
+  getCurrentCommentary,
+  insertRevision,
+  setCurrentRevision,
+} from "./snapshot-revision.service.js";
 
-export interface SnapshotData {
-  clientId: string;
-  clientName: string;
-  snapshotDate: string;
-  periodStart: string;
-  periodEnd: string;
-  previousPeriodStart: string;
-  previousPeriodEnd: string;
-  templateVersion: string;
-  generatedAt: string;
-  ga4?: {
-    propertyId: string;
-    propertyName: string;
-    current: GA4Metrics;
-    previous: GA4Metrics;
-    changes: {
-      sessions: number;
-      users: number;
-      newUsers: number;
-      pageviews: number;
-      avgSessionDuration: number;
-      bounceRate: number;
-      activeUsers: number;
-      engagementRate: number;
-      userEngagementDuration: number;
-    };
-  };
-}
+export type { SnapshotData } from "@agency-reports/shared";
 
 export interface SnapshotSummary {
   id: string;
   clientId: string;
   snapshotDate: string;
+  periodStart: string;
+  periodEnd: string;
+  comparisonMode: ComparisonMode;
+  comparisonStart: string;
+  comparisonEnd: string;
   templateVersion: string;
   hasPdf: boolean;
+  currentRevisionId: string | null;
   metricsSummary: {
     sessions?: number;
     users?: number;
     pageviews?: number;
+    adClicks?: number;
+    adConversions?: number;
+    adSpend?: number;
+    keywordsTracked?: number;
+    keywordsImproved?: number;
+    keywordsDeclined?: number;
+    goalsTotal?: number;
+    goalsMet?: number;
+    goalAttainment?: number; // Average progress, each goal capped at 1
   };
   createdAt: Date;
 }
@@ -65,21 +85,95 @@ function formatSnapshotDate(date: Date): string {
 }
 
 /**
- * Generate a snapshot for a client for a specific month
+ * Build the period a stored snapshot row covers
+ */
+export function getSnapshotPeriod(
+  snapshot: Pick<
+    Snapshot,
+    "period_start" | "period_end" | "comparison_mode" | "comparison_start" | "comparison_end"
+  >
+): SnapshotPeriod {
+  return {
+    current: {
+      startDate: formatSnapshotDate(snapshot.period_start),
+      endDate: formatSnapshotDate(snapshot.period_end),
+    },
+    comparison: {
+      startDate: formatSnapshotDate(snapshot.comparison_start),
+      endDate: formatSnapshotDate(snapshot.comparison_end),
+    },
+    comparisonMode: snapshot.comparison_mode,
+  };
+}
+
+function toSnapshotSummary(snapshot: Snapshot): SnapshotSummary {
+  const period = getSnapshotPeriod(snapshot);
+  return {
+    id: snapshot.id,
+    clientId: snapshot.client_id,
+    snapshotDate: formatSnapshotDate(snapshot.snapshot_date),
+    periodStart: period.current.startDate,
+    periodEnd: period.current.endDate,
+    comparisonMode: period.comparisonMode,
+    comparisonStart: period.comparison.startDate,
+    comparisonEnd: period.comparison.endDate,
+    templateVersion: snapshot.template_version,
+    hasPdf: !!snapshot.pdf_storage_path,
+    currentRevisionId: snapshot.current_revision_id,
+    metricsSummary: snapshot.metrics_summary as Record<string, number>,
+    createdAt: snapshot.created_at,
+  };
+}
+
+/**
+ * Find a client's snapshot for exactly this report and comparison period
+ */
+export async function findSnapshotByPeriod(
+  clientId: string,
+  userId: string,
+  period: SnapshotPeriod
+) {
+  const db = getDb();
+
+  return db
+    .selectFrom("snapshots")
+    .innerJoin("clients", "clients.id", "snapshots.client_id")
+    .select(["snapshots.id", "snapshots.storage_path", "snapshots.pdf_storage_path"])
+    .where("snapshots.client_id", "=", clientId)
+    .where("snapshots.trashed_at", "is", null)
+    .where("snapshots.period_start", "=", new Date(period.current.startDate))
+    .where("snapshots.period_end", "=", new Date(period.current.endDate))
+    .where("snapshots.comparison_start", "=", new Date(period.comparison.startDate))
+    .where("snapshots.comparison_end", "=", new Date(period.comparison.endDate))
+    .where("clients.created_by", "=", userId)
+    .executeTakeFirst();
+}
+
+/**
+ * Generate a snapshot for a client over a report period and comparison period
  */
 export async function generateSnapshot(
   clientId: string,
   userId: string,
-  year: number,
-  month: number,
-  regenerate = false
+  period: SnapshotPeriod,
+  regenerate = false,
+  jobId: string | null = null
 ): Promise<SnapshotSummary> {
   const db = getDb();
 
   // Verify client ownership
   const client = await db
     .selectFrom("clients")
-    .select(["id", "name"])
+    .select([
+      "id",
+      "name",
+      "timezone",
+      "locale",
+      "currency",
+      "retention_months",
+      "report_template",
+      "insight_settings",
+    ])
     .where("id", "=", clientId)
     .where("created_by", "=", userId)
     .executeTakeFirst();
@@ -88,152 +182,307 @@ export async function generateSnapshot(
     throw new NotFoundError("Client not found");
   }
 
-  // Format snapshot date as first of month
-  const snapshotDate = `${year}-${String(month).padStart(2, "0")}-01`;
+  const snapshotDate = period.current.startDate;
+  const snapshotKey = getSnapshotKey(period);
 
   // Check for existing snapshot
-  const existing = await db
-    .selectFrom("snapshots")
-    .select("id")
-    .where("client_id", "=", clientId)
-    .where("snapshot_date", "=", new Date(snapshotDate))
-    .executeTakeFirst();
+  const existing = await findSnapshotByPeriod(clientId, userId, period);
 
   if (existing && !regenerate) {
-    throw new ValidationError("Snapshot already exists for this month. Use regenerate=true to overwrite.");
+    throw new ValidationError(
+      "Snapshot already exists for this period. Use regenerate=true to create a new revision."
+    );
   }
 
-  // Get GA4 data source
-  const ga4DataSource = await db
+  // Each active data source maps to a registered connector
+  const allDataSources = await db
     .selectFrom("data_sources")
-    .select(["id", "external_account_id", "external_account_name", "config"])
+    .select(["id", "type", "status", "external_account_id", "external_account_name", "config"])
     .where("client_id", "=", clientId)
-    .where("type", "=", "google_analytics")
-    .where("status", "=", "active")
-    .executeTakeFirst();
+    .execute();
+
+  // A source whose credentials were rejected would silently drop out of the
+  // report, so refuse to generate until it has been reconnected
+  for (const ds of allDataSources) {
+    const issue = getConnectionIssue(ds.config);
+    if (ds.status !== "active" && issue) {
+      throw new DataSourceAuthError(
+        `The ${ds.type} data source must be reconnected before generating a report: ${issue.message}`,
+        ds.status,
+        issue.reason
+      );
+    }
+  }
 
-  // Get date ranges
-  const currentRange = getMonthDateRange(year, month);
-  const previousRange = getPreviousMonthDateRange(year, month);
+  const dataSources = allDataSources.filter((ds) => ds.status === "active");
 
   // Build snapshot data
   const snapshotData: SnapshotData = {
+    schemaVersion: SNAPSHOT_SCHEMA_VERSION,
     clientId,
     clientName: client.name,
     snapshotDate,
-    periodStart: currentRange.startDate,
-    periodEnd: currentRange.endDate,
-    previousPeriodStart: previousRange.startDate,
-    previousPeriodEnd: previousRange.endDate,
-    templateVersion: "1.0",
+    periodStart: period.current.startDate,
+    periodEnd: period.current.endDate,
+    previousPeriodStart: period.comparison.startDate,
+    previousPeriodEnd: period.comparison.endDate,
+    comparisonMode: period.comparisonMode,
+    templateVersion: client.report_template ?? DEFAULT_TEMPLATE_REF,
     generatedAt: new Date().toISOString(),
+    locale: client.locale,
+    currency: client.currency,
+    timezone: client.timezone,
+    insights: [],
+    goals: [],
+    anomalies: [],
   };
 
-  // Fetch GA4 metrics if connected
-  if (ga4DataSource?.external_account_id) {
-    const propertyId = ga4DataSource.external_account_id;
-
-    const [currentMetrics, previousMetrics] = await Promise.all([
-      fetchGA4Metrics(ga4DataSource.id, propertyId, currentRange, {
-        clientId,
-        snapshotDate,
-        label: "current",
-      }),
-      fetchGA4Metrics(ga4DataSource.id, propertyId, previousRange, {
-        clientId,
-        snapshotDate,
-        label: "previous",
-      }),
-    ]);
-
-    snapshotData.ga4 = {
-      propertyId,
-      propertyName: ga4DataSource.external_account_name ?? propertyId,
-      current: currentMetrics,
-      previous: previousMetrics,
-      changes: {
-        sessions: calculateChange(currentMetrics.sessions, previousMetrics.sessions),
-        users: calculateChange(currentMetrics.users, previousMetrics.users),
-        newUsers: calculateChange(currentMetrics.newUsers, previousMetrics.newUsers),
-        pageviews: calculateChange(currentMetrics.pageviews, previousMetrics.pageviews),
-        avgSessionDuration: calculateChange(
-          currentMetrics.avgSessionDuration,
-          previousMetrics.avgSessionDuration
-        ),
-        bounceRate: calculateChange(currentMetrics.bounceRate, previousMetrics.bounceRate),
-        activeUsers: calculateChange(currentMetrics.activeUsers, previousMetrics.activeUsers),
-        engagementRate: calculateChange(currentMetrics.engagementRate, previousMetrics.engagementRate),
-        userEngagementDuration: calculateChange(
-          currentMetrics.userEngagementDuration,
-          previousMetrics.userEngagementDuration
-        ),
-      },
-    };
+  const yearAgo = getYearAgoRange(period.current);
+  const connectorPeriod: ConnectorPeriod = {
+    clientId,
+    snapshotDate,
+    snapshotKey,
+    current: period.current,
+    previous: period.comparison,
+    yearAgo,
+    previousSnapshot: await loadPreviousSnapshot(clientId, snapshotDate),
+    yearAgoSnapshot: await loadSnapshotForRange(clientId, yearAgo),
+  };
+
+  // Run every connector and merge its section into the snapshot
+  const metricsSummary: Record<string, number> = {};
+  const results = await Promise.all(
+    dataSources.map((ds) => {
+      const connector = findConnector(ds.type);
+      if (!connector) return null;
+      return runConnector(
+        connector,
+        {
+          id: ds.id,
+          clientId,
+          externalAccountId: ds.external_account_id,
+          externalAccountName: ds.external_account_name,
+          config: ds.config ?? {},
+        },
+        connectorPeriod
+      );
+    })
+  );
+
+  for (const result of results) {
+    if (!result) continue;
+    Object.assign(snapshotData, result.sections);
+    Object.assign(metricsSummary, result.summary);
   }
 
-  // Save snapshot data to storage
-  const storagePath = await saveSnapshotData(clientId, snapshotDate, snapshotData as unknown as Record<string, unknown>);
+  // Highlights are rebuilt from the new data under the client's thresholds and
+  // phrasing, unless the current ones were edited by hand; like commentary,
+  // those are kept
+  const edited = existing ? await getEditedInsights(existing.id) : null;
+  snapshotData.insights =
+    edited?.insights ?? generateInsights(snapshotData, client.insight_settings);
+
+  // Stored so re-rendering the snapshot always marks the same days
+  snapshotData.anomalies = snapshotData.ga4
+    ? detectPeriodAnomalies(
+        snapshotData.ga4.current.dailyMetrics,
+        snapshotData.ga4.previous.dailyMetrics
+      )
+    : [];
+
+  // Goals are measured as they stand now; later target changes need a regenerate
+  snapshotData.goals = evaluateGoals(snapshotData, await getGoalDefinitions(clientId));
+  Object.assign(metricsSummary, summarizeGoals(snapshotData.goals));
+
+  // Every generation is stored as a new revision; earlier ones are kept
+  const revisionId = crypto.randomUUID();
+  const stored = await saveSnapshotData(
+    clientId,
+    snapshotKey,
+    revisionId,
+    checkSnapshotData(validateSnapshotData, snapshotData)
+  );
+
+  const snapshot = await db.transaction().execute(async (trx) => {
+    if (existing) {
+      const current = await trx
+        .selectFrom("snapshots")
+        .leftJoin("snapshot_revisions", "snapshot_revisions.id", "snapshots.current_revision_id")
+        .select(["snapshot_revisions.storage_path", "snapshot_revisions.insights_edited"])
+        .where("snapshots.id", "=", existing.id)
+        .forUpdate("snapshots")
+        .executeTakeFirstOrThrow();
+
+      // Don't drop highlights that were edited after they were read
+      if (current.insights_edited && current.storage_path !== edited?.storagePath) {
+        throw new ConflictError(
+          "Highlights were edited while regenerating the snapshot; try again"
+        );
+      }
+    }
+
+    const snapshotId =
+      existing?.id ??
+      (
+        await trx
+          .insertInto("snapshots")
+          .values({
+            client_id: clientId,
+            snapshot_date: new Date(snapshotDate),
+            period_start: new Date(period.current.startDate),
+            period_end: new Date(period.current.endDate),
+            comparison_mode: period.comparisonMode,
+            comparison_start: new Date(period.comparison.startDate),
+            comparison_end: new Date(period.comparison.endDate),
+            template_version: snapshotData.templateVersion,
+            storage_path: stored.key,
+            metrics_summary: metricsSummary,
+            expires_at: getRetentionExpiry(new Date(), client.retention_months),
+          })
+          .returning("id")
+          .executeTakeFirstOrThrow()
+      ).id;
+
+    const revision = await insertRevision(trx, snapshotId, {
+      id: revisionId,
+      storagePath: stored.key,
+      contentHash: stored.contentHash,
+      templateVersion: snapshotData.templateVersion,
+      metricsSummary,
+      // Regenerating refreshes the data but keeps the agency's commentary
+      commentary: existing ? await getCurrentCommentary(trx, snapshotId) : undefined,
+      insightsEdited: !!edited,
+      generatedAt: new Date(snapshotData.generatedAt),
+      createdBy: userId,
+      jobId,
+    });
+
+    return setCurrentRevision(trx, snapshotId, revision);
+  });
+
+  return toSnapshotSummary(snapshot);
+}
 
-  // Create metrics summary for quick access
-  const metricsSummary: Record<string, number> = {};
-  if (snapshotData.ga4) {
-    metricsSummary.sessions = snapshotData.ga4.current.sessions;
-    metricsSummary.users = snapshotData.ga4.current.users;
-    metricsSummary.pageviews = snapshotData.ga4.current.pageviews;
+/**
+ * Highlights on a snapshot's current revision if they were edited by hand,
+ * with the stored data they were read from
+ */
+async function getEditedInsights(
+  snapshotId: string
+): Promise<{ storagePath: string; insights: SnapshotInsight[] } | null> {
+  const revision = await getDb()
+    .selectFrom("snapshots")
+    .innerJoin("snapshot_revisions", "snapshot_revisions.id", "snapshots.current_revision_id")
+    .select(["snapshot_revisions.storage_path", "snapshot_revisions.insights_edited"])
+    .where("snapshots.id", "=", snapshotId)
+    .executeTakeFirst();
+
+  if (!revision?.insights_edited) return null;
+
+  const { insights } = await readSnapshotData(revision.storage_path);
+  return { storagePath: revision.storage_path, insights };
+}
+
+/**
+ * Read stored snapshot JSON, upgrading files written by older schema versions
+ */
+async function readSnapshotData(key: string): Promise<SnapshotData> {
+  return checkSnapshotData(parseSnapshotData, await loadSnapshotDataFromKey(key));
+}
+
+function checkSnapshotData(
+  check: (raw: unknown) => SnapshotData,
+  raw: unknown
+): SnapshotData {
+  try {
+    return check(raw);
+  } catch (error) {
+    if (error instanceof SnapshotSchemaError) {
+      throw new InvalidSnapshotError(error.message);
+    }
+    throw error;
   }
+}
 
-  // Upsert snapshot record in database
-  if (existing) {
-    await db
-      .updateTable("snapshots")
-      .set({
-        storage_path: storagePath,
-        metrics_summary: metricsSummary,
-        template_version: "1.0",
-      })
-      .where("id", "=", existing.id)
-      .execute();
-
-    const snapshot = await db
-      .selectFrom("snapshots")
-      .selectAll()
-      .where("id", "=", existing.id)
-      .executeTakeFirstOrThrow();
+/**
+ * Fetch one connector's section and its metrics summary
+ */
+async function runConnector<K extends SectionKey>(
+  connector: Connector<K>,
+  dataSource: ConnectorDataSource,
+  period: ConnectorPeriod
+): Promise<{ sections: SnapshotSections; summary: Record<string, number> } | null> {
+  const section = await connector.fetch(dataSource, period);
+  if (!section) {
+    return null;
+  }
 
-    return {
-      id: snapshot.id,
-      clientId: snapshot.client_id,
-      snapshotDate: formatSnapshotDate(snapshot.snapshot_date),
-      templateVersion: snapshot.template_version,
-      hasPdf: !!snapshot.pdf_storage_path,
-      metricsSummary: snapshot.metrics_summary as Record<string, number>,
-      createdAt: snapshot.created_at,
-    };
+  const sections: SnapshotSections = {};
+  sections[connector.sectionKey] = section;
+  return { sections, summary: connector.summarize(section) };
+}
+
+/**
+ * Load the client's most recent snapshot before the given date
+ */
+async function loadPreviousSnapshot(
+  clientId: string,
+  snapshotDate: string
+): Promise<SnapshotData | null> {
+  const db = getDb();
+
+  const previous = await db
+    .selectFrom("snapshots")
+    .select(["storage_path"])
+    .where("client_id", "=", clientId)
+    .where("trashed_at", "is", null)
+    .where("snapshot_date", "<", new Date(snapshotDate))
+    .orderBy("snapshot_date", "desc")
+    .limit(1)
+    .executeTakeFirst();
+
+  if (!previous?.storage_path) {
+    return null;
   }
 
-  // Create new snapshot record
-  const snapshot = await db
-    .insertInto("snapshots")
-    .values({
-      client_id: clientId,
-      snapshot_date: new Date(snapshotDate),
-      template_version: "1.0",
-      storage_path: storagePath,
-      metrics_summary: metricsSummary,
-      expires_at: new Date(Date.now() + 24 * 30 * 24 * 60 * 60 * 1000), // 24 months
-    })
-    .returningAll()
-    .executeTakeFirstOrThrow();
+  try {
+    return await readSnapshotData(previous.storage_path);
+  } catch {
+    // Previous snapshot file is missing; treat as the first snapshot
+    return null;
+  }
+}
 
-  return {
-    id: snapshot.id,
-    clientId: snapshot.client_id,
-    snapshotDate: formatSnapshotDate(snapshot.snapshot_date),
-    templateVersion: snapshot.template_version,
-    hasPdf: false,
-    metricsSummary: snapshot.metrics_summary as Record<string, number>,
-    createdAt: snapshot.created_at,
-  };
+/**
+ * Load the client's latest stored snapshot covering exactly this report range
+ */
+async function loadSnapshotForRange(
+  clientId: string,
+  range: DateRange
+): Promise<SnapshotData | null> {
+  const db = getDb();
+
+  const stored = await db
+    .selectFrom("snapshots")
+    .select(["storage_path"])
+    .where("client_id", "=", clientId)
+    .where("trashed_at", "is", null)
+    .where("period_start", "=", new Date(range.startDate))
+    .where("period_end", "=", new Date(range.endDate))
+    .orderBy("created_at", "desc")
+    .limit(1)
+    .executeTakeFirst();
+
+  if (!stored?.storage_path) {
+    return null;
+  }
+
+  try {
+    return await readSnapshotData(stored.storage_path);
+  } catch {
+    // Stored file is missing; connectors fall back to fetching
+    return null;
+  }
 }
 
 /**
@@ -264,7 +513,9 @@ export async function listSnapshots(
       .selectFrom("snapshots")
       .selectAll()
       .where("client_id", "=", clientId)
+      .where("trashed_at", "is", null)
       .orderBy("snapshot_date", "desc")
+      .orderBy("period_end", "desc")
       .limit(limit)
       .offset(offset)
       .execute(),
@@ -272,19 +523,12 @@ export async function listSnapshots(
       .selectFrom("snapshots")
       .select(db.fn.count("id").as("count"))
       .where("client_id", "=", clientId)
+      .where("trashed_at", "is", null)
       .executeTakeFirst(),
   ]);
 
   return {
-    snapshots: snapshots.map((s) => ({
-      id: s.id,
-      clientId: s.client_id,
-      snapshotDate: formatSnapshotDate(s.snapshot_date),
-      templateVersion: s.template_version,
-      hasPdf: !!s.pdf_storage_path,
-      metricsSummary: s.metrics_summary as Record<string, number>,
-      createdAt: s.created_at,
-    })),
+    snapshots: snapshots.map(toSnapshotSummary),
     total: Number(countResult?.count ?? 0),
   };
 }
@@ -301,13 +545,9 @@ export async function getSnapshotData(
   const snapshot = await db
     .selectFrom("snapshots")
     .innerJoin("clients", "clients.id", "snapshots.client_id")
-    .select([
-      "snapshots.id",
-      "snapshots.client_id",
-      "snapshots.snapshot_date",
-      "snapshots.storage_path",
-    ])
+    .selectAll("snapshots")
     .where("snapshots.id", "=", snapshotId)
+    .where("snapshots.trashed_at", "is", null)
     .where("clients.created_by", "=", userId)
     .executeTakeFirst();
 
@@ -315,14 +555,131 @@ export async function getSnapshotData(
     throw new NotFoundError("Snapshot not found");
   }
 
-  const data = snapshot.storage_path
-    ? await loadSnapshotDataFromPath(snapshot.storage_path)
-    : await loadSnapshotData(
-        snapshot.client_id,
-        formatSnapshotDate(snapshot.snapshot_date)
-      );
+  if (snapshot.storage_path) {
+    return readSnapshotData(snapshot.storage_path);
+  }
+
+  const data = await loadSnapshotData(
+    snapshot.client_id,
+    getSnapshotKey(getSnapshotPeriod(snapshot))
+  );
+  return checkSnapshotData(parseSnapshotData, data);
+}
 
-  return data as unknown as SnapshotData;
+export interface SnapshotInsights {
+  insights: SnapshotInsight[];
+  /** Highlights the data suggests under the client's current settings */
+  suggested: SnapshotInsight[];
+  /** The highlights were edited by hand, so regenerating the snapshot keeps them */
+  edited: boolean;
+}
+
+/**
+ * Highlights a snapshot's data suggests under its client's current settings
+ */
+async function suggestInsights(snapshotId: string, data: SnapshotData): Promise<SnapshotInsight[]> {
+  const { insight_settings } = await getDb()
+    .selectFrom("snapshots")
+    .innerJoin("clients", "clients.id", "snapshots.client_id")
+    .select("clients.insight_settings")
+    .where("snapshots.id", "=", snapshotId)
+    .executeTakeFirstOrThrow();
+
+  return generateInsights(data, insight_settings);
+}
+
+function isSameInsights(a: SnapshotInsight[], b: SnapshotInsight[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((insight, i) => insight.rule === b[i]!.rule && insight.text === b[i]!.text)
+  );
+}
+
+/**
+ * A snapshot's highlights, whether they were edited by hand, and those its
+ * data suggests
+ */
+export async function getSnapshotInsights(
+  snapshotId: string,
+  userId: string
+): Promise<SnapshotInsights> {
+  const data = await getSnapshotData(snapshotId, userId);
+
+  const revision = await getDb()
+    .selectFrom("snapshots")
+    .innerJoin("snapshot_revisions", "snapshot_revisions.id", "snapshots.current_revision_id")
+    .select("snapshot_revisions.insights_edited")
+    .where("snapshots.id", "=", snapshotId)
+    .executeTakeFirst();
+
+  return {
+    insights: data.insights,
+    suggested: await suggestInsights(snapshotId, data),
+    edited: revision?.insights_edited ?? false,
+  };
+}
+
+/**
+ * Replace a snapshot's highlights. Stored snapshot data is never rewritten,
+ * so the edited data becomes a new revision, with the current revision's
+ * commentary and no PDF until it is rendered again.
+ *
+ * Highlights that differ from the suggested ones are marked as edited and
+ * survive a regenerate; saving the suggestions unchanged clears the mark.
+ */
+export async function updateSnapshotInsights(
+  snapshotId: string,
+  userId: string,
+  input: UpdateInsightsInput
+): Promise<{ snapshot: SnapshotSummary; edited: boolean }> {
+  const data = await getSnapshotData(snapshotId, userId);
+  const edited = !isSameInsights(input.insights, await suggestInsights(snapshotId, data));
+  const db = getDb();
+
+  const base = await db
+    .selectFrom("snapshots")
+    .selectAll()
+    .where("id", "=", snapshotId)
+    .executeTakeFirstOrThrow();
+
+  const revisionId = crypto.randomUUID();
+  const stored = await saveSnapshotData(
+    base.client_id,
+    getSnapshotKey(getSnapshotPeriod(base)),
+    revisionId,
+    checkSnapshotData(validateSnapshotData, { ...data, insights: input.insights })
+  );
+
+  const snapshot = await db.transaction().execute(async (trx) => {
+    const locked = await trx
+      .selectFrom("snapshots")
+      .selectAll()
+      .where("id", "=", snapshotId)
+      .forUpdate()
+      .executeTakeFirstOrThrow();
+
+    // The data was read outside the lock; don't overwrite a newer revision with it
+    if (locked.current_revision_id !== base.current_revision_id) {
+      throw new ConflictError("Snapshot changed while saving highlights; reload and try again");
+    }
+
+    const revision = await insertRevision(trx, snapshotId, {
+      id: revisionId,
+      storagePath: stored.key,
+      contentHash: stored.contentHash,
+      templateVersion: locked.template_version,
+      metricsSummary: locked.metrics_summary,
+      commentary: await getCurrentCommentary(trx, snapshotId),
+      insightsEdited: edited,
+      generatedAt: new Date(data.generatedAt),
+      createdBy: userId,
+      jobId: null,
+    });
+
+    return setCurrentRevision(trx, snapshotId, revision);
+  });
+
+  return { snapshot: toSnapshotSummary(snapshot), edited };
 }
 
 /**
@@ -337,16 +694,9 @@ export async function getSnapshot(
   const snapshot = await db
     .selectFrom("snapshots")
     .innerJoin("clients", "clients.id", "snapshots.client_id")
-    .select([
-      "snapshots.id",
-      "snapshots.client_id",
-      "snapshots.snapshot_date",
-      "snapshots.template_version",
-      "snapshots.pdf_storage_path",
-      "snapshots.metrics_summary",
-      "snapshots.created_at",
-    ])
+    .selectAll("snapshots")
     .where("snapshots.id", "=", snapshotId)
+    .where("snapshots.trashed_at", "is", null)
     .where("clients.created_by", "=", userId)
     .executeTakeFirst();
 
@@ -354,15 +704,7 @@ export async function getSnapshot(
     throw new NotFoundError("Snapshot not found");
   }
 
-  return {
-    id: snapshot.id,
-    clientId: snapshot.client_id,
-    snapshotDate: formatSnapshotDate(snapshot.snapshot_date),
-    templateVersion: snapshot.template_version,
-    hasPdf: !!snapshot.pdf_storage_path,
-    metricsSummary: snapshot.metrics_summary as Record<string, number>,
-    createdAt: snapshot.created_at,
-  };
+  return toSnapshotSummary(snapshot);
 }
 
 /**
@@ -376,14 +718,9 @@ export async function deleteSnapshot(
   const snapshot = await db
     .selectFrom("snapshots")
     .innerJoin("clients", "clients.id", "snapshots.client_id")
-    .select([
-      "snapshots.id",
-      "snapshots.client_id",
-      "snapshots.snapshot_date",
-      "snapshots.storage_path",
-      "snapshots.pdf_storage_path",
-    ])
+    .selectAll("snapshots")
     .where("snapshots.id", "=", snapshotId)
+    .where("snapshots.trashed_at", "is", null)
     .where("clients.created_by", "=", userId)
     .executeTakeFirst();
 
@@ -393,6 +730,5 @@ export async function deleteSnapshot(
 
   await db.deleteFrom("snapshots").where("id", "=", snapshotId).execute();
 
-  const snapshotDate = formatSnapshotDate(snapshot.snapshot_date);
-  await deleteSnapshotStorage(snapshot.client_id, snapshotDate);
+  await deleteSnapshotStorage(snapshot.client_id, getSnapshotKey(getSnapshotPeriod(snapshot)));
 }
@@ -1,63 +1,63 @@
-import { promises as fs } from "fs";
-import path from "path";
+import type { LogoContentType } from "@agency-reports/shared";
+import crypto from "crypto";
+import { getStorageBackend } from "../storage/registry.js";
 
-const STORAGE_PATH = process.env.STORAGE_PATH || "./storage";
+export interface StoredObject {
+  key: string;
+  /** SHA-256 of the stored bytes, hex encoded */
+  contentHash: string;
+}
 
 /**
- * Ensure storage directory exists
+ * Key prefix for all of a client's snapshots
  */
-async function ensureDir(dirPath: string): Promise<void> {
-  try {
-    await fs.mkdir(dirPath, { recursive: true });
-  } catch (error) {
-    // Ignore if directory already exists
-    if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
-      throw error;
-    }
-  }
+function getClientPrefix(clientId: string): string {
+  return `snapshots/${clientId}/`;
 }
 
 /**
- * Get the storage path for a client's snapshots
+ * Key of a file stored alongside a specific snapshot
  */
-function getClientPath(clientId: string): string {
-  return path.join(STORAGE_PATH, "snapshots", clientId);
+function getSnapshotFileKey(clientId: string, snapshotKey: string, fileName: string): string {
+  return `${getClientPrefix(clientId)}${snapshotKey}/${fileName}`;
 }
 
 /**
- * Get the file path for a specific snapshot
+ * Key of a file belonging to one revision of a snapshot. Revisions never
+ * share keys, so a stored revision is never overwritten.
  */
-function getSnapshotPath(clientId: string, snapshotDate: string): string {
-  return path.join(getClientPath(clientId), snapshotDate);
+function getRevisionFileKey(
+  clientId: string,
+  snapshotKey: string,
+  revisionId: string,
+  fileName: string
+): string {
+  return getSnapshotFileKey(clientId, snapshotKey, `revisions/${revisionId}/${fileName}`);
+}
+
+async function putHashed(key: string, body: Buffer, contentType: string): Promise<StoredObject> {
+  await getStorageBackend().put(key, body, { contentType });
+  return { key, contentHash: crypto.createHash("sha256").update(body).digest("hex") };
 }
 
 /**
- * Save snapshot JSON data
+ * Save a snapshot revision's JSON data
  */
 export async function saveSnapshotData(
   clientId: string,
-  snapshotDate: string,
+  snapshotKey: string,
+  revisionId: string,
   data: Record<string, unknown>
-): Promise<string> {
-  const snapshotDir = getSnapshotPath(clientId, snapshotDate);
-  await ensureDir(snapshotDir);
-
-  const filePath = path.join(snapshotDir, "snapshot.json");
-  await fs.writeFile(filePath, JSON.stringify(data, null, 2));
-
-  return filePath;
+): Promise<StoredObject> {
+  const key = getRevisionFileKey(clientId, snapshotKey, revisionId, "snapshot.json");
+  return putHashed(key, Buffer.from(JSON.stringify(data, null, 2)), "application/json");
 }
 
 /**
- * Check if a file exists
+ * Check if a stored object exists
  */
-export async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
-  }
+export async function objectExists(key: string): Promise<boolean> {
+  return getStorageBackend().exists(key);
 }
 
 /**
@@ -65,121 +65,199 @@ export async function fileExists(filePath: string): Promise<boolean> {
  */
 export async function saveGa4DebugPayload(
   clientId: string,
-  snapshotDate: string,
+  snapshotKey: string,
   label: string,
   payload: Record<string, unknown>
 ): Promise<string> {
-  const snapshotDir = getSnapshotPath(clientId, snapshotDate);
-  await ensureDir(snapshotDir);
-
-  const filePath = path.join(snapshotDir, `ga4-raw-${label}.json`);
-  await fs.writeFile(filePath, JSON.stringify(payload, null, 2));
-
-  return filePath;
+  const key = getSnapshotFileKey(clientId, snapshotKey, `ga4-raw-${label}.json`);
+  await getStorageBackend().put(key, JSON.stringify(payload, null, 2), {
+    contentType: "application/json",
+  });
+  return key;
 }
 
 /**
- * Load snapshot JSON data
+ * Load snapshot JSON data stored before revisions existed
  */
 export async function loadSnapshotData(
   clientId: string,
-  snapshotDate: string
+  snapshotKey: string
 ): Promise<Record<string, unknown>> {
-  const filePath = path.join(getSnapshotPath(clientId, snapshotDate), "snapshot.json");
-  const content = await fs.readFile(filePath, "utf-8");
-  return JSON.parse(content);
+  return loadSnapshotDataFromKey(getSnapshotFileKey(clientId, snapshotKey, "snapshot.json"));
 }
 
 /**
- * Load snapshot JSON data from a stored file path
+ * Load snapshot JSON data from a stored key
  */
-export async function loadSnapshotDataFromPath(
-  filePath: string
-): Promise<Record<string, unknown>> {
-  const content = await fs.readFile(filePath, "utf-8");
-  return JSON.parse(content);
+export async function loadSnapshotDataFromKey(key: string): Promise<Record<string, unknown>> {
+  const content = await getStorageBackend().get(key);
+  return JSON.parse(content.toString("utf-8"));
 }
 
 /**
- * Save PDF file
+ * Save a snapshot revision's rendered PDF
  */
 export async function savePdfFile(
   clientId: string,
-  snapshotDate: string,
+  snapshotKey: string,
+  revisionId: string,
   pdfBuffer: Buffer
-): Promise<string> {
-  const snapshotDir = getSnapshotPath(clientId, snapshotDate);
-  await ensureDir(snapshotDir);
+): Promise<StoredObject> {
+  const key = getRevisionFileKey(clientId, snapshotKey, revisionId, "report.pdf");
+  return putHashed(key, pdfBuffer, "application/pdf");
+}
+
+/**
+ * Load a PDF stored before revisions existed
+ */
+export async function loadPdfFile(clientId: string, snapshotKey: string): Promise<Buffer> {
+  return loadPdfFileFromKey(getSnapshotFileKey(clientId, snapshotKey, "report.pdf"));
+}
 
-  const filePath = path.join(snapshotDir, "report.pdf");
-  await fs.writeFile(filePath, pdfBuffer);
+/**
+ * Load PDF file from a stored key
+ */
+export async function loadPdfFileFromKey(key: string): Promise<Buffer> {
+  return getStorageBackend().get(key);
+}
 
-  return filePath;
+/**
+ * Check if snapshot exists
+ */
+export async function snapshotExists(clientId: string, snapshotKey: string): Promise<boolean> {
+  return objectExists(getSnapshotFileKey(clientId, snapshotKey, "snapshot.json"));
 }
 
 /**
- * Load PDF file
+ * Delete snapshot files
  */
-export async function loadPdfFile(
-  clientId: string,
-  snapshotDate: string
-): Promise<Buffer> {
-  const filePath = path.join(getSnapshotPath(clientId, snapshotDate), "report.pdf");
-  return fs.readFile(filePath);
+export async function deleteSnapshot(clientId: string, snapshotKey: string): Promise<void> {
+  await deletePrefix(`${getClientPrefix(clientId)}${snapshotKey}/`);
 }
 
 /**
- * Load PDF file from a stored file path
+ * List all snapshots for a client
  */
-export async function loadPdfFileFromPath(filePath: string): Promise<Buffer> {
-  return fs.readFile(filePath);
+export async function listSnapshots(clientId: string): Promise<string[]> {
+  const prefix = getClientPrefix(clientId);
+  const keys = await getStorageBackend().list(prefix);
+
+  const snapshotKeys = new Set(keys.map((key) => key.slice(prefix.length).split("/")[0] ?? ""));
+  snapshotKeys.delete("");
+  return Array.from(snapshotKeys).sort().reverse(); // Most recent first
 }
 
 /**
- * Check if snapshot exists
+ * Key prefix under which a trashed snapshot's files wait to be purged. The
+ * snapshot id keeps trashed copies of the same period apart.
  */
-export async function snapshotExists(
-  clientId: string,
-  snapshotDate: string
-): Promise<boolean> {
-  try {
-    const filePath = path.join(getSnapshotPath(clientId, snapshotDate), "snapshot.json");
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
+function getTrashPrefix(clientId: string, snapshotId: string): string {
+  return `trash/${getClientPrefix(clientId)}${snapshotId}/`;
+}
+
+/**
+ * Where a snapshot file lives once its snapshot has been trashed
+ */
+export function getTrashedKey(clientId: string, snapshotId: string, key: string): string {
+  const prefix = getClientPrefix(clientId);
+  if (!key.startsWith(prefix)) {
+    throw new Error(`Storage key ${key} does not belong to client ${clientId}`);
   }
+  return `${getTrashPrefix(clientId, snapshotId)}${key.slice(prefix.length)}`;
 }
 
 /**
- * Delete snapshot files
+ * List every stored file of a snapshot, across all of its revisions
+ */
+export async function listSnapshotFiles(clientId: string, snapshotKey: string): Promise<string[]> {
+  return getStorageBackend().list(`${getClientPrefix(clientId)}${snapshotKey}/`);
+}
+
+/**
+ * Copy a snapshot's files into the trash. The originals are left in place so
+ * nothing is lost if the copy fails part way; remove them with deleteObjects.
  */
-export async function deleteSnapshot(
+export async function copyToTrash(
   clientId: string,
-  snapshotDate: string
+  snapshotId: string,
+  keys: string[]
 ): Promise<void> {
-  const snapshotDir = getSnapshotPath(clientId, snapshotDate);
-  await fs.rm(snapshotDir, { recursive: true, force: true });
+  const backend = getStorageBackend();
+  for (const key of keys) {
+    const body = await backend.get(key);
+    await backend.put(getTrashedKey(clientId, snapshotId, key), body, {
+      contentType: getContentType(key),
+    });
+  }
 }
 
 /**
- * List all snapshots for a client
+ * List the files kept in the trash for a snapshot
  */
-export async function listSnapshots(clientId: string): Promise<string[]> {
-  const clientDir = getClientPath(clientId);
+export async function listTrashedFiles(clientId: string, snapshotId: string): Promise<string[]> {
+  return getStorageBackend().list(getTrashPrefix(clientId, snapshotId));
+}
+
+/**
+ * Permanently delete a trashed snapshot's files
+ */
+export async function purgeTrashedFiles(clientId: string, snapshotId: string): Promise<void> {
+  await deletePrefix(getTrashPrefix(clientId, snapshotId));
+}
 
-  try {
-    const entries = await fs.readdir(clientDir);
-    return entries.sort().reverse(); // Most recent first
-  } catch {
-    return [];
+export async function deleteObjects(keys: string[]): Promise<void> {
+  const backend = getStorageBackend();
+  for (const key of keys) {
+    await backend.delete(key);
   }
 }
 
 /**
- * Delete all storage for a client
+ * Key prefix for the branding assets of one client, or the agency when null
+ */
+function getBrandingPrefix(clientId: string | null): string {
+  return clientId ? `branding/clients/${clientId}/` : "branding/agency/";
+}
+
+const LOGO_EXTENSIONS: Record<LogoContentType, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/svg+xml": "svg",
+};
+
+/**
+ * Save a branding logo under a new key, so renders already reading the
+ * previous logo are unaffected until it is deleted
+ */
+export async function saveBrandingLogo(
+  clientId: string | null,
+  body: Buffer,
+  contentType: LogoContentType
+): Promise<string> {
+  const key = `${getBrandingPrefix(clientId)}logo-${crypto.randomUUID()}.${LOGO_EXTENSIONS[contentType]}`;
+  await getStorageBackend().put(key, body, { contentType });
+  return key;
+}
+
+export async function loadBrandingLogo(key: string): Promise<Buffer> {
+  return getStorageBackend().get(key);
+}
+
+/**
+ * Delete all storage for a client, including its trash and branding
  */
 export async function deleteClientStorage(clientId: string): Promise<void> {
-  const clientDir = getClientPath(clientId);
-  await fs.rm(clientDir, { recursive: true, force: true });
+  await deletePrefix(getClientPrefix(clientId));
+  await deletePrefix(`trash/${getClientPrefix(clientId)}`);
+  await deletePrefix(getBrandingPrefix(clientId));
+}
+
+async function deletePrefix(prefix: string): Promise<void> {
+  await deleteObjects(await getStorageBackend().list(prefix));
+}
+
+function getContentType(key: string): string {
+  if (key.endsWith(".pdf")) return "application/pdf";
+  if (key.endsWith(".json")) return "application/json";
+  return "application/octet-stream";
 }
@@ -0,0 +1,36 @@
+export interface PutObjectOptions {
+  contentType?: string;
+}
+
+/**
+ * Object store for snapshots, PDFs and debug payloads. Keys are
+ * backend-neutral, slash-separated paths such as
+ * `snapshots/<clientId>/<snapshotKey>/report.pdf`.
+ */
+export interface StorageBackend {
+  name: string;
+  put(key: string, body: Buffer | string, options?: PutObjectOptions): Promise<void>;
+  /** Throws NotFoundError if the key does not exist */
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  /** Deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+  /** Every key under a prefix, in lexical order */
+  list(prefix: string): Promise<string[]>;
+  /** Time-limited URL that downloads the object without other credentials */
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+/**
+ * Reject keys that could escape the storage root or are not normalized
+ */
+export function assertValidKey(key: string): void {
+  if (
+    !key ||
+    key.startsWith("/") ||
+    key.includes("\\") ||
+    key.split("/").some((segment) => segment === "" || segment === "." || segment === "..")
+  ) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
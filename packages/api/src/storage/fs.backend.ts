@@ -0,0 +1,94 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { NotFoundError } from "../lib/errors.js";
+import { createStorageLink } from "../lib/report-links.js";
+import { assertValidKey, type StorageBackend } from "./backend.js";
+
+/**
+ * Stores objects as files under a root directory. Only suitable for a single
+ * machine; signed URLs point back at the API's /storage route.
+ */
+export class FsStorageBackend implements StorageBackend {
+  name = "fs";
+
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.root, ...key.split("/"));
+  }
+
+  async put(key: string, body: Buffer | string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new NotFoundError(`Stored object not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.rm(filePath, { force: true });
+
+    // Prune directories left empty, stopping at the first one that is not
+    let dir = path.dirname(filePath);
+    while (path.relative(this.root, dir) && !path.relative(this.root, dir).startsWith("..")) {
+      try {
+        await fs.rmdir(dir);
+      } catch {
+        break;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+
+    const walk = async (dir: string, keyPrefix: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const key = `${keyPrefix}${entry.name}`;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), `${key}/`);
+        } else {
+          keys.push(key);
+        }
+      }
+    };
+
+    // Walk from the deepest directory the prefix names, then filter
+    const dirPrefix = prefix.slice(0, prefix.lastIndexOf("/") + 1);
+    await walk(dirPrefix ? this.resolve(dirPrefix.slice(0, -1)) : this.root, dirPrefix);
+
+    return keys.filter((key) => key.startsWith(prefix)).sort();
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    assertValidKey(key);
+    return createStorageLink(key, expiresInSeconds);
+  }
+}
@@ -0,0 +1,29 @@
+import type { StorageBackend } from "./backend.js";
+import { FsStorageBackend } from "./fs.backend.js";
+import { getS3ConfigFromEnv, S3StorageBackend } from "./s3.backend.js";
+
+let backend: StorageBackend | null = null;
+
+/**
+ * The backend selected by STORAGE_BACKEND ("fs", the default, or "s3")
+ */
+export function getStorageBackend(): StorageBackend {
+  if (!backend) {
+    const name = process.env.STORAGE_BACKEND || "fs";
+    if (name === "fs") {
+      backend = new FsStorageBackend(process.env.STORAGE_PATH || "./storage");
+    } else if (name === "s3") {
+      backend = new S3StorageBackend(getS3ConfigFromEnv());
+    } else {
+      throw new Error(`Unknown storage backend: ${name}`);
+    }
+  }
+  return backend;
+}
+
+/**
+ * Swap the storage backend, e.g. for an in-memory fake in tests
+ */
+export function setStorageBackend(storageBackend: StorageBackend): void {
+  backend = storageBackend;
+}
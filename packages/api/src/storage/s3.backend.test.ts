@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { NotFoundError } from "../lib/errors.js";
+import { getS3ConfigFromEnv, S3StorageBackend } from "./s3.backend.js";
+
+const BUCKET = "agency-reports";
+// Small pages so listing has to follow continuation tokens
+const LIST_PAGE_SIZE = 2;
+
+// Stands in for MinIO: a path-style bucket held in memory
+let server: Server;
+let endpoint: string;
+let objects: Map<string, Buffer>;
+let listRequests: URLSearchParams[];
+
+async function readBody(request: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function listObjects(params: URLSearchParams): string {
+  listRequests.push(params);
+  const prefix = params.get("prefix") ?? "";
+  const keys = Array.from(objects.keys())
+    .filter((key) => key.startsWith(prefix))
+    .sort();
+  const start = Number(params.get("continuation-token") ?? 0);
+  const page = keys.slice(start, start + LIST_PAGE_SIZE);
+  const next = start + LIST_PAGE_SIZE;
+  const truncated = next < keys.length;
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>` +
+    `<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">` +
+    `<Name>${BUCKET}</Name><Prefix>${prefix}</Prefix><KeyCount>${page.length}</KeyCount>` +
+    `<IsTruncated>${truncated}</IsTruncated>` +
+    (truncated ? `<NextContinuationToken>${next}</NextContinuationToken>` : "") +
+    page.map((key) => `<Contents><Key>${key}</Key></Contents>`).join("") +
+    `</ListBucketResult>`
+  );
+}
+
+describe("S3StorageBackend", () => {
+  before(async () => {
+    server = createServer(async (request, response) => {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      const [, bucket, ...rest] = url.pathname.split("/");
+      const key = decodeURIComponent(rest.join("/"));
+      const body = await readBody(request);
+
+      if (bucket !== BUCKET) {
+        response.writeHead(404).end();
+        return;
+      }
+
+      if (request.method === "GET" && !key) {
+        response.writeHead(200, { "Content-Type": "application/xml" });
+        response.end(listObjects(url.searchParams));
+        return;
+      }
+
+      if (request.method === "PUT") {
+        objects.set(key, body);
+        response.writeHead(200, { ETag: '"etag"' }).end();
+        return;
+      }
+
+      if (request.method === "DELETE") {
+        objects.delete(key);
+        response.writeHead(204).end();
+        return;
+      }
+
+      const object = objects.get(key);
+      if (!object) {
+        response.writeHead(404, { "Content-Type": "application/xml" });
+        response.end(
+          request.method === "HEAD"
+            ? undefined
+            : `<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code>` +
+                `<Message>The specified key does not exist.</Message><Key>${key}</Key></Error>`
+        );
+        return;
+      }
+
+      response.writeHead(200, {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": object.length,
+      });
+      response.end(request.method === "HEAD" ? undefined : object);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    const { port } = server.address() as AddressInfo;
+    endpoint = `http://127.0.0.1:${port}`;
+    Object.assign(process.env, {
+      S3_BUCKET: BUCKET,
+      S3_ENDPOINT: endpoint,
+      S3_FORCE_PATH_STYLE: "true",
+      S3_ACCESS_KEY_ID: "minioadmin",
+      S3_SECRET_ACCESS_KEY: "minioadmin",
+    });
+  });
+
+  after(async () => {
+    for (const name of [
+      "S3_BUCKET",
+      "S3_ENDPOINT",
+      "S3_FORCE_PATH_STYLE",
+      "S3_ACCESS_KEY_ID",
+      "S3_SECRET_ACCESS_KEY",
+    ]) {
+      delete process.env[name];
+    }
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  });
+
+  beforeEach(() => {
+    objects = new Map();
+    listRequests = [];
+  });
+
+  it("stores, reads and deletes objects", async () => {
+    const storage = new S3StorageBackend(getS3ConfigFromEnv());
+
+    await storage.put("clients/c1/snapshot.json", '{"ok":true}', {
+      contentType: "application/json",
+    });
+    assert.equal(await storage.exists("clients/c1/snapshot.json"), true);
+    assert.equal((await storage.get("clients/c1/snapshot.json")).toString(), '{"ok":true}');
+
+    await storage.delete("clients/c1/snapshot.json");
+    assert.equal(await storage.exists("clients/c1/snapshot.json"), false);
+  });
+
+  it("maps a missing key to a NotFoundError", async () => {
+    const storage = new S3StorageBackend(getS3ConfigFromEnv());
+
+    await assert.rejects(storage.get("clients/c1/missing.json"), NotFoundError);
+  });
+
+  it("lists every key under a prefix across pages", async () => {
+    const storage = new S3StorageBackend(getS3ConfigFromEnv());
+    for (const key of [
+      "c1/e.pdf",
+      "c1/a.json",
+      "c1/d.pdf",
+      "c1/b.json",
+      "c1/c.json",
+      "c2/a.json",
+    ]) {
+      objects.set(key, Buffer.from(key));
+    }
+
+    assert.deepEqual(await storage.list("c1/"), [
+      "c1/a.json",
+      "c1/b.json",
+      "c1/c.json",
+      "c1/d.pdf",
+      "c1/e.pdf",
+    ]);
+    assert.deepEqual(
+      listRequests.map((params) => params.get("continuation-token")),
+      [null, "2", "4"]
+    );
+  });
+
+  it("signs URLs the stand-in serves the object from", async () => {
+    const storage = new S3StorageBackend(getS3ConfigFromEnv());
+    objects.set("clients/c1/report.pdf", Buffer.from("%PDF-1.7"));
+
+    const url = new URL(await storage.signedUrl("clients/c1/report.pdf", 300));
+
+    assert.equal(url.origin, endpoint);
+    assert.equal(url.pathname, `/${BUCKET}/clients/c1/report.pdf`);
+    assert.equal(url.searchParams.get("X-Amz-Expires"), "300");
+    assert.ok(url.searchParams.get("X-Amz-Signature"));
+    assert.match(url.searchParams.get("X-Amz-Credential") ?? "", /^minioadmin\//);
+
+    const response = await fetch(url);
+    assert.equal(await response.text(), "%PDF-1.7");
+  });
+});
@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { describe, it } from "node:test";
+import type { Browser, Page } from "puppeteer";
+import {
+  BrowserPool,
+  PoolFullError,
+  RenderTimeoutError,
+  type BrowserPoolOptions,
+} from "./browser-pool.js";
+
+// Stands in for a Chromium page: tracks whether it was closed
+class FakePage {
+  closed = false;
+
+  constructor(private owner: FakeBrowser) {}
+
+  browser(): FakeBrowser {
+    return this.owner;
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  async goto(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+// Stands in for a Chromium process; `crash` fires the same event puppeteer does
+class FakeBrowser extends EventEmitter {
+  connected = true;
+  pages: FakePage[] = [];
+  openPage: () => Promise<void> = async () => undefined;
+
+  async newPage(): Promise<FakePage> {
+    await this.openPage();
+    const page = new FakePage(this);
+    this.pages.push(page);
+    return page;
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+  }
+
+  crash(): void {
+    this.connected = false;
+    this.emit("disconnected");
+  }
+}
+
+function createPool(options: Partial<BrowserPoolOptions>, launch: () => Promise<FakeBrowser>) {
+  return new BrowserPool(
+    {
+      browsers: 1,
+      concurrency: 1,
+      maxQueue: 10,
+      renderTimeoutMs: 1000,
+      maxPageUses: 50,
+      ...options,
+    },
+    launch as unknown as () => Promise<Browser>
+  );
+}
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe("BrowserPool", () => {
+  it("queues renders up to maxQueue and rejects the rest", async () => {
+    const browser = new FakeBrowser();
+    const pool = createPool({ maxQueue: 1 }, async () => browser);
+    const first = deferred();
+
+    const running = pool.withPage(() => first.promise.then(() => "first"));
+    const queued = pool.withPage(async () => "second");
+    await assert.rejects(
+      pool.withPage(async () => "third"),
+      PoolFullError
+    );
+    assert.equal(pool.stats().queued, 1);
+
+    first.resolve();
+    assert.equal(await running, "first");
+    assert.equal(await queued, "second");
+    assert.equal(pool.stats().rejected, 1);
+    assert.equal(pool.stats().completed, 2);
+  });
+
+  it("times out a hung render and gives the next one a fresh page", async () => {
+    const browser = new FakeBrowser();
+    const pool = createPool({ renderTimeoutMs: 20 }, async () => browser);
+
+    await assert.rejects(
+      pool.withPage(() => new Promise(() => undefined)),
+      RenderTimeoutError
+    );
+    assert.equal(browser.pages[0]!.closed, true);
+
+    const page = await pool.withPage(async (page) => page);
+    assert.equal(page as unknown, browser.pages[1]);
+    assert.equal(pool.stats().timedOut, 1);
+  });
+
+  it("times out a browser launch that hangs", async () => {
+    const pool = createPool({ renderTimeoutMs: 20 }, () => new Promise(() => undefined));
+    let rendered = false;
+
+    await assert.rejects(
+      pool.withPage(async () => {
+        rendered = true;
+      }),
+      RenderTimeoutError
+    );
+    assert.equal(rendered, false);
+    assert.deepEqual({ busy: pool.stats().busy, idle: pool.stats().idle }, { busy: 0, idle: 1 });
+  });
+
+  it("closes a page that opens after its render timed out", async () => {
+    const browser = new FakeBrowser();
+    const pool = createPool({ renderTimeoutMs: 20 }, async () => browser);
+    const opening = deferred();
+    browser.openPage = () => opening.promise;
+    let rendered = false;
+
+    await assert.rejects(
+      pool.withPage(async () => {
+        rendered = true;
+      }),
+      RenderTimeoutError
+    );
+
+    browser.openPage = async () => undefined;
+    const page = await pool.withPage(async (page) => page as unknown as FakePage);
+
+    opening.resolve();
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(rendered, false);
+    const late = browser.pages.find((candidate) => candidate !== page)!;
+    assert.equal(late.closed, true);
+    assert.equal(page.closed, false);
+    assert.equal(await pool.withPage(async (next) => next as unknown as FakePage), page);
+  });
+
+  it("relaunches a browser that disconnected", async () => {
+    const browsers: FakeBrowser[] = [];
+    const pool = createPool({}, async () => {
+      const browser = new FakeBrowser();
+      browsers.push(browser);
+      return browser;
+    });
+
+    await pool.start();
+    await pool.withPage(async () => undefined);
+    browsers[0]!.crash();
+    assert.equal(pool.stats().browsersRunning, 0);
+
+    const page = await pool.withPage(async (page: Page) => page);
+
+    assert.equal(browsers.length, 2);
+    assert.equal((page as unknown as FakePage).browser(), browsers[1]);
+    assert.equal(pool.stats().browsersRunning, 1);
+    assert.equal(pool.stats().browserRestarts, 1);
+  });
+});
@@ -0,0 +1,293 @@
+import puppeteer, { type Browser, type Page } from "puppeteer";
+
+export interface BrowserPoolOptions {
+  /** Chromium processes kept running */
+  browsers: number;
+  /** Renders running at once, spread across the browsers */
+  concurrency: number;
+  /** Requests allowed to wait for a free page before new ones are rejected */
+  maxQueue: number;
+  /** Time a single render may take before its page is killed */
+  renderTimeoutMs: number;
+  /** Renders a page serves before it is closed and replaced */
+  maxPageUses: number;
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  browsersRunning: number;
+  concurrency: number;
+  busy: number;
+  idle: number;
+  queued: number;
+  maxQueue: number;
+  completed: number;
+  failed: number;
+  timedOut: number;
+  rejected: number;
+  browserRestarts: number;
+  averageRenderMs: number | null;
+}
+
+/**
+ * Every page is busy and the queue is full; callers should retry later
+ */
+export class PoolFullError extends Error {
+  constructor() {
+    super("Renderer is at capacity, retry later");
+    this.name = "PoolFullError";
+  }
+}
+
+export class RenderTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Render timed out after ${timeoutMs}ms`);
+    this.name = "RenderTimeoutError";
+  }
+}
+
+interface BrowserEntry {
+  browser: Browser | null;
+  launching: Promise<Browser> | null;
+}
+
+interface PageSlot {
+  browserIndex: number;
+  page: Page | null;
+  uses: number;
+}
+
+const LAUNCH_ARGS = ["--no-sandbox", "--disable-setuid-sandbox"];
+
+export function getBrowserPoolOptionsFromEnv(): BrowserPoolOptions {
+  const browsers = parseInt(process.env.RENDERER_BROWSERS || "2", 10);
+  return {
+    browsers,
+    concurrency: parseInt(process.env.RENDERER_CONCURRENCY || String(browsers * 2), 10),
+    maxQueue: parseInt(process.env.RENDERER_MAX_QUEUE || "50", 10),
+    renderTimeoutMs: parseInt(process.env.RENDERER_TIMEOUT_MS || "60000", 10),
+    maxPageUses: parseInt(process.env.RENDERER_MAX_PAGE_USES || "50", 10),
+  };
+}
+
+/**
+ * A bounded set of warm Chromium pages. Renders borrow a page, waiting in a
+ * FIFO queue when all are busy; a crashed browser is relaunched on next use.
+ */
+export class BrowserPool {
+  private entries: BrowserEntry[];
+  private idle: PageSlot[];
+  private waiters: Array<(slot: PageSlot) => void> = [];
+  private busy = 0;
+  private closed = false;
+  private counters = {
+    completed: 0,
+    failed: 0,
+    timedOut: 0,
+    rejected: 0,
+    browserRestarts: 0,
+    renderMs: 0,
+  };
+
+  constructor(
+    private options: BrowserPoolOptions,
+    private launch: () => Promise<Browser> = () =>
+      puppeteer.launch({ headless: true, args: LAUNCH_ARGS })
+  ) {
+    this.entries = Array.from({ length: options.browsers }, () => ({
+      browser: null,
+      launching: null,
+    }));
+    this.idle = Array.from({ length: options.concurrency }, (_, index) => ({
+      browserIndex: index % options.browsers,
+      page: null,
+      uses: 0,
+    }));
+  }
+
+  /**
+   * Launch every browser up front so the first renders don't pay for it
+   */
+  async start(): Promise<void> {
+    await Promise.all(this.entries.map((_, index) => this.getBrowser(index)));
+  }
+
+  /**
+   * Run `render` with a pooled page. Throws PoolFullError when the queue is
+   * full and RenderTimeoutError when the render overruns; the page is
+   * discarded on any failure so the next render starts clean.
+   */
+  async withPage<T>(render: (page: Page) => Promise<T>): Promise<T> {
+    let slot = await this.acquire();
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+
+    try {
+      // Opening the page counts against the timeout too: a relaunch or
+      // newPage can hang as easily as the render itself
+      const result = this.getPage(slot).then((page) => {
+        if (timedOut) {
+          page.close().catch(() => undefined);
+          throw new RenderTimeoutError(this.options.renderTimeoutMs);
+        }
+        return render(page);
+      });
+      // The render may still settle after a timeout; don't let that go unhandled
+      result.catch(() => undefined);
+
+      const value = await Promise.race([
+        result,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            timedOut = true;
+            reject(new RenderTimeoutError(this.options.renderTimeoutMs));
+          }, this.options.renderTimeoutMs);
+        }),
+      ]);
+
+      this.counters.completed++;
+      this.counters.renderMs += Date.now() - startedAt;
+      await this.recycle(slot);
+      return value;
+    } catch (error) {
+      if (error instanceof RenderTimeoutError) {
+        this.counters.timedOut++;
+      } else {
+        this.counters.failed++;
+      }
+      await this.discardPage(slot);
+      // A page still opening for this render lands on the old slot, not the
+      // one handed to the next caller
+      slot = { browserIndex: slot.browserIndex, page: null, uses: 0 };
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      this.release(slot);
+    }
+  }
+
+  stats(): BrowserPoolStats {
+    const { renderMs, ...counters } = this.counters;
+    return {
+      browsers: this.entries.length,
+      browsersRunning: this.entries.filter((entry) => entry.browser?.connected).length,
+      concurrency: this.options.concurrency,
+      busy: this.busy,
+      idle: this.idle.length,
+      queued: this.waiters.length,
+      maxQueue: this.options.maxQueue,
+      ...counters,
+      averageRenderMs: counters.completed > 0 ? Math.round(renderMs / counters.completed) : null,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const browsers = this.entries.map((entry) => entry.browser);
+    for (const entry of this.entries) {
+      entry.browser = null;
+    }
+    await Promise.all(browsers.map((browser) => browser?.close().catch(() => undefined)));
+  }
+
+  private acquire(): Promise<PageSlot> {
+    if (this.closed) {
+      return Promise.reject(new Error("Browser pool is closed"));
+    }
+
+    const slot = this.idle.shift();
+    if (slot) {
+      this.busy++;
+      return Promise.resolve(slot);
+    }
+
+    if (this.waiters.length >= this.options.maxQueue) {
+      this.counters.rejected++;
+      return Promise.reject(new PoolFullError());
+    }
+
+    return new Promise((resolve) => {
+      this.waiters.push((next) => {
+        this.busy++;
+        resolve(next);
+      });
+    });
+  }
+
+  private release(slot: PageSlot): void {
+    this.busy--;
+    const next = this.waiters.shift();
+    if (next) {
+      next(slot);
+    } else {
+      this.idle.push(slot);
+    }
+  }
+
+  private async getPage(slot: PageSlot): Promise<Page> {
+    const browser = await this.getBrowser(slot.browserIndex);
+    if (slot.page && !slot.page.isClosed() && slot.page.browser() === browser) {
+      return slot.page;
+    }
+
+    slot.page = await browser.newPage();
+    slot.uses = 0;
+    return slot.page;
+  }
+
+  /**
+   * Blank a page for its next render, or replace it once it has been used
+   * `maxPageUses` times so leaked memory is returned to Chromium
+   */
+  private async recycle(slot: PageSlot): Promise<void> {
+    slot.uses++;
+    if (slot.uses >= this.options.maxPageUses) {
+      await this.discardPage(slot);
+      return;
+    }
+
+    try {
+      await slot.page?.goto("about:blank");
+    } catch {
+      await this.discardPage(slot);
+    }
+  }
+
+  private async discardPage(slot: PageSlot): Promise<void> {
+    const page = slot.page;
+    slot.page = null;
+    slot.uses = 0;
+    await page?.close().catch(() => undefined);
+  }
+
+  private async getBrowser(index: number): Promise<Browser> {
+    const entry = this.entries[index]!;
+    if (entry.browser?.connected) {
+      return entry.browser;
+    }
+
+    if (!entry.launching) {
+      entry.launching = this.launch()
+        .then((browser) => {
+          if (entry.browser) {
+            this.counters.browserRestarts++;
+          }
+          entry.browser = browser;
+          // A crashed browser is relaunched by the next render that needs it
+          browser.on("disconnected", () => {
+            if (entry.browser === browser && !this.closed) {
+              entry.browser = null;
+              this.counters.browserRestarts++;
+            }
+          });
+          return browser;
+        })
+        .finally(() => {
+          entry.launching = null;
+        });
+    }
+
+    return entry.launching;
+  }
+}
@@ -28,6 +28,12 @@ interface ChannelData {
   percentage: number;
 }
 
+/** Translated text drawn on the channels chart */
+interface ChannelsChartLabels {
+  center: string;
+  other: string;
+}
+
 // Color palette for charts
 const CHART_COLORS = [
   "#2563eb", // Blue
@@ -42,6 +48,49 @@ const CHART_COLORS = [
   "#6366f1", // Indigo
 ];
 
+/**
+ * Branding applied to charts: the palette for categorical charts, the font
+ * for labels and legends and the locale axis numbers are formatted in
+ */
+export interface ChartTheme {
+  palette: string[];
+  fontFamily: string;
+  locale: string;
+}
+
+export const DEFAULT_CHART_THEME: ChartTheme = {
+  palette: CHART_COLORS,
+  fontFamily: baseFontFamily,
+  locale: "en-US",
+};
+
+/**
+ * A theme whose palette leads with the brand's primary colour
+ */
+export function getChartTheme(
+  primaryColor: string,
+  fontFamily: string,
+  locale: string
+): ChartTheme {
+  const primary = primaryColor.toLowerCase();
+  return {
+    palette: [primary, ...CHART_COLORS.filter((color) => color !== primary)].slice(
+      0,
+      CHART_COLORS.length
+    ),
+    fontFamily,
+    locale,
+  };
+}
+
+/**
+ * A "#rrggbb" colour as rgba() with the given opacity
+ */
+function withAlpha(color: string, alpha: number): string {
+  const value = parseInt(color.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
 type ChartCanvas = {
   ctx: {
     save: () => void;
@@ -56,7 +105,7 @@ type ChartCanvas = {
   height: number;
 };
 
-function createCenterTextPlugin(centerText: string, subText?: string) {
+function createCenterTextPlugin(centerText: string, fontFamily: string, subText?: string) {
   return {
     id: "centerText",
     beforeDraw: (chart: ChartCanvas) => {
@@ -65,11 +114,11 @@ function createCenterTextPlugin(centerText: string, subText?: string) {
       ctx.textAlign = "center";
       ctx.textBaseline = "middle";
       ctx.fillStyle = "#374151";
-      ctx.font = "600 18px " + baseFontFamily;
+      ctx.font = "600 18px " + fontFamily;
       ctx.fillText(centerText, width / 2, height / 2 - (subText ? 6 : 0));
       if (subText) {
         ctx.fillStyle = "#9ca3af";
-        ctx.font = "500 11px " + baseFontFamily;
+        ctx.font = "500 11px " + fontFamily;
         ctx.fillText(subText, width / 2, height / 2 + 12);
       }
       ctx.restore();
@@ -82,7 +131,9 @@ function createCenterTextPlugin(centerText: string, subText?: string) {
  */
 export async function renderChannelsPieChart(
   channels: ChannelData[],
-  totalSessions: number
+  totalSessions: number,
+  theme: ChartTheme = DEFAULT_CHART_THEME,
+  text: ChannelsChartLabels = { center: "Sessions", other: "Other" }
 ): Promise<string> {
   if (!channels || channels.length === 0) {
     return "";
@@ -96,7 +147,7 @@ export async function renderChannelsPieChart(
   const data = topChannels.map((c) => c.sessions);
 
   if (otherChannels.length > 0) {
-    labels.push("Other");
+    labels.push(text.other);
     data.push(otherChannels.reduce((sum, c) => sum + c.sessions, 0));
   }
 
@@ -107,7 +158,7 @@ export async function renderChannelsPieChart(
       datasets: [
         {
           data,
-          backgroundColor: CHART_COLORS.slice(0, labels.length),
+          backgroundColor: theme.palette.slice(0, labels.length),
           borderWidth: 2,
           borderColor: "#ffffff",
         },
@@ -122,7 +173,7 @@ export async function renderChannelsPieChart(
           labels: {
             font: {
               size: 11,
-              family: baseFontFamily,
+              family: theme.fontFamily,
             },
             padding: 12,
           },
@@ -132,7 +183,7 @@ export async function renderChannelsPieChart(
         },
       },
     },
-    plugins: [createCenterTextPlugin(String(totalSessions), "Sessions")],
+    plugins: [createCenterTextPlugin(String(totalSessions), theme.fontFamily, text.center)],
   } as ChartConfiguration;
 
   const buffer = await chartJSNodeCanvas.renderToBuffer(configuration);
@@ -187,23 +238,33 @@ export async function renderSparklineChart(
   return `data:image/png;base64,${buffer.toString("base64")}`;
 }
 
+// Dots on unusual days in trend charts
+const ANOMALY_MARKER_COLOR = "#dc2626";
+
 export async function renderTimeSeriesChart({
   labels,
   current,
   previous,
   color,
   fill,
+  markers = [],
+  theme = DEFAULT_CHART_THEME,
 }: {
   labels: string[];
   current: number[];
   previous: number[];
   color: string;
   fill?: boolean;
+  /** Indexes of current-period points to mark as unusual days */
+  markers?: number[];
+  theme?: ChartTheme;
 }): Promise<string> {
   if (!labels.length) {
     return "";
   }
 
+  const marked = new Set(markers);
+
   const configuration: ChartConfiguration<"line"> = {
     type: "line",
     data: {
@@ -213,16 +274,19 @@ export async function renderTimeSeriesChart({
           label: "Current",
           data: current,
           borderColor: color,
-          backgroundColor: fill ? "rgba(245, 158, 11, 0.25)" : "transparent",
+          backgroundColor: fill ? withAlpha(color, 0.25) : "transparent",
           borderWidth: 2,
-          pointRadius: 0,
+          pointRadius: current.map((_, index) => (marked.has(index) ? 4 : 0)),
+          pointBackgroundColor: ANOMALY_MARKER_COLOR,
+          pointBorderColor: "white",
+          pointBorderWidth: 1,
           tension: 0.35,
           fill: fill ? "origin" : false,
         },
         {
           label: "Previous",
           data: previous,
-          borderColor: "rgba(245, 158, 11, 0.35)",
+          borderColor: withAlpha(color, 0.35),
           backgroundColor: "transparent",
           borderWidth: 2,
           pointRadius: 0,
@@ -233,6 +297,7 @@ export async function renderTimeSeriesChart({
     },
     options: {
       responsive: false,
+      locale: theme.locale,
       plugins: {
         legend: {
           display: false,
@@ -249,7 +314,7 @@ export async function renderTimeSeriesChart({
           ticks: {
             font: {
               size: 10,
-              family: baseFontFamily,
+              family: theme.fontFamily,
             },
             maxTicksLimit: 4,
           },
@@ -261,7 +326,7 @@ export async function renderTimeSeriesChart({
           ticks: {
             font: {
               size: 10,
-              family: baseFontFamily,
+              family: theme.fontFamily,
             },
           },
         },
@@ -278,11 +343,13 @@ export async function renderDonutChart({
   data,
   centerText,
   centerSubtext,
+  theme = DEFAULT_CHART_THEME,
 }: {
   labels: string[];
   data: number[];
   centerText: string;
   centerSubtext?: string;
+  theme?: ChartTheme;
 }): Promise<string> {
   if (!labels.length || !data.length) {
     return "";
@@ -295,7 +362,7 @@ export async function renderDonutChart({
       datasets: [
         {
           data,
-          backgroundColor: CHART_COLORS.slice(0, labels.length),
+          backgroundColor: theme.palette.slice(0, labels.length),
           borderWidth: 2,
           borderColor: "#ffffff",
         },
@@ -310,7 +377,7 @@ export async function renderDonutChart({
           labels: {
             font: {
               size: 10,
-              family: baseFontFamily,
+              family: theme.fontFamily,
             },
             padding: 10,
           },
@@ -320,7 +387,7 @@ export async function renderDonutChart({
         },
       },
     },
-    plugins: [createCenterTextPlugin(centerText, centerSubtext)],
+    plugins: [createCenterTextPlugin(centerText, theme.fontFamily, centerSubtext)],
   } as ChartConfiguration;
 
   const buffer = await chartJSNodeCanvas.renderToBuffer(configuration);
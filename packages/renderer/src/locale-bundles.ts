@@ -0,0 +1,79 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/** Translated template strings keyed by message id, with {name} placeholders */
+export type Messages = Record<string, string>;
+
+const FALLBACK_LANGUAGE = "en";
+
+/**
+ * Template strings per locale, loaded from one JSON bundle per language
+ * ("de.json") or region ("de-CH.json")
+ */
+export class LocaleBundles {
+  constructor(private bundles: Map<string, Messages>) {}
+
+  /**
+   * Messages for a locale: its regional bundle over its language's, over
+   * English, so a missing translation shows the English string
+   */
+  getMessages(locale: string): Messages {
+    const language = locale.split("-")[0]!;
+    return {
+      ...this.bundles.get(FALLBACK_LANGUAGE),
+      ...this.bundles.get(language),
+      ...this.bundles.get(locale),
+    };
+  }
+
+  languages(): string[] {
+    return [...this.bundles.keys()].sort();
+  }
+}
+
+/**
+ * Fill a message's {name} placeholders; unknown ids come back unchanged
+ */
+export function translate(
+  messages: Messages,
+  id: string,
+  params: Record<string, unknown> = {}
+): string {
+  const message = messages[id] ?? id;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Load every *.json bundle under `root`. The English bundle is required since
+ * every other locale falls back to it.
+ */
+export async function loadLocaleBundles(root: string): Promise<LocaleBundles> {
+  const files = (await fs.readdir(root)).filter((name) => name.endsWith(".json"));
+  const bundles = new Map<string, Messages>();
+
+  for (const file of files) {
+    const content = await fs.readFile(path.join(root, file), "utf-8");
+    bundles.set(path.basename(file, ".json"), parseBundle(JSON.parse(content), file));
+  }
+
+  if (!bundles.has(FALLBACK_LANGUAGE)) {
+    throw new Error(`Missing ${FALLBACK_LANGUAGE}.json locale bundle in ${root}`);
+  }
+
+  return new LocaleBundles(bundles);
+}
+
+function parseBundle(raw: unknown, file: string): Messages {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid locale bundle ${file}: expected an object of strings`);
+  }
+
+  for (const [id, message] of Object.entries(raw)) {
+    if (typeof message !== "string") {
+      throw new Error(`Invalid locale bundle ${file}: "${id}" must be a string`);
+    }
+  }
+  return raw as Messages;
+}
@@ -1,15 +1,52 @@
-import Fastify from "fastify";
-import { promises as fs } from "fs";
-import Handlebars from "handlebars";
+import {
+  BrandingSchemaError,
+  CommentarySchemaError,
+  getGoalKeyEvent,
+  getGoalMetricDefinition,
+  parseReportBranding,
+  parseReportCommentary,
+  parseSnapshotData,
+  REPORT_FONTS,
+  SnapshotSchemaError,
+  type AnomalyMetric,
+  type GA4DailyMetric,
+  type GoalMetricKind,
+  type MetricAnomaly,
+  type ReportBranding,
+  type ReportCommentary,
+  type SnapshotData,
+  type StandardGoalMetric,
+} from "@agency-reports/shared";
+import Fastify, { type FastifyReply } from "fastify";
+import Handlebars, { type HelperOptions } from "handlebars";
 import path from "path";
-import puppeteer from "puppeteer";
 import { fileURLToPath } from "url";
 import {
+  BrowserPool,
+  getBrowserPoolOptionsFromEnv,
+  PoolFullError,
+  RenderTimeoutError,
+} from "./browser-pool.js";
+import {
+    DEFAULT_CHART_THEME,
+    getChartTheme,
     renderChannelsPieChart,
     renderDonutChart,
     renderSparklineChart,
     renderTimeSeriesChart,
 } from "./charts.js";
+import {
+  loadLocaleBundles,
+  translate,
+  type LocaleBundles,
+  type Messages,
+} from "./locale-bundles.js";
+import {
+  loadTemplateRegistry,
+  UnknownTemplateError,
+  type LoadedTemplate,
+  type TemplateRegistry,
+} from "./template-registry.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -17,40 +54,86 @@ const server = Fastify({
   logger: true,
 });
 
-// Load and compile template
-let reportTemplate: HandlebarsTemplateDelegate | null = null;
-let templateStyles: string = "";
+const browserPool = new BrowserPool(getBrowserPoolOptionsFromEnv());
 
-async function loadTemplate(): Promise<void> {
-  const templatePath = path.join(__dirname, "templates", "report.hbs");
-  const stylesPath = path.join(__dirname, "templates", "styles.css");
+server.setErrorHandler((error, _request, reply) => {
+  if (error instanceof PoolFullError) {
+    reply.header("Retry-After", "5");
+    return reply.status(429).send({ error: error.message, pool: browserPool.stats() });
+  }
+  if (error instanceof RenderTimeoutError) {
+    return reply.status(504).send({ error: error.message });
+  }
+  if (error instanceof UnknownTemplateError) {
+    return reply.status(422).send({ error: error.message });
+  }
+  return reply.send(error);
+});
 
-  const [templateContent, styles] = await Promise.all([
-    fs.readFile(templatePath, "utf-8"),
-    fs.readFile(stylesPath, "utf-8"),
-  ]);
+// Report templates, one directory per template version
+let templateRegistry: TemplateRegistry | null = null;
 
-  templateStyles = styles;
-  reportTemplate = Handlebars.compile(templateContent);
+async function getTemplates(): Promise<TemplateRegistry> {
+  templateRegistry ??= await loadTemplateRegistry(
+    path.join(__dirname, "templates"),
+    (directory, reason) => server.log.warn({ directory }, `Skipping report template: ${reason}`)
+  );
+  return templateRegistry;
+}
+
+// Translated template strings, one JSON bundle per language or region
+let localeBundles: LocaleBundles | null = null;
+
+async function getLocaleBundles(): Promise<LocaleBundles> {
+  localeBundles ??= await loadLocaleBundles(path.join(__dirname, "locales"));
+  return localeBundles;
+}
+
+/**
+ * Formatting settings on the root render context, set from the snapshot
+ */
+interface ReportFormat {
+  locale: string;
+  currency: string | null;
+  timezone: string;
+  messages: Messages;
+}
+
+function getFormat(options: HelperOptions): ReportFormat {
+  return options.data.root as ReportFormat;
 }
 
 // Register Handlebars helpers
-Handlebars.registerHelper("formatNumber", (value: number) => {
+// Look up a translated template string, e.g. {{t "report.dataPeriod" start=periodStart end=periodEnd}}
+Handlebars.registerHelper("t", (id: string, options: HelperOptions) =>
+  translate(getFormat(options).messages, id, options.hash)
+);
+
+Handlebars.registerHelper("formatNumber", (value: number, options: HelperOptions) => {
   if (typeof value !== "number" || isNaN(value)) return "0";
-  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(
+  return new Intl.NumberFormat(getFormat(options).locale, { maximumFractionDigits: 0 }).format(
     value
   );
 });
 
-Handlebars.registerHelper("formatPercent", (value: number) => {
+// Values are percentages (12.5 means 12.5%)
+function formatPercentValue(value: number, locale: string, signed: boolean): string {
+  return new Intl.NumberFormat(locale, {
+    style: "percent",
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+    signDisplay: signed ? "always" : "auto",
+  }).format(value / 100);
+}
+
+Handlebars.registerHelper("formatPercent", (value: number, options: HelperOptions) => {
   if (typeof value !== "number" || isNaN(value)) return "0%";
-  return `${value.toFixed(1)}%`;
+  return formatPercentValue(value, getFormat(options).locale, false);
 });
 
-Handlebars.registerHelper("formatChange", (value: number) => {
+Handlebars.registerHelper("formatChange", (value: number, options: HelperOptions) => {
   if (typeof value !== "number" || isNaN(value)) return "0%";
-  const sign = value >= 0 ? "+" : "";
-  return `${sign}${value.toFixed(1)}%`;
+  return formatPercentValue(value, getFormat(options).locale, true);
 });
 
 Handlebars.registerHelper(
@@ -65,11 +148,15 @@ Handlebars.registerHelper(
   }
 );
 
-Handlebars.registerHelper("formatDuration", (seconds: number) => {
-  if (typeof seconds !== "number" || isNaN(seconds)) return "0:00";
+function formatMinutesSeconds(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = Math.round(seconds % 60);
   return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+Handlebars.registerHelper("formatDuration", (seconds: number) => {
+  if (typeof seconds !== "number" || isNaN(seconds)) return "0:00";
+  return formatMinutesSeconds(seconds);
 });
 
 Handlebars.registerHelper("formatDurationHms", (seconds: number) => {
@@ -96,153 +183,204 @@ Handlebars.registerHelper("formatDurationWords", (seconds: number) => {
   return parts.join(" ");
 });
 
-Handlebars.registerHelper("formatEventLabel", (value: string) => {
-  if (!value) return "Event";
+// "form_submit" -> "Form Submit"
+function formatEventName(value: string): string {
   return value
     .replace(/[_-]+/g, " ")
     .split(" ")
     .filter(Boolean)
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
     .join(" ");
+}
+
+Handlebars.registerHelper("formatEventLabel", (value: string, options: HelperOptions) => {
+  if (!value) return translate(getFormat(options).messages, "ga4.eventFallback");
+  return formatEventName(value);
 });
 
-// Snapshot data interface
-interface SnapshotData {
-  clientId: string;
-  clientName: string;
-  snapshotDate: string;
-  periodStart: string;
-  periodEnd: string;
-  previousPeriodStart: string;
-  previousPeriodEnd: string;
-  templateVersion: string;
-  generatedAt: string;
-  ga4?: {
-    propertyId: string;
-    propertyName: string;
-    current: {
-      sessions: number;
-      users: number;
-      newUsers: number;
-      pageviews: number;
-      avgSessionDuration: number;
-      bounceRate: number;
-      activeUsers: number;
-      engagementRate: number;
-      userEngagementDuration: number;
-      dailyMetrics: Array<{
-        date: string;
-        sessions: number;
-        users: number;
-        newUsers: number;
-        pageviews: number;
-        avgSessionDuration: number;
-        bounceRate: number;
-        activeUsers: number;
-        engagementRate: number;
-        userEngagementDuration: number;
-      }>;
-      topPages: Array<{
-        path: string;
-        views: number;
-      }>;
-      channels: Array<{
-        name: string;
-        sessions: number;
-        users: number;
-        percentage: number;
-      }>;
-      keyEvents: Array<{
-        name: string;
-        count: number;
-      }>;
-      keyEventBreakdowns: Array<{
-        name: string;
-        total: number;
-        channels: Array<{
-          name: string;
-          count: number;
-        }>;
-      }>;
-    };
-    previous: {
-      sessions: number;
-      users: number;
-      newUsers: number;
-      pageviews: number;
-      avgSessionDuration: number;
-      bounceRate: number;
-      activeUsers: number;
-      engagementRate: number;
-      userEngagementDuration: number;
-      dailyMetrics: Array<{
-        date: string;
-        sessions: number;
-        users: number;
-        newUsers: number;
-        pageviews: number;
-        avgSessionDuration: number;
-        bounceRate: number;
-        activeUsers: number;
-        engagementRate: number;
-        userEngagementDuration: number;
-      }>;
-      topPages: Array<{
-        path: string;
-        views: number;
-      }>;
-      channels: Array<{
-        name: string;
-        sessions: number;
-        users: number;
-        percentage: number;
-      }>;
-      keyEvents: Array<{
-        name: string;
-        count: number;
-      }>;
-      keyEventBreakdowns: Array<{
-        name: string;
-        total: number;
-        channels: Array<{
-          name: string;
-          count: number;
-        }>;
-      }>;
-    };
-    changes: {
-      sessions: number;
-      users: number;
-      newUsers: number;
-      pageviews: number;
-      avgSessionDuration: number;
-      bounceRate: number;
-      activeUsers: number;
-      engagementRate: number;
-      userEngagementDuration: number;
-    };
-  };
-}
+// Amounts are in the data source's currency when it reports one, otherwise the client's
+Handlebars.registerHelper("formatCurrency", (value: number, ...args: unknown[]) => {
+  const options = args.pop() as HelperOptions;
+  const [currencyCode] = args;
+  if (typeof value !== "number" || isNaN(value)) return "—";
+  const format = getFormat(options);
+  const currency =
+    typeof currencyCode === "string" && currencyCode ? currencyCode : (format.currency ?? "USD");
+  return new Intl.NumberFormat(format.locale, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 2,
+  }).format(value);
+});
+
+// Goal values in their metric's unit; percentages are 0-100 as in the snapshot
+Handlebars.registerHelper(
+  "formatGoalValue",
+  (value: number, kind: GoalMetricKind, currency: string | null, options: HelperOptions) => {
+    if (typeof value !== "number" || isNaN(value)) return "—";
+    const format = getFormat(options);
+    switch (kind) {
+      case "percent":
+        return formatPercentValue(value, format.locale, false);
+      case "currency":
+        return new Intl.NumberFormat(format.locale, {
+          style: "currency",
+          currency: currency || (format.currency ?? "USD"),
+          maximumFractionDigits: 2,
+        }).format(value);
+      case "duration":
+        return formatMinutesSeconds(value);
+      default:
+        return new Intl.NumberFormat(format.locale, { maximumFractionDigits: 0 }).format(value);
+    }
+  }
+);
+
+// Rank change is previousRank - currentRank, so positive means the keyword moved up
+Handlebars.registerHelper("formatRankChange", (value: number | null) => {
+  if (typeof value !== "number" || isNaN(value) || value === 0) return "—";
+  return value > 0 ? `▲ ${value}` : `▼ ${Math.abs(value)}`;
+});
+
+Handlebars.registerHelper("formatRank", (value: number | null, options: HelperOptions) => {
+  if (typeof value !== "number" || isNaN(value)) {
+    return translate(getFormat(options).messages, "rankings.notRanked");
+  }
+  return String(value);
+});
 
 // Format period label (e.g., "December 2025")
-function formatPeriodLabel(dateStr: string): string {
-  const date = new Date(dateStr);
-  return date.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+function isCalendarMonth(periodStart: string, periodEnd: string): boolean {
+  const start = new Date(periodStart);
+  const end = new Date(periodEnd);
+  const lastDayOfMonth = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+
+  return (
+    start.getUTCDate() === 1 &&
+    end.getUTCFullYear() === start.getUTCFullYear() &&
+    end.getUTCMonth() === start.getUTCMonth() &&
+    end.getUTCDate() === lastDayOfMonth
+  );
+}
+
+function formatPeriodLabel(periodStart: string, periodEnd: string, locale: string): string {
+  // Whole calendar months keep the "March 2025" label
+  if (isCalendarMonth(periodStart, periodEnd)) {
+    return new Date(periodStart).toLocaleDateString(locale, {
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+  }
+
+  return `${formatDate(periodStart, locale)} – ${formatDate(periodEnd, locale)}`;
+}
+
+// Short suffix for the main change badge when a YoY badge sits next to it
+function formatComparisonShortLabel(data: SnapshotData, messages: Messages): string {
+  if (data.comparisonMode === "custom") return translate(messages, "comparison.vsCustom");
+  return translate(
+    messages,
+    isCalendarMonth(data.periodStart, data.periodEnd)
+      ? "comparison.monthOverMonth"
+      : "comparison.periodOverPeriod"
+  );
+}
+
+function formatComparisonLabel(mode: SnapshotData["comparisonMode"], messages: Messages): string {
+  switch (mode) {
+    case "previous_year":
+      return translate(messages, "comparison.previousYear");
+    case "custom":
+      return translate(messages, "comparison.custom");
+    default:
+      return translate(messages, "comparison.previousPeriod");
+  }
 }
 
-// Format date for display
-function formatDate(dateStr: string): string {
+/**
+ * Format a date for display. Snapshot dates are calendar dates (YYYY-MM-DD)
+ * and are read as UTC so they never shift a day; pass the client's timezone
+ * for instants such as generatedAt.
+ */
+function formatDate(dateStr: string, locale: string, timeZone = "UTC"): string {
   const date = new Date(dateStr);
-  return date.toLocaleDateString("en-US", {
+  return date.toLocaleDateString(locale, {
     year: "numeric",
     month: "short",
     day: "numeric",
+    timeZone,
   });
 }
 
-function formatShortDate(dateStr: string): string {
+function formatShortDate(dateStr: string, locale: string): string {
   const date = new Date(dateStr);
-  return date.toLocaleDateString("en-US", { day: "numeric", month: "short" });
+  return date.toLocaleDateString(locale, { day: "numeric", month: "short", timeZone: "UTC" });
+}
+
+/**
+ * Chart indexes of the unusual days stored with the snapshot
+ */
+function getAnomalyMarkers(
+  currentDaily: GA4DailyMetric[],
+  anomalies: MetricAnomaly[]
+): Record<AnomalyMetric, number[]> {
+  const markers: Record<AnomalyMetric, number[]> = { sessions: [], users: [], keyEvents: [] };
+  for (const anomaly of anomalies) {
+    const index = currentDaily.findIndex((point) => point.date === anomaly.date);
+    if (index >= 0) markers[anomaly.metric].push(index);
+  }
+  return markers;
+}
+
+const GOAL_METRIC_MESSAGES: Record<StandardGoalMetric, string> = {
+  "ga4.sessions": "metric.sessions",
+  "ga4.users": "metric.users",
+  "ga4.newUsers": "metric.newUsers",
+  "ga4.activeUsers": "metric.activeUsers",
+  "ga4.pageviews": "metric.pageViews",
+  "ga4.engagementRate": "metric.engagementRate",
+  "ga4.bounceRate": "metric.bounceRate",
+  "ga4.avgSessionDuration": "metric.avgSessionDuration",
+  "googleAds.impressions": "metric.impressions",
+  "googleAds.clicks": "metric.clicks",
+  "googleAds.conversions": "metric.conversions",
+  "googleAds.ctr": "metric.ctr",
+  "googleAds.conversionRate": "metric.conversionRate",
+  "googleAds.cpc": "metric.avgCpc",
+  "googleAds.spend": "metric.spend",
+};
+
+/**
+ * One row per goal for the progress bars. Bars stop at 100%; the attainment
+ * text shows how far past the target a metric went.
+ */
+function buildGoalProgress(data: SnapshotData, messages: Messages) {
+  return data.goals.map((goal) => {
+    const eventName = getGoalKeyEvent(goal.metric);
+    const label = eventName
+      ? (data.ga4?.current.keyEvents.find((event) => event.name === eventName)?.label ??
+        formatEventName(eventName))
+      : translate(messages, GOAL_METRIC_MESSAGES[goal.metric as StandardGoalMetric]);
+
+    return {
+      label,
+      kind: getGoalMetricDefinition(goal.metric)?.kind ?? "count",
+      currency: goal.metric.startsWith("googleAds.") ? (data.googleAds?.currencyCode ?? null) : null,
+      actual: goal.actual,
+      target: goal.target,
+      periodLabel: translate(messages, `goals.${goal.period}`),
+      growthTarget:
+        goal.targetType === "growth"
+          ? formatPercentValue(goal.targetValue, data.locale, true)
+          : null,
+      progress: Math.round(Math.min(goal.attainment, 1) * 100),
+      attainment: formatPercentValue(goal.attainment * 100, data.locale, false),
+      met: goal.met,
+    };
+  });
 }
 
 function normalizeSeries(series: number[], targetLength: number): number[] {
@@ -252,10 +390,44 @@ function normalizeSeries(series: number[], targetLength: number): number[] {
   return [...series, ...Array(targetLength - series.length).fill(0)];
 }
 
-async function buildReportContext(data: SnapshotData) {
+// Line and filled-area colours of charts in templates without branding
+const UNBRANDED_CHART_COLORS = {
+  line: "#f59e0b",
+  fill: "#f97316",
+};
+
+/**
+ * CSS custom properties carrying the branding into template styles. Colours
+ * are validated hex values and fonts come from a fixed list.
+ */
+function getBrandingStyles(branding: ReportBranding): string {
+  return `:root {
+  --color-primary: ${branding.primaryColor};
+  --color-accent: ${branding.accentColor};
+  --font-family: ${REPORT_FONTS[branding.fontFamily].stack};
+}`;
+}
+
+async function buildReportContext(
+  data: SnapshotData,
+  template: LoadedTemplate,
+  branding: ReportBranding,
+  commentary: ReportCommentary
+) {
+  const { locale } = data;
+  const messages = (await getLocaleBundles()).getMessages(locale);
+  const withCharts = template.manifest.charts;
+  // Templates without branding keep the chart colours they were released with
+  const isBranded = template.manifest.branding;
+  const theme = isBranded
+    ? getChartTheme(branding.primaryColor, REPORT_FONTS[branding.fontFamily].stack, locale)
+    : { ...DEFAULT_CHART_THEME, locale };
+  const accent = isBranded ? branding.accentColor : UNBRANDED_CHART_COLORS.line;
+  const fillAccent = isBranded ? branding.accentColor : UNBRANDED_CHART_COLORS.fill;
   let channelsPieChart = "";
   let sessionsTrendChart = "";
   let usersTrendChart = "";
+  let anomalyMarkers: Record<AnomalyMetric, number[]> | null = null;
   let sparklineCharts: Record<string, string> = {};
   let keyEventDonuts: Array<{
     name: string;
@@ -267,11 +439,19 @@ async function buildReportContext(data: SnapshotData) {
     views: number;
     percent: number;
   }> = [];
+  let adsImpressionsChart = "";
+  let adsClicksChart = "";
+  let adsSpendChart = "";
 
-  if (data.ga4) {
+  if (withCharts && data.ga4) {
     const currentDaily = data.ga4.current.dailyMetrics ?? [];
     const previousDaily = data.ga4.previous.dailyMetrics ?? [];
-    const labels = currentDaily.map((point) => formatShortDate(point.date));
+    const labels = currentDaily.map((point) => formatShortDate(point.date, locale));
+    // Templates written before markers existed have no legend for them
+    anomalyMarkers = getAnomalyMarkers(
+      currentDaily,
+      template.manifest.anomalyMarkers ? data.anomalies : []
+    );
 
     const sessionsSeries = currentDaily.map((point) => point.sessions);
     const previousSessionsSeries = normalizeSeries(
@@ -298,48 +478,55 @@ async function buildReportContext(data: SnapshotData) {
       engagementSpark,
       engagementRateSpark,
     ] = await Promise.all([
-      renderChannelsPieChart(data.ga4.current.channels, data.ga4.current.sessions),
+      renderChannelsPieChart(data.ga4.current.channels, data.ga4.current.sessions, theme, {
+        center: translate(messages, "metric.sessions"),
+        other: translate(messages, "chart.other"),
+      }),
       renderTimeSeriesChart({
         labels,
         current: sessionsSeries,
         previous: previousSessionsSeries,
-        color: "#f59e0b",
+        color: accent,
+        markers: anomalyMarkers.sessions,
+        theme,
       }),
       renderTimeSeriesChart({
         labels,
         current: usersSeries,
         previous: previousUsersSeries,
-        color: "#f97316",
+        color: fillAccent,
         fill: true,
+        markers: anomalyMarkers.users,
+        theme,
       }),
-      renderSparklineChart(sessionsSeries, "#f59e0b"),
+      renderSparklineChart(sessionsSeries, accent),
       renderSparklineChart(
         currentDaily.map((point) => point.bounceRate),
-        "#f59e0b"
+        accent
       ),
       renderSparklineChart(
         currentDaily.map((point) => point.pageviews),
-        "#f59e0b"
+        accent
       ),
       renderSparklineChart(
         currentDaily.map((point) => point.avgSessionDuration),
-        "#f59e0b"
+        accent
       ),
       renderSparklineChart(
         currentDaily.map((point) => point.activeUsers),
-        "#f59e0b"
+        accent
       ),
       renderSparklineChart(
         currentDaily.map((point) => point.newUsers),
-        "#f59e0b"
+        accent
       ),
       renderSparklineChart(
         currentDaily.map((point) => point.userEngagementDuration),
-        "#f59e0b"
+        accent
       ),
       renderSparklineChart(
         currentDaily.map((point) => point.engagementRate),
-        "#f59e0b"
+        accent
       ),
     ]);
 
@@ -360,13 +547,14 @@ async function buildReportContext(data: SnapshotData) {
     keyEventDonuts = (
       await Promise.all(
         (data.ga4.current.keyEventBreakdowns ?? []).map(async (event) => ({
-          name: event.name,
+          name: event.label ?? event.name,
           total: event.total,
           chart: await renderDonutChart({
             labels: event.channels.map((channel) => channel.name),
             data: event.channels.map((channel) => channel.count),
             centerText: String(event.total),
-            centerSubtext: "Key Events",
+            centerSubtext: translate(messages, "metric.keyEvents"),
+            theme,
           }),
         }))
       )
@@ -381,88 +569,193 @@ async function buildReportContext(data: SnapshotData) {
     }));
   }
 
+  if (withCharts && data.googleAds) {
+    const currentDaily = data.googleAds.current.dailyMetrics ?? [];
+    const previousDaily = data.googleAds.previous.dailyMetrics ?? [];
+    const labels = currentDaily.map((point) => formatShortDate(point.date, locale));
+
+    [adsImpressionsChart, adsClicksChart, adsSpendChart] = await Promise.all([
+      renderTimeSeriesChart({
+        labels,
+        current: currentDaily.map((point) => point.impressions),
+        previous: normalizeSeries(
+          previousDaily.map((point) => point.impressions),
+          labels.length
+        ),
+        color: accent,
+        theme,
+      }),
+      renderTimeSeriesChart({
+        labels,
+        current: currentDaily.map((point) => point.clicks),
+        previous: normalizeSeries(
+          previousDaily.map((point) => point.clicks),
+          labels.length
+        ),
+        color: accent,
+        theme,
+      }),
+      renderTimeSeriesChart({
+        labels,
+        current: currentDaily.map((point) => point.spend),
+        previous: normalizeSeries(
+          previousDaily.map((point) => point.spend),
+          labels.length
+        ),
+        color: fillAccent,
+        fill: true,
+        theme,
+      }),
+    ]);
+  }
+
   return {
     ...data,
-    styles: templateStyles,
-    periodLabel: formatPeriodLabel(data.snapshotDate),
-    generatedAtFormatted: formatDate(data.generatedAt),
-    periodStart: formatDate(data.periodStart),
-    periodEnd: formatDate(data.periodEnd),
+    styles: template.styles,
+    brandingStyles: getBrandingStyles(branding),
+    branding,
+    hasCoverPage: Boolean(branding.coverTitle || branding.coverText),
+    // Sanitized HTML, output unescaped by the templates
+    commentary,
+    goalProgress: buildGoalProgress(data, messages),
+    messages,
+    language: locale.split("-")[0],
+    periodLabel: formatPeriodLabel(data.periodStart, data.periodEnd, locale),
+    generatedAtFormatted: formatDate(data.generatedAt, locale, data.timezone),
+    periodStart: formatDate(data.periodStart, locale),
+    periodEnd: formatDate(data.periodEnd, locale),
+    comparisonStart: formatDate(data.previousPeriodStart, locale),
+    comparisonEnd: formatDate(data.previousPeriodEnd, locale),
+    comparisonLabel: formatComparisonLabel(data.comparisonMode, messages),
+    comparisonShortLabel: formatComparisonShortLabel(data, messages),
+    yearOverYearStart: data.ga4?.yearOverYear
+      ? formatDate(data.ga4.yearOverYear.periodStart, locale)
+      : null,
+    yearOverYearEnd: data.ga4?.yearOverYear
+      ? formatDate(data.ga4.yearOverYear.periodEnd, locale)
+      : null,
     channelsPieChart,
     sessionsTrendChart,
     usersTrendChart,
+    anomalyMarkers,
     sparklineCharts,
     keyEventDonuts,
     pageViewBars,
+    adsImpressionsChart,
+    adsClicksChart,
+    adsSpendChart,
+    hasSearchVolume: (data.rankings?.keywords ?? []).some(
+      (keyword) => keyword.searchVolume !== null
+    ),
   };
 }
 
-// Render report from snapshot data
-server.post<{ Body: { data: SnapshotData } }>(
-  "/render/report",
-  async (request, reply) => {
-    const { data } = request.body;
-
-    if (!data) {
-      return reply.status(400).send({ error: "Snapshot data is required" });
-    }
+interface RenderReportBody {
+  data?: unknown;
+  branding?: unknown;
+  commentary?: unknown;
+}
 
-    if (!reportTemplate) {
-      await loadTemplate();
-    }
+interface RenderPayload {
+  data: SnapshotData;
+  branding: ReportBranding;
+  commentary: ReportCommentary;
+}
 
-    const context = await buildReportContext(data);
+/**
+ * Parse a render request's snapshot, upgrading older schema versions, its
+ * branding and its commentary, which is sanitized again here. Replies with
+ * 400/422 and returns null when the payload can't be rendered.
+ */
+function readRenderPayload(
+  body: RenderReportBody | undefined,
+  reply: FastifyReply
+): RenderPayload | null {
+  if (!body?.data) {
+    reply.status(400).send({ error: "Snapshot data is required" });
+    return null;
+  }
 
-    // Render HTML
-    const html = reportTemplate!(context);
+  try {
+    return {
+      data: parseSnapshotData(body.data),
+      branding: parseReportBranding(body.branding),
+      commentary: parseReportCommentary(body.commentary),
+    };
+  } catch (error) {
+    if (
+      error instanceof SnapshotSchemaError ||
+      error instanceof BrandingSchemaError ||
+      error instanceof CommentarySchemaError
+    ) {
+      reply.status(422).send({ error: error.message, issues: error.issues });
+      return null;
+    }
+    throw error;
+  }
+}
 
-    // Render to PDF
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: ["--no-sandbox", "--disable-setuid-sandbox"],
+// Print HTML to an A4 PDF on a pooled page
+async function renderPdf(html: string): Promise<Uint8Array> {
+  return browserPool.withPage(async (page) => {
+    await page.setContent(html, { waitUntil: "networkidle0" });
+    return page.pdf({
+      format: "A4",
+      margin: {
+        top: "20mm",
+        right: "20mm",
+        bottom: "20mm",
+        left: "20mm",
+      },
+      printBackground: true,
     });
+  });
+}
 
-    try {
-      const page = await browser.newPage();
-      await page.setContent(html, { waitUntil: "networkidle0" });
-
-      const pdfBuffer = await page.pdf({
-        format: "A4",
-        margin: {
-          top: "20mm",
-          right: "20mm",
-          bottom: "20mm",
-          left: "20mm",
-        },
-        printBackground: true,
-      });
-
-      reply.header("Content-Type", "application/pdf");
-      return reply.send(pdfBuffer);
-    } finally {
-      await browser.close();
+// Render report from snapshot data
+server.post<{ Body: RenderReportBody }>(
+  "/render/report",
+  async (request, reply) => {
+    const payload = readRenderPayload(request.body, reply);
+    if (!payload) {
+      return reply;
     }
+
+    // Render with the template the snapshot was generated with
+    const template = (await getTemplates()).get(payload.data.templateVersion);
+    const context = await buildReportContext(
+      payload.data,
+      template,
+      payload.branding,
+      payload.commentary
+    );
+    const html = template.render(context);
+
+    const pdfBuffer = await renderPdf(html);
+
+    reply.header("Content-Type", "application/pdf");
+    return reply.send(pdfBuffer);
   }
 );
 
 // Render report as HTML preview (no PDF)
-server.post<{ Body: { data: SnapshotData } }>(
+server.post<{ Body: RenderReportBody }>(
   "/render/preview",
   async (request, reply) => {
-    const { data } = request.body;
-
-    if (!data) {
-      return reply.status(400).send({ error: "Snapshot data is required" });
-    }
-
-    if (!reportTemplate) {
-      await loadTemplate();
+    const payload = readRenderPayload(request.body, reply);
+    if (!payload) {
+      return reply;
     }
 
-    const context = await buildReportContext(data);
-
-    // Render HTML
-    const html = reportTemplate!(context);
+    // Render with the template the snapshot was generated with
+    const template = (await getTemplates()).get(payload.data.templateVersion);
+    const context = await buildReportContext(
+      payload.data,
+      template,
+      payload.branding,
+      payload.commentary
+    );
+    const html = template.render(context);
 
     reply.header("Content-Type", "text/html");
     return reply.send(html);
@@ -477,43 +770,42 @@ server.post<{ Body: { html: string } }>("/render", async (request, reply) => {
     return reply.status(400).send({ error: "HTML content is required" });
   }
 
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: ["--no-sandbox", "--disable-setuid-sandbox"],
-  });
-
-  try {
-    const page = await browser.newPage();
-    await page.setContent(html, { waitUntil: "networkidle0" });
+  const pdfBuffer = await renderPdf(html);
 
-    const pdfBuffer = await page.pdf({
-      format: "A4",
-      margin: {
-        top: "20mm",
-        right: "20mm",
-        bottom: "20mm",
-        left: "20mm",
-      },
-      printBackground: true,
-    });
+  reply.header("Content-Type", "application/pdf");
+  return reply.send(pdfBuffer);
+});
 
-    reply.header("Content-Type", "application/pdf");
-    return reply.send(pdfBuffer);
-  } finally {
-    await browser.close();
-  }
+// Templates snapshots can be generated with
+server.get("/templates", async () => {
+  return { templates: (await getTemplates()).list() };
 });
 
-// Health check
+// Health check, with pool stats for sizing RENDERER_BROWSERS and RENDERER_CONCURRENCY
 server.get("/health", async () => {
-  return { status: "healthy" };
+  return { status: "healthy", pool: browserPool.stats() };
 });
 
+const shutdown = async () => {
+  server.log.info("Shutting down renderer...");
+  await server.close();
+  await browserPool.close();
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
 const start = async () => {
   try {
-    // Pre-load template
-    await loadTemplate();
-    server.log.info("Report template loaded");
+    // Pre-load templates
+    const templates = await getTemplates();
+    server.log.info({ templates: templates.list().map((t) => t.ref) }, "Report templates loaded");
+    const bundles = await getLocaleBundles();
+    server.log.info({ languages: bundles.languages() }, "Locale bundles loaded");
+
+    await browserPool.start();
+    server.log.info(browserPool.stats(), "Browser pool started");
 
     const port = parseInt(process.env.RENDERER_PORT || "3001", 10);
     await server.listen({ port, host: "0.0.0.0" });
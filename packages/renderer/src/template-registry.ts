@@ -0,0 +1,194 @@
+import {
+  getTemplateRef,
+  normalizeTemplateRef,
+  SNAPSHOT_SCHEMA_VERSION,
+  type ReportTemplate,
+} from "@agency-reports/shared";
+import { promises as fs } from "fs";
+import Handlebars from "handlebars";
+import path from "path";
+
+export interface TemplateManifest {
+  id: string;
+  version: string;
+  name: string;
+  description: string;
+  /** Snapshot schema version the template was written against */
+  snapshotSchemaVersion: number;
+  /** Whether the template shows charts; chart rendering is skipped when false */
+  charts: boolean;
+  /**
+   * Whether the template applies report branding. Charts for templates
+   * without it keep the fixed colours they were released with, so their
+   * reports don't change when branding does.
+   */
+  branding: boolean;
+  /** Whether the template's charts mark the unusual days stored with the snapshot */
+  anomalyMarkers: boolean;
+}
+
+export interface LoadedTemplate {
+  ref: string;
+  manifest: TemplateManifest;
+  styles: string;
+  render: (context: object) => string;
+}
+
+export class UnknownTemplateError extends Error {
+  constructor(public ref: string) {
+    super(`Report template "${ref}" is not available`);
+    this.name = "UnknownTemplateError";
+  }
+}
+
+/**
+ * Report templates keyed by "<id>@<version>". Every version stays loaded so
+ * a snapshot renders with the template it was generated with.
+ */
+export class TemplateRegistry {
+  private templates = new Map<string, LoadedTemplate>();
+
+  constructor(templates: LoadedTemplate[]) {
+    for (const template of templates) {
+      this.templates.set(template.ref, template);
+    }
+  }
+
+  /**
+   * Look up a template by the version recorded on a snapshot
+   */
+  get(templateVersion: string): LoadedTemplate {
+    const ref = normalizeTemplateRef(templateVersion);
+    const template = this.templates.get(ref);
+    if (!template) {
+      throw new UnknownTemplateError(ref);
+    }
+    return template;
+  }
+
+  list(): ReportTemplate[] {
+    return [...this.templates.values()]
+      .map(({ ref, manifest }) => ({
+        ref,
+        id: manifest.id,
+        version: manifest.version,
+        name: manifest.name,
+        description: manifest.description,
+        snapshotSchemaVersion: manifest.snapshotSchemaVersion,
+      }))
+      .sort((a, b) => a.ref.localeCompare(b.ref));
+  }
+}
+
+/**
+ * Load every template directory under `root`. Each holds a manifest.json,
+ * report.hbs, styles.css and optional partials/*.hbs. Templates written for a
+ * newer snapshot schema than this build parses are skipped.
+ */
+export async function loadTemplateRegistry(
+  root: string,
+  onSkip: (directory: string, reason: string) => void = () => undefined
+): Promise<TemplateRegistry> {
+  const entries = await fs.readdir(root, { withFileTypes: true });
+  const templates: LoadedTemplate[] = [];
+  const refs = new Set<string>();
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+
+    const directory = path.join(root, entry.name);
+    const template = await loadTemplate(directory);
+
+    if (template.manifest.snapshotSchemaVersion > SNAPSHOT_SCHEMA_VERSION) {
+      onSkip(
+        entry.name,
+        `requires snapshot schema version ${template.manifest.snapshotSchemaVersion}; this build supports ${SNAPSHOT_SCHEMA_VERSION}`
+      );
+      continue;
+    }
+    if (refs.has(template.ref)) {
+      throw new Error(`Duplicate report template ${template.ref} in ${entry.name}`);
+    }
+
+    refs.add(template.ref);
+    templates.push(template);
+  }
+
+  return new TemplateRegistry(templates);
+}
+
+async function loadTemplate(directory: string): Promise<LoadedTemplate> {
+  const [manifestContent, templateContent, styles, partials] = await Promise.all([
+    fs.readFile(path.join(directory, "manifest.json"), "utf-8"),
+    fs.readFile(path.join(directory, "report.hbs"), "utf-8"),
+    fs.readFile(path.join(directory, "styles.css"), "utf-8"),
+    loadPartials(path.join(directory, "partials")),
+  ]);
+
+  const manifest = parseManifest(JSON.parse(manifestContent), directory);
+  const template = Handlebars.compile(templateContent);
+
+  return {
+    ref: getTemplateRef(manifest.id, manifest.version),
+    manifest,
+    styles,
+    // Partials are passed per render so templates can reuse partial names
+    render: (context) => template(context, { partials }),
+  };
+}
+
+async function loadPartials(
+  directory: string
+): Promise<Record<string, HandlebarsTemplateDelegate>> {
+  let files: string[];
+  try {
+    files = await fs.readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+
+  const partials: Record<string, HandlebarsTemplateDelegate> = {};
+  for (const file of files.filter((name) => name.endsWith(".hbs"))) {
+    const content = await fs.readFile(path.join(directory, file), "utf-8");
+    partials[path.basename(file, ".hbs")] = Handlebars.compile(content);
+  }
+  return partials;
+}
+
+function parseManifest(raw: Record<string, unknown>, directory: string): TemplateManifest {
+  const {
+    id,
+    version,
+    name,
+    description,
+    snapshotSchemaVersion,
+    charts,
+    branding,
+    anomalyMarkers,
+  } = raw;
+  if (
+    typeof id !== "string" ||
+    !/^[a-z0-9-]+$/.test(id) ||
+    typeof version !== "string" ||
+    !version ||
+    typeof name !== "string" ||
+    typeof snapshotSchemaVersion !== "number" ||
+    !Number.isInteger(snapshotSchemaVersion)
+  ) {
+    throw new Error(
+      `Invalid template manifest in ${directory}: id, version, name and snapshotSchemaVersion are required`
+    );
+  }
+
+  return {
+    id,
+    version,
+    name,
+    description: typeof description === "string" ? description : "",
+    snapshotSchemaVersion,
+    charts: charts !== false,
+    branding: branding === true,
+    anomalyMarkers: anomalyMarkers === true,
+  };
+}
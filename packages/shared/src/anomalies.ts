@@ -0,0 +1,135 @@
+import { z } from "zod";
+import type { GA4DailyMetric } from "./snapshot-schema.js";
+
+/** Daily GA4 series checked for unusual days */
+export const ANOMALY_METRICS = ["sessions", "users", "keyEvents"] as const;
+export type AnomalyMetric = (typeof ANOMALY_METRICS)[number];
+
+export const metricAnomalySchema = z.object({
+  metric: z.enum(ANOMALY_METRICS),
+  date: z.string(),
+  value: z.number(),
+  /** Median of the baseline window the day was compared against */
+  expected: z.number(),
+  /** Robust z-score: distance from the median in scaled MADs */
+  score: z.number(),
+  direction: z.enum(["spike", "drop"]),
+});
+
+export type MetricAnomaly = z.infer<typeof metricAnomalySchema>;
+export type AnomalyDirection = MetricAnomaly["direction"];
+
+export interface AnomalyOptions {
+  /** Days before each day that form its baseline */
+  window: number;
+  /** Days of history needed before a day is checked at all */
+  minHistory: number;
+  /** Robust z-score a day must reach to be flagged */
+  threshold: number;
+  /** Smallest absolute distance from the median; keeps low-traffic noise out */
+  minDeviation: number;
+  /** Only days on or after this date are flagged; earlier days are baseline only */
+  from?: string;
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  window: 28,
+  minHistory: 14,
+  threshold: 3.5,
+  minDeviation: 10,
+};
+
+// Scales the MAD to the standard deviation of normally distributed data
+const MAD_SCALE = 1.4826;
+
+/**
+ * Flag days whose value is far from the rolling median of the days before
+ * them, measured in median absolute deviations. Missing values (null) are
+ * skipped and left out of every baseline.
+ */
+export function detectSeriesAnomalies(
+  metric: AnomalyMetric,
+  series: Array<{ date: string; value: number | null }>,
+  options: Partial<AnomalyOptions> = {}
+): MetricAnomaly[] {
+  const { window, minHistory, threshold, minDeviation, from } = {
+    ...DEFAULT_ANOMALY_OPTIONS,
+    ...options,
+  };
+  const points = series
+    .filter((point): point is { date: string; value: number } => point.value !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const anomalies: MetricAnomaly[] = [];
+
+  points.forEach((point, index) => {
+    if (from && point.date < from) return;
+
+    const baseline = points.slice(Math.max(0, index - window), index).map((p) => p.value);
+    if (baseline.length < minHistory) return;
+
+    const expected = median(baseline);
+    const deviation = point.value - expected;
+    if (Math.abs(deviation) < minDeviation) return;
+
+    // On a flat baseline the floor lets any departure of minDeviation count
+    const spread = Math.max(
+      MAD_SCALE * median(baseline.map((value) => Math.abs(value - expected))),
+      minDeviation / threshold
+    );
+    const score = deviation / spread;
+    if (Math.abs(score) < threshold) return;
+
+    anomalies.push({
+      metric,
+      date: point.date,
+      value: point.value,
+      expected,
+      score: Math.round(score * 10) / 10,
+      direction: deviation > 0 ? "spike" : "drop",
+    });
+  });
+
+  return anomalies;
+}
+
+/**
+ * Check every anomaly metric in a run of GA4 daily metrics, newest days last
+ */
+export function detectDailyAnomalies(
+  dailyMetrics: GA4DailyMetric[],
+  options: Partial<AnomalyOptions> = {}
+): MetricAnomaly[] {
+  return ANOMALY_METRICS.flatMap((metric) =>
+    detectSeriesAnomalies(
+      metric,
+      dailyMetrics.map((day) => ({ date: day.date, value: day[metric] })),
+      options
+    )
+  );
+}
+
+/**
+ * Unusual days in a report period's GA4 daily metrics. The previous period
+ * only counts as history when it directly precedes the current one, so
+ * year-over-year comparisons use the current period alone.
+ */
+export function detectPeriodAnomalies(
+  currentDaily: GA4DailyMetric[],
+  previousDaily: GA4DailyMetric[]
+): MetricAnomaly[] {
+  const from = currentDaily[0]?.date;
+  if (!from) return [];
+
+  const dayBefore = new Date(Date.parse(`${from}T00:00:00Z`) - 86_400_000)
+    .toISOString()
+    .slice(0, 10);
+  const history = previousDaily.at(-1)?.date === dayBefore ? previousDaily : [];
+
+  return detectDailyAnomalies([...history, ...currentDaily], { from });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+}
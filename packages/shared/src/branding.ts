@@ -0,0 +1,110 @@
+import { z } from "zod";
+
+/**
+ * Fonts a report can use. Reports are printed without network access, so
+ * each choice is a stack of fonts commonly installed on the renderer host.
+ */
+export const REPORT_FONTS = {
+  system: {
+    label: "System",
+    stack:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+  },
+  helvetica: {
+    label: "Helvetica",
+    stack: '"Helvetica Neue", Helvetica, Arial, sans-serif',
+  },
+  georgia: {
+    label: "Georgia",
+    stack: 'Georgia, "Times New Roman", serif',
+  },
+  palatino: {
+    label: "Palatino",
+    stack: '"Palatino Linotype", Palatino, "Book Antiqua", serif',
+  },
+} as const;
+
+export type ReportFont = keyof typeof REPORT_FONTS;
+
+const reportFontIds = Object.keys(REPORT_FONTS) as [ReportFont, ...ReportFont[]];
+
+export const LOGO_CONTENT_TYPES = ["image/png", "image/jpeg", "image/svg+xml"] as const;
+export type LogoContentType = (typeof LOGO_CONTENT_TYPES)[number];
+
+/** Largest logo accepted, in bytes before base64 encoding */
+export const MAX_LOGO_BYTES = 512 * 1024;
+
+export const hexColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Colors must be hex values like #2563eb");
+
+export const reportFontSchema = z.enum(reportFontIds);
+
+export const logoDataUrlSchema = z
+  .string()
+  .regex(
+    /^data:image\/(png|jpeg|svg\+xml);base64,[A-Za-z0-9+/]+={0,2}$/,
+    "Logo must be a base64 PNG, JPEG or SVG data URL"
+  );
+
+/**
+ * Branding applied to a rendered report, after agency and client settings
+ * have been merged over the defaults
+ */
+export const reportBrandingSchema = z.object({
+  primaryColor: hexColorSchema,
+  accentColor: hexColorSchema,
+  fontFamily: reportFontSchema,
+  footerText: z.string().max(500),
+  coverTitle: z.string().max(200).nullable(),
+  coverText: z.string().max(2000).nullable(),
+  logo: logoDataUrlSchema.nullable(),
+});
+
+export type ReportBranding = z.infer<typeof reportBrandingSchema>;
+
+export const DEFAULT_BRANDING: ReportBranding = {
+  primaryColor: "#2563eb",
+  accentColor: "#f59e0b",
+  fontFamily: "system",
+  footerText: "Report generated by Agency Reports Platform",
+  coverTitle: null,
+  coverText: null,
+  logo: null,
+};
+
+export class BrandingSchemaError extends Error {
+  constructor(
+    message: string,
+    public issues: string[] = []
+  ) {
+    super(message);
+    this.name = "BrandingSchemaError";
+  }
+}
+
+/**
+ * Validate branding sent with a render request, filling anything left out
+ * with the defaults
+ */
+export function parseReportBranding(raw: unknown): ReportBranding {
+  if (raw === undefined || raw === null) {
+    return DEFAULT_BRANDING;
+  }
+
+  const result = reportBrandingSchema.partial().safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new BrandingSchemaError(`Invalid branding: ${issues[0]}`, issues);
+  }
+
+  return { ...DEFAULT_BRANDING, ...stripUndefined(result.data) };
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,188 @@
+import { z } from "zod";
+
+/**
+ * Agency commentary blocks a report can carry, in the order they appear
+ */
+export const COMMENTARY_SECTIONS = ["executiveSummary", "ga4", "channels", "keyEvents"] as const;
+export type CommentarySection = (typeof COMMENTARY_SECTIONS)[number];
+
+/** Longest commentary block accepted, in characters of HTML */
+export const MAX_COMMENTARY_LENGTH = 20_000;
+
+const commentaryHtmlSchema = z.string().max(MAX_COMMENTARY_LENGTH);
+
+/**
+ * Rich-text commentary as sanitized HTML; a null block is left out of the report
+ */
+export const reportCommentarySchema = z.object({
+  executiveSummary: commentaryHtmlSchema.nullable(),
+  ga4: commentaryHtmlSchema.nullable(),
+  channels: commentaryHtmlSchema.nullable(),
+  keyEvents: commentaryHtmlSchema.nullable(),
+});
+
+export type ReportCommentary = z.infer<typeof reportCommentarySchema>;
+
+export type UpdateCommentaryRequest = Partial<ReportCommentary>;
+
+export const EMPTY_COMMENTARY: ReportCommentary = {
+  executiveSummary: null,
+  ga4: null,
+  channels: null,
+  keyEvents: null,
+};
+
+export class CommentarySchemaError extends Error {
+  constructor(
+    message: string,
+    public issues: string[] = []
+  ) {
+    super(message);
+    this.name = "CommentarySchemaError";
+  }
+}
+
+/**
+ * Validate commentary from storage or a render request and sanitize every
+ * block. Blocks left out, or with no visible text, become null.
+ */
+export function parseReportCommentary(raw: unknown): ReportCommentary {
+  if (raw === undefined || raw === null) {
+    return EMPTY_COMMENTARY;
+  }
+
+  const result = reportCommentarySchema.partial().safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new CommentarySchemaError(`Invalid commentary: ${issues[0]}`, issues);
+  }
+
+  const commentary = { ...EMPTY_COMMENTARY };
+  for (const section of COMMENTARY_SECTIONS) {
+    commentary[section] = normalizeCommentaryHtml(result.data[section] ?? null);
+  }
+  return commentary;
+}
+
+/**
+ * Sanitized HTML for one block, or null when it has no visible text
+ */
+export function normalizeCommentaryHtml(html: string | null): string | null {
+  if (html === null) return null;
+
+  const sanitized = sanitizeCommentaryHtml(html);
+  const text = sanitized
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;|&#160;/g, " ")
+    .trim();
+  return text ? sanitized : null;
+}
+
+const ALLOWED_TAGS = new Set([
+  "p",
+  "br",
+  "strong",
+  "b",
+  "em",
+  "i",
+  "u",
+  "s",
+  "ul",
+  "ol",
+  "li",
+  "h3",
+  "h4",
+  "blockquote",
+  "a",
+]);
+
+const VOID_TAGS = new Set(["br"]);
+
+// Elements dropped together with everything inside them
+const DROPPED_TAGS = new Set([
+  "script",
+  "style",
+  "iframe",
+  "object",
+  "embed",
+  "template",
+  "noscript",
+  "textarea",
+  "title",
+  "svg",
+  "math",
+]);
+
+const TAG_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+/**
+ * Reduce HTML to a small allowlist of formatting tags. Attributes are
+ * dropped except an http(s) or mailto href on links, unknown tags are
+ * unwrapped, and unclosed tags are closed.
+ */
+export function sanitizeCommentaryHtml(html: string): string {
+  const output: string[] = [];
+  const open: string[] = [];
+  let dropping: string | null = null;
+  let last = 0;
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    if (!dropping) {
+      output.push(escapeText(html.slice(last, match.index)));
+    }
+    last = match.index! + match[0].length;
+
+    const [, closing, rawName, attributes = ""] = match;
+    if (!rawName) continue; // Comment
+
+    const name = rawName.toLowerCase();
+    if (dropping) {
+      if (closing && name === dropping) dropping = null;
+      continue;
+    }
+    if (DROPPED_TAGS.has(name)) {
+      if (!closing && !attributes.trim().endsWith("/")) dropping = name;
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(name)) continue;
+
+    if (closing) {
+      const index = open.lastIndexOf(name);
+      if (index === -1) continue;
+      while (open.length > index) output.push(`</${open.pop()}>`);
+    } else if (VOID_TAGS.has(name)) {
+      output.push(`<${name}>`);
+    } else {
+      output.push(name === "a" ? openLink(attributes) : `<${name}>`);
+      open.push(name);
+    }
+  }
+
+  if (!dropping) {
+    output.push(escapeText(html.slice(last)));
+  }
+  while (open.length > 0) output.push(`</${open.pop()}>`);
+
+  return output.join("").trim();
+}
+
+function openLink(attributes: string): string {
+  const match = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i.exec(attributes);
+  const href = (match?.[1] ?? match?.[2] ?? match?.[3] ?? "").trim();
+
+  if (!/^(https?:\/\/|mailto:)[^\s"'<>`]+$/i.test(href)) {
+    return "<a>";
+  }
+  return `<a href="${escapeText(href)}" rel="noopener noreferrer">`;
+}
+
+// Escape markup characters, keeping entities that are already encoded
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(?:#\d+|#x[0-9a-fA-F]+|[a-zA-Z][a-zA-Z0-9]*);)/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
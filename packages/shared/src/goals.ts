@@ -0,0 +1,125 @@
+import { z } from "zod";
+
+export const GOAL_PERIODS = ["monthly", "quarterly"] as const;
+export type GoalPeriod = (typeof GOAL_PERIODS)[number];
+
+/** Absolute targets are a value to reach; growth targets a percent change on the comparison period */
+export const GOAL_TARGET_TYPES = ["absolute", "growth"] as const;
+export type GoalTargetType = (typeof GOAL_TARGET_TYPES)[number];
+
+/**
+ * How a metric is shown and totalled. Counts and currency add up over the
+ * period, so absolute targets for them scale with the report's length;
+ * percentages and durations are averages and don't.
+ */
+export type GoalMetricKind = "count" | "percent" | "currency" | "duration";
+
+export interface GoalMetricDefinition {
+  label: string;
+  kind: GoalMetricKind;
+  /** False where the goal is to stay at or under the target, like bounce rate or cost per click */
+  higherIsBetter: boolean;
+}
+
+/**
+ * Snapshot metrics a goal can track, keyed "<section>.<metric>". Key events
+ * are tracked as "ga4.keyEvents.<event name>".
+ */
+export const GOAL_METRICS = {
+  "ga4.sessions": { label: "Sessions", kind: "count", higherIsBetter: true },
+  "ga4.users": { label: "Users", kind: "count", higherIsBetter: true },
+  "ga4.newUsers": { label: "New users", kind: "count", higherIsBetter: true },
+  "ga4.activeUsers": { label: "Active users", kind: "count", higherIsBetter: true },
+  "ga4.pageviews": { label: "Page views", kind: "count", higherIsBetter: true },
+  "ga4.engagementRate": { label: "Engagement rate", kind: "percent", higherIsBetter: true },
+  "ga4.bounceRate": { label: "Bounce rate", kind: "percent", higherIsBetter: false },
+  "ga4.avgSessionDuration": {
+    label: "Avg. session duration",
+    kind: "duration",
+    higherIsBetter: true,
+  },
+  "googleAds.impressions": { label: "Ad impressions", kind: "count", higherIsBetter: true },
+  "googleAds.clicks": { label: "Ad clicks", kind: "count", higherIsBetter: true },
+  "googleAds.conversions": { label: "Ad conversions", kind: "count", higherIsBetter: true },
+  "googleAds.ctr": { label: "Ad CTR", kind: "percent", higherIsBetter: true },
+  "googleAds.conversionRate": {
+    label: "Ad conversion rate",
+    kind: "percent",
+    higherIsBetter: true,
+  },
+  "googleAds.cpc": { label: "Cost per click", kind: "currency", higherIsBetter: false },
+  "googleAds.spend": { label: "Ad spend", kind: "currency", higherIsBetter: false },
+} as const satisfies Record<string, GoalMetricDefinition>;
+
+export type StandardGoalMetric = keyof typeof GOAL_METRICS;
+
+export const KEY_EVENT_GOAL_PREFIX = "ga4.keyEvents.";
+
+// GA4 event names: letters, digits and underscores, at most 40 characters
+const KEY_EVENT_NAME = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+
+/**
+ * Look up a goal metric; null when the key isn't one goals can track
+ */
+export function getGoalMetricDefinition(metric: string): GoalMetricDefinition | null {
+  if (Object.hasOwn(GOAL_METRICS, metric)) {
+    return GOAL_METRICS[metric as StandardGoalMetric];
+  }
+
+  const eventName = getGoalKeyEvent(metric);
+  return eventName ? { label: eventName, kind: "count", higherIsBetter: true } : null;
+}
+
+/**
+ * The key event a goal metric tracks, if it tracks one
+ */
+export function getGoalKeyEvent(metric: string): string | null {
+  if (!metric.startsWith(KEY_EVENT_GOAL_PREFIX)) return null;
+  const eventName = metric.slice(KEY_EVENT_GOAL_PREFIX.length);
+  return KEY_EVENT_NAME.test(eventName) ? eventName : null;
+}
+
+export const goalMetricSchema = z
+  .string()
+  .refine((metric) => getGoalMetricDefinition(metric) !== null, "Unknown goal metric");
+
+/**
+ * A goal as measured for one snapshot; stored with the snapshot so the
+ * report matches the goals that were set when it was generated
+ */
+export const snapshotGoalSchema = z.object({
+  goalId: z.string(),
+  metric: goalMetricSchema,
+  period: z.enum(GOAL_PERIODS),
+  targetType: z.enum(GOAL_TARGET_TYPES),
+  /** As entered: the absolute value, or the growth in percent */
+  targetValue: z.number(),
+  /** Value to reach in this snapshot's period */
+  target: z.number(),
+  actual: z.number(),
+  /** Progress towards the target, 1 when exactly on target; may exceed 1 */
+  attainment: z.number(),
+  met: z.boolean(),
+});
+
+export type SnapshotGoal = z.infer<typeof snapshotGoalSchema>;
+
+export interface ClientGoal {
+  id: string;
+  clientId: string;
+  metric: string;
+  period: GoalPeriod;
+  targetType: GoalTargetType;
+  targetValue: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateGoalRequest {
+  metric: string;
+  period: GoalPeriod;
+  targetType: GoalTargetType;
+  targetValue: number;
+}
+
+export type UpdateGoalRequest = Partial<Pick<CreateGoalRequest, "targetType" | "targetValue">>;
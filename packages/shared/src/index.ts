@@ -1 +1,9 @@
 export * from "./types.js";
+export * from "./snapshot-schema.js";
+export * from "./templates.js";
+export * from "./branding.js";
+export * from "./locale.js";
+export * from "./commentary.js";
+export * from "./anomalies.js";
+export * from "./goals.js";
+export * from "./insights.js";
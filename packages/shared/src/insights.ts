@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { MAX_INSIGHTS } from "./snapshot-schema.js";
+
+/** Longest phrase template accepted, in characters */
+export const MAX_INSIGHT_PHRASE_LENGTH = 200;
+
+const phraseSchema = z.string().trim().min(1).max(MAX_INSIGHT_PHRASE_LENGTH);
+
+/**
+ * Limits a change has to clear to become a highlight. Each one left out
+ * falls back to the agency default.
+ */
+export const insightThresholdsSchema = z
+  .object({
+    minChangePercent: z.number().min(0).max(1000),
+    minPointChange: z.number().min(0).max(100),
+    minSessions: z.number().int().min(0),
+    minEvents: z.number().int().min(0),
+    minAbsoluteChange: z.number().int().min(0),
+    maxInsights: z.number().int().min(1).max(MAX_INSIGHTS),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Replacements for the highlight sentence templates of the report's
+ * language, using the same {name} placeholders as the built-in phrasing
+ */
+export const insightPhrasesSchema = z
+  .object({
+    metricUp: phraseSchema,
+    metricDown: phraseSchema,
+    rateUp: phraseSchema,
+    rateDown: phraseSchema,
+    channelUp: phraseSchema,
+    channelDown: phraseSchema,
+    channelNew: phraseSchema,
+    keyEventUp: phraseSchema,
+    keyEventDown: phraseSchema,
+    keyEventNew: phraseSchema,
+    metrics: z
+      .object({
+        sessions: phraseSchema,
+        users: phraseSchema,
+        newUsers: phraseSchema,
+        pageviews: phraseSchema,
+        engagementRate: phraseSchema,
+        bounceRate: phraseSchema,
+      })
+      .partial()
+      .strict(),
+  })
+  .partial()
+  .strict();
+
+/** A client's highlight settings; an empty object uses the agency defaults */
+export const insightSettingsSchema = z
+  .object({
+    thresholds: insightThresholdsSchema.optional(),
+    phrases: insightPhrasesSchema.optional(),
+  })
+  .strict();
+
+export type InsightThresholdSettings = z.infer<typeof insightThresholdsSchema>;
+export type InsightPhraseSettings = z.infer<typeof insightPhrasesSchema>;
+export type InsightSettings = z.infer<typeof insightSettingsSchema>;
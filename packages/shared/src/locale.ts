@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+/**
+ * Locales a report can be formatted in. Numbers and dates follow the region;
+ * static template strings come from the language's bundle in the renderer,
+ * falling back to English.
+ */
+export const REPORT_LOCALES = {
+  "en-US": "English (United States)",
+  "en-GB": "English (United Kingdom)",
+  "en-AU": "English (Australia)",
+  "en-CA": "English (Canada)",
+  "de-DE": "Deutsch (Deutschland)",
+  "de-AT": "Deutsch (Österreich)",
+  "de-CH": "Deutsch (Schweiz)",
+  "fr-FR": "Français (France)",
+  "fr-CA": "Français (Canada)",
+  "es-ES": "Español (España)",
+  "es-MX": "Español (México)",
+} as const;
+
+export type ReportLocale = keyof typeof REPORT_LOCALES;
+
+const reportLocaleIds = Object.keys(REPORT_LOCALES) as [ReportLocale, ...ReportLocale[]];
+
+export const DEFAULT_LOCALE: ReportLocale = "en-US";
+
+export const reportLocaleSchema = z.enum(reportLocaleIds);
+
+export const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, "Currency must be a three-letter ISO 4217 code like EUR");
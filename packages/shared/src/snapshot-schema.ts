@@ -0,0 +1,393 @@
+import { z } from "zod";
+import { metricAnomalySchema } from "./anomalies.js";
+import { snapshotGoalSchema } from "./goals.js";
+import { DEFAULT_LOCALE, reportLocaleSchema } from "./locale.js";
+import type { ComparisonMode } from "./types.js";
+
+/**
+ * Version of the snapshot JSON written today. Bump it whenever the shape
+ * changes, and add an upgrade from the previous version below.
+ */
+export const SNAPSHOT_SCHEMA_VERSION = 7;
+
+const comparisonModeSchema = z.enum([
+  "previous_period",
+  "previous_year",
+  "custom",
+]) satisfies z.ZodType<ComparisonMode>;
+
+// GA4
+
+export const ga4DailyMetricSchema = z.object({
+  date: z.string(),
+  sessions: z.number(),
+  users: z.number(),
+  newUsers: z.number(),
+  pageviews: z.number(),
+  avgSessionDuration: z.number(),
+  bounceRate: z.number(),
+  activeUsers: z.number(),
+  engagementRate: z.number(),
+  userEngagementDuration: z.number(),
+  /** Key events that day; null in snapshots taken before they were counted daily */
+  keyEvents: z.number().nullable(),
+});
+
+export const ga4MetricsSchema = z.object({
+  sessions: z.number(),
+  users: z.number(),
+  newUsers: z.number(),
+  pageviews: z.number(),
+  avgSessionDuration: z.number(),
+  bounceRate: z.number(),
+  activeUsers: z.number(),
+  engagementRate: z.number(),
+  userEngagementDuration: z.number(),
+  dailyMetrics: z.array(ga4DailyMetricSchema),
+  topPages: z.array(z.object({ path: z.string(), views: z.number() })),
+  channels: z.array(
+    z.object({
+      name: z.string(),
+      sessions: z.number(),
+      users: z.number(),
+      percentage: z.number(),
+    })
+  ),
+  keyEvents: z.array(
+    z.object({ name: z.string(), label: z.string().optional(), count: z.number() })
+  ),
+  keyEventBreakdowns: z.array(
+    z.object({
+      name: z.string(),
+      label: z.string().optional(),
+      total: z.number(),
+      channels: z.array(z.object({ name: z.string(), count: z.number() })),
+    })
+  ),
+});
+
+export const ga4ChangesSchema = z.object({
+  sessions: z.number(),
+  users: z.number(),
+  newUsers: z.number(),
+  pageviews: z.number(),
+  avgSessionDuration: z.number(),
+  bounceRate: z.number(),
+  activeUsers: z.number(),
+  engagementRate: z.number(),
+  userEngagementDuration: z.number(),
+});
+
+export const ga4YearOverYearSchema = z.object({
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  /** Whether the year-ago metrics were reused from a stored snapshot or fetched */
+  source: z.enum(["snapshot", "api"]),
+  metrics: ga4MetricsSchema,
+  changes: ga4ChangesSchema,
+});
+
+export const ga4SectionSchema = z.object({
+  propertyId: z.string(),
+  propertyName: z.string(),
+  current: ga4MetricsSchema,
+  previous: ga4MetricsSchema,
+  changes: ga4ChangesSchema,
+  yearOverYear: ga4YearOverYearSchema.optional(),
+});
+
+// Google Ads
+
+export const googleAdsCampaignMetricsSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  impressions: z.number(),
+  clicks: z.number(),
+  ctr: z.number(),
+  cpc: z.number(),
+  conversions: z.number(),
+  conversionRate: z.number(),
+  spend: z.number(),
+  costPerConversion: z.number().nullable(),
+});
+
+export const googleAdsMetricsSchema = z.object({
+  impressions: z.number(),
+  clicks: z.number(),
+  ctr: z.number(),
+  cpc: z.number(),
+  conversions: z.number(),
+  conversionRate: z.number(),
+  spend: z.number(),
+  currencyCode: z.string().nullable(),
+  dailyMetrics: z.array(
+    z.object({
+      date: z.string(),
+      impressions: z.number(),
+      clicks: z.number(),
+      conversions: z.number(),
+      spend: z.number(),
+    })
+  ),
+  campaigns: z.array(googleAdsCampaignMetricsSchema),
+});
+
+export const googleAdsSectionSchema = z.object({
+  customerId: z.string(),
+  accountName: z.string(),
+  currencyCode: z.string().nullable(),
+  current: googleAdsMetricsSchema,
+  previous: googleAdsMetricsSchema,
+  changes: z.object({
+    impressions: z.number(),
+    clicks: z.number(),
+    ctr: z.number(),
+    cpc: z.number(),
+    conversions: z.number(),
+    conversionRate: z.number(),
+    spend: z.number(),
+  }),
+});
+
+// Rank tracking
+
+export const keywordRankingSchema = z.object({
+  keyword: z.string(),
+  engine: z.string(),
+  location: z.string().nullable(),
+  currentRank: z.number().nullable(),
+  previousRank: z.number().nullable(),
+  change: z.number().nullable(),
+  url: z.string().nullable(),
+  searchVolume: z.number().nullable(),
+});
+
+export const rankingsSectionSchema = z.object({
+  domain: z.string(),
+  checkedAt: z.string(),
+  keywords: z.array(keywordRankingSchema),
+});
+
+// Insights
+
+/** Longest insight bullet accepted, in characters */
+export const MAX_INSIGHT_LENGTH = 500;
+/** Most insight bullets a snapshot can carry */
+export const MAX_INSIGHTS = 12;
+
+export const snapshotInsightSchema = z.object({
+  /** Rule that produced the bullet, or null when it was added by hand */
+  rule: z.string().nullable(),
+  text: z.string().trim().min(1).max(MAX_INSIGHT_LENGTH),
+});
+
+// Snapshot
+
+export const snapshotDataSchema = z.object({
+  schemaVersion: z.literal(SNAPSHOT_SCHEMA_VERSION),
+  clientId: z.string(),
+  clientName: z.string(),
+  snapshotDate: z.string(),
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  previousPeriodStart: z.string(),
+  previousPeriodEnd: z.string(),
+  comparisonMode: comparisonModeSchema,
+  templateVersion: z.string(),
+  generatedAt: z.string(),
+  /** Client settings the report is formatted with, fixed when the snapshot is taken */
+  locale: reportLocaleSchema,
+  currency: z.string().nullable(),
+  timezone: z.string(),
+  ga4: ga4SectionSchema.optional(),
+  googleAds: googleAdsSectionSchema.optional(),
+  rankings: rankingsSectionSchema.optional(),
+  /** Plain-text highlights, generated from the data and editable before sending */
+  insights: z.array(snapshotInsightSchema).max(MAX_INSIGHTS),
+  /** Client goals measured against this period */
+  goals: z.array(snapshotGoalSchema),
+  /** Unusual days in the current period's GA4 daily metrics, marked on its charts */
+  anomalies: z.array(metricAnomalySchema),
+});
+
+export type GA4DailyMetric = z.infer<typeof ga4DailyMetricSchema>;
+export type GA4Metrics = z.infer<typeof ga4MetricsSchema>;
+export type GA4Changes = z.infer<typeof ga4ChangesSchema>;
+export type GA4YearOverYear = z.infer<typeof ga4YearOverYearSchema>;
+export type GA4Section = z.infer<typeof ga4SectionSchema>;
+export type GoogleAdsCampaignMetrics = z.infer<typeof googleAdsCampaignMetricsSchema>;
+export type GoogleAdsMetrics = z.infer<typeof googleAdsMetricsSchema>;
+export type GoogleAdsSection = z.infer<typeof googleAdsSectionSchema>;
+export type KeywordRanking = z.infer<typeof keywordRankingSchema>;
+export type RankingsSection = z.infer<typeof rankingsSectionSchema>;
+export type SnapshotInsight = z.infer<typeof snapshotInsightSchema>;
+export type SnapshotData = z.infer<typeof snapshotDataSchema>;
+
+/**
+ * Thrown when snapshot JSON is from an unknown version or doesn't match its schema
+ */
+export class SnapshotSchemaError extends Error {
+  constructor(
+    message: string,
+    public issues: string[] = []
+  ) {
+    super(message);
+    this.name = "SnapshotSchemaError";
+  }
+}
+
+type RawSnapshot = Record<string, unknown>;
+
+/**
+ * Upgrades keyed by the version they start from; each returns the next version
+ */
+const upgrades: Record<number, (data: RawSnapshot) => RawSnapshot> = {
+  // Version 1 had no schemaVersion, predates custom comparison periods and
+  // could leave out per-day and per-item lists the connectors now always fill
+  1: (data) => ({
+    ...data,
+    schemaVersion: 2,
+    comparisonMode: data.comparisonMode ?? "previous_period",
+    ga4: withSection(data.ga4, (ga4) => ({
+      ...ga4,
+      current: withGA4Lists(ga4.current),
+      previous: withGA4Lists(ga4.previous),
+      yearOverYear: withSection(ga4.yearOverYear, (yoy) => ({
+        ...yoy,
+        metrics: withGA4Lists(yoy.metrics),
+      })),
+    })),
+    googleAds: withSection(data.googleAds, (ads) => ({
+      ...ads,
+      current: withLists(ads.current, ["dailyMetrics", "campaigns"]),
+      previous: withLists(ads.previous, ["dailyMetrics", "campaigns"]),
+    })),
+  }),
+  // Version 2 was always formatted as en-US with UTC dates
+  2: (data) => ({
+    ...data,
+    schemaVersion: 3,
+    locale: DEFAULT_LOCALE,
+    currency: null,
+    timezone: "UTC",
+  }),
+  // Version 3 predates generated insights; older reports have no highlights
+  3: (data) => ({
+    ...data,
+    schemaVersion: 4,
+    insights: [],
+  }),
+  // Version 4 didn't count key events per day
+  4: (data) => ({
+    ...data,
+    schemaVersion: 5,
+    ga4: withSection(data.ga4, (ga4) => ({
+      ...ga4,
+      current: withDailyKeyEvents(ga4.current),
+      previous: withDailyKeyEvents(ga4.previous),
+      yearOverYear: withSection(ga4.yearOverYear, (yoy) => ({
+        ...yoy,
+        metrics: withDailyKeyEvents(yoy.metrics),
+      })),
+    })),
+  }),
+  // Version 5 predates client goals
+  5: (data) => ({
+    ...data,
+    schemaVersion: 6,
+    goals: [],
+  }),
+  // Version 6 found unusual days at render time; older reports have no markers
+  6: (data) => ({
+    ...data,
+    schemaVersion: 7,
+    anomalies: [],
+  }),
+};
+
+function withSection(value: unknown, upgrade: (section: RawSnapshot) => RawSnapshot): unknown {
+  return isObject(value) ? upgrade(value) : value;
+}
+
+function withLists(value: unknown, keys: string[]): unknown {
+  if (!isObject(value)) return value;
+  const result = { ...value };
+  for (const key of keys) {
+    result[key] ??= [];
+  }
+  return result;
+}
+
+function withGA4Lists(value: unknown): unknown {
+  return withLists(value, [
+    "dailyMetrics",
+    "topPages",
+    "channels",
+    "keyEvents",
+    "keyEventBreakdowns",
+  ]);
+}
+
+function withDailyKeyEvents(value: unknown): unknown {
+  if (!isObject(value) || !Array.isArray(value.dailyMetrics)) return value;
+  return {
+    ...value,
+    dailyMetrics: value.dailyMetrics.map((day: unknown) =>
+      isObject(day) ? { ...day, keyEvents: day.keyEvents ?? null } : day
+    ),
+  };
+}
+
+function isObject(value: unknown): value is RawSnapshot {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Schema version of raw snapshot JSON; files written before versioning are version 1
+ */
+export function getSnapshotSchemaVersion(raw: RawSnapshot): number {
+  return typeof raw.schemaVersion === "number" ? raw.schemaVersion : 1;
+}
+
+/**
+ * Validate snapshot JSON against the current schema
+ */
+export function validateSnapshotData(raw: unknown): SnapshotData {
+  const result = snapshotDataSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new SnapshotSchemaError(`Invalid snapshot data: ${issues[0]}`, issues);
+  }
+  return result.data;
+}
+
+/**
+ * Upgrade snapshot JSON of any supported version to the current version and
+ * validate it. Rejects versions newer than this code understands.
+ */
+export function parseSnapshotData(raw: unknown): SnapshotData {
+  if (!isObject(raw)) {
+    throw new SnapshotSchemaError("Snapshot data must be an object");
+  }
+
+  let version = getSnapshotSchemaVersion(raw);
+  if (!Number.isInteger(version) || version < 1 || version > SNAPSHOT_SCHEMA_VERSION) {
+    throw new SnapshotSchemaError(
+      `Unsupported snapshot schema version ${version}; this build supports versions 1 to ${SNAPSHOT_SCHEMA_VERSION}`
+    );
+  }
+
+  let data = raw;
+  while (version < SNAPSHOT_SCHEMA_VERSION) {
+    const upgrade = upgrades[version];
+    if (!upgrade) {
+      throw new SnapshotSchemaError(`No upgrade from snapshot schema version ${version}`);
+    }
+    data = upgrade(data);
+    version = getSnapshotSchemaVersion(data);
+  }
+
+  return validateSnapshotData(data);
+}
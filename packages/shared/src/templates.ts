@@ -0,0 +1,21 @@
+/**
+ * Template used for clients that haven't picked one
+ */
+export const DEFAULT_TEMPLATE_REF = "standard@1.1";
+
+// Snapshots made before the template registry recorded only "1.0"
+const LEGACY_TEMPLATE_REFS: Record<string, string> = {
+  "1.0": "standard@1.0",
+};
+
+export function getTemplateRef(id: string, version: string): string {
+  return `${id}@${version}`;
+}
+
+/**
+ * Map a recorded template version to its "<id>@<version>" ref, resolving
+ * versions recorded before templates had ids
+ */
+export function normalizeTemplateRef(templateVersion: string): string {
+  return LEGACY_TEMPLATE_REFS[templateVersion] ?? templateVersion;
+}
@@ -1,3 +1,7 @@
+import type { ReportFont } from "./branding.js";
+import type { InsightSettings } from "./insights.js";
+import type { ReportLocale } from "./locale.js";
+
 // Database entity types
 
 export interface User {
@@ -24,6 +28,15 @@ export interface Client {
 export type DataSourceType = "google_analytics" | "google_ads" | "rank_tracker";
 export type DataSourceStatus = "active" | "expired" | "disconnected";
 
+/**
+ * Why a data source was marked expired or disconnected; cleared on reconnect
+ */
+export interface DataSourceConnectionIssue {
+  reason: string; // e.g. "invalid_grant", "access_denied", "invalid_api_key"
+  message: string;
+  detectedAt: string;
+}
+
 export interface DataSource {
   id: string;
   clientId: string;
@@ -39,10 +52,17 @@ export interface DataSource {
   updatedAt: Date;
 }
 
+export type ComparisonMode = "previous_period" | "previous_year" | "custom";
+
 export interface Snapshot {
   id: string;
   clientId: string;
   snapshotDate: Date;
+  periodStart: Date;
+  periodEnd: Date;
+  comparisonMode: ComparisonMode;
+  comparisonStart: Date;
+  comparisonEnd: Date;
   templateVersion: string;
   storagePath: string;
   pdfStoragePath: string | null;
@@ -51,8 +71,8 @@ export interface Snapshot {
   expiresAt: Date | null;
 }
 
-export type JobType = "snapshot" | "render" | "email" | "full_report";
-export type JobStatus = "pending" | "running" | "completed" | "failed";
+export type JobType = "snapshot" | "render" | "email" | "full_report" | "anomaly_check";
+export type JobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
 
 export interface Job {
   id: string;
@@ -65,6 +85,7 @@ export interface Job {
   errorMessage: string | null;
   retryCount: number;
   metadata: Record<string, unknown>;
+  runAt: Date;
   createdAt: Date;
 }
 
@@ -95,6 +116,11 @@ export interface CreateClientRequest {
   primaryDomain?: string;
   timezone?: string;
   contactEmails?: string[];
+  retentionMonths?: number;
+  reportTemplate?: string;
+  locale?: ReportLocale;
+  currency?: string;
+  insightSettings?: InsightSettings;
 }
 
 export interface UpdateClientRequest {
@@ -102,20 +128,104 @@ export interface UpdateClientRequest {
   primaryDomain?: string;
   timezone?: string;
   contactEmails?: string[];
+  emailSubjectTemplate?: string | null;
+  emailBodyTemplate?: string | null;
+  retentionMonths?: number | null;
+  reportTemplate?: string | null;
+  locale?: ReportLocale;
+  currency?: string | null;
+  insightSettings?: InsightSettings; // {} restores the agency defaults
+}
+
+export type EmailDeliveryStatus = "pending" | "sent" | "failed";
+
+export interface EmailDelivery {
+  id: string;
+  clientId: string;
+  snapshotId: string | null;
+  revisionId: string | null;
+  jobId: string | null;
+  provider: string;
+  recipients: string[];
+  subject: string;
+  status: EmailDeliveryStatus;
+  providerMessageId: string | null;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+export interface SnapshotRevision {
+  id: string;
+  snapshotId: string;
+  revisionNumber: number;
+  contentHash: string | null;
+  pdfHash: string | null;
+  hasPdf: boolean;
+  templateVersion: string;
+  insightsEdited: boolean; // Highlights were edited by hand; regenerating keeps them
+  generatedAt: string;
+  createdBy: string | null;
+  createdByEmail: string | null;
+  jobId: string | null;
+  isCurrent: boolean;
+  createdAt: string;
+}
+
+export type ScheduleComparisonMode = Exclude<ComparisonMode, "custom">;
+
+export interface ReportSchedule {
+  id: string;
+  clientId: string;
+  dayOfMonth: number; // Clamped to the last day of shorter months
+  timeOfDay: string; // HH:MM in the client's timezone
+  timezone: string;
+  comparison: ScheduleComparisonMode;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastJobId: string | null;
+  createdAt: string;
 }
 
+export interface CreateScheduleRequest {
+  dayOfMonth: number;
+  timeOfDay?: string;
+  comparison?: ScheduleComparisonMode;
+  enabled?: boolean;
+}
+
+export type UpdateScheduleRequest = Partial<CreateScheduleRequest>;
+
 export interface ClientListItem {
   id: string;
   name: string;
   primaryDomain: string | null;
   timezone: string;
   contactEmails: string[];
-  dataSources: Array<{ type: DataSourceType; status: DataSourceStatus }>;
+  dataSources: Array<{
+    type: DataSourceType;
+    status: DataSourceStatus;
+    needsReconnect: boolean; // Credentials were rejected, not disconnected by the user
+  }>;
   lastReportDate: string | null;
+  latestGoals: {
+    // Goal results recorded in the latest report; null when it measured none
+    total: number;
+    met: number;
+    attainment: number; // Average progress, each goal capped at 1
+  } | null;
+  nextRun: string | null;
   createdAt: string;
 }
 
 export interface ClientDetail extends ClientListItem {
+  emailSubjectTemplate: string | null; // null uses the default template
+  emailBodyTemplate: string | null;
+  retentionMonths: number | null; // null keeps snapshots for the default 24 months
+  reportTemplate: string | null; // null uses the default template
+  locale: ReportLocale;
+  currency: string | null; // For amounts without a currency of their own; null uses USD
+  insightSettings: InsightSettings; // Highlight threshold and phrasing overrides
   recentSnapshots: Array<{
     id: string;
     snapshotDate: string;
@@ -124,79 +234,42 @@ export interface ClientDetail extends ClientListItem {
   }>;
 }
 
-// GA4 Metrics types (for snapshot data)
-
-export interface GA4Metrics {
-  sessions: number;
-  users: number;
-  newUsers: number;
-  pageviews: number;
-  avgSessionDuration: number;
-  bounceRate: number;
-  activeUsers: number;
-  engagementRate: number;
-  userEngagementDuration: number;
-  dailyMetrics: Array<{
-    date: string;
-    sessions: number;
-    users: number;
-    newUsers: number;
-    pageviews: number;
-    avgSessionDuration: number;
-    bounceRate: number;
-    activeUsers: number;
-    engagementRate: number;
-    userEngagementDuration: number;
-  }>;
-  topPages: Array<{
-    path: string;
-    views: number;
-  }>;
-  channels: Array<{
-    name: string;
-    sessions: number;
-    users: number;
-    percentage: number;
-  }>;
-  keyEvents: Array<{
-    name: string;
-    count: number;
-  }>;
-  keyEventBreakdowns: Array<{
-    name: string;
-    total: number;
-    channels: Array<{
-      name: string;
-      count: number;
-    }>;
-  }>;
+/**
+ * A report template available in the renderer, referenced as "<id>@<version>"
+ */
+export interface ReportTemplate {
+  ref: string;
+  id: string;
+  version: string;
+  name: string;
+  description: string;
+  snapshotSchemaVersion: number; // Snapshot schema the template was written against
 }
 
-export interface SnapshotData {
-  clientId: string;
-  clientName: string;
-  snapshotDate: string;
-  periodStart: string;
-  periodEnd: string;
-  previousPeriodStart: string;
-  previousPeriodEnd: string;
-  templateVersion: string;
-  generatedAt: string;
-  ga4?: {
-    current: GA4Metrics;
-    previous: GA4Metrics;
-    changes: {
-      sessions: number;
-      users: number;
-      newUsers: number;
-      pageviews: number;
-      avgSessionDuration: number;
-      bounceRate: number;
-      activeUsers: number;
-      engagementRate: number;
-      userEngagementDuration: number;
-    };
-  };
+/**
+ * Report branding saved for the agency or one client. Null fields inherit
+ * from the agency, then from the defaults.
+ */
+export interface BrandingSettings {
+  primaryColor: string | null;
+  accentColor: string | null;
+  fontFamily: ReportFont | null;
+  footerText: string | null;
+  coverTitle: string | null;
+  coverText: string | null;
+  logo: string | null; // Data URL
+  updatedAt: string | null;
+}
+
+export type UpdateBrandingRequest = Partial<Omit<BrandingSettings, "updatedAt">>;
+
+export interface TrackedKeyword {
+  id: string;
+  keyword: string;
+  engine: string;
+  location: string | null;
+  targetUrl: string | null;
+  createdAt: string;
 }
 
 // API Error type
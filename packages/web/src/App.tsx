@@ -5,6 +5,8 @@ import { LoginPage } from "./pages/LoginPage";
 import { DashboardPage } from "./pages/DashboardPage";
 import { ClientDetailPage } from "./pages/ClientDetailPage";
 import { ReportPreviewPage } from "./pages/ReportPreviewPage";
+import { JobsPage } from "./pages/JobsPage";
+import { BrandingPage } from "./pages/BrandingPage";
 
 const App = () => {
   return (
@@ -36,6 +38,22 @@ const App = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/jobs"
+            element={
+              <ProtectedRoute>
+                <JobsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/branding"
+            element={
+              <ProtectedRoute>
+                <BrandingPage />
+              </ProtectedRoute>
+            }
+          />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </AuthProvider>
@@ -38,6 +38,15 @@ export function Layout({ children }: LayoutProps) {
 
             {/* User Menu */}
             <div className="flex items-center gap-4">
+              <Link to="/" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                Clients
+              </Link>
+              <Link to="/jobs" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                Jobs
+              </Link>
+              <Link to="/branding" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+                Branding
+              </Link>
               <span className="text-sm text-gray-600">
                 {user?.name || user?.email}
               </span>
@@ -0,0 +1,97 @@
+import type { AnomalyMetric } from "@agency-reports/shared";
+import { useEffect, useState } from "react";
+import { api, type ClientAnomaly } from "../../lib/api";
+import { Badge } from "../ui/Badge";
+import { Button } from "../ui/Button";
+import { Spinner } from "../ui/Spinner";
+
+const ANOMALY_METRIC_LABELS: Record<AnomalyMetric, string> = {
+  sessions: "Sessions",
+  users: "Users",
+  keyEvents: "Key events",
+};
+
+interface AnomalyListProps {
+  clientId: string;
+  timezone: string;
+}
+
+/**
+ * Unusual days found by the daily anomaly check, with a button to check now
+ */
+export function AnomalyList({ clientId, timezone }: AnomalyListProps) {
+  const [anomalies, setAnomalies] = useState<ClientAnomaly[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api
+      .getClientAnomalies(clientId)
+      .then(({ anomalies }) => setAnomalies(anomalies))
+      .catch(() => setError("Failed to load unusual days"))
+      .finally(() => setIsLoading(false));
+  }, [clientId]);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setError(null);
+    setStatus(null);
+
+    try {
+      await api.checkClientAnomalies(clientId);
+      setStatus("Check queued. You will get an email if it finds new unusual days.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to queue check");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (isLoading) {
+    return <Spinner />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Sessions, users and key events are checked daily against the previous four weeks. Dates use
+        the client&apos;s timezone ({timezone}).
+      </p>
+
+      {anomalies.length === 0 ? (
+        <p className="text-sm text-gray-500">No unusual days found yet</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {anomalies.map((anomaly) => (
+            <div key={anomaly.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {ANOMALY_METRIC_LABELS[anomaly.metric]} on{" "}
+                  {new Date(`${anomaly.date}T00:00:00Z`).toLocaleDateString(undefined, {
+                    timeZone: "UTC",
+                  })}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {Math.round(anomaly.value).toLocaleString()} against a usual{" "}
+                  {Math.round(anomaly.expected).toLocaleString()}
+                </p>
+              </div>
+              <Badge variant={anomaly.direction === "spike" ? "success" : "error"}>
+                {anomaly.direction}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
+      {status && <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">{status}</div>}
+
+      <Button onClick={handleCheck} isLoading={isChecking} variant="secondary">
+        Check Now
+      </Button>
+    </div>
+  );
+}
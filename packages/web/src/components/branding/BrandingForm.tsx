@@ -0,0 +1,270 @@
+import {
+  LOGO_CONTENT_TYPES,
+  MAX_LOGO_BYTES,
+  REPORT_FONTS,
+  type ReportBranding,
+  type ReportFont,
+} from "@agency-reports/shared";
+import { useEffect, useState } from "react";
+import { api } from "../../lib/api";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Spinner } from "../ui/Spinner";
+
+interface BrandingFormProps {
+  /** Edit one client's overrides; omit to edit the agency-wide branding */
+  clientId?: string;
+}
+
+interface BrandingFields {
+  primaryColor: string;
+  accentColor: string;
+  fontFamily: ReportFont | "";
+  footerText: string;
+  coverTitle: string;
+  coverText: string;
+  logo: string | null;
+}
+
+const EMPTY_FIELDS: BrandingFields = {
+  primaryColor: "",
+  accentColor: "",
+  fontFamily: "",
+  footerText: "",
+  coverTitle: "",
+  coverText: "",
+  logo: null,
+};
+
+export function BrandingForm({ clientId }: BrandingFormProps) {
+  const [fields, setFields] = useState<BrandingFields>(EMPTY_FIELDS);
+  const [effective, setEffective] = useState<ReportBranding | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const applyResponse = ({ branding, effective }: Awaited<ReturnType<typeof api.getBranding>>) => {
+    setFields({
+      primaryColor: branding.primaryColor ?? "",
+      accentColor: branding.accentColor ?? "",
+      fontFamily: branding.fontFamily ?? "",
+      footerText: branding.footerText ?? "",
+      coverTitle: branding.coverTitle ?? "",
+      coverText: branding.coverText ?? "",
+      logo: branding.logo,
+    });
+    setEffective(effective);
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    api
+      .getBranding(clientId)
+      .then(applyResponse)
+      .catch(() => setError("Failed to load branding"))
+      .finally(() => setIsLoading(false));
+  }, [clientId]);
+
+  const setField = <K extends keyof BrandingFields>(key: K, value: BrandingFields[K]) => {
+    setFields((current) => ({ ...current, [key]: value }));
+    setSuccess(null);
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!(LOGO_CONTENT_TYPES as readonly string[]).includes(file.type)) {
+      setError("Logo must be a PNG, JPEG or SVG image");
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError(`Logo must be at most ${MAX_LOGO_BYTES / 1024} KB`);
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setError(null);
+      setField("logo", reader.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await api.updateBranding(clientId, {
+        primaryColor: fields.primaryColor.trim() || null,
+        accentColor: fields.accentColor.trim() || null,
+        fontFamily: fields.fontFamily || null,
+        footerText: fields.footerText.trim() || null,
+        coverTitle: fields.coverTitle.trim() || null,
+        coverText: fields.coverText.trim() || null,
+        logo: fields.logo,
+      });
+      applyResponse(response);
+      setSuccess("Branding saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save branding");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  const inheritLabel = clientId
+    ? "Leave blank to use the agency branding"
+    : "Leave blank to use the default";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-1">Logo</span>
+        <div className="flex items-center gap-4">
+          {fields.logo ? (
+            <img src={fields.logo} alt="Logo" className="h-12 max-w-[160px] object-contain" />
+          ) : effective?.logo ? (
+            <img
+              src={effective.logo}
+              alt="Inherited logo"
+              className="h-12 max-w-[160px] object-contain opacity-50"
+            />
+          ) : (
+            <span className="text-sm text-gray-500">No logo</span>
+          )}
+          <input
+            type="file"
+            aria-label="Upload logo"
+            accept={LOGO_CONTENT_TYPES.join(",")}
+            onChange={handleLogoChange}
+            className="text-sm"
+          />
+          {fields.logo && (
+            <Button variant="ghost" size="sm" onClick={() => setField("logo", null)}>
+              Remove
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <ColorField
+          label="Primary Colour"
+          value={fields.primaryColor}
+          placeholder={effective?.primaryColor}
+          onChange={(value) => setField("primaryColor", value)}
+        />
+        <ColorField
+          label="Accent Colour"
+          value={fields.accentColor}
+          placeholder={effective?.accentColor}
+          onChange={(value) => setField("accentColor", value)}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="branding-font" className="block text-sm font-medium text-gray-700 mb-1">
+          Font
+        </label>
+        <select
+          id="branding-font"
+          value={fields.fontFamily}
+          onChange={(e) => setField("fontFamily", e.target.value as ReportFont | "")}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">
+            Inherit{effective ? ` (${REPORT_FONTS[effective.fontFamily].label})` : ""}
+          </option>
+          {(Object.keys(REPORT_FONTS) as ReportFont[]).map((font) => (
+            <option key={font} value={font}>
+              {REPORT_FONTS[font].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Input
+        label="Footer Text"
+        value={fields.footerText}
+        onChange={(e) => setField("footerText", e.target.value)}
+        placeholder={effective?.footerText}
+        maxLength={500}
+      />
+      <Input
+        label="Cover Page Title"
+        value={fields.coverTitle}
+        onChange={(e) => setField("coverTitle", e.target.value)}
+        placeholder={effective?.coverTitle ?? "No cover page"}
+        maxLength={200}
+      />
+      <div>
+        <label
+          htmlFor="branding-cover-text"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Cover Page Text
+        </label>
+        <textarea
+          id="branding-cover-text"
+          rows={3}
+          value={fields.coverText}
+          onChange={(e) => setField("coverText", e.target.value)}
+          placeholder={effective?.coverText ?? ""}
+          maxLength={2000}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          {inheritLabel}. A cover page is added when a title or text is set.
+        </p>
+      </div>
+
+      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
+      {success && (
+        <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">{success}</div>
+      )}
+
+      <Button onClick={handleSave} isLoading={isSaving}>
+        Save Branding
+      </Button>
+    </div>
+  );
+}
+
+interface ColorFieldProps {
+  label: string;
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}
+
+function ColorField({ label, value, placeholder, onChange }: ColorFieldProps) {
+  return (
+    <div className="flex items-end gap-2">
+      <Input
+        label={label}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+      />
+      <input
+        type="color"
+        aria-label={`${label} picker`}
+        value={value || placeholder || "#000000"}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-10 w-10 shrink-0 rounded border border-gray-300"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import {
+  COMMENTARY_SECTIONS,
+  EMPTY_COMMENTARY,
+  type CommentarySection,
+  type ReportCommentary,
+} from "@agency-reports/shared";
+import { useEffect, useState } from "react";
+import { api, type SnapshotSummary } from "../../lib/api";
+import { Button } from "../ui/Button";
+import { Spinner } from "../ui/Spinner";
+import { RichTextEditor } from "./RichTextEditor";
+
+const SECTION_LABELS: Record<CommentarySection, string> = {
+  executiveSummary: "Executive Summary",
+  ga4: "Google Analytics Notes",
+  channels: "Channel Notes",
+  keyEvents: "Key Event Notes",
+};
+
+interface CommentaryPanelProps {
+  snapshotId: string;
+  onSaved: (snapshot: SnapshotSummary) => void;
+}
+
+export function CommentaryPanel({ snapshotId, onSaved }: CommentaryPanelProps) {
+  const [saved, setSaved] = useState<ReportCommentary>(EMPTY_COMMENTARY);
+  const [draft, setDraft] = useState<ReportCommentary>(EMPTY_COMMENTARY);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    api
+      .getSnapshotCommentary(snapshotId)
+      .then(({ commentary }) => {
+        setSaved(commentary);
+        setDraft(commentary);
+      })
+      .catch(() => setError("Failed to load commentary"))
+      .finally(() => setIsLoading(false));
+  }, [snapshotId]);
+
+  const setSection = (section: CommentarySection, html: string) => {
+    setDraft((current) => ({ ...current, [section]: html }));
+    setSuccess(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      // Only send edited blocks; the API sanitizes them and drops empty ones
+      const changes: Partial<ReportCommentary> = {};
+      for (const section of COMMENTARY_SECTIONS) {
+        if ((draft[section] ?? "") !== (saved[section] ?? "")) {
+          changes[section] = draft[section] || null;
+        }
+      }
+
+      const { commentary, snapshot } = await api.updateSnapshotCommentary(snapshotId, changes);
+      setSaved(commentary);
+      setDraft(commentary);
+      setSuccess(
+        snapshot.hasPdf
+          ? "Commentary saved"
+          : "Commentary saved. Generate the report again to update its PDF."
+      );
+      onSaved(snapshot);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save commentary");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {COMMENTARY_SECTIONS.map((section) => (
+        <RichTextEditor
+          key={section}
+          id={`commentary-${section}`}
+          label={SECTION_LABELS[section]}
+          value={draft[section] ?? ""}
+          onChange={(html) => setSection(section, html)}
+          placeholder="Shown in the report when filled in"
+        />
+      ))}
+
+      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
+      {success && (
+        <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">{success}</div>
+      )}
+
+      <Button onClick={handleSave} isLoading={isSaving}>
+        Save Commentary
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { MAX_INSIGHT_LENGTH, MAX_INSIGHTS, type SnapshotInsight } from "@agency-reports/shared";
+import { useEffect, useState } from "react";
+import { api, type SnapshotSummary } from "../../lib/api";
+import { Button } from "../ui/Button";
+import { Spinner } from "../ui/Spinner";
+
+interface HighlightsEditorProps {
+  snapshotId: string;
+  onSaved: (snapshot: SnapshotSummary) => void;
+}
+
+/**
+ * Edit the highlight bullets generated for a snapshot. Bullets left empty
+ * are dropped; with none left the report leaves the section out. Edited
+ * highlights are kept when the snapshot is regenerated.
+ */
+export function HighlightsEditor({ snapshotId, onSaved }: HighlightsEditorProps) {
+  const [insights, setInsights] = useState<SnapshotInsight[]>([]);
+  const [suggested, setSuggested] = useState<SnapshotInsight[]>([]);
+  const [isEdited, setIsEdited] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    api
+      .getSnapshotInsights(snapshotId)
+      .then((response) => {
+        setInsights(response.insights);
+        setSuggested(response.suggested);
+        setIsEdited(response.edited);
+      })
+      .catch(() => setError("Failed to load highlights"))
+      .finally(() => setIsLoading(false));
+  }, [snapshotId]);
+
+  const update = (next: SnapshotInsight[]) => {
+    setInsights(next);
+    setSuccess(null);
+  };
+
+  const setText = (index: number, text: string) => {
+    update(insights.map((insight, i) => (i === index ? { ...insight, text } : insight)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await api.updateSnapshotInsights(
+        snapshotId,
+        insights
+          .map((insight) => ({ ...insight, text: insight.text.trim() }))
+          .filter((insight) => insight.text)
+      );
+      setInsights(response.insights);
+      setIsEdited(response.edited);
+      setSuccess("Highlights saved. Generate the report again to update its PDF.");
+      onSaved(response.snapshot);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save highlights");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {isEdited && (
+        <p className="text-sm text-gray-500">
+          These highlights were edited, so regenerating the report keeps them. Use Reset to
+          Generated and save to have them rebuilt from new data.
+        </p>
+      )}
+
+      {insights.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No highlights; the section is left out of the report.
+        </p>
+      )}
+
+      {insights.map((insight, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <textarea
+            aria-label={`Highlight ${index + 1}`}
+            rows={2}
+            value={insight.text}
+            onChange={(e) => setText(index, e.target.value)}
+            maxLength={MAX_INSIGHT_LENGTH}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <Button
+            variant="dangerIcon"
+            size="sm"
+            title="Remove highlight"
+            onClick={() => update(insights.filter((_, i) => i !== index))}
+          >
+            ✕
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={insights.length >= MAX_INSIGHTS}
+          onClick={() => update([...insights, { rule: null, text: "" }])}
+        >
+          Add Highlight
+        </Button>
+        {suggested.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => update(suggested)}>
+            Reset to Generated
+          </Button>
+        )}
+      </div>
+
+      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
+      {success && (
+        <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">{success}</div>
+      )}
+
+      <Button onClick={handleSave} isLoading={isSaving}>
+        Save Highlights
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from "react";
+
+interface RichTextEditorProps {
+  id: string;
+  label: string;
+  /** Initial HTML; later changes are applied only when it differs from the editor */
+  value: string;
+  onChange: (html: string) => void;
+  placeholder?: string;
+}
+
+interface ToolbarAction {
+  label: string;
+  title: string;
+  command: string;
+  className?: string;
+}
+
+const TOOLBAR_ACTIONS: ToolbarAction[] = [
+  { label: "B", title: "Bold", command: "bold", className: "font-bold" },
+  { label: "I", title: "Italic", command: "italic", className: "italic" },
+  { label: "U", title: "Underline", command: "underline", className: "underline" },
+  { label: "• List", title: "Bulleted list", command: "insertUnorderedList" },
+  { label: "1. List", title: "Numbered list", command: "insertOrderedList" },
+];
+
+/**
+ * Minimal rich-text field for report commentary. Formatting is limited to
+ * what the API keeps when it sanitizes the HTML.
+ */
+export function RichTextEditor({ id, label, value, onChange, placeholder }: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== value) {
+      editor.innerHTML = value;
+    }
+  }, [value]);
+
+  const emitChange = () => {
+    onChange(editorRef.current?.innerHTML ?? "");
+  };
+
+  const runCommand = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  const handleLink = () => {
+    const url = window.prompt("Link URL (https:// or mailto:)");
+    if (url) {
+      runCommand("createLink", url);
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <div className="border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+        <div className="flex gap-1 border-b border-gray-200 px-2 py-1">
+          {TOOLBAR_ACTIONS.map((action) => (
+            <button
+              key={action.command}
+              type="button"
+              title={action.title}
+              // Keep the selection in the editor while clicking the toolbar
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => runCommand(action.command)}
+              className={`px-2 py-0.5 text-sm text-gray-700 rounded hover:bg-gray-100 ${action.className ?? ""}`}
+            >
+              {action.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            title="Link"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleLink}
+            className="px-2 py-0.5 text-sm text-gray-700 rounded hover:bg-gray-100"
+          >
+            Link
+          </button>
+        </div>
+        <div
+          id={id}
+          ref={editorRef}
+          role="textbox"
+          aria-multiline="true"
+          contentEditable
+          suppressContentEditableWarning
+          data-placeholder={placeholder}
+          onInput={emitChange}
+          onBlur={emitChange}
+          className="min-h-[6rem] px-3 py-2 text-sm focus:outline-none [&_ol]:list-decimal [&_ol]:pl-5 [&_ul]:list-disc [&_ul]:pl-5 empty:before:text-gray-400 empty:before:content-[attr(data-placeholder)]"
+        />
+      </div>
+    </div>
+  );
+}
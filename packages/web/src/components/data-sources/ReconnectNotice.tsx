@@ -0,0 +1,33 @@
+import type { ClientDataSource } from "../../lib/api";
+import { Button } from "../ui/Button";
+
+interface ReconnectNoticeProps {
+  dataSource: ClientDataSource;
+  onReconnect?: () => void;
+}
+
+/**
+ * Warns that a data source lost access, with an optional button to reconnect it
+ */
+export function ReconnectNotice({ dataSource, onReconnect }: ReconnectNoticeProps) {
+  const issue = dataSource.connectionIssue;
+
+  return (
+    <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800 space-y-2">
+      <p className="font-medium">
+        {dataSource.status === "expired" ? "Access has expired" : "Connection lost"}; reports will
+        fail until this source is reconnected.
+      </p>
+      {issue && (
+        <p className="text-xs">
+          {issue.message} (detected {new Date(issue.detectedAt).toLocaleString()})
+        </p>
+      )}
+      {onReconnect && (
+        <Button size="sm" onClick={onReconnect}>
+          Reconnect
+        </Button>
+      )}
+    </div>
+  );
+}
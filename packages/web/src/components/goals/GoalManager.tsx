@@ -0,0 +1,239 @@
+import {
+  GOAL_METRICS,
+  KEY_EVENT_GOAL_PREFIX,
+  getGoalKeyEvent,
+  getGoalMetricDefinition,
+  type ClientGoal,
+  type GoalPeriod,
+  type GoalTargetType,
+} from "@agency-reports/shared";
+import { useEffect, useState } from "react";
+import { api } from "../../lib/api";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Spinner } from "../ui/Spinner";
+
+const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+};
+
+// Picked in the metric list to track a key event by name
+const KEY_EVENT_OPTION = "keyEvent";
+
+function formatGoalMetric(metric: string): string {
+  const eventName = getGoalKeyEvent(metric);
+  return eventName ? `Key event: ${eventName}` : (getGoalMetricDefinition(metric)?.label ?? metric);
+}
+
+function formatGoalTarget(goal: Pick<ClientGoal, "metric" | "targetType" | "targetValue">): string {
+  if (goal.targetType === "growth") {
+    return `${goal.targetValue > 0 ? "+" : ""}${goal.targetValue}% growth`;
+  }
+  const kind = getGoalMetricDefinition(goal.metric)?.kind;
+  if (kind === "percent") return `${goal.targetValue}%`;
+  if (kind === "duration") return `${goal.targetValue}s`;
+  return goal.targetValue.toLocaleString();
+}
+
+interface GoalManagerProps {
+  clientId: string;
+}
+
+/**
+ * List, add, edit and remove a client's KPI goals
+ */
+export function GoalManager({ clientId }: GoalManagerProps) {
+  const [goals, setGoals] = useState<ClientGoal[]>([]);
+  const [metric, setMetric] = useState<string>("ga4.sessions");
+  const [eventName, setEventName] = useState("");
+  const [period, setPeriod] = useState<GoalPeriod>("monthly");
+  const [targetType, setTargetType] = useState<GoalTargetType>("absolute");
+  const [targetValue, setTargetValue] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGoals = () => {
+    api
+      .getGoals(clientId)
+      .then(({ goals }) => setGoals(goals))
+      .catch(() => setError("Failed to load goals"))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(loadGoals, [clientId]);
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await api.createGoal(clientId, {
+        metric:
+          metric === KEY_EVENT_OPTION ? `${KEY_EVENT_GOAL_PREFIX}${eventName.trim()}` : metric,
+        period,
+        targetType,
+        targetValue: Number(targetValue),
+      });
+      setTargetValue("");
+      loadGoals();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add goal");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = async (goal: ClientGoal) => {
+    const value = window.prompt(
+      goal.targetType === "growth" ? "Growth target (%)" : "Target",
+      String(goal.targetValue)
+    );
+    if (value === null || value.trim() === "") return;
+
+    setError(null);
+    try {
+      await api.updateGoal(clientId, goal.id, { targetValue: Number(value) });
+      loadGoals();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update goal");
+    }
+  };
+
+  const handleDelete = async (goal: ClientGoal) => {
+    if (!window.confirm(`Delete the ${formatGoalMetric(goal.metric)} goal?`)) return;
+
+    setError(null);
+    try {
+      await api.deleteGoal(clientId, goal.id);
+      loadGoals();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete goal");
+    }
+  };
+
+  if (isLoading) {
+    return <Spinner />;
+  }
+
+  const kind = metric === KEY_EVENT_OPTION ? "count" : getGoalMetricDefinition(metric)?.kind;
+  const targetLabel =
+    targetType === "growth"
+      ? "Growth (%)"
+      : kind === "percent"
+        ? "Target (%)"
+        : kind === "duration"
+          ? "Target (seconds)"
+          : "Target";
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Reports show progress towards each goal. Growth targets compare with the report&apos;s
+        comparison period; quarterly targets are pro-rated in monthly reports. Changes apply to
+        reports generated from now on.
+      </p>
+
+      {goals.length > 0 && (
+        <div className="divide-y divide-gray-200">
+          {goals.map((goal) => (
+            <div key={goal.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-gray-900">{formatGoalMetric(goal.metric)}</p>
+                <p className="text-sm text-gray-600">
+                  {GOAL_PERIOD_LABELS[goal.period]} · {formatGoalTarget(goal)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => handleEdit(goal)}>
+                  Edit
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(goal)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 items-end">
+        <div>
+          <label htmlFor="goal-metric" className="block text-sm font-medium text-gray-700 mb-1">
+            Metric
+          </label>
+          <select
+            id="goal-metric"
+            value={metric}
+            onChange={(e) => setMetric(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(GOAL_METRICS).map(([key, definition]) => (
+              <option key={key} value={key}>
+                {definition.label}
+              </option>
+            ))}
+            <option value={KEY_EVENT_OPTION}>Key event…</option>
+          </select>
+        </div>
+        {metric === KEY_EVENT_OPTION ? (
+          <Input
+            label="Event name"
+            placeholder="form_submit"
+            value={eventName}
+            onChange={(e) => setEventName(e.target.value)}
+          />
+        ) : (
+          <div />
+        )}
+        <div>
+          <label htmlFor="goal-period" className="block text-sm font-medium text-gray-700 mb-1">
+            Period
+          </label>
+          <select
+            id="goal-period"
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as GoalPeriod)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="monthly">{GOAL_PERIOD_LABELS.monthly}</option>
+            <option value="quarterly">{GOAL_PERIOD_LABELS.quarterly}</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="goal-type" className="block text-sm font-medium text-gray-700 mb-1">
+            Target Type
+          </label>
+          <select
+            id="goal-type"
+            value={targetType}
+            onChange={(e) => setTargetType(e.target.value as GoalTargetType)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="absolute">Absolute value</option>
+            <option value="growth">Growth on comparison period</option>
+          </select>
+        </div>
+        <Input
+          label={targetLabel}
+          type="number"
+          step="any"
+          value={targetValue}
+          onChange={(e) => setTargetValue(e.target.value)}
+        />
+      </div>
+
+      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
+
+      <Button
+        onClick={handleAdd}
+        isLoading={isSaving}
+        variant="secondary"
+        disabled={targetValue.trim() === "" || (metric === KEY_EVENT_OPTION && !eventName.trim())}
+      >
+        Add Goal
+      </Button>
+    </div>
+  );
+}
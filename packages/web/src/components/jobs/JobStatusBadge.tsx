@@ -0,0 +1,23 @@
+import type { JobStatus } from "@agency-reports/shared";
+import { Badge } from "../ui/Badge";
+
+const STATUS_VARIANTS = {
+  pending: "neutral",
+  running: "warning",
+  completed: "success",
+  failed: "error",
+  cancelled: "neutral",
+} as const satisfies Record<JobStatus, "success" | "warning" | "error" | "neutral">;
+
+interface JobStatusBadgeProps {
+  status: JobStatus;
+  isRetrying?: boolean;
+}
+
+export function JobStatusBadge({ status, isRetrying = false }: JobStatusBadgeProps) {
+  return (
+    <Badge variant={isRetrying ? "warning" : STATUS_VARIANTS[status]}>
+      {isRetrying ? "retrying" : status}
+    </Badge>
+  );
+}
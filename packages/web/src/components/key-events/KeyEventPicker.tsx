@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import {
+  api,
+  type ClientDataSource,
+  type GA4KeyEvent,
+  type KeyEventSelection,
+} from "../../lib/api";
+import { Button } from "../ui/Button";
+import { Spinner } from "../ui/Spinner";
+
+interface KeyEventPickerProps {
+  clientId: string;
+  dataSource: ClientDataSource;
+}
+
+/**
+ * Choose which GA4 key events a client's reports show, with optional display labels
+ */
+export function KeyEventPicker({ clientId, dataSource }: KeyEventPickerProps) {
+  const [available, setAvailable] = useState<GA4KeyEvent[]>([]);
+  const [selected, setSelected] = useState<KeyEventSelection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    api
+      .getGa4KeyEvents(clientId, dataSource.id)
+      .then(({ keyEvents, selected }) => {
+        setAvailable(keyEvents);
+        setSelected(selected);
+      })
+      .catch(() => setError("Failed to load GA4 key events"))
+      .finally(() => setIsLoading(false));
+  }, [clientId, dataSource.id]);
+
+  // Keep previously selected events visible even if they were removed from the property
+  const eventNames = [
+    ...available.map((event) => event.eventName),
+    ...selected
+      .map((event) => event.name)
+      .filter((name) => !available.some((event) => event.eventName === name)),
+  ];
+
+  const toggleEvent = (name: string) => {
+    setSuccess(null);
+    setSelected((current) =>
+      current.some((event) => event.name === name)
+        ? current.filter((event) => event.name !== name)
+        : [...current, { name }]
+    );
+  };
+
+  const updateLabel = (name: string, label: string) => {
+    setSuccess(null);
+    setSelected((current) =>
+      current.map((event) => (event.name === name ? { ...event, label } : event))
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const { keyEvents } = await api.updateGa4KeyEvents(clientId, dataSource.id, selected);
+      setSelected(keyEvents);
+      setSuccess(
+        keyEvents.length > 0
+          ? `${keyEvents.length} key events saved`
+          : "Reports will show the top key events automatically"
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save key events");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-900">Report key events</p>
+        <p className="text-xs text-gray-600">
+          Choose which key events appear in reports. Leave all unchecked to show the top events
+          automatically.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Spinner size="sm" />
+        </div>
+      ) : eventNames.length === 0 ? (
+        !error && <p className="text-sm text-gray-600">This property has no key events.</p>
+      ) : (
+        <div className="space-y-2">
+          {eventNames.map((name) => {
+            const selection = selected.find((event) => event.name === name);
+            return (
+              <div key={name} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                <label className="flex items-center gap-2 text-sm text-gray-700 sm:w-1/2">
+                  <input
+                    type="checkbox"
+                    checked={!!selection}
+                    onChange={() => toggleEvent(name)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="truncate">{name}</span>
+                </label>
+                {selection && (
+                  <input
+                    type="text"
+                    aria-label={`Label for ${name}`}
+                    value={selection.label ?? ""}
+                    onChange={(e) => updateLabel(name, e.target.value)}
+                    placeholder="Display label (optional)"
+                    className="w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 sm:w-1/2"
+                  />
+                )}
+              </div>
+            );
+          })}
+          <Button size="sm" onClick={handleSave} isLoading={isSaving}>
+            Save key events
+          </Button>
+        </div>
+      )}
+
+      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
+      {success && (
+        <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">{success}</div>
+      )}
+    </div>
+  );
+}
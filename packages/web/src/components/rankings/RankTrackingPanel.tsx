@@ -0,0 +1,152 @@
+import type { TrackedKeyword } from "@agency-reports/shared";
+import { useEffect, useState } from "react";
+import { api, type ClientDataSource } from "../../lib/api";
+import { ReconnectNotice } from "../data-sources/ReconnectNotice";
+import { Badge } from "../ui/Badge";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+
+interface RankTrackingPanelProps {
+  clientId: string;
+  dataSource: ClientDataSource | undefined;
+  primaryDomain: string | null;
+  onConnected: () => void;
+}
+
+/**
+ * Connect the rank tracker for a client and edit the keywords it tracks
+ */
+export function RankTrackingPanel({
+  clientId,
+  dataSource,
+  primaryDomain,
+  onConnected,
+}: RankTrackingPanelProps) {
+  const [apiKey, setApiKey] = useState("");
+  const [domain, setDomain] = useState(primaryDomain ?? "");
+  const [keywordsText, setKeywordsText] = useState("");
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isSavingKeywords, setIsSavingKeywords] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!dataSource) return;
+    api
+      .getKeywords(clientId)
+      .then(({ keywords }) => setKeywordsText(formatKeywords(keywords)))
+      .catch(() => setError("Failed to load tracked keywords"));
+  }, [clientId, dataSource?.id]);
+
+  const handleConnect = async () => {
+    setIsConnecting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await api.connectApiKeyDataSource(clientId, "rank_tracker", apiKey, domain || undefined);
+      setApiKey("");
+      onConnected();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to connect rank tracker");
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleSaveKeywords = async () => {
+    setIsSavingKeywords(true);
+    setError(null);
+    setSuccess(null);
+
+    const keywords = keywordsText
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((keyword) => ({ keyword }));
+
+    try {
+      const { keywords: saved } = await api.updateKeywords(clientId, keywords);
+      setKeywordsText(formatKeywords(saved));
+      setSuccess(`${saved.length} keywords saved`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save keywords");
+    } finally {
+      setIsSavingKeywords(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+            <svg className="w-6 h-6 text-green-600" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M3 17h4v4H3v-4zm7-6h4v10h-4V11zm7-8h4v18h-4V3z" />
+            </svg>
+          </div>
+          <div>
+            <p className="font-medium text-gray-900">Rank Tracker</p>
+            <p className="text-sm text-gray-600">
+              {dataSource?.externalAccountName
+                ? `Domain: ${dataSource.externalAccountName}`
+                : "Not connected"}
+            </p>
+          </div>
+        </div>
+        {dataSource && (
+          <Badge variant={dataSource.status === "active" ? "success" : "warning"}>
+            {dataSource.status}
+          </Badge>
+        )}
+      </div>
+
+      {dataSource && dataSource.status !== "active" && <ReconnectNotice dataSource={dataSource} />}
+
+      {!dataSource || dataSource.status !== "active" ? (
+        <div className="space-y-2">
+          <Input
+            label="API key"
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+          />
+          <Input
+            label="Domain"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            placeholder="www.acme.com"
+          />
+          <Button size="sm" onClick={handleConnect} isLoading={isConnecting} disabled={!apiKey}>
+            {dataSource ? "Reconnect" : "Connect"}
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <label htmlFor="tracked-keywords" className="block text-sm text-gray-700">
+            Tracked keywords (one per line)
+          </label>
+          <textarea
+            id="tracked-keywords"
+            rows={5}
+            value={keywordsText}
+            onChange={(e) => setKeywordsText(e.target.value)}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <Button size="sm" onClick={handleSaveKeywords} isLoading={isSavingKeywords}>
+            Save keywords
+          </Button>
+        </div>
+      )}
+
+      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
+      {success && (
+        <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">{success}</div>
+      )}
+    </div>
+  );
+}
+
+function formatKeywords(keywords: TrackedKeyword[]): string {
+  return keywords.map((keyword) => keyword.keyword).join("\n");
+}
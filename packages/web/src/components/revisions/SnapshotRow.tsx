@@ -0,0 +1,256 @@
+import type { SnapshotRevision } from "@agency-reports/shared";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { api, type SnapshotSummary } from "../../lib/api";
+import {
+  COMPARISON_LABELS,
+  formatPeriodLabel,
+  getSnapshotPeriod,
+  toSearchParams,
+} from "../../lib/periods";
+import { Badge } from "../ui/Badge";
+import { Button } from "../ui/Button";
+import { Spinner } from "../ui/Spinner";
+
+interface SnapshotRowProps {
+  snapshot: SnapshotSummary;
+  clientId: string;
+  onDeleted: () => void;
+  onRestored: () => void;
+}
+
+/**
+ * One generated report in a client's list, with its download, email and
+ * delete actions and its revision history
+ */
+export function SnapshotRow({ snapshot, clientId, onDeleted, onRestored }: SnapshotRowProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isEmailing, setIsEmailing] = useState(false);
+  const [emailStatus, setEmailStatus] = useState<string | null>(null);
+  const periodLabel = formatPeriodLabel(snapshot.periodStart, snapshot.periodEnd);
+
+  const handleDeleteSnapshot = async () => {
+    if (isDeleting) return;
+    const shouldDelete = window.confirm(`Delete the ${periodLabel} report? This cannot be undone.`);
+    if (!shouldDelete) return;
+
+    setIsDeleting(true);
+    setDeleteError(null);
+
+    try {
+      await api.deleteSnapshot(snapshot.id);
+      onDeleted();
+    } catch {
+      setDeleteError("Failed to delete report");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleEmailSnapshot = async () => {
+    setIsEmailing(true);
+    setEmailStatus(null);
+
+    try {
+      await api.emailSnapshot(snapshot.id);
+      setEmailStatus("Email queued for the client's contacts");
+    } catch (err) {
+      setEmailStatus(err instanceof Error ? err.message : "Failed to queue email");
+    } finally {
+      setIsEmailing(false);
+    }
+  };
+
+  return (
+    <div className="py-4 px-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium text-gray-900">{periodLabel}</p>
+          {snapshot.comparisonMode !== "previous_period" && (
+            <p className="text-xs text-gray-500">
+              {`vs ${COMPARISON_LABELS[snapshot.comparisonMode].toLowerCase()}: ${formatPeriodLabel(
+                snapshot.comparisonStart,
+                snapshot.comparisonEnd
+              )}`}
+            </p>
+          )}
+          <div className="flex gap-4 text-sm text-gray-600">
+            {snapshot.metricsSummary.sessions && (
+              <span>{snapshot.metricsSummary.sessions.toLocaleString()} sessions</span>
+            )}
+            {snapshot.metricsSummary.users && (
+              <span>{snapshot.metricsSummary.users.toLocaleString()} users</span>
+            )}
+            {snapshot.metricsSummary.goalsTotal && (
+              <span>
+                {snapshot.metricsSummary.goalsMet ?? 0} of {snapshot.metricsSummary.goalsTotal}{" "}
+                goals met
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Link
+            to={`/clients/${clientId}/preview?${toSearchParams(getSnapshotPeriod(snapshot)).toString()}`}
+          >
+            <Button variant="ghost" size="sm">
+              Preview
+            </Button>
+          </Link>
+          {snapshot.hasPdf && (
+            <a href={api.getPdfDownloadUrl(snapshot.id)} target="_blank" rel="noopener noreferrer">
+              <Button variant="secondary" size="sm">
+                Download PDF
+              </Button>
+            </a>
+          )}
+          {snapshot.hasPdf && (
+            <Button variant="ghost" size="sm" onClick={handleEmailSnapshot} isLoading={isEmailing}>
+              Email
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)}>
+            History
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-600 hover:text-red-700"
+            onClick={handleDeleteSnapshot}
+            isLoading={isDeleting}
+            aria-label="Delete report"
+          >
+            <svg
+              className="w-4 h-4"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              aria-hidden="true"
+            >
+              <path d="M3 6h18" />
+              <path d="M8 6v12" />
+              <path d="M16 6v12" />
+              <path d="M5 6l1-2h12l1 2" />
+              <path d="M7 6h10v14H7z" />
+            </svg>
+          </Button>
+        </div>
+      </div>
+      {deleteError && (
+        <div className="text-sm text-red-600 mt-2" role="alert">
+          {deleteError}
+        </div>
+      )}
+      {emailStatus && <div className="text-sm text-gray-600 mt-2">{emailStatus}</div>}
+      {showHistory && <RevisionHistory snapshotId={snapshot.id} onRestored={onRestored} />}
+    </div>
+  );
+}
+
+interface RevisionHistoryProps {
+  snapshotId: string;
+  onRestored: () => void;
+}
+
+// The revisions kept for a snapshot; any but the current one can be restored
+function RevisionHistory({ snapshotId, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<SnapshotRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = async () => {
+    try {
+      const { revisions } = await api.getSnapshotRevisions(snapshotId);
+      setRevisions(revisions);
+    } catch {
+      setError("Failed to load revisions");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [snapshotId]);
+
+  const handleRestore = async (revision: SnapshotRevision) => {
+    setRestoringId(revision.id);
+    setError(null);
+
+    try {
+      await api.restoreSnapshotRevision(snapshotId, revision.id);
+      await loadRevisions();
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore revision");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-3">
+        <Spinner size="sm" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 rounded-md bg-gray-50 p-3">
+      {error && (
+        <div className="text-sm text-red-600 mb-2" role="alert">
+          {error}
+        </div>
+      )}
+      <ul className="space-y-2">
+        {revisions.map((revision) => (
+          <li key={revision.id} className="flex items-center justify-between text-sm">
+            <div>
+              <span className="font-medium text-gray-900">Revision {revision.revisionNumber}</span>
+              {revision.isCurrent && (
+                <Badge variant="success" className="ml-2">
+                  Current
+                </Badge>
+              )}
+              <p className="text-xs text-gray-500">
+                {`Generated ${new Date(revision.generatedAt).toLocaleString()}`}
+                {revision.createdByEmail && ` by ${revision.createdByEmail}`}
+                {` · template ${revision.templateVersion}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {revision.hasPdf && (
+                <a
+                  href={api.getRevisionPdfDownloadUrl(snapshotId, revision.id)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Button variant="ghost" size="sm">
+                    PDF
+                  </Button>
+                </a>
+              )}
+              {!revision.isCurrent && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleRestore(revision)}
+                  isLoading={restoringId === revision.id}
+                >
+                  Restore
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
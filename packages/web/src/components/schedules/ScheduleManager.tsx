@@ -0,0 +1,160 @@
+import type { ReportSchedule, ScheduleComparisonMode } from "@agency-reports/shared";
+import { useEffect, useState } from "react";
+import { api } from "../../lib/api";
+import { COMPARISON_LABELS } from "../../lib/periods";
+import { Badge } from "../ui/Badge";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Spinner } from "../ui/Spinner";
+
+interface ScheduleManagerProps {
+  clientId: string;
+  timezone: string;
+}
+
+/**
+ * A client's monthly report schedules, with controls to add, pause and delete them
+ */
+export function ScheduleManager({ clientId, timezone }: ScheduleManagerProps) {
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [dayOfMonth, setDayOfMonth] = useState("1");
+  const [timeOfDay, setTimeOfDay] = useState("06:00");
+  const [comparison, setComparison] = useState<ScheduleComparisonMode>("previous_period");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedules = () => {
+    api
+      .getSchedules(clientId)
+      .then(({ schedules }) => setSchedules(schedules))
+      .catch(() => setError("Failed to load schedules"))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(loadSchedules, [clientId]);
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await api.createSchedule(clientId, {
+        dayOfMonth: Number(dayOfMonth),
+        timeOfDay,
+        comparison,
+      });
+      loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create schedule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: ReportSchedule) => {
+    setError(null);
+    try {
+      await api.updateSchedule(clientId, schedule.id, { enabled: !schedule.enabled });
+      loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update schedule");
+    }
+  };
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!window.confirm("Delete this schedule?")) return;
+
+    setError(null);
+    try {
+      await api.deleteSchedule(clientId, schedule.id);
+      loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete schedule");
+    }
+  };
+
+  if (isLoading) {
+    return <Spinner />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Each run generates the report for the previous calendar month. Times use the client&apos;s
+        timezone ({timezone}).
+      </p>
+
+      {schedules.length > 0 && (
+        <div className="divide-y divide-gray-200">
+          {schedules.map((schedule) => (
+            <div key={schedule.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-gray-900">
+                  Monthly on day {schedule.dayOfMonth} at {schedule.timeOfDay}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {COMPARISON_LABELS[schedule.comparison]} ·{" "}
+                  {schedule.nextRunAt
+                    ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}`
+                    : "Paused"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={schedule.enabled ? "success" : "neutral"}>
+                  {schedule.enabled ? "Active" : "Paused"}
+                </Badge>
+                <Button variant="ghost" size="sm" onClick={() => handleToggle(schedule)}>
+                  {schedule.enabled ? "Pause" : "Resume"}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(schedule)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 items-end">
+        <Input
+          label="Day of month"
+          type="number"
+          min={1}
+          max={31}
+          value={dayOfMonth}
+          onChange={(e) => setDayOfMonth(e.target.value)}
+        />
+        <Input
+          label="Time"
+          type="time"
+          value={timeOfDay}
+          onChange={(e) => setTimeOfDay(e.target.value)}
+        />
+        <div>
+          <label
+            htmlFor="schedule-comparison"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Compare With
+          </label>
+          <select
+            id="schedule-comparison"
+            value={comparison}
+            onChange={(e) => setComparison(e.target.value as ScheduleComparisonMode)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="previous_period">{COMPARISON_LABELS.previous_period}</option>
+            <option value="previous_year">{COMPARISON_LABELS.previous_year}</option>
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
+
+      <Button onClick={handleAdd} isLoading={isSaving} variant="secondary">
+        Add Schedule
+      </Button>
+    </div>
+  );
+}
@@ -1,15 +1,38 @@
 import type {
   ApiError,
   AuthResponse,
+  BrandingSettings,
   ClientDetail,
+  ClientGoal,
   ClientListItem,
+  ComparisonMode,
   CreateClientRequest,
+  CreateGoalRequest,
+  CreateScheduleRequest,
+  DataSourceConnectionIssue,
   DataSourceType,
+  EmailDelivery,
+  JobStatus,
+  JobType,
   LoginRequest,
+  MetricAnomaly,
   RegisterRequest,
+  ReportBranding,
+  ReportCommentary,
+  ReportSchedule,
+  ReportTemplate,
+  SnapshotInsight,
+  SnapshotRevision,
+  TrackedKeyword,
+  UpdateBrandingRequest,
   UpdateClientRequest,
+  UpdateCommentaryRequest,
+  UpdateGoalRequest,
+  UpdateScheduleRequest,
 } from "@agency-reports/shared";
 
+import { toSearchParams } from "./periods";
+
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3000";
 
 class ApiClient {
@@ -108,7 +131,7 @@ class ApiClient {
 
   async createClient(
     data: CreateClientRequest
-  ): Promise<{ client: ClientListItem }> {
+  ): Promise<{ client: ClientDetail }> {
     return this.request("/clients", {
       method: "POST",
       body: JSON.stringify(data),
@@ -118,13 +141,32 @@ class ApiClient {
   async updateClient(
     id: string,
     data: UpdateClientRequest
-  ): Promise<{ client: ClientListItem }> {
+  ): Promise<{ client: ClientDetail }> {
     return this.request(`/clients/${id}`, {
       method: "PUT",
       body: JSON.stringify(data),
     });
   }
 
+  async getReportTemplates(): Promise<{ templates: ReportTemplate[]; defaultTemplate: string }> {
+    return this.request("/templates");
+  }
+
+  // Branding endpoints; without a clientId they manage the agency-wide branding
+  async getBranding(clientId?: string): Promise<BrandingResponse> {
+    return this.request(clientId ? `/clients/${clientId}/branding` : "/branding");
+  }
+
+  async updateBranding(
+    clientId: string | undefined,
+    data: UpdateBrandingRequest
+  ): Promise<BrandingResponse> {
+    return this.request(clientId ? `/clients/${clientId}/branding` : "/branding", {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
   async deleteClient(id: string): Promise<void> {
     return this.request(`/clients/${id}`, {
       method: "DELETE",
@@ -160,6 +202,31 @@ class ApiClient {
     return this.request(`/clients/${clientId}/data-sources/${dataSourceId}/properties`);
   }
 
+  async getGa4KeyEvents(
+    clientId: string,
+    dataSourceId: string
+  ): Promise<{ keyEvents: GA4KeyEvent[]; selected: KeyEventSelection[] }> {
+    return this.request(`/clients/${clientId}/data-sources/${dataSourceId}/key-events`);
+  }
+
+  async updateGa4KeyEvents(
+    clientId: string,
+    dataSourceId: string,
+    keyEvents: KeyEventSelection[]
+  ): Promise<{ keyEvents: KeyEventSelection[] }> {
+    return this.request(`/clients/${clientId}/data-sources/${dataSourceId}/key-events`, {
+      method: "PUT",
+      body: JSON.stringify({ keyEvents }),
+    });
+  }
+
+  async getDataSourceAccounts(
+    clientId: string,
+    dataSourceId: string
+  ): Promise<{ accounts: DataSourceAccount[] }> {
+    return this.request(`/clients/${clientId}/data-sources/${dataSourceId}/accounts`);
+  }
+
   async updateDataSourceProperty(
     clientId: string,
     dataSourceId: string,
@@ -172,14 +239,45 @@ class ApiClient {
     });
   }
 
+  async connectApiKeyDataSource(
+    clientId: string,
+    type: string,
+    apiKey: string,
+    accountId?: string
+  ): Promise<{
+    success: true;
+    externalAccountId: string | null;
+    externalAccountName: string | null;
+  }> {
+    return this.request(`/clients/${clientId}/data-sources/api-key`, {
+      method: "POST",
+      body: JSON.stringify({ type, apiKey, accountId }),
+    });
+  }
+
+  // Keyword endpoints
+  async getKeywords(clientId: string): Promise<{ keywords: TrackedKeyword[] }> {
+    return this.request(`/clients/${clientId}/keywords`);
+  }
+
+  async updateKeywords(
+    clientId: string,
+    keywords: Array<{ keyword: string; engine?: string; location?: string | null }>
+  ): Promise<{ keywords: TrackedKeyword[] }> {
+    return this.request(`/clients/${clientId}/keywords`, {
+      method: "PUT",
+      body: JSON.stringify({ keywords }),
+    });
+  }
+
   async generateSnapshot(
     clientId: string,
-    month: string,
+    period: ReportPeriod,
     regenerate = false
-  ): Promise<{ snapshot: SnapshotSummary }> {
+  ): Promise<{ job: JobSummary }> {
     return this.request(`/clients/${clientId}/snapshots`, {
       method: "POST",
-      body: JSON.stringify({ month, regenerate }),
+      body: JSON.stringify({ ...period, regenerate }),
     });
   }
 
@@ -189,18 +287,72 @@ class ApiClient {
     });
   }
 
+  async emailSnapshot(snapshotId: string): Promise<{ job: JobSummary }> {
+    return this.request(`/snapshots/${snapshotId}/email`, {
+      method: "POST",
+    });
+  }
+
+  async getEmailDeliveries(snapshotId: string): Promise<{ deliveries: EmailDelivery[] }> {
+    return this.request(`/snapshots/${snapshotId}/deliveries`);
+  }
+
+  async getSnapshotRevisions(snapshotId: string): Promise<{ revisions: SnapshotRevision[] }> {
+    return this.request(`/snapshots/${snapshotId}/revisions`);
+  }
+
+  async restoreSnapshotRevision(
+    snapshotId: string,
+    revisionId: string
+  ): Promise<{ snapshot: SnapshotSummary }> {
+    return this.request(`/snapshots/${snapshotId}/revisions/${revisionId}/restore`, {
+      method: "POST",
+    });
+  }
+
+  async getSnapshotCommentary(snapshotId: string): Promise<{ commentary: ReportCommentary }> {
+    return this.request(`/snapshots/${snapshotId}/commentary`);
+  }
+
+  async updateSnapshotCommentary(
+    snapshotId: string,
+    data: UpdateCommentaryRequest
+  ): Promise<{ commentary: ReportCommentary; snapshot: SnapshotSummary }> {
+    return this.request(`/snapshots/${snapshotId}/commentary`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getSnapshotInsights(
+    snapshotId: string
+  ): Promise<{ insights: SnapshotInsight[]; suggested: SnapshotInsight[]; edited: boolean }> {
+    return this.request(`/snapshots/${snapshotId}/insights`);
+  }
+
+  async updateSnapshotInsights(
+    snapshotId: string,
+    insights: SnapshotInsight[]
+  ): Promise<{ insights: SnapshotInsight[]; edited: boolean; snapshot: SnapshotSummary }> {
+    return this.request(`/snapshots/${snapshotId}/insights`, {
+      method: "PUT",
+      body: JSON.stringify({ insights }),
+    });
+  }
+
   // Report endpoints
-  async getReportPreviewUrl(clientId: string, month: string): Promise<string> {
-    const token = this.getToken();
-    return `${API_URL}/clients/${clientId}/preview?month=${month}&token=${token}`;
+  async getReportPreviewUrl(clientId: string, period: ReportPeriod): Promise<string> {
+    const params = toSearchParams(period);
+    params.set("token", this.getToken() ?? "");
+    return `${API_URL}/clients/${clientId}/preview?${params.toString()}`;
   }
 
   async generateReport(
     clientId: string,
-    month: string,
+    period: ReportPeriod,
     regenerate = false
-  ): Promise<{ snapshotId: string; pdfPath: string }> {
-    const params = new URLSearchParams({ month });
+  ): Promise<{ job: JobSummary } | { message: string; snapshotId: string; pdfPath: string }> {
+    const params = toSearchParams(period);
     if (regenerate) {
       params.set("regenerate", "true");
     }
@@ -209,10 +361,111 @@ class ApiClient {
     });
   }
 
+  // Schedule endpoints
+  async getSchedules(clientId: string): Promise<{ schedules: ReportSchedule[] }> {
+    return this.request(`/clients/${clientId}/schedules`);
+  }
+
+  async createSchedule(
+    clientId: string,
+    data: CreateScheduleRequest
+  ): Promise<{ schedule: ReportSchedule }> {
+    return this.request(`/clients/${clientId}/schedules`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateSchedule(
+    clientId: string,
+    scheduleId: string,
+    data: UpdateScheduleRequest
+  ): Promise<{ schedule: ReportSchedule }> {
+    return this.request(`/clients/${clientId}/schedules/${scheduleId}`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteSchedule(clientId: string, scheduleId: string): Promise<void> {
+    return this.request(`/clients/${clientId}/schedules/${scheduleId}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Goal endpoints
+  async getGoals(clientId: string): Promise<{ goals: ClientGoal[] }> {
+    return this.request(`/clients/${clientId}/goals`);
+  }
+
+  async createGoal(clientId: string, data: CreateGoalRequest): Promise<{ goal: ClientGoal }> {
+    return this.request(`/clients/${clientId}/goals`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateGoal(
+    clientId: string,
+    goalId: string,
+    data: UpdateGoalRequest
+  ): Promise<{ goal: ClientGoal }> {
+    return this.request(`/clients/${clientId}/goals/${goalId}`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteGoal(clientId: string, goalId: string): Promise<void> {
+    return this.request(`/clients/${clientId}/goals/${goalId}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Job endpoints
+  async getJobs(filters: JobFilters = {}): Promise<{ jobs: JobSummary[]; total: number }> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    }
+    return this.request(`/jobs?${params.toString()}`);
+  }
+
+  async getJob(jobId: string): Promise<{ job: JobSummary }> {
+    return this.request(`/jobs/${jobId}`);
+  }
+
+  async retryJob(jobId: string): Promise<{ job: JobSummary }> {
+    return this.request(`/jobs/${jobId}/retry`, {
+      method: "POST",
+    });
+  }
+
+  async cancelJob(jobId: string): Promise<{ job: JobSummary }> {
+    return this.request(`/jobs/${jobId}/cancel`, {
+      method: "POST",
+    });
+  }
+
+  async getClientAnomalies(clientId: string): Promise<{ anomalies: ClientAnomaly[] }> {
+    return this.request(`/clients/${clientId}/anomalies`);
+  }
+
+  async checkClientAnomalies(clientId: string): Promise<{ job: JobSummary }> {
+    return this.request(`/clients/${clientId}/anomalies/check`, {
+      method: "POST",
+    });
+  }
+
   getPdfDownloadUrl(snapshotId: string): string {
     const token = this.getToken();
     return `${API_URL}/snapshots/${snapshotId}/pdf?token=${token}`;
   }
+
+  getRevisionPdfDownloadUrl(snapshotId: string, revisionId: string): string {
+    const token = this.getToken();
+    return `${API_URL}/snapshots/${snapshotId}/revisions/${revisionId}/pdf?token=${token}`;
+  }
 }
 
 export class ApiClientError extends Error {
@@ -226,20 +479,75 @@ export class ApiClientError extends Error {
   }
 }
 
+export interface BrandingResponse {
+  branding: BrandingSettings;
+  /** Values reports will use once inherited settings are applied */
+  effective: ReportBranding;
+}
+
 export interface SnapshotSummary {
   id: string;
   clientId: string;
   snapshotDate: string;
+  periodStart: string;
+  periodEnd: string;
+  comparisonMode: ComparisonMode;
+  comparisonStart: string;
+  comparisonEnd: string;
   templateVersion: string;
   hasPdf: boolean;
+  currentRevisionId: string | null;
   metricsSummary: {
     sessions?: number;
     users?: number;
     pageviews?: number;
+    adClicks?: number;
+    adConversions?: number;
+    adSpend?: number;
+    goalsTotal?: number;
+    goalsMet?: number;
+    goalAttainment?: number;
   };
   createdAt: string;
 }
 
+export interface JobSummary {
+  id: string;
+  clientId: string;
+  clientName?: string;
+  snapshotId: string | null;
+  type: JobType;
+  status: JobStatus;
+  startedAt: string | null;
+  finishedAt: string | null;
+  errorMessage: string | null;
+  retryCount: number;
+  metadata: Record<string, unknown>;
+  runAt: string;
+  createdAt: string;
+}
+
+/**
+ * An unusual day stored by the daily anomaly check
+ */
+export interface ClientAnomaly extends MetricAnomaly {
+  id: string;
+  clientId: string;
+  jobId: string | null;
+  alertedAt: string | null;
+  createdAt: string;
+}
+
+export interface JobFilters {
+  clientId?: string;
+  status?: JobStatus;
+  type?: JobType;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
 export interface ClientDataSource {
   id: string;
   type: string;
@@ -247,6 +555,7 @@ export interface ClientDataSource {
   externalAccountId: string | null;
   externalAccountName: string | null;
   connectedAt: string;
+  connectionIssue: DataSourceConnectionIssue | null;
   config: Record<string, unknown>;
 }
 
@@ -255,4 +564,32 @@ export interface GA4Property {
   displayName: string;
 }
 
+/**
+ * A report period: either a calendar month or an explicit date range
+ */
+export interface ReportPeriod {
+  month?: string; // YYYY-MM
+  startDate?: string;
+  endDate?: string;
+  comparison?: ComparisonMode;
+  comparisonStartDate?: string;
+  comparisonEndDate?: string;
+}
+
+export interface GA4KeyEvent {
+  eventName: string;
+  countingMethod: string | null;
+}
+
+export interface KeyEventSelection {
+  name: string;
+  label?: string;
+}
+
+export interface DataSourceAccount {
+  id: string;
+  name: string;
+  currencyCode?: string | null;
+}
+
 export const api = new ApiClient();
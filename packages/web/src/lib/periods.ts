@@ -0,0 +1,107 @@
+import type { ComparisonMode } from "@agency-reports/shared";
+import type { ReportPeriod, SnapshotSummary } from "./api";
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  previous_period: "Previous period",
+  previous_year: "Same period last year",
+  custom: "Custom range",
+};
+
+/**
+ * "March 2025" for whole calendar months, otherwise "Mar 10, 2025 – Mar 16, 2025"
+ */
+export function formatPeriodLabel(periodStart: string, periodEnd: string): string {
+  const start = parseDate(periodStart);
+  const end = parseDate(periodEnd);
+  const lastDayOfMonth = new Date(start.getFullYear(), start.getMonth() + 1, 0).getDate();
+
+  if (
+    start.getDate() === 1 &&
+    end.getFullYear() === start.getFullYear() &&
+    end.getMonth() === start.getMonth() &&
+    end.getDate() === lastDayOfMonth
+  ) {
+    return formatMonthLabel(periodStart.slice(0, 7));
+  }
+
+  const format = (date: Date) =>
+    date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+  return `${format(start)} – ${format(end)}`;
+}
+
+export function formatMonthLabel(month: string): string {
+  return parseDate(`${month}-01`).toLocaleDateString("en-US", { year: "numeric", month: "long" });
+}
+
+/**
+ * Whether a stored snapshot was generated for the requested period
+ */
+export function matchesPeriod(snapshot: SnapshotSummary, period: ReportPeriod): boolean {
+  const comparison = period.comparison ?? "previous_period";
+  let { startDate, endDate } = period;
+
+  if (period.month) {
+    const [year, month] = period.month.split("-").map(Number);
+    const lastDay = new Date(year!, month!, 0).getDate();
+    startDate = `${period.month}-01`;
+    endDate = `${period.month}-${String(lastDay).padStart(2, "0")}`;
+  }
+
+  return (
+    snapshot.periodStart === startDate &&
+    snapshot.periodEnd === endDate &&
+    snapshot.comparisonMode === comparison &&
+    (comparison !== "custom" ||
+      (snapshot.comparisonStart === period.comparisonStartDate &&
+        snapshot.comparisonEnd === period.comparisonEndDate))
+  );
+}
+
+/**
+ * The request period that reproduces a stored snapshot
+ */
+export function getSnapshotPeriod(snapshot: SnapshotSummary): ReportPeriod {
+  return {
+    startDate: snapshot.periodStart,
+    endDate: snapshot.periodEnd,
+    comparison: snapshot.comparisonMode,
+    ...(snapshot.comparisonMode === "custom"
+      ? {
+          comparisonStartDate: snapshot.comparisonStart,
+          comparisonEndDate: snapshot.comparisonEnd,
+        }
+      : {}),
+  };
+}
+
+/**
+ * Read a report period from URL search params, falling back to `defaultMonth`
+ */
+export function parsePeriodParams(params: URLSearchParams, defaultMonth: string): ReportPeriod {
+  const startDate = params.get("startDate");
+  const endDate = params.get("endDate");
+  const comparison = {
+    comparison: (params.get("comparison") as ComparisonMode | null) ?? undefined,
+    comparisonStartDate: params.get("comparisonStartDate") ?? undefined,
+    comparisonEndDate: params.get("comparisonEndDate") ?? undefined,
+  };
+
+  if (startDate && endDate) {
+    return { startDate, endDate, ...comparison };
+  }
+
+  return { month: params.get("month") || defaultMonth, ...comparison };
+}
+
+export function toSearchParams(period: ReportPeriod): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(period)) {
+    if (value) params.set(key, value);
+  }
+  return params;
+}
+
+function parseDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(year!, month! - 1, day!);
+}
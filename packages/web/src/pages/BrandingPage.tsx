@@ -0,0 +1,20 @@
+import { BrandingForm } from "../components/branding/BrandingForm";
+import { Layout } from "../components/Layout";
+import { Card } from "../components/ui/Card";
+
+export function BrandingPage() {
+  return (
+    <Layout>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Branding</h1>
+        <p className="text-gray-600 mt-1">
+          Logo, colours and text used on every client's reports unless the client overrides them
+        </p>
+      </div>
+
+      <Card className="max-w-2xl">
+        <BrandingForm />
+      </Card>
+    </Layout>
+  );
+}
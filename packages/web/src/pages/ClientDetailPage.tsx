@@ -1,14 +1,37 @@
-import type { ClientDetail } from "@agency-reports/shared";
+import {
+  REPORT_LOCALES,
+  type ClientDetail,
+  type ComparisonMode,
+  type ReportLocale,
+  type ReportTemplate,
+} from "@agency-reports/shared";
 import { useEffect, useState } from "react";
 import { Link, useNavigate, useParams } from "react-router-dom";
+import { AnomalyList } from "../components/anomalies/AnomalyList";
+import { BrandingForm } from "../components/branding/BrandingForm";
+import { ReconnectNotice } from "../components/data-sources/ReconnectNotice";
+import { GoalManager } from "../components/goals/GoalManager";
+import { KeyEventPicker } from "../components/key-events/KeyEventPicker";
 import { Layout } from "../components/Layout";
+import { RankTrackingPanel } from "../components/rankings/RankTrackingPanel";
+import { SnapshotRow } from "../components/revisions/SnapshotRow";
+import { ScheduleManager } from "../components/schedules/ScheduleManager";
 import { Badge } from "../components/ui/Badge";
 import { Button } from "../components/ui/Button";
 import { Card, CardHeader, CardTitle } from "../components/ui/Card";
 import { Input } from "../components/ui/Input";
 import { Modal } from "../components/ui/Modal";
 import { Spinner } from "../components/ui/Spinner";
-import { api, type ClientDataSource, type GA4Property, type SnapshotSummary } from "../lib/api";
+import {
+  api,
+  type ClientDataSource,
+  type JobSummary,
+  type GA4Property,
+  type DataSourceAccount,
+  type ReportPeriod,
+  type SnapshotSummary,
+} from "../lib/api";
+import { COMPARISON_LABELS } from "../lib/periods";
 
 export function ClientDetailPage() {
   const { clientId } = useParams<{ clientId: string }>();
@@ -18,12 +41,18 @@ export function ClientDetailPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showBrandingModal, setShowBrandingModal] = useState(false);
   const [ga4Properties, setGa4Properties] = useState<GA4Property[]>([]);
   const [selectedGa4PropertyId, setSelectedGa4PropertyId] = useState("");
   const [isLoadingGa4Properties, setIsLoadingGa4Properties] = useState(false);
   const [isSavingGa4Property, setIsSavingGa4Property] = useState(false);
   const [ga4PropertyError, setGa4PropertyError] = useState<string | null>(null);
   const [ga4PropertySuccess, setGa4PropertySuccess] = useState<string | null>(null);
+  const [adsAccounts, setAdsAccounts] = useState<DataSourceAccount[]>([]);
+  const [selectedAdsAccountId, setSelectedAdsAccountId] = useState("");
+  const [isLoadingAdsAccounts, setIsLoadingAdsAccounts] = useState(false);
+  const [isSavingAdsAccount, setIsSavingAdsAccount] = useState(false);
+  const [adsAccountError, setAdsAccountError] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleteConfirmName, setDeleteConfirmName] = useState("");
   const [isDeleting, setIsDeleting] = useState(false);
@@ -82,6 +111,15 @@ export function ClientDetailPage() {
     }
   };
 
+  const handleConnectAds = async () => {
+    try {
+      const { url } = await api.getGoogleOAuthUrl(clientId!, "google_ads");
+      window.location.href = url;
+    } catch {
+      setError("Failed to initiate Google OAuth");
+    }
+  };
+
   const handleLoadGa4Properties = async () => {
     if (!clientId) return;
     const ga4DataSource = dataSources.find((ds) => ds.type === "google_analytics");
@@ -138,6 +176,59 @@ export function ClientDetailPage() {
     }
   };
 
+  const handleLoadAdsAccounts = async () => {
+    if (!clientId) return;
+    const adsDataSource = dataSources.find((ds) => ds.type === "google_ads");
+    if (!adsDataSource) return;
+
+    setIsLoadingAdsAccounts(true);
+    setAdsAccountError(null);
+
+    try {
+      const { accounts } = await api.getDataSourceAccounts(clientId, adsDataSource.id);
+      setAdsAccounts(accounts);
+      if (accounts.length > 0) {
+        setSelectedAdsAccountId(accounts[0]?.id ?? "");
+      }
+    } catch {
+      setAdsAccountError("Failed to load Google Ads accounts");
+    } finally {
+      setIsLoadingAdsAccounts(false);
+    }
+  };
+
+  const handleSaveAdsAccount = async () => {
+    if (!clientId) return;
+    const adsDataSource = dataSources.find((ds) => ds.type === "google_ads");
+    if (!adsDataSource) return;
+
+    const selectedAccount = adsAccounts.find(
+      (account) => account.id === selectedAdsAccountId
+    );
+
+    if (!selectedAccount) {
+      setAdsAccountError("Select a Google Ads account");
+      return;
+    }
+
+    setIsSavingAdsAccount(true);
+    setAdsAccountError(null);
+
+    try {
+      await api.updateDataSourceProperty(
+        clientId,
+        adsDataSource.id,
+        selectedAccount.id,
+        selectedAccount.name
+      );
+      await loadDataSources();
+    } catch {
+      setAdsAccountError("Failed to save Google Ads account");
+    } finally {
+      setIsSavingAdsAccount(false);
+    }
+  };
+
   const handleDeleteClient = async () => {
     if (!clientId || !client) return;
     if (deleteConfirmName.trim() !== client.name) {
@@ -158,7 +249,13 @@ export function ClientDetailPage() {
     }
   };
 
-  const ga4DataSource = dataSources.find((ds) => ds.type === "google_analytics");
+  // Sources the user disconnected keep their row but are shown as not connected
+  const connectedSources = dataSources.filter(
+    (ds) => ds.status !== "disconnected" || ds.connectionIssue
+  );
+  const ga4DataSource = connectedSources.find((ds) => ds.type === "google_analytics");
+  const adsDataSource = connectedSources.find((ds) => ds.type === "google_ads");
+  const rankDataSource = connectedSources.find((ds) => ds.type === "rank_tracker");
   const reportSnapshots = snapshots.filter((snapshot) => snapshot.hasPdf);
 
   if (isLoading) {
@@ -199,6 +296,9 @@ export function ClientDetailPage() {
           <Button variant="secondary" onClick={() => setShowEditModal(true)}>
             Edit Client
           </Button>
+          <Button variant="secondary" onClick={() => setShowBrandingModal(true)}>
+            Branding
+          </Button>
           <Button
             variant="dangerIcon"
             aria-label="Delete client"
@@ -258,6 +358,9 @@ export function ClientDetailPage() {
                 </Button>
               )}
             </div>
+            {ga4DataSource && ga4DataSource.status !== "active" && (
+              <ReconnectNotice dataSource={ga4DataSource} onReconnect={handleConnectGA} />
+            )}
             {ga4DataSource && !ga4DataSource.externalAccountId && (
               <div className="rounded-lg border border-gray-200 bg-white p-4 space-y-3">
                 <div>
@@ -317,6 +420,99 @@ export function ClientDetailPage() {
                 )}
               </div>
             )}
+
+            {ga4DataSource?.externalAccountId && (
+              <KeyEventPicker
+                key={`${ga4DataSource.id}:${ga4DataSource.externalAccountId}`}
+                clientId={clientId!}
+                dataSource={ga4DataSource}
+              />
+            )}
+
+            {/* Google Ads */}
+            <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                  <svg className="w-6 h-6 text-blue-600" viewBox="0 0 24 24" fill="currentColor">
+                    <path d="M3.5 17.5L9.5 7a3 3 0 015.2 3l-6 10.5a3 3 0 01-5.2-3zm11.3-10.4a3 3 0 015.2-3l.1.1 3 5.3a3 3 0 01-5.2 3zM6 21a3 3 0 100-6 3 3 0 000 6z" />
+                  </svg>
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900">Google Ads</p>
+                  <p className="text-sm text-gray-600">
+                    {adsDataSource?.externalAccountName
+                      ? `Account: ${adsDataSource.externalAccountName}`
+                      : adsDataSource
+                        ? "Google Ads connected, account not selected"
+                        : "Not connected"}
+                  </p>
+                </div>
+              </div>
+              {adsDataSource ? (
+                <Badge variant={adsDataSource.status === "active" ? "success" : "warning"}>
+                  {adsDataSource.status}
+                </Badge>
+              ) : (
+                <Button size="sm" onClick={handleConnectAds}>
+                  Connect
+                </Button>
+              )}
+            </div>
+            {adsDataSource && adsDataSource.status !== "active" && (
+              <ReconnectNotice dataSource={adsDataSource} onReconnect={handleConnectAds} />
+            )}
+            {adsDataSource && !adsDataSource.externalAccountId && (
+              <div className="rounded-lg border border-gray-200 bg-white p-4 space-y-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">Select Google Ads account</p>
+                  <p className="text-xs text-gray-600">
+                    Choose the customer account to use for ad performance metrics.
+                  </p>
+                </div>
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                  <select
+                    id="ads-account"
+                    aria-label="Google Ads account"
+                    value={selectedAdsAccountId}
+                    onChange={(e) => setSelectedAdsAccountId(e.target.value)}
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {adsAccounts.length === 0 && <option value="">Load accounts to select</option>}
+                    {adsAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name} ({account.id})
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={handleLoadAdsAccounts}
+                      isLoading={isLoadingAdsAccounts}
+                    >
+                      Load accounts
+                    </Button>
+                    <Button size="sm" onClick={handleSaveAdsAccount} isLoading={isSavingAdsAccount}>
+                      Save
+                    </Button>
+                  </div>
+                </div>
+                {adsAccountError && (
+                  <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">
+                    {adsAccountError}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Rank Tracking */}
+            <RankTrackingPanel
+              clientId={clientId!}
+              dataSource={rankDataSource}
+              primaryDomain={client.primaryDomain}
+              onConnected={loadDataSources}
+            />
           </div>
         </Card>
 
@@ -337,6 +533,38 @@ export function ClientDetailPage() {
         </Card>
       </div>
 
+      {/* Report Schedules */}
+      <div className="mt-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Report Schedule</CardTitle>
+          </CardHeader>
+          <ScheduleManager clientId={clientId!} timezone={client.timezone} />
+        </Card>
+      </div>
+
+      {/* Goals */}
+      <div className="mt-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Goals</CardTitle>
+          </CardHeader>
+          <GoalManager clientId={clientId!} />
+        </Card>
+      </div>
+
+      {/* Anomalies */}
+      {ga4DataSource?.status === "active" && ga4DataSource.externalAccountId && (
+        <div className="mt-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Unusual Days</CardTitle>
+            </CardHeader>
+            <AnomalyList clientId={clientId!} timezone={client.timezone} />
+          </Card>
+        </div>
+      )}
+
       {/* Snapshots List */}
       <div className="mt-8">
         <Card>
@@ -354,6 +582,7 @@ export function ClientDetailPage() {
                   snapshot={snapshot}
                   clientId={clientId!}
                   onDeleted={loadSnapshots}
+                  onRestored={loadSnapshots}
                 />
               ))}
             </div>
@@ -372,6 +601,14 @@ export function ClientDetailPage() {
         }}
       />
 
+      <Modal
+        isOpen={showBrandingModal}
+        onClose={() => setShowBrandingModal(false)}
+        title="Report Branding"
+      >
+        <BrandingForm clientId={client.id} />
+      </Modal>
+
       <Modal
         isOpen={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
@@ -413,6 +650,21 @@ export function ClientDetailPage() {
   );
 }
 
+const JOB_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Poll a queued job until it finishes, or until an attempt fails and it waits to be retried
+ */
+async function waitForJob(jobId: string): Promise<JobSummary> {
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    const { job } = await api.getJob(jobId);
+    if (["completed", "failed", "cancelled"].includes(job.status) || job.errorMessage) {
+      return job;
+    }
+  }
+}
+
 interface ReportGeneratorProps {
   clientId: string;
   hasGA4: boolean;
@@ -425,6 +677,12 @@ function ReportGenerator({ clientId, hasGA4, onGenerated }: ReportGeneratorProps
     now.setMonth(now.getMonth());
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
   });
+  const [periodType, setPeriodType] = useState<"month" | "range">("month");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [comparison, setComparison] = useState<ComparisonMode>("previous_period");
+  const [comparisonStartDate, setComparisonStartDate] = useState("");
+  const [comparisonEndDate, setComparisonEndDate] = useState("");
   const [shouldRegenerate, setShouldRegenerate] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -435,12 +693,31 @@ function ReportGenerator({ clientId, hasGA4, onGenerated }: ReportGeneratorProps
     setError(null);
     setSuccess(null);
 
+    const period: ReportPeriod = {
+      ...(periodType === "month" ? { month } : { startDate, endDate }),
+      comparison,
+      ...(comparison === "custom" ? { comparisonStartDate, comparisonEndDate } : {}),
+    };
+
     try {
-      await api.generateReport(clientId, month, shouldRegenerate);
-      setSuccess("Report generated successfully!");
+      const result = await api.generateReport(clientId, period, shouldRegenerate);
+      if ("job" in result) {
+        const job = await waitForJob(result.job.id);
+        if (job.status === "completed") {
+          setSuccess("Report generated successfully!");
+        } else if (job.status === "failed") {
+          setError(job.errorMessage ?? "Failed to generate report");
+        } else if (job.status === "cancelled") {
+          setError("Report generation was cancelled.");
+        } else {
+          setError(`${job.errorMessage ?? "Generation failed"}. Retrying automatically.`);
+        }
+      } else {
+        setSuccess("Report already exists. Tick regenerate to overwrite it.");
+      }
       onGenerated();
     } catch (err) {
-      setError("Failed to generate report");
+      setError(err instanceof Error ? err.message : "Failed to generate report");
       console.error(err);
     } finally {
       setIsGenerating(false);
@@ -450,14 +727,78 @@ function ReportGenerator({ clientId, hasGA4, onGenerated }: ReportGeneratorProps
   return (
     <div className="space-y-4">
       <div>
-        <label className="block text-sm font-medium text-gray-700 mb-1">Report Month</label>
-        <input
-          type="month"
-          value={month}
-          onChange={(e) => setMonth(e.target.value)}
+        <label htmlFor="report-period-type" className="block text-sm font-medium text-gray-700 mb-1">
+          Report Period
+        </label>
+        <select
+          id="report-period-type"
+          value={periodType}
+          onChange={(e) => setPeriodType(e.target.value as "month" | "range")}
           className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-        />
+        >
+          <option value="month">Calendar month</option>
+          <option value="range">Custom date range</option>
+        </select>
       </div>
+      {periodType === "month" ? (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Report Month</label>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            label="Start date"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+          <Input
+            label="End date"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+      )}
+      <div>
+        <label htmlFor="report-comparison" className="block text-sm font-medium text-gray-700 mb-1">
+          Compare With
+        </label>
+        <select
+          id="report-comparison"
+          value={comparison}
+          onChange={(e) => setComparison(e.target.value as ComparisonMode)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {Object.entries(COMPARISON_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {comparison === "custom" && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            label="Comparison start"
+            type="date"
+            value={comparisonStartDate}
+            onChange={(e) => setComparisonStartDate(e.target.value)}
+          />
+          <Input
+            label="Comparison end"
+            type="date"
+            value={comparisonEndDate}
+            onChange={(e) => setComparisonEndDate(e.target.value)}
+          />
+        </div>
+      )}
       <div className="flex items-center gap-2">
         <input
           id="regenerate-report"
@@ -467,7 +808,7 @@ function ReportGenerator({ clientId, hasGA4, onGenerated }: ReportGeneratorProps
           className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
         />
         <label htmlFor="regenerate-report" className="text-sm text-gray-700">
-          Regenerate report (overwrite existing PDF)
+          Regenerate report (refetch data and overwrite existing PDF)
         </label>
       </div>
 
@@ -477,7 +818,14 @@ function ReportGenerator({ clientId, hasGA4, onGenerated }: ReportGeneratorProps
         </div>
       )}
 
-      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
+      {error && (
+        <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">
+          {error}{" "}
+          <Link to={`/jobs?clientId=${clientId}`} className="underline">
+            View job history
+          </Link>
+        </div>
+      )}
 
       {success && (
         <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">{success}</div>
@@ -490,108 +838,6 @@ function ReportGenerator({ clientId, hasGA4, onGenerated }: ReportGeneratorProps
   );
 }
 
-interface SnapshotRowProps {
-  snapshot: SnapshotSummary;
-  clientId: string;
-  onDeleted: () => void;
-}
-
-function SnapshotRow({ snapshot, clientId, onDeleted }: SnapshotRowProps) {
-  const [isDeleting, setIsDeleting] = useState(false);
-  const [deleteError, setDeleteError] = useState<string | null>(null);
-  const [yearStr, monthStr, dayStr] = snapshot.snapshotDate.split("-");
-  const year = Number(yearStr);
-  const month = Number(monthStr);
-  const day = Number(dayStr);
-  const date = new Date(year, month - 1, day);
-  const monthLabel = date.toLocaleDateString("en-US", {
-    year: "numeric",
-    month: "long",
-  });
-
-  const handleDeleteSnapshot = async () => {
-    if (isDeleting) return;
-    const shouldDelete = window.confirm(
-      `Delete the ${monthLabel} report? This cannot be undone.`
-    );
-    if (!shouldDelete) return;
-
-    setIsDeleting(true);
-    setDeleteError(null);
-
-    try {
-      await api.deleteSnapshot(snapshot.id);
-      onDeleted();
-    } catch {
-      setDeleteError("Failed to delete report");
-    } finally {
-      setIsDeleting(false);
-    }
-  };
-
-  return (
-    <div className="py-4 px-2">
-      <div className="flex items-center justify-between">
-        <div>
-          <p className="font-medium text-gray-900">{monthLabel}</p>
-          <div className="flex gap-4 text-sm text-gray-600">
-            {snapshot.metricsSummary.sessions && (
-              <span>{snapshot.metricsSummary.sessions.toLocaleString()} sessions</span>
-            )}
-            {snapshot.metricsSummary.users && (
-              <span>{snapshot.metricsSummary.users.toLocaleString()} users</span>
-            )}
-          </div>
-        </div>
-        <div className="flex items-center gap-2">
-          <Link to={`/clients/${clientId}/preview?month=${snapshot.snapshotDate.slice(0, 7)}`}>
-            <Button variant="ghost" size="sm">
-              Preview
-            </Button>
-          </Link>
-          {snapshot.hasPdf && (
-            <a href={api.getPdfDownloadUrl(snapshot.id)} target="_blank" rel="noopener noreferrer">
-              <Button variant="secondary" size="sm">
-                Download PDF
-              </Button>
-            </a>
-          )}
-          <Button
-            variant="ghost"
-            size="sm"
-            className="text-red-600 hover:text-red-700"
-            onClick={handleDeleteSnapshot}
-            isLoading={isDeleting}
-            aria-label="Delete report"
-          >
-            <svg
-              className="w-4 h-4"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth={2}
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              aria-hidden="true"
-            >
-              <path d="M3 6h18" />
-              <path d="M8 6v12" />
-              <path d="M16 6v12" />
-              <path d="M5 6l1-2h12l1 2" />
-              <path d="M7 6h10v14H7z" />
-            </svg>
-          </Button>
-        </div>
-      </div>
-      {deleteError && (
-        <div className="text-sm text-red-600 mt-2" role="alert">
-          {deleteError}
-        </div>
-      )}
-    </div>
-  );
-}
-
 interface EditClientModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -602,27 +848,72 @@ interface EditClientModalProps {
 function EditClientModal({ isOpen, onClose, client, onUpdated }: EditClientModalProps) {
   const [name, setName] = useState(client.name);
   const [primaryDomain, setPrimaryDomain] = useState(client.primaryDomain || "");
+  const [contactEmails, setContactEmails] = useState(client.contactEmails.join(", "));
+  const [emailSubject, setEmailSubject] = useState(client.emailSubjectTemplate || "");
+  const [emailBody, setEmailBody] = useState(client.emailBodyTemplate || "");
+  const [retentionMonths, setRetentionMonths] = useState(client.retentionMonths?.toString() ?? "");
+  const [reportTemplate, setReportTemplate] = useState(client.reportTemplate ?? "");
+  const [locale, setLocale] = useState<ReportLocale>(client.locale);
+  const [currency, setCurrency] = useState(client.currency ?? "");
+  const [reportTemplates, setReportTemplates] = useState<ReportTemplate[]>([]);
+  const [defaultTemplate, setDefaultTemplate] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     setName(client.name);
     setPrimaryDomain(client.primaryDomain || "");
+    setContactEmails(client.contactEmails.join(", "));
+    setEmailSubject(client.emailSubjectTemplate || "");
+    setEmailBody(client.emailBodyTemplate || "");
+    setRetentionMonths(client.retentionMonths?.toString() ?? "");
+    setReportTemplate(client.reportTemplate ?? "");
+    setLocale(client.locale);
+    setCurrency(client.currency ?? "");
   }, [client]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+
+    api
+      .getReportTemplates()
+      .then(({ templates, defaultTemplate }) => {
+        setReportTemplates(templates);
+        setDefaultTemplate(defaultTemplate);
+      })
+      .catch(() => setError("Failed to load report templates"));
+  }, [isOpen]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     setError(null);
 
+    const emails = contactEmails
+      .split(",")
+      .map((email) => email.trim())
+      .filter(Boolean);
+    const templates = {
+      emailSubjectTemplate: emailSubject.trim() || null,
+      emailBodyTemplate: emailBody.trim() || null,
+    };
+    const retention = retentionMonths.trim() ? parseInt(retentionMonths, 10) : null;
+    const currencyCode = currency.trim().toUpperCase() || null;
+
     try {
-      await api.updateClient(client.id, {
+      const { client: updated } = await api.updateClient(client.id, {
         name,
         primaryDomain: primaryDomain || undefined,
+        contactEmails: emails,
+        retentionMonths: retention,
+        reportTemplate: reportTemplate || null,
+        locale,
+        currency: currencyCode,
+        ...templates,
       });
-      onUpdated({ name, primaryDomain: primaryDomain || null });
-    } catch {
-      setError("Failed to update client");
+      onUpdated(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update client");
     } finally {
       setIsSubmitting(false);
     }
@@ -656,6 +947,101 @@ function EditClientModal({ isOpen, onClose, client, onUpdated }: EditClientModal
           value={primaryDomain}
           onChange={(e) => setPrimaryDomain(e.target.value)}
         />
+        <Input
+          label="Report Recipients"
+          value={contactEmails}
+          onChange={(e) => setContactEmails(e.target.value)}
+          placeholder="ceo@example.com, marketing@example.com"
+        />
+        <Input
+          label="Email Subject"
+          value={emailSubject}
+          onChange={(e) => setEmailSubject(e.target.value)}
+          placeholder="{{clientName}} report: {{periodLabel}}"
+        />
+        <div>
+          <label htmlFor="email-body-template" className="block text-sm font-medium text-gray-700 mb-1">
+            Email Body
+          </label>
+          <textarea
+            id="email-body-template"
+            rows={5}
+            value={emailBody}
+            onChange={(e) => setEmailBody(e.target.value)}
+            placeholder="Leave blank to use the default message"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Available placeholders: {"{{clientName}}, {{periodLabel}}, {{periodStart}}, {{periodEnd}}, {{reportUrl}}"}.
+            The download link is added if the body leaves it out.
+          </p>
+        </div>
+        <div>
+          <Input
+            label="Keep Reports For (months)"
+            type="number"
+            min={1}
+            max={120}
+            value={retentionMonths}
+            onChange={(e) => setRetentionMonths(e.target.value)}
+            placeholder="24"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Older reports move to the trash and are permanently deleted 30 days later.
+          </p>
+        </div>
+        <div>
+          <label htmlFor="report-template" className="block text-sm font-medium text-gray-700 mb-1">
+            Report Template
+          </label>
+          <select
+            id="report-template"
+            value={reportTemplate}
+            onChange={(e) => setReportTemplate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Default{defaultTemplate ? ` (${defaultTemplate})` : ""}</option>
+            {reportTemplates.map((template) => (
+              <option key={template.ref} value={template.ref}>
+                {template.name} {template.version}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Used for new reports. Existing reports keep the template they were generated with.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="report-locale" className="block text-sm font-medium text-gray-700 mb-1">
+              Report Language
+            </label>
+            <select
+              id="report-locale"
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as ReportLocale)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(REPORT_LOCALES) as ReportLocale[]).map((id) => (
+                <option key={id} value={id}>
+                  {REPORT_LOCALES[id]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="Currency"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            placeholder="USD"
+            maxLength={3}
+          />
+        </div>
+        <p className="text-xs text-gray-500">
+          Numbers, dates and report text follow the language and region. The currency applies to
+          amounts a data source doesn't report its own currency for. Existing reports keep the
+          settings they were generated with.
+        </p>
         {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm">{error}</div>}
       </form>
     </Modal>
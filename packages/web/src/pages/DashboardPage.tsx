@@ -1,4 +1,4 @@
-import type { ClientListItem } from "@agency-reports/shared";
+import type { ClientListItem, DataSourceType } from "@agency-reports/shared";
 import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import { Layout } from "../components/Layout";
@@ -10,6 +10,12 @@ import { Modal } from "../components/ui/Modal";
 import { Spinner } from "../components/ui/Spinner";
 import { api } from "../lib/api";
 
+const DATA_SOURCE_LABELS: Record<DataSourceType, string> = {
+  google_analytics: "Google Analytics",
+  google_ads: "Google Ads",
+  rank_tracker: "Rank Tracker",
+};
+
 export function DashboardPage() {
   const [clients, setClients] = useState<ClientListItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -36,6 +42,10 @@ export function DashboardPage() {
     setShowAddModal(false);
   };
 
+  const clientsNeedingReconnect = clients.filter((client) =>
+    client.dataSources.some((ds) => ds.needsReconnect)
+  );
+
   return (
     <Layout>
       {/* Header */}
@@ -76,6 +86,24 @@ export function DashboardPage() {
         <div className="bg-red-50 text-red-700 p-4 rounded-lg">{error}</div>
       )}
 
+      {/* Broken connections */}
+      {!isLoading && clientsNeedingReconnect.length > 0 && (
+        <div className="bg-yellow-50 text-yellow-800 p-4 rounded-lg mb-6 text-sm">
+          {clientsNeedingReconnect.length === 1
+            ? "1 client has"
+            : `${clientsNeedingReconnect.length} clients have`}{" "}
+          data sources that need to be reconnected before their next report:{" "}
+          {clientsNeedingReconnect.map((client, index) => (
+            <span key={client.id}>
+              {index > 0 && ", "}
+              <Link to={`/clients/${client.id}`} className="font-medium underline">
+                {client.name}
+              </Link>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Empty State */}
       {!isLoading && !error && clients.length === 0 && (
         <Card className="text-center py-12">
@@ -127,7 +155,7 @@ function ClientCard({ client }: { client: ClientListItem }) {
   const ga4Source = client.dataSources.find(
     (ds) => ds.type === "google_analytics"
   );
-
+  const brokenSources = client.dataSources.filter((ds) => ds.needsReconnect);
 
   return (
     <Link to={`/clients/${client.id}`}>
@@ -150,6 +178,23 @@ function ClientCard({ client }: { client: ClientListItem }) {
           )}
         </div>
 
+        {client.latestGoals && (
+          <p
+            className={`mt-3 text-sm ${
+              client.latestGoals.met < client.latestGoals.total ? "text-red-700" : "text-green-700"
+            }`}
+          >
+            {client.latestGoals.met < client.latestGoals.total ? "Off track: " : "On track: "}
+            {client.latestGoals.met} of {client.latestGoals.total} goals met in the last report
+          </p>
+        )}
+
+        {brokenSources.length > 0 && (
+          <p className="mt-3 text-sm text-yellow-800">
+            Reconnect {brokenSources.map((ds) => DATA_SOURCE_LABELS[ds.type]).join(", ")}
+          </p>
+        )}
+
         <div className="mt-4 pt-4 border-t border-gray-100 flex justify-between text-sm text-gray-600">
           <span>
             Last report:{" "}
@@ -157,6 +202,9 @@ function ClientCard({ client }: { client: ClientListItem }) {
               ? new Date(client.lastReportDate).toLocaleDateString()
               : "Never"}
           </span>
+          {client.nextRun && (
+            <span>Next run: {new Date(client.nextRun).toLocaleDateString()}</span>
+          )}
         </div>
       </Card>
     </Link>
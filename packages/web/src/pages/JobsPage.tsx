@@ -0,0 +1,324 @@
+import type { ClientListItem, JobStatus, JobType } from "@agency-reports/shared";
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { JobStatusBadge } from "../components/jobs/JobStatusBadge";
+import { Layout } from "../components/Layout";
+import { Button } from "../components/ui/Button";
+import { Card } from "../components/ui/Card";
+import { Input } from "../components/ui/Input";
+import { Spinner } from "../components/ui/Spinner";
+import { api, type JobFilters, type JobSummary } from "../lib/api";
+import { formatMonthLabel, formatPeriodLabel } from "../lib/periods";
+
+const PAGE_SIZE = 50;
+
+const JOB_TYPE_LABELS: Record<JobType, string> = {
+  snapshot: "Snapshot",
+  render: "PDF render",
+  email: "Email",
+  full_report: "Full report",
+  anomaly_check: "Anomaly check",
+};
+
+const JOB_STATUSES: JobStatus[] = ["pending", "running", "completed", "failed", "cancelled"];
+
+export function JobsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [clients, setClients] = useState<ClientListItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const page = Number(searchParams.get("page") || "1");
+  const filters: JobFilters = {
+    clientId: searchParams.get("clientId") || undefined,
+    status: (searchParams.get("status") as JobStatus | null) || undefined,
+    type: (searchParams.get("type") as JobType | null) || undefined,
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
+  };
+
+  const loadJobs = async () => {
+    setError(null);
+    try {
+      const result = await api.getJobs({
+        ...filters,
+        limit: PAGE_SIZE,
+        offset: (page - 1) * PAGE_SIZE,
+      });
+      setJobs(result.jobs);
+      setTotal(result.total);
+    } catch (err) {
+      setError(`Failed to load jobs: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    api
+      .getClients()
+      .then(({ clients }) => setClients(clients))
+      .catch(() => setClients([]));
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [searchParams]);
+
+  const setFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    next.delete("page");
+    setSearchParams(next);
+  };
+
+  const setPage = (nextPage: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("page", String(nextPage));
+    setSearchParams(next);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const selectClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <Layout>
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Jobs</h1>
+          <p className="text-gray-600 mt-1">Report generation history and failures</p>
+        </div>
+        <Button variant="secondary" onClick={loadJobs}>
+          Refresh
+        </Button>
+      </div>
+
+      <Card className="mb-6">
+        <div className="grid gap-4 md:grid-cols-5">
+          <div>
+            <label htmlFor="job-client" className="block text-sm font-medium text-gray-700 mb-1">
+              Client
+            </label>
+            <select
+              id="job-client"
+              value={filters.clientId ?? ""}
+              onChange={(e) => setFilter("clientId", e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">All clients</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>
+                  {client.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="job-status" className="block text-sm font-medium text-gray-700 mb-1">
+              Status
+            </label>
+            <select
+              id="job-status"
+              value={filters.status ?? ""}
+              onChange={(e) => setFilter("status", e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">All statuses</option>
+              {JOB_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="job-type" className="block text-sm font-medium text-gray-700 mb-1">
+              Type
+            </label>
+            <select
+              id="job-type"
+              value={filters.type ?? ""}
+              onChange={(e) => setFilter("type", e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">All types</option>
+              {Object.entries(JOB_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="From"
+            type="date"
+            value={filters.from ?? ""}
+            onChange={(e) => setFilter("from", e.target.value)}
+          />
+          <Input
+            label="To"
+            type="date"
+            value={filters.to ?? ""}
+            onChange={(e) => setFilter("to", e.target.value)}
+          />
+        </div>
+      </Card>
+
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" />
+        </div>
+      )}
+
+      {error && <div className="bg-red-50 text-red-700 p-4 rounded-lg">{error}</div>}
+
+      {!isLoading && !error && (
+        <Card padding="none">
+          {jobs.length === 0 ? (
+            <p className="text-gray-600 text-center py-12">No jobs match these filters</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {jobs.map((job) => (
+                <JobRow key={job.id} job={job} onChanged={loadJobs} />
+              ))}
+            </div>
+          )}
+        </Card>
+      )}
+
+      {!isLoading && pageCount > 1 && (
+        <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+          <span>
+            Page {page} of {pageCount} ({total} jobs)
+          </span>
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={page >= pageCount}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
+
+interface JobRowProps {
+  job: JobSummary;
+  onChanged: () => void;
+}
+
+function JobRow({ job, onChanged }: JobRowProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+
+  // A pending job with an error has failed an attempt and is waiting for its retry
+  const isRetrying = job.status === "pending" && !!job.errorMessage;
+  const period = getJobPeriodLabel(job);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsUpdating(true);
+    setActionError(null);
+    try {
+      await action();
+      onChanged();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Action failed");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="px-6 py-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <JobStatusBadge status={job.status} isRetrying={isRetrying} />
+            <span className="font-medium text-gray-900">{JOB_TYPE_LABELS[job.type]}</span>
+            {period && <span className="text-sm text-gray-600">· {period}</span>}
+          </div>
+          <p className="text-sm text-gray-600 mt-1">
+            <Link to={`/clients/${job.clientId}`} className="text-blue-600 hover:underline">
+              {job.clientName ?? "Client"}
+            </Link>
+            {" · "}
+            Created {new Date(job.createdAt).toLocaleString()}
+            {job.finishedAt && ` · Finished ${new Date(job.finishedAt).toLocaleString()}`}
+            {` · Attempt ${job.retryCount + 1}`}
+            {isRetrying && ` · Next attempt ${new Date(job.runAt).toLocaleString()}`}
+          </p>
+          {job.errorMessage && (
+            <p className="text-sm text-red-700 bg-red-50 rounded p-2 mt-2 break-words">
+              {job.errorMessage}
+            </p>
+          )}
+          {actionError && (
+            <p className="text-sm text-red-600 mt-2" role="alert">
+              {actionError}
+            </p>
+          )}
+          {showDetails && (
+            <pre className="text-xs text-gray-700 bg-gray-50 rounded p-2 mt-2 overflow-x-auto">
+              {JSON.stringify({ id: job.id, snapshotId: job.snapshotId, ...job.metadata }, null, 2)}
+            </pre>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button variant="ghost" size="sm" onClick={() => setShowDetails(!showDetails)}>
+            {showDetails ? "Hide details" : "Details"}
+          </Button>
+          {(job.status === "failed" || job.status === "cancelled") && (
+            <Button
+              variant="secondary"
+              size="sm"
+              isLoading={isUpdating}
+              onClick={() => runAction(() => api.retryJob(job.id))}
+            >
+              Retry
+            </Button>
+          )}
+          {job.status === "pending" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-600 hover:text-red-700"
+              isLoading={isUpdating}
+              onClick={() => runAction(() => api.cancelJob(job.id))}
+            >
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function getJobPeriodLabel(job: JobSummary): string | null {
+  const period = job.metadata.period as
+    | { month?: string; startDate?: string; endDate?: string }
+    | undefined;
+  if (period?.month) {
+    return formatMonthLabel(period.month);
+  }
+  if (period?.startDate && period.endDate) {
+    return formatPeriodLabel(period.startDate, period.endDate);
+  }
+  return null;
+}
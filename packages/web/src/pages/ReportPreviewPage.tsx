@@ -1,22 +1,34 @@
 import { useEffect, useState } from "react";
 import { Link, useParams, useSearchParams } from "react-router-dom";
+import { CommentaryPanel } from "../components/commentary/CommentaryPanel";
+import { HighlightsEditor } from "../components/commentary/HighlightsEditor";
 import { Button } from "../components/ui/Button";
 import { Spinner } from "../components/ui/Spinner";
-import { api } from "../lib/api";
+import { api, type SnapshotSummary } from "../lib/api";
+import {
+  formatMonthLabel,
+  formatPeriodLabel,
+  matchesPeriod,
+  parsePeriodParams,
+  toSearchParams,
+} from "../lib/periods";
 
 export function ReportPreviewPage() {
   const { clientId } = useParams<{ clientId: string }>();
   const [searchParams] = useSearchParams();
-  const month = searchParams.get("month") || getLastMonth();
+  const period = parsePeriodParams(searchParams, getLastMonth());
+  const periodKey = toSearchParams(period).toString();
 
   const [previewHtml, setPreviewHtml] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [snapshotId, setSnapshotId] = useState<string | null>(null);
+  const [hasPdf, setHasPdf] = useState(false);
+  const [showCommentary, setShowCommentary] = useState(false);
 
   useEffect(() => {
     loadPreview();
-  }, [clientId, month]);
+  }, [clientId, periodKey]);
 
   const loadPreview = async () => {
     setIsLoading(true);
@@ -25,15 +37,14 @@ export function ReportPreviewPage() {
     try {
       // First, get the snapshot to have its ID for PDF download
       const { snapshots } = await api.getSnapshots(clientId!);
-      const snapshot = snapshots.find(
-        (s) => s.snapshotDate.startsWith(month)
-      );
+      const snapshot = snapshots.find((s) => matchesPeriod(s, period));
       if (snapshot) {
         setSnapshotId(snapshot.id);
+        setHasPdf(snapshot.hasPdf);
       }
 
       // Fetch the preview HTML
-      const previewUrl = await api.getReportPreviewUrl(clientId!, month);
+      const previewUrl = await api.getReportPreviewUrl(clientId!, period);
       const response = await fetch(previewUrl);
       if (!response.ok) {
         throw new Error("Failed to load preview");
@@ -47,15 +58,16 @@ export function ReportPreviewPage() {
       setIsLoading(false);
     }
   };
-  
-  
 
-  const [monthYearStr, monthMonthStr] = month.split("-");
-  const monthLabelDate = new Date(Number(monthYearStr), Number(monthMonthStr) - 1, 1);
-  const monthLabel = monthLabelDate.toLocaleDateString("en-US", {
-    year: "numeric",
-    month: "long",
-  });
+  // Saved edits show up in the preview; a rendered PDF now needs regenerating
+  const handleCommentarySaved = (snapshot: SnapshotSummary) => {
+    setHasPdf(snapshot.hasPdf);
+    loadPreview();
+  };
+
+  const periodLabel = period.month
+    ? formatMonthLabel(period.month)
+    : formatPeriodLabel(period.startDate!, period.endDate!);
 
   return (
     <div className="min-h-screen bg-gray-100 flex flex-col">
@@ -82,12 +94,17 @@ export function ReportPreviewPage() {
           </Link>
           <div>
             <h1 className="font-semibold text-gray-900">Report Preview</h1>
-            <p className="text-sm text-gray-600">{monthLabel}</p>
+            <p className="text-sm text-gray-600">{periodLabel}</p>
           </div>
         </div>
 
         <div className="flex items-center gap-2">
           {snapshotId && (
+            <Button variant="secondary" onClick={() => setShowCommentary((open) => !open)}>
+              {showCommentary ? "Hide Commentary" : "Edit Commentary"}
+            </Button>
+          )}
+          {snapshotId && hasPdf && (
             <a
               href={api.getPdfDownloadUrl(snapshotId)}
               target="_blank"
@@ -115,34 +132,45 @@ export function ReportPreviewPage() {
       </header>
 
       {/* Content */}
-      <div className="flex-1 p-4 overflow-auto">
-        {isLoading && (
-          <div className="flex items-center justify-center h-full">
-            <Spinner size="lg" />
-          </div>
-        )}
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 p-4 overflow-auto">
+          {isLoading && (
+            <div className="flex items-center justify-center h-full">
+              <Spinner size="lg" />
+            </div>
+          )}
 
-        {error && (
-          <div className="max-w-2xl mx-auto mt-12">
-            <div className="bg-red-50 text-red-700 p-4 rounded-lg text-center">
-              {error}
-              <div className="mt-4">
-                <Link to={`/clients/${clientId}`}>
-                  <Button variant="secondary">Back to Client</Button>
-                </Link>
+          {error && (
+            <div className="max-w-2xl mx-auto mt-12">
+              <div className="bg-red-50 text-red-700 p-4 rounded-lg text-center">
+                {error}
+                <div className="mt-4">
+                  <Link to={`/clients/${clientId}`}>
+                    <Button variant="secondary">Back to Client</Button>
+                  </Link>
+                </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
 
-        {previewHtml && (
-          <div className="bg-white shadow-lg mx-auto max-w-4xl">
-            <iframe
-              srcDoc={previewHtml}
-              className="w-full h-[calc(100vh-8rem)] border-0"
-              title="Report Preview"
-            />
-          </div>
+          {previewHtml && (
+            <div className="bg-white shadow-lg mx-auto max-w-4xl">
+              <iframe
+                srcDoc={previewHtml}
+                className="w-full h-[calc(100vh-8rem)] border-0"
+                title="Report Preview"
+              />
+            </div>
+          )}
+        </div>
+
+        {showCommentary && snapshotId && (
+          <aside className="w-96 shrink-0 bg-white border-l border-gray-200 p-4 overflow-auto">
+            <h2 className="font-semibold text-gray-900 mb-4">Highlights</h2>
+            <HighlightsEditor snapshotId={snapshotId} onSaved={handleCommentarySaved} />
+            <h2 className="font-semibold text-gray-900 mt-8 mb-4">Commentary</h2>
+            <CommentaryPanel snapshotId={snapshotId} onSaved={handleCommentarySaved} />
+          </aside>
         )}
       </div>
     </div>